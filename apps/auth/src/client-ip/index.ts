@@ -0,0 +1,31 @@
+import type { Context } from "elysia";
+import { REQUEST_CONFIG } from "../configs";
+
+const trustedProxies = new Set(REQUEST_CONFIG.TRUSTED_PROXIES);
+
+/**
+ * IP thật của client. Mặc định lấy IP của socket; chỉ khi socket là proxy tin cậy
+ * mới đọc X-Forwarded-For từ hop cuối, bỏ qua các proxy tin cậy, vì phần bên trái
+ * của header do client tự gửi và giả mạo được
+ */
+export const resolveClientIp = ({
+  request,
+  server,
+}: Pick<Context, "request" | "server">): string => {
+  const socketIp = server?.requestIP(request)?.address;
+  if (!socketIp) return "unknown";
+  if (!trustedProxies.has(socketIp)) return socketIp;
+
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+
+  for (let index = hops.length - 1; index >= 0; index--) {
+    if (!trustedProxies.has(hops[index])) {
+      return hops[index];
+    }
+  }
+
+  return hops[0] ?? socketIp;
+};
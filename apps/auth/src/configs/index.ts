@@ -4,6 +4,10 @@ export const SERVICE_CONFIG = {
   SERVICE_GRPC_PORT: process.env.SERVICE_GRPC_PORT ?? 31001,
   NODE_ENV: process.env.NODE_ENV ?? "development",
   DATA_ENCRYPT_SECRET_KEY: process.env.DATA_ENCRYPT_SECRET_KEY ?? "",
+  // Tuổi tối đa (phút) của device payload mã hóa từ client
+  DATA_ENCRYPT_MAX_AGE_MINUTES: Number(
+    process.env.DATA_ENCRYPT_MAX_AGE_MINUTES ?? 60
+  ),
 };
 
 export const PG_CONFIG = {
@@ -22,8 +26,268 @@ export const REDIS_CONFIG = {
 };
 
 export const JWT_CONFIG = {
-  JWT_SECRET: process.env.JWT_SECRET,
-  JWT_REFRESH_SECRET: process.env.JWT_REFRESH_SECRET,
-  JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN,
-  JWT_REFRESH_EXPIRES_IN: process.env.JWT_REFRESH_EXPIRES_IN,
+  JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || "15m",
+  JWT_REFRESH_EXPIRES_IN: process.env.JWT_REFRESH_EXPIRES_IN || "30d",
+  JWT_DEVICE_EXPIRES_IN: process.env.JWT_DEVICE_EXPIRES_IN || "30d",
+  // Claim iss của mọi token do auth service ký
+  JWT_ISSUER: process.env.JWT_ISSUER || "wibutime-auth",
+  // JSON array các signing key: [{ kid, alg: "ES256" | "EdDSA", privateKey (PKCS#8 PEM), activateAt?, retireAt? }]
+  JWT_SIGNING_KEYS: process.env.JWT_SIGNING_KEYS,
+  // Key đã retire vẫn được verify trong khoảng này, phải >= thời gian sống dài nhất của token (giây)
+  JWT_KEY_RETIRED_TTL: Number(
+    process.env.JWT_KEY_RETIRED_TTL ?? 30 * 24 * 60 * 60
+  ),
+  // Cache-Control max-age của JWKS endpoint (giây)
+  JWKS_MAX_AGE: Number(process.env.JWKS_MAX_AGE ?? 300),
+};
+
+export const RISK_CONFIG = {
+  // Risk score >= ngưỡng này sẽ bị đánh dấu cần review
+  RISK_REVIEW_THRESHOLD: Number(process.env.RISK_REVIEW_THRESHOLD ?? 50),
+  // Risk score >= ngưỡng này sẽ tự động block device
+  RISK_BLOCK_THRESHOLD: Number(process.env.RISK_BLOCK_THRESHOLD ?? 80),
+};
+
+export const MFA_CONFIG = {
+  MFA_ISSUER: process.env.MFA_ISSUER || "Wibutime",
+  // Key mã hóa TOTP secret trước khi lưu DB
+  MFA_ENCRYPT_SECRET_KEY: process.env.MFA_ENCRYPT_SECRET_KEY,
+  // Thời gian sống của challenge token ở bước đăng nhập thứ hai (giây)
+  MFA_CHALLENGE_TTL: Number(process.env.MFA_CHALLENGE_TTL ?? 300),
+  MFA_CHALLENGE_MAX_ATTEMPTS: 5,
+  // Tổng số lần thử mã 2FA của một user trên mọi challenge trong cửa sổ
+  MFA_USER_MAX_ATTEMPTS: Number(process.env.MFA_USER_MAX_ATTEMPTS ?? 10),
+  MFA_USER_ATTEMPT_WINDOW_MS: 15 * 60 * 1000,
+  MFA_BACKUP_CODE_COUNT: 10,
+};
+
+export const MAIL_CONFIG = {
+  // smtp | file | console, production bắt buộc smtp
+  MAIL_TRANSPORT: process.env.MAIL_TRANSPORT || "console",
+  MAIL_FROM: process.env.MAIL_FROM || "Wibutime <no-reply@wibutime.com>",
+  SMTP_HOST: process.env.SMTP_HOST || "localhost",
+  SMTP_PORT: Number(process.env.SMTP_PORT ?? 587),
+  SMTP_SECURE: process.env.SMTP_SECURE === "true",
+  SMTP_USER: process.env.SMTP_USER,
+  SMTP_PASSWORD: process.env.SMTP_PASSWORD,
+  // Cho phép gửi credentials khi server không hỗ trợ STARTTLS, chỉ dùng cho SMTP nội bộ/dev
+  SMTP_ALLOW_INSECURE_AUTH: process.env.SMTP_ALLOW_INSECURE_AUTH === "true",
+  // Thư mục lưu file .eml khi MAIL_TRANSPORT=file
+  MAIL_FILE_DIR: process.env.MAIL_FILE_DIR || "./tmp/mails",
+  // URL frontend dùng để tạo link xác minh email / đặt lại mật khẩu
+  APP_URL: process.env.APP_URL || "http://localhost:3000",
+};
+
+export const ACCOUNT_TOKEN_CONFIG = {
+  // Thời gian sống của link xác minh email (giây)
+  EMAIL_VERIFICATION_TTL: Number(
+    process.env.EMAIL_VERIFICATION_TTL ?? 24 * 60 * 60
+  ),
+  // Thời gian sống của link đặt lại mật khẩu (giây)
+  PASSWORD_RESET_TTL: Number(process.env.PASSWORD_RESET_TTL ?? 60 * 60),
+  // Thời gian sống của magic link đăng nhập (giây)
+  MAGIC_LINK_TTL: Number(process.env.MAGIC_LINK_TTL ?? 15 * 60),
+  // Số magic link tối đa gửi cho một email trong một cửa sổ
+  MAGIC_LINK_SEND_LIMIT: Number(process.env.MAGIC_LINK_SEND_LIMIT ?? 5),
+  MAGIC_LINK_SEND_WINDOW_MS: Number(
+    process.env.MAGIC_LINK_SEND_WINDOW_MS ?? 60 * 60 * 1000
+  ),
+};
+
+export const SMS_CONFIG = {
+  // Provider gửi SMS, "log" chỉ ghi ra console
+  SMS_PROVIDER: process.env.SMS_PROVIDER || "log",
+  // Thời gian sống của mã OTP xác minh số điện thoại (giây)
+  PHONE_OTP_TTL: Number(process.env.PHONE_OTP_TTL ?? 300),
+  PHONE_OTP_LENGTH: 6,
+  PHONE_OTP_MAX_ATTEMPTS: 5,
+  // Số lần gửi OTP tối đa cho mỗi user / số điện thoại trong một cửa sổ
+  PHONE_OTP_SEND_LIMIT: Number(process.env.PHONE_OTP_SEND_LIMIT ?? 5),
+  PHONE_OTP_SEND_WINDOW_MS: Number(
+    process.env.PHONE_OTP_SEND_WINDOW_MS ?? 60 * 60 * 1000
+  ),
+};
+
+// Chính sách khóa cho từng chiều (IP, device, account) khi đăng nhập sai nhiều lần
+export interface LockoutPolicy {
+  threshold: number; // Số lần sai trong window trước khi khóa
+  windowMs: number;
+  baseLockSeconds: number; // Thời gian khóa lần đầu, nhân đôi sau mỗi lần khóa tiếp theo
+  maxLockSeconds: number;
+}
+
+export const LOCKOUT_CONFIG = {
+  // Ngưỡng device/IP phải thấp hơn account để một nguồn tấn công bị chặn
+  // trước khi kịp khóa tài khoản của nạn nhân
+  DEVICE: {
+    threshold: Number(process.env.LOCKOUT_DEVICE_THRESHOLD ?? 5),
+    windowMs: 15 * 60 * 1000,
+    baseLockSeconds: 60,
+    maxLockSeconds: 24 * 60 * 60,
+  } satisfies LockoutPolicy,
+  IP: {
+    threshold: Number(process.env.LOCKOUT_IP_THRESHOLD ?? 8),
+    windowMs: 15 * 60 * 1000,
+    baseLockSeconds: 60,
+    maxLockSeconds: 24 * 60 * 60,
+  } satisfies LockoutPolicy,
+  ACCOUNT: {
+    threshold: Number(process.env.LOCKOUT_ACCOUNT_THRESHOLD ?? 10),
+    windowMs: 15 * 60 * 1000,
+    baseLockSeconds: 5 * 60,
+    maxLockSeconds: 60 * 60,
+  } satisfies LockoutPolicy,
+  // Số lần đã bị khóa được nhớ trong khoảng này để tính backoff (giây)
+  LOCK_LEVEL_TTL: 24 * 60 * 60,
+  // Thời gian sống của link mở khóa tài khoản (giây)
+  UNLOCK_TOKEN_TTL: Number(process.env.LOCKOUT_UNLOCK_TOKEN_TTL ?? 60 * 60),
+  // Device đã đăng nhập thành công vào account được bỏ qua account lock trong khoảng này (giây)
+  TRUSTED_DEVICE_TTL: Number(
+    process.env.LOCKOUT_TRUSTED_DEVICE_TTL ?? 30 * 24 * 60 * 60
+  ),
+  // Giới hạn số device token cấp cho một IP, để không thể đổi device liên tục né khóa theo device
+  DEVICE_TOKEN_LIMIT: Number(process.env.LOCKOUT_DEVICE_TOKEN_LIMIT ?? 20),
+  DEVICE_TOKEN_WINDOW_MS: 60 * 60 * 1000,
+};
+
+export const REQUEST_CONFIG = {
+  // IP của các proxy tin cậy (VD: gateway), phân tách bằng dấu phẩy. Chỉ request đi tới
+  // từ các IP này mới được đọc IP client từ X-Forwarded-For
+  TRUSTED_PROXIES: (
+    process.env.TRUSTED_PROXIES ?? "127.0.0.1,::1,::ffff:127.0.0.1"
+  )
+    .split(",")
+    .map((ip) => ip.trim())
+    .filter(Boolean),
+};
+
+export const RBAC_CONFIG = {
+  // Role mặc định cho user mới và user chưa được gán role
+  DEFAULT_USER_ROLE: "USER",
+  // Role của guest device (chưa đăng nhập)
+  GUEST_ROLE: "GUEST",
+  // Role cao nhất, có quyền quản lý RBAC
+  SUPER_ADMIN_ROLE: "SUPER_ADMIN",
+  // Email của user được gán SUPER_ADMIN khi khởi động nếu chưa có ai giữ role này
+  BOOTSTRAP_ADMIN_EMAIL: process.env.RBAC_BOOTSTRAP_ADMIN_EMAIL ?? "",
+  // Permission cần có để dùng admin API quản lý role/permission
+  MANAGE_PERMISSION: "rbac:manage",
+  // Permission cần có để tra cứu và kiểm tra audit log
+  AUDIT_PERMISSION: "audit:read",
+  // Thời gian cache role graph trong Redis (giây)
+  GRAPH_CACHE_TTL: 300,
+};
+
+export const TOKEN_VALIDATION_CONFIG = {
+  // Từ chối access token khi IP gửi kèm khác IP của session.
+  // Mặc định tắt vì IP của thiết bị di động thay đổi thường xuyên
+  ENFORCE_IP_BINDING: process.env.TOKEN_ENFORCE_IP_BINDING === "true",
+};
+
+// Provider đăng nhập OAuth2/OIDC. Provider OIDC (có issuer) lấy endpoints từ
+// discovery document, provider OAuth2 thuần khai báo endpoints trực tiếp
+export interface OAuthProviderConfig {
+  name: string; // Tên hiển thị
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  issuer?: string;
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  userinfoEndpoint?: string;
+  trustEmail?: boolean; // Provider chỉ trả về email đã xác minh nhưng không có claim email_verified
+}
+
+export const OAUTH_CONFIG = {
+  // URL frontend nhận redirect từ provider, {provider} được thay bằng id của provider
+  REDIRECT_URL:
+    process.env.OAUTH_REDIRECT_URL ||
+    `${MAIL_CONFIG.APP_URL}/oauth/{provider}/callback`,
+  // Thời gian sống của state (giây) giữa bước authorize và callback
+  STATE_TTL: Number(process.env.OAUTH_STATE_TTL ?? 600),
+  // Provider chỉ được bật khi có client id
+  PROVIDERS: {
+    google: {
+      name: "Google",
+      clientId: process.env.OAUTH_GOOGLE_CLIENT_ID ?? "",
+      clientSecret: process.env.OAUTH_GOOGLE_CLIENT_SECRET ?? "",
+      scopes: ["openid", "email", "profile"],
+      issuer: "https://accounts.google.com",
+    },
+    discord: {
+      name: "Discord",
+      clientId: process.env.OAUTH_DISCORD_CLIENT_ID ?? "",
+      clientSecret: process.env.OAUTH_DISCORD_CLIENT_SECRET ?? "",
+      scopes: ["identify", "email"],
+      authorizationEndpoint: "https://discord.com/oauth2/authorize",
+      tokenEndpoint: "https://discord.com/api/oauth2/token",
+      userinfoEndpoint: "https://discord.com/api/users/@me",
+    },
+    facebook: {
+      name: "Facebook",
+      clientId: process.env.OAUTH_FACEBOOK_CLIENT_ID ?? "",
+      clientSecret: process.env.OAUTH_FACEBOOK_CLIENT_SECRET ?? "",
+      scopes: ["email", "public_profile"],
+      authorizationEndpoint: "https://www.facebook.com/v19.0/dialog/oauth",
+      tokenEndpoint: "https://graph.facebook.com/v19.0/oauth/access_token",
+      userinfoEndpoint:
+        "https://graph.facebook.com/me?fields=id,name,email,picture",
+      trustEmail: true,
+    },
+    // Provider OIDC tùy chỉnh (VD: Keycloak, mock provider khi phát triển)
+    oidc: {
+      name: process.env.OAUTH_OIDC_NAME || "OpenID Connect",
+      clientId: process.env.OAUTH_OIDC_CLIENT_ID ?? "",
+      clientSecret: process.env.OAUTH_OIDC_CLIENT_SECRET ?? "",
+      scopes: ["openid", "email", "profile"],
+      issuer: process.env.OAUTH_OIDC_ISSUER ?? "",
+    },
+  } as Record<string, OAuthProviderConfig>,
+};
+
+export const WEBAUTHN_CONFIG = {
+  // Relying party id phải là domain (hoặc domain cha) của frontend
+  RP_ID: process.env.WEBAUTHN_RP_ID || new URL(MAIL_CONFIG.APP_URL).hostname,
+  RP_NAME: process.env.WEBAUTHN_RP_NAME || "Wibutime",
+  // Các origin được phép gọi WebAuthn, phân tách bằng dấu phẩy
+  ORIGINS: (process.env.WEBAUTHN_ORIGINS || MAIL_CONFIG.APP_URL)
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/$/, ""))
+    .filter(Boolean),
+  // Thời gian sống của challenge giữa bước lấy options và verify (giây)
+  CHALLENGE_TTL: Number(process.env.WEBAUTHN_CHALLENGE_TTL ?? 300),
+  // Số passkey tối đa của một user
+  MAX_CREDENTIALS: 10,
+};
+
+export const PROFILE_CONFIG = {
+  // Khoảng thời gian tối thiểu giữa hai lần đổi user_name (giây)
+  USER_NAME_CHANGE_COOLDOWN: Number(
+    process.env.PROFILE_USER_NAME_CHANGE_COOLDOWN ?? 30 * 24 * 60 * 60
+  ),
+  // User_name cũ được giữ cho chủ cũ trong khoảng này, user khác không dùng được (giây)
+  USER_NAME_RESERVATION_TTL: Number(
+    process.env.PROFILE_USER_NAME_RESERVATION_TTL ?? 180 * 24 * 60 * 60
+  ),
+  // Giới hạn của bio (EditorContent)
+  BIO_MAX_BLOCKS: 20,
+  BIO_MAX_TEXT_LENGTH: 2000,
+};
+
+export const ACCOUNT_DELETION_CONFIG = {
+  // Thời gian chờ trước khi tài khoản bị xóa vĩnh viễn, user có thể hủy trong khoảng này (giây)
+  GRACE_PERIOD: Number(
+    process.env.ACCOUNT_DELETION_GRACE_PERIOD ?? 30 * 24 * 60 * 60
+  ),
+  // Chu kỳ chạy job xóa các tài khoản đã hết thời gian chờ (ms)
+  PURGE_INTERVAL_MS: Number(
+    process.env.ACCOUNT_DELETION_PURGE_INTERVAL_MS ?? 60 * 60 * 1000
+  ),
+  // Số tài khoản xử lý tối đa mỗi lần chạy job
+  PURGE_BATCH_SIZE: 100,
+  // Giới hạn số lần tải dữ liệu cá nhân trong một khoảng thời gian
+  EXPORT_LIMIT: 3,
+  EXPORT_WINDOW_MS: 24 * 60 * 60 * 1000,
+  // Số audit event tối đa trong một bản export
+  EXPORT_MAX_AUDIT_EVENTS: 5000,
 };
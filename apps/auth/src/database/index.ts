@@ -1,7 +1,18 @@
 import { PostgresConnectionManager } from "@repo/database";
 import { PG_CONFIG } from "../configs";
+import { AccountDeletionRequestRepository } from "./repositories/account-deletion-request.repository";
+import { AuthAuditEventRepository } from "./repositories/auth-audit-event.repository";
+import { MfaBackupCodeRepository } from "./repositories/mfa-backup-code.repository";
+import { MfaRepository } from "./repositories/mfa.repository";
+import { PermissionRepository } from "./repositories/permission.repository";
+import { RolePermissionRepository } from "./repositories/role-permission.repository";
+import { RoleRepository } from "./repositories/role.repository";
 import { SessionRepository } from "./repositories/session.repository";
+import { UserIdentityRepository } from "./repositories/user-identity.repository";
+import { UserNameReservationRepository } from "./repositories/user-name-reservation.repository";
+import { UserRoleRepository } from "./repositories/user-role.repository";
 import { UserRepository } from "./repositories/user.repository";
+import { WebAuthnCredentialRepository } from "./repositories/webauthn-credential.repository";
 
 // Khởi tạo PostgreSQL connection
 const postgresManager = new PostgresConnectionManager({
@@ -24,6 +35,22 @@ export { postgresManager };
 // Khởi tạo repositories với SQL connection
 export const userRepository = new UserRepository(sql);
 export const sessionRepository = new SessionRepository(sql);
+export const mfaRepository = new MfaRepository(sql);
+export const mfaBackupCodeRepository = new MfaBackupCodeRepository(sql);
+export const authAuditEventRepository = new AuthAuditEventRepository(sql);
+export const roleRepository = new RoleRepository(sql);
+export const permissionRepository = new PermissionRepository(sql);
+export const rolePermissionRepository = new RolePermissionRepository(sql);
+export const userRoleRepository = new UserRoleRepository(sql);
+export const userIdentityRepository = new UserIdentityRepository(sql);
+export const webAuthnCredentialRepository = new WebAuthnCredentialRepository(
+  sql
+);
+export const userNameReservationRepository = new UserNameReservationRepository(
+  sql
+);
+export const accountDeletionRequestRepository =
+  new AccountDeletionRequestRepository(sql);
 
 // Test connection function
 export async function testDatabaseConnection(): Promise<boolean> {
@@ -0,0 +1,16 @@
+import { BaseModel } from "@repo/database";
+
+export enum AccountDeletionStatus {
+  PENDING = "pending",
+  CANCELLED = "cancelled",
+  COMPLETED = "completed",
+}
+
+export interface AccountDeletionRequestModel extends BaseModel {
+  user_id: string | number;
+  status: AccountDeletionStatus;
+  scheduled_at: number; // Thời điểm tài khoản bị xóa vĩnh viễn, dạng unix time
+  cancelled_at: number;
+  completed_at: number;
+  ip_address: string; // IP gửi yêu cầu xóa
+}
@@ -0,0 +1,38 @@
+import { BaseModel } from "@repo/database";
+
+export enum AuthAuditEventType {
+  DEVICE_REGISTERED = "device_registered",
+  DEVICE_BLOCKED = "device_blocked",
+  DEVICE_LINKED = "device_linked",
+  DEVICE_REMOVED = "device_removed",
+  LOGIN_SUCCESS = "login_success",
+  LOGIN_FAILED = "login_failed",
+  TOKEN_REFRESHED = "token_refreshed",
+  TOKEN_REUSE_DETECTED = "token_reuse_detected",
+  LOGOUT = "logout",
+  TWO_FACTOR_ENABLED = "two_factor_enabled",
+  TWO_FACTOR_DISABLED = "two_factor_disabled",
+  BACKUP_CODES_REGENERATED = "backup_codes_regenerated",
+  LOGIN_LOCKOUT = "login_lockout",
+  ACCOUNT_UNLOCKED = "account_unlocked",
+  MAGIC_LINK_LOGIN = "magic_link_login",
+  PASSKEY_REGISTERED = "passkey_registered",
+  PASSKEY_REMOVED = "passkey_removed",
+  PASSKEY_SIGN_COUNT_INVALID = "passkey_sign_count_invalid",
+  ACCOUNT_DELETION_REQUESTED = "account_deletion_requested",
+  ACCOUNT_DELETION_CANCELLED = "account_deletion_cancelled",
+  ACCOUNT_DELETED = "account_deleted",
+  DATA_EXPORTED = "data_exported",
+}
+
+export interface AuthAuditEventModel extends BaseModel {
+  user_id: string | number; // 0 nếu sự kiện không gắn với user cụ thể
+  event_type: AuthAuditEventType;
+  device_id: string;
+  ip_address: string;
+  metadata: Record<string, any>;
+  content_hash: string; // SHA-256 của device_id, ip_address, metadata; giữ nguyên khi ẩn danh hóa
+  anonymized_at: string | number; // Thời điểm xóa dữ liệu cá nhân của sự kiện, 0 nếu chưa
+  prev_hash: string; // Hash của sự kiện liền trước, rỗng với sự kiện đầu tiên
+  hash: string; // SHA-256 của prev_hash, content_hash và các trường còn lại
+}
@@ -0,0 +1,8 @@
+import { BaseModel } from "@repo/database";
+
+export interface MfaBackupCodeModel extends BaseModel {
+  user_id: string | number;
+  mfa_id: string | number;
+  code_hash: string;
+  used_at: string | number;
+}
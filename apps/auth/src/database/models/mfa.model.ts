@@ -0,0 +1,17 @@
+import { BaseModel } from "@repo/database";
+
+export enum MfaType {
+  TOTP = 0,
+  SMS = 1,
+  EMAIL = 2,
+  HARDWARE_TOKEN = 3,
+}
+
+export interface MfaModel extends BaseModel {
+  user_id: string | number;
+  secret: string; // Đã mã hóa
+  type: MfaType;
+  is_active: boolean;
+  verified_at: string | number;
+  last_used_step: string | number; // Time step TOTP dùng gần nhất, chống dùng lại mã
+}
@@ -0,0 +1,7 @@
+import { BaseModel } from "@repo/database";
+
+export interface PermissionModel extends BaseModel {
+  name: string; // Dạng resource:action, VD: novels:create
+  is_system: boolean;
+  description: string;
+}
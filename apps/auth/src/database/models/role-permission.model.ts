@@ -0,0 +1,6 @@
+import { BaseModel } from "@repo/database";
+
+export interface RolePermissionModel extends BaseModel {
+  role_id: string | number;
+  permission_id: string | number;
+}
@@ -0,0 +1,8 @@
+import { BaseModel } from "@repo/database";
+
+export interface RoleModel extends BaseModel {
+  name: string;
+  parent_id: string | number; // Role cha được kế thừa toàn bộ quyền, 0 nếu không có
+  is_system: boolean;
+  description: string;
+}
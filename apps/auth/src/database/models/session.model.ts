@@ -4,6 +4,7 @@ export interface SessionModel extends BaseModel {
   user_id: string | number;
   access_token: string;
   refresh_token: string;
+  token_family: string;
   device_id: string;
   device_fingerprint: string;
   device_token: string;
@@ -0,0 +1,12 @@
+import { BaseModel } from "@repo/database";
+
+export interface UserIdentityModel extends BaseModel {
+  user_id: string | number;
+  provider: string; // Id của provider trong OAUTH_CONFIG (google, discord...)
+  provider_user_id: string; // Subject của user phía provider
+  email: string;
+  display_name: string;
+  avatar_url: string;
+  metadata: Record<string, any>;
+  last_login_at: number;
+}
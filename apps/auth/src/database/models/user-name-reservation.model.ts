@@ -0,0 +1,7 @@
+import { BaseModel } from "@repo/database";
+
+export interface UserNameReservationModel extends BaseModel {
+  user_name: string; // User_name cũ đang được giữ
+  user_id: string | number; // Chủ cũ, chỉ user này được lấy lại user_name
+  expires_at: number; // Hết thời gian giữ, dạng unix time
+}
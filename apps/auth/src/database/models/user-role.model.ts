@@ -0,0 +1,6 @@
+import { BaseModel } from "@repo/database";
+
+export interface UserRoleModel extends BaseModel {
+  user_id: string | number;
+  role_id: string | number;
+}
@@ -0,0 +1,15 @@
+import { BaseModel } from "@repo/database";
+
+export interface WebAuthnCredentialModel extends BaseModel {
+  user_id: string | number;
+  credential_id: string; // Credential id (base64url) do authenticator sinh ra
+  public_key: string; // Public key dạng COSE (base64url)
+  algorithm: number; // COSE algorithm (-7 ES256, -8 EdDSA, -257 RS256)
+  sign_count: number;
+  transports: string[]; // usb, nfc, ble, internal, hybrid...
+  aaguid: string; // Model của authenticator, toàn 0 với attestation none
+  name: string; // Tên user đặt cho passkey
+  backup_eligible: boolean; // Passkey có thể đồng bộ giữa các thiết bị
+  backed_up: boolean;
+  last_used_at: number;
+}
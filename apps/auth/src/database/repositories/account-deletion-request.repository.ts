@@ -0,0 +1,35 @@
+import { BaseRepository } from "@repo/database";
+import { getCurrentUnixTimestamp } from "@repo/utils";
+import { SQL } from "bun";
+import {
+  AccountDeletionRequestModel,
+  AccountDeletionStatus,
+} from "../models/account-deletion-request.model";
+
+export class AccountDeletionRequestRepository extends BaseRepository<AccountDeletionRequestModel> {
+  protected tableName = "account_deletion_requests";
+
+  constructor(sql: SQL) {
+    super(sql);
+  }
+
+  async findPending(
+    userId: string | number
+  ): Promise<AccountDeletionRequestModel | null> {
+    return await this.findOne({
+      user_id: userId,
+      status: AccountDeletionStatus.PENDING,
+    });
+  }
+
+  /**
+   * Các yêu cầu đang chờ đã hết thời gian chờ, cũ nhất trước
+   */
+  async findDue(limit: number): Promise<AccountDeletionRequestModel[]> {
+    return await this.findByRawWhere(
+      "status = $1 AND scheduled_at <= $2",
+      [AccountDeletionStatus.PENDING, getCurrentUnixTimestamp()],
+      { limit, orderBy: "scheduled_at", orderDirection: "ASC" }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import {
+  BaseRepository,
+  CreateModel,
+  PaginationResult,
+  QueryOptions,
+} from "@repo/database";
+import { getCurrentUnixTimestamp } from "@repo/utils";
+import { SQL } from "bun";
+import { AuthAuditEventModel } from "../models/auth-audit-event.model";
+
+export interface AuthAuditEventFilter {
+  userId?: string | number;
+  deviceId?: string;
+  ipAddress?: string;
+  eventType?: string;
+  from?: number; // created_at >= from (unix time)
+  to?: number; // created_at <= to (unix time)
+}
+
+export type AuthAuditEventInsert = Omit<
+  CreateModel<AuthAuditEventModel>,
+  "prev_hash" | "hash"
+>;
+
+// Khóa advisory dùng để tuần tự hóa việc ghi vào hash chain
+const AUDIT_CHAIN_LOCK_ID = 7_305_001;
+
+export class AuthAuditEventRepository extends BaseRepository<AuthAuditEventModel> {
+  protected tableName = "auth_audit_events";
+
+  constructor(sql: SQL) {
+    super(sql);
+  }
+
+  /**
+   * Ghi sự kiện nối vào cuối hash chain. Advisory lock đảm bảo mỗi sự kiện
+   * trỏ đúng vào hash của sự kiện liền trước khi có nhiều request ghi cùng lúc
+   */
+  async append(
+    data: AuthAuditEventInsert,
+    computeHash: (prevHash: string, createdAt: number) => string
+  ): Promise<AuthAuditEventModel> {
+    return await this.transaction(async (tx) => {
+      await tx`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_ID})`;
+
+      const [latest] = (await tx`
+        SELECT hash FROM ${tx(this.tableName)}
+        ORDER BY id DESC
+        LIMIT 1
+      `) as Pick<AuthAuditEventModel, "hash">[];
+
+      const prevHash = latest?.hash ?? "";
+      const timestamp = getCurrentUnixTimestamp();
+      const row = {
+        ...data,
+        prev_hash: prevHash,
+        hash: computeHash(prevHash, timestamp),
+        created_at: timestamp,
+        updated_at: timestamp,
+        lasted_user_modified: BigInt(data.user_id),
+      };
+
+      const [created] = (await tx`
+        INSERT INTO ${tx(this.tableName)} ${tx(row)}
+        RETURNING *
+      `) as AuthAuditEventModel[];
+
+      return created!;
+    });
+  }
+
+  /**
+   * Xóa dữ liệu cá nhân (device, IP, metadata) trong các sự kiện của user.
+   * content_hash và hash giữ nguyên nên hash chain vẫn kiểm tra được
+   */
+  async anonymizeUser(userId: string | number, tx?: any): Promise<number> {
+    const timestamp = getCurrentUnixTimestamp();
+    const sql = tx ?? this.sql;
+
+    const rows = await sql`
+      UPDATE ${sql(this.tableName)}
+      SET device_id = '', ip_address = '', metadata = '{}'::jsonb,
+          anonymized_at = ${timestamp}, updated_at = ${timestamp}
+      WHERE user_id = ${userId} AND anonymized_at = 0
+      RETURNING id
+    `;
+
+    return rows.length;
+  }
+
+  /**
+   * Tìm sự kiện theo user / device / IP / loại / khoảng thời gian, có phân trang
+   */
+  async search(
+    filter: AuthAuditEventFilter,
+    options: QueryOptions = {}
+  ): Promise<PaginationResult<AuthAuditEventModel>> {
+    const { limit = 20, offset = 0 } = options;
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    const addCondition = (clause: string, value: unknown) => {
+      params.push(value);
+      conditions.push(clause.replace("?", `$${params.length}`));
+    };
+
+    if (filter.userId !== undefined) addCondition("user_id = ?", filter.userId);
+    if (filter.deviceId) addCondition("device_id = ?", filter.deviceId);
+    if (filter.ipAddress) addCondition("ip_address = ?", filter.ipAddress);
+    if (filter.eventType) addCondition("event_type = ?", filter.eventType);
+    if (filter.from !== undefined) addCondition("created_at >= ?", filter.from);
+    if (filter.to !== undefined) addCondition("created_at <= ?", filter.to);
+
+    const whereClause = conditions.length ? conditions.join(" AND ") : "1 = 1";
+
+    const [data, countResult] = await Promise.all([
+      this.findByRawWhere(whereClause, params, {
+        limit,
+        offset,
+        orderBy: "id",
+        orderDirection: "DESC",
+      }),
+      this.raw<[{ count: bigint }]>(
+        `SELECT COUNT(*) as count FROM ${this.tableName} WHERE ${whereClause}`,
+        params
+      ),
+    ]);
+
+    const total = Number(countResult[0].count);
+
+    return {
+      data,
+      total,
+      page: Math.floor(offset / limit) + 1,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Các sự kiện theo thứ tự ghi, bắt đầu sau afterId (dùng để kiểm tra hash chain)
+   */
+  async findChainAfter(
+    afterId: string | number,
+    limit: number
+  ): Promise<AuthAuditEventModel[]> {
+    return await this.findByRawWhere("id > $1", [afterId], {
+      limit,
+      orderBy: "id",
+      orderDirection: "ASC",
+    });
+  }
+}
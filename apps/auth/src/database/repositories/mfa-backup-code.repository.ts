@@ -0,0 +1,11 @@
+import { BaseRepository } from "@repo/database";
+import { SQL } from "bun";
+import { MfaBackupCodeModel } from "../models/mfa-backup-code.model";
+
+export class MfaBackupCodeRepository extends BaseRepository<MfaBackupCodeModel> {
+  protected tableName = "mfa_backup_codes";
+
+  constructor(sql: SQL) {
+    super(sql);
+  }
+}
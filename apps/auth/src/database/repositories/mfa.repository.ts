@@ -0,0 +1,11 @@
+import { BaseRepository } from "@repo/database";
+import { SQL } from "bun";
+import { MfaModel } from "../models/mfa.model";
+
+export class MfaRepository extends BaseRepository<MfaModel> {
+  protected tableName = "mfa";
+
+  constructor(sql: SQL) {
+    super(sql);
+  }
+}
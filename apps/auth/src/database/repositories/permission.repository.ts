@@ -0,0 +1,11 @@
+import { BaseRepository } from "@repo/database";
+import { SQL } from "bun";
+import { PermissionModel } from "../models/permission.model";
+
+export class PermissionRepository extends BaseRepository<PermissionModel> {
+  protected tableName = "permissions";
+
+  constructor(sql: SQL) {
+    super(sql);
+  }
+}
@@ -0,0 +1,11 @@
+import { BaseRepository } from "@repo/database";
+import { SQL } from "bun";
+import { RolePermissionModel } from "../models/role-permission.model";
+
+export class RolePermissionRepository extends BaseRepository<RolePermissionModel> {
+  protected tableName = "role_permission";
+
+  constructor(sql: SQL) {
+    super(sql);
+  }
+}
@@ -0,0 +1,11 @@
+import { BaseRepository } from "@repo/database";
+import { SQL } from "bun";
+import { RoleModel } from "../models/role.model";
+
+export class RoleRepository extends BaseRepository<RoleModel> {
+  protected tableName = "roles";
+
+  constructor(sql: SQL) {
+    super(sql);
+  }
+}
@@ -0,0 +1,11 @@
+import { BaseRepository } from "@repo/database";
+import { SQL } from "bun";
+import { UserIdentityModel } from "../models/user-identity.model";
+
+export class UserIdentityRepository extends BaseRepository<UserIdentityModel> {
+  protected tableName = "user_identities";
+
+  constructor(sql: SQL) {
+    super(sql);
+  }
+}
@@ -0,0 +1,39 @@
+import { BaseRepository } from "@repo/database";
+import { getCurrentUnixTimestamp } from "@repo/utils";
+import { SQL } from "bun";
+import { UserNameReservationModel } from "../models/user-name-reservation.model";
+
+export class UserNameReservationRepository extends BaseRepository<UserNameReservationModel> {
+  protected tableName = "user_name_reservations";
+
+  constructor(sql: SQL) {
+    super(sql);
+  }
+
+  /**
+   * Reservation còn hiệu lực của một user_name, không phân biệt hoa thường
+   */
+  async findActive(userName: string): Promise<UserNameReservationModel | null> {
+    const [reservation] = await this.findByRawWhere(
+      "LOWER(user_name) = LOWER($1) AND expires_at > $2",
+      [userName, getCurrentUnixTimestamp()],
+      { limit: 1 }
+    );
+
+    return reservation ?? null;
+  }
+
+  /**
+   * Reservation mới nhất của user, tương ứng với lần đổi user_name gần nhất
+   */
+  async findLatestByUser(
+    userId: string | number
+  ): Promise<UserNameReservationModel | null> {
+    const [reservation] = await this.findWhere(
+      { user_id: userId },
+      { limit: 1, orderBy: "created_at", orderDirection: "DESC" }
+    );
+
+    return reservation ?? null;
+  }
+}
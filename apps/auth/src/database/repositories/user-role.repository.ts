@@ -0,0 +1,11 @@
+import { BaseRepository } from "@repo/database";
+import { SQL } from "bun";
+import { UserRoleModel } from "../models/user-role.model";
+
+export class UserRoleRepository extends BaseRepository<UserRoleModel> {
+  protected tableName = "user_role";
+
+  constructor(sql: SQL) {
+    super(sql);
+  }
+}
@@ -8,4 +8,18 @@ export class UserRepository extends BaseRepository<UserModel> {
   constructor(sql: SQL) {
     super(sql);
   }
+
+  /**
+   * Tìm user theo user_name không phân biệt hoa thường
+   * (user_name cũ có thể còn lưu chữ hoa)
+   */
+  async findByUserName(userName: string): Promise<UserModel | null> {
+    const [user] = await this.findByRawWhere(
+      "LOWER(user_name) = LOWER($1)",
+      [userName],
+      { limit: 1 }
+    );
+
+    return user ?? null;
+  }
 }
@@ -0,0 +1,11 @@
+import { BaseRepository } from "@repo/database";
+import { SQL } from "bun";
+import { WebAuthnCredentialModel } from "../models/webauthn-credential.model";
+
+export class WebAuthnCredentialRepository extends BaseRepository<WebAuthnCredentialModel> {
+  protected tableName = "webauthn_credentials";
+
+  constructor(sql: SQL) {
+    super(sql);
+  }
+}
@@ -0,0 +1,99 @@
+import { AppError } from "@repo/elysia-common";
+import type {
+  ServiceImplementation,
+  ValidateTokenRequest,
+  ValidateTokenResponse,
+} from "@repo/grpc";
+import { ERROR_CODES, HTTP_STATUS } from "@repo/utils";
+import { AuthService } from "../modules/v1/auth/auth.service";
+
+interface UnaryCall<TRequest> {
+  request: TRequest;
+  metadata: { get(key: string): unknown[] };
+}
+
+type UnaryCallback<TResponse> = (
+  error: Error | null,
+  response?: TResponse
+) => void;
+
+/**
+ * gRPC AuthService cho gateway và các service nội bộ xác thực access token
+ * mà không cần gọi HTTP. Lỗi xác thực được trả trong response (status, error)
+ * thay vì gRPC error để client xử lý giống response HTTP
+ */
+export class AuthGrpcService {
+  constructor(private readonly authService = new AuthService()) {}
+
+  /**
+   * Implementation để đăng ký vào GrpcServer
+   */
+  getImplementation(): ServiceImplementation {
+    return {
+      validateToken: this.validateToken.bind(this),
+    };
+  }
+
+  async validateToken(
+    call: UnaryCall<ValidateTokenRequest>,
+    callback: UnaryCallback<ValidateTokenResponse>
+  ): Promise<void> {
+    const requestId = String(call.metadata.get("request-id")[0] ?? "");
+    const { token, device_id, session_id, ip_address } = call.request;
+
+    try {
+      const validated = await this.authService.validateAccessToken({
+        token,
+        deviceId: device_id || undefined,
+        sessionId: session_id || undefined,
+        ipAddress: ip_address || undefined,
+      });
+
+      callback(null, {
+        status: HTTP_STATUS.OK,
+        status_code: "SUCCESS",
+        message: "auth.token.auth_success",
+        data: {
+          // User id là bigint, truyền dạng string để không mất độ chính xác
+          id: validated.userId,
+          roles: validated.roles,
+          permissions: validated.permissions,
+          verified_email: validated.verifiedEmail,
+          verified_phone: validated.verifiedPhone,
+          device_id: validated.deviceId,
+          session_id: validated.sessionId,
+        },
+        metadata: "{}",
+        timestamp: new Date().toISOString(),
+        request_id: requestId,
+      });
+    } catch (error) {
+      if (!(error instanceof AppError)) {
+        console.error("gRPC validateToken failed:", error);
+      }
+
+      const appError =
+        error instanceof AppError
+          ? error
+          : new AppError(
+              "auth.token.auth_failed",
+              HTTP_STATUS.INTERNAL_SERVER_ERROR,
+              ERROR_CODES.INTERNAL_ERROR
+            );
+
+      callback(null, {
+        status: appError.statusCode,
+        status_code: appError.errorCode,
+        message: appError.messageKey,
+        data: undefined,
+        error: {
+          code: appError.errorCode,
+          message: appError.messageKey,
+        },
+        metadata: "{}",
+        timestamp: new Date().toISOString(),
+        request_id: requestId,
+      });
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import {
+  createAuthServiceDefinition,
+  createGrpcServer,
+  type GrpcServer,
+} from "@repo/grpc";
+import { SERVICE_CONFIG } from "../configs";
+import { AuthGrpcService } from "./auth.grpc";
+
+/**
+ * Khởi động gRPC server của auth service (AuthService.validateToken)
+ */
+export async function startGrpcServer(): Promise<GrpcServer> {
+  const server = createGrpcServer({
+    port: Number(SERVICE_CONFIG.SERVICE_GRPC_PORT),
+  });
+
+  server.addService(
+    createAuthServiceDefinition(),
+    new AuthGrpcService().getImplementation()
+  );
+
+  await server.start();
+
+  return server;
+}
@@ -5,12 +5,17 @@ import {
   createLoggerPlugin,
 } from "@repo/elysia-common";
 import { Elysia } from "elysia";
+import { i18nMiddleware } from "elysia-i18n";
 
 import swagger from "@elysiajs/swagger";
 import { createSuccessResponse, HTTP_STATUS } from "@repo/utils";
 import { SERVICE_CONFIG } from "./configs";
 import { testDatabaseConnection } from "./database";
+import { startGrpcServer } from "./grpc";
+import { startJobs } from "./jobs";
 import { apiRoutes } from "./modules";
+import { RbacService } from "./modules/v1/rbac/rbac.service";
+import { wellKnownController } from "./modules/well-known";
 
 const app = new Elysia()
   .use(
@@ -23,16 +28,21 @@ const app = new Elysia()
       customColors: COLOR_SCHEMES.bright,
     })
   )
-  .onError(({ code, error, log, set }) => {
+  .use(i18nMiddleware)
+  .onError(({ code, error, log, set, t }) => {
     console.log(code, error, log);
     set.status = HTTP_STATUS.OK;
-    return allErrorHandler(code, error, log);
+    return allErrorHandler(code, error, log, t);
   })
   .use(
     new Elysia()
       .mapResponse(({ response, set, path }) => {
-        // Bỏ qua Swagger routes
-        if (path.startsWith("/docs") || path.startsWith("/swagger")) {
+        // Bỏ qua Swagger routes và JWKS (trả về JSON chuẩn)
+        if (
+          path.startsWith("/docs") ||
+          path.startsWith("/swagger") ||
+          path.startsWith("/.well-known")
+        ) {
           return; // Return undefined để Elysia xử lý response như bình thường
         }
 
@@ -59,6 +69,7 @@ const app = new Elysia()
       })
       .use(apiRoutes)
   )
+  .use(wellKnownController)
   .use(
     swagger({
       path: "/docs",
@@ -104,6 +115,19 @@ testDatabaseConnection()
     startupLogger.error("❌ Database connection error:", error);
   });
 
+// Role/permission hệ thống và admin đầu tiên (RBAC_BOOTSTRAP_ADMIN_EMAIL)
+new RbacService().seed().catch((error) => {
+  startupLogger.error("❌ RBAC seed failed:", error);
+});
+
+// gRPC server cho gateway và các service nội bộ xác thực token
+startGrpcServer().catch((error) => {
+  startupLogger.error("❌ gRPC server failed to start:", error);
+});
+
+// Job nền: xóa vĩnh viễn tài khoản đã hết thời gian chờ
+startJobs();
+
 startupLogger.info(
   `🦊 Elysia Auth Service is running at ${app.server?.hostname}:${app.server?.port}`
 );
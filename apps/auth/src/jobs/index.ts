@@ -0,0 +1,59 @@
+import { ACCOUNT_DELETION_CONFIG } from "../configs";
+import { AccountService } from "../modules/v1/account/account.service";
+import { redisClient } from "../redis";
+
+// Định danh instance, lưu làm giá trị khóa để biết replica nào đang giữ job
+const instanceId = crypto.randomUUID();
+
+/**
+ * Chạy job theo chu kỳ. Khóa Redis đảm bảo mỗi chu kỳ chỉ một instance
+ * của auth service thực thi khi chạy nhiều replica
+ */
+function scheduleJob(
+  name: string,
+  intervalMs: number,
+  run: () => Promise<unknown>
+): ReturnType<typeof setInterval> {
+  const lockKey = `auth:jobs:${name}:lock`;
+  const lockSeconds = Math.max(1, Math.floor(intervalMs / 1000) - 1);
+
+  const tick = async () => {
+    try {
+      // SET NX EX tạo khóa kèm TTL trong một lệnh, instance chết giữa chừng không để lại khóa vĩnh viễn
+      const acquired = await redisClient.send("SET", [
+        lockKey,
+        instanceId,
+        "EX",
+        String(lockSeconds),
+        "NX",
+      ]);
+      if (acquired !== "OK") return;
+
+      await run();
+    } catch (error) {
+      console.error(`Job ${name} failed:`, error);
+    }
+  };
+
+  void tick();
+
+  return setInterval(tick, intervalMs);
+}
+
+/**
+ * Khởi động các job nền của auth service
+ */
+export function startJobs(): void {
+  const accountService = new AccountService();
+
+  scheduleJob(
+    "account-purge",
+    ACCOUNT_DELETION_CONFIG.PURGE_INTERVAL_MS,
+    async () => {
+      const purged = await accountService.purgeDueAccounts();
+      if (purged > 0) {
+        console.info(`Purged ${purged} deleted account(s)`);
+      }
+    }
+  );
+}
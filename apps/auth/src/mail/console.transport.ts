@@ -0,0 +1,21 @@
+import { getRecipients, MailMessage, MailTransport } from "./mail.transport";
+
+/**
+ * In mail ra console, dùng cho local development
+ */
+export class ConsoleTransport implements MailTransport {
+  constructor(private readonly from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(
+      [
+        "📧 Mail",
+        `From: ${this.from}`,
+        `To: ${getRecipients(message).join(", ")}`,
+        `Subject: ${message.subject}`,
+        "",
+        message.text,
+      ].join("\n")
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { buildMimeMessage, MailMessage, MailTransport } from "./mail.transport";
+
+/**
+ * Ghi mail ra file .eml thay vì gửi, dùng cho local development và test
+ */
+export class FileTransport implements MailTransport {
+  constructor(
+    private readonly directory: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${crypto.randomUUID()}.eml`;
+    await Bun.write(
+      join(this.directory, fileName),
+      buildMimeMessage(message, this.from)
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { MAIL_CONFIG, SERVICE_CONFIG } from "../configs";
+import { ConsoleTransport } from "./console.transport";
+import { FileTransport } from "./file.transport";
+import { MailTransport } from "./mail.transport";
+import { SmtpTransport } from "./smtp.transport";
+
+export type { MailMessage, MailTransport } from "./mail.transport";
+export {
+  accountUnlockMail,
+  emailVerificationMail,
+  magicLinkMail,
+  passwordResetMail,
+} from "./templates";
+
+// Chọn transport theo MAIL_TRANSPORT (smtp | file | console).
+// Production bắt buộc smtp, console/file không gửi được mail thật cho user
+const createMailTransport = (): MailTransport => {
+  const transport = MAIL_CONFIG.MAIL_TRANSPORT;
+
+  if (SERVICE_CONFIG.NODE_ENV === "production" && transport !== "smtp") {
+    throw new Error(
+      `MAIL_TRANSPORT must be "smtp" in production, received "${transport}"`
+    );
+  }
+
+  switch (transport) {
+    case "smtp":
+      return new SmtpTransport({
+        host: MAIL_CONFIG.SMTP_HOST,
+        port: MAIL_CONFIG.SMTP_PORT,
+        secure: MAIL_CONFIG.SMTP_SECURE,
+        user: MAIL_CONFIG.SMTP_USER,
+        password: MAIL_CONFIG.SMTP_PASSWORD,
+        allowInsecureAuth: MAIL_CONFIG.SMTP_ALLOW_INSECURE_AUTH,
+        from: MAIL_CONFIG.MAIL_FROM,
+      });
+    case "file":
+      return new FileTransport(
+        MAIL_CONFIG.MAIL_FILE_DIR,
+        MAIL_CONFIG.MAIL_FROM
+      );
+    case "console":
+      return new ConsoleTransport(MAIL_CONFIG.MAIL_FROM);
+    default:
+      console.warn(
+        `Unknown MAIL_TRANSPORT "${transport}", falling back to console transport`
+      );
+      return new ConsoleTransport(MAIL_CONFIG.MAIL_FROM);
+  }
+};
+
+// Mail transport dùng chung cho auth service
+export const mailTransport = createMailTransport();
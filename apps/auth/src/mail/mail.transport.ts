@@ -0,0 +1,84 @@
+export interface MailMessage {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Transport gửi mail, có thể thay thế (SMTP, file, console...)
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export function getRecipients(message: MailMessage): string[] {
+  return Array.isArray(message.to) ? message.to : [message.to];
+}
+
+/**
+ * Tách địa chỉ email từ dạng "Tên <email@domain>"
+ */
+export function extractAddress(address: string): string {
+  return address.match(/<([^>]+)>/)?.[1] ?? address.trim();
+}
+
+function encodeBase64Lines(content: string): string {
+  return (
+    Buffer.from(content, "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g)
+      ?.join("\r\n") ?? ""
+  );
+}
+
+function encodeHeader(value: string): string {
+  // Header chứa ký tự non-ASCII phải encode theo RFC 2047
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * Build nội dung MIME (RFC 5322) cho message, dùng chung cho SMTP và file transport
+ */
+export function buildMimeMessage(message: MailMessage, from: string): string {
+  const boundary = `----=_Part_${crypto.randomUUID()}`;
+  const domain = extractAddress(from).split("@")[1] ?? "localhost";
+
+  const headers = [
+    `From: ${from}`,
+    `To: ${getRecipients(message).join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+
+  const parts = [
+    [
+      "Content-Type: text/plain; charset=UTF-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      encodeBase64Lines(message.text),
+    ],
+  ];
+
+  if (message.html) {
+    parts.push([
+      "Content-Type: text/html; charset=UTF-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      encodeBase64Lines(message.html),
+    ]);
+  }
+
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    ...parts.flatMap((part) => [`--${boundary}`, ...part]),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
@@ -0,0 +1,234 @@
+import { connect as connectTcp, Socket } from "node:net";
+import { hostname } from "node:os";
+import { connect as connectTls, TLSSocket } from "node:tls";
+import {
+  buildMimeMessage,
+  extractAddress,
+  getRecipients,
+  MailMessage,
+  MailTransport,
+} from "./mail.transport";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // true: TLS ngay từ đầu (465), false: nâng cấp bằng STARTTLS nếu server hỗ trợ
+  user?: string;
+  password?: string;
+  // Cho phép AUTH trên kết nối không mã hóa (server không hỗ trợ STARTTLS)
+  allowInsecureAuth?: boolean;
+  from: string;
+  timeout?: number; // ms
+}
+
+interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+/**
+ * Kết nối SMTP đọc reply theo dòng (hỗ trợ multi-line reply "250-...")
+ */
+class SmtpConnection {
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiters: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+  private error: Error | null = null;
+
+  private constructor(
+    private socket: Socket | TLSSocket,
+    private readonly timeout: number
+  ) {
+    this.attach(socket);
+  }
+
+  static open(options: SmtpOptions): Promise<SmtpConnection> {
+    const timeout = options.timeout ?? 30000;
+
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? connectTls({
+            host: options.host,
+            port: options.port,
+            servername: options.host,
+          })
+        : connectTcp({ host: options.host, port: options.port });
+
+      socket.once(options.secure ? "secureConnect" : "connect", () => {
+        socket.off("error", reject);
+        resolve(new SmtpConnection(socket, timeout));
+      });
+      socket.once("error", reject);
+    });
+  }
+
+  private attach(socket: Socket | TLSSocket) {
+    socket.setEncoding("utf8");
+    socket.setTimeout(this.timeout, () =>
+      socket.destroy(new Error("SMTP connection timed out"))
+    );
+    socket.on("data", (chunk: string) => this.onData(chunk));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+
+    let index: number;
+    while ((index = this.buffer.indexOf("\r\n")) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+
+      // "250-" là dòng tiếp diễn, "250 " là dòng cuối của reply
+      if (line.length < 4 || line[3] === " ") {
+        const reply = {
+          code: parseInt(line.slice(0, 3), 10),
+          message: this.lines.join("\n"),
+        };
+        this.lines = [];
+
+        const waiter = this.waiters.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    this.error ??= error;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.error) return Promise.reject(this.error);
+
+    return new Promise((resolve, reject) =>
+      this.waiters.push({ resolve, reject })
+    );
+  }
+
+  /**
+   * Gửi command và kiểm tra reply code, label dùng cho log để không lộ credentials
+   */
+  async command(
+    line: string,
+    expected: number[],
+    label: string = line
+  ): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+
+    return await this.expect(expected, label);
+  }
+
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${reply.message}`);
+    }
+
+    return reply;
+  }
+
+  /**
+   * Nâng cấp kết nối hiện tại lên TLS (STARTTLS)
+   */
+  async upgrade(host: string): Promise<void> {
+    const plainSocket = this.socket;
+    plainSocket.removeAllListeners("data");
+    plainSocket.removeAllListeners("error");
+    plainSocket.removeAllListeners("close");
+    plainSocket.setTimeout(0);
+
+    this.socket = await new Promise<TLSSocket>((resolve, reject) => {
+      const secureSocket = connectTls(
+        { socket: plainSocket, servername: host },
+        () => {
+          secureSocket.off("error", reject);
+          resolve(secureSocket);
+        }
+      );
+      secureSocket.once("error", reject);
+    });
+
+    this.attach(this.socket);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+/**
+ * Gửi mail qua SMTP (AUTH PLAIN, STARTTLS hoặc implicit TLS)
+ */
+export class SmtpTransport implements MailTransport {
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const { options } = this;
+    const connection = await SmtpConnection.open(options);
+
+    try {
+      await connection.expect([220], "greeting");
+
+      const ehlo = await connection.command(`EHLO ${hostname()}`, [250]);
+      let encrypted = options.secure;
+
+      if (!encrypted && /STARTTLS/i.test(ehlo.message)) {
+        await connection.command("STARTTLS", [220]);
+        await connection.upgrade(options.host);
+        await connection.command(`EHLO ${hostname()}`, [250]);
+        encrypted = true;
+      }
+
+      if (options.user) {
+        // STARTTLS có thể bị gỡ khỏi EHLO bởi kẻ đứng giữa (downgrade),
+        // không gửi credentials dạng plain text trừ khi được cho phép rõ ràng
+        if (!encrypted && !options.allowInsecureAuth) {
+          throw new Error(
+            "SMTP server does not support STARTTLS, refusing to send credentials without TLS"
+          );
+        }
+
+        const credentials = Buffer.from(
+          `\0${options.user}\0${options.password ?? ""}`
+        ).toString("base64");
+        await connection.command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+      }
+
+      await connection.command(`MAIL FROM:<${extractAddress(options.from)}>`, [
+        250,
+      ]);
+      for (const recipient of getRecipients(message)) {
+        await connection.command(
+          `RCPT TO:<${extractAddress(recipient)}>`,
+          [250, 251]
+        );
+      }
+
+      await connection.command("DATA", [354]);
+
+      // Dot-stuffing: dòng bắt đầu bằng "." phải thêm một dấu "." nữa
+      const body = buildMimeMessage(message, options.from).replace(
+        /^\./gm,
+        ".."
+      );
+      await connection.command(`${body}\r\n.`, [250], "DATA body");
+
+      await connection.command("QUIT", [221]);
+    } finally {
+      connection.close();
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { MailMessage } from "./mail.transport";
+
+/**
+ * Nội dung mail cho các luồng tài khoản
+ */
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatDuration = (seconds: number): string =>
+  seconds >= 3600 && seconds % 3600 === 0
+    ? `${seconds / 3600} giờ`
+    : `${Math.ceil(seconds / 60)} phút`;
+
+const buildActionMail = (params: {
+  to: string;
+  subject: string;
+  displayName: string;
+  intro: string;
+  actionLabel: string;
+  link: string;
+  ttl: number;
+  outro: string;
+}): MailMessage => {
+  const expiry = `Liên kết có hiệu lực trong ${formatDuration(params.ttl)}.`;
+
+  return {
+    to: params.to,
+    subject: params.subject,
+    text: [
+      `Xin chào ${params.displayName},`,
+      "",
+      params.intro,
+      params.link,
+      "",
+      expiry,
+      params.outro,
+    ].join("\n"),
+    html: [
+      `<p>Xin chào ${escapeHtml(params.displayName)},</p>`,
+      `<p>${escapeHtml(params.intro)}</p>`,
+      `<p><a href="${escapeHtml(params.link)}">${escapeHtml(params.actionLabel)}</a></p>`,
+      `<p>${escapeHtml(expiry)}<br>${escapeHtml(params.outro)}</p>`,
+    ].join("\n"),
+  };
+};
+
+export function emailVerificationMail(params: {
+  to: string;
+  displayName: string;
+  link: string;
+  ttl: number;
+}): MailMessage {
+  return buildActionMail({
+    ...params,
+    subject: "Xác minh địa chỉ email",
+    intro: "Nhấn vào liên kết dưới đây để xác minh địa chỉ email của bạn:",
+    actionLabel: "Xác minh email",
+    outro: "Nếu bạn không tạo tài khoản, hãy bỏ qua email này.",
+  });
+}
+
+export function passwordResetMail(params: {
+  to: string;
+  displayName: string;
+  link: string;
+  ttl: number;
+}): MailMessage {
+  return buildActionMail({
+    ...params,
+    subject: "Đặt lại mật khẩu",
+    intro: "Nhấn vào liên kết dưới đây để đặt lại mật khẩu của bạn:",
+    actionLabel: "Đặt lại mật khẩu",
+    outro:
+      "Nếu bạn không yêu cầu đặt lại mật khẩu, hãy bỏ qua email này. Sau khi đặt lại, tất cả thiết bị sẽ bị đăng xuất.",
+  });
+}
+
+export function accountUnlockMail(params: {
+  to: string;
+  displayName: string;
+  link: string;
+  ttl: number;
+}): MailMessage {
+  return buildActionMail({
+    ...params,
+    subject: "Tài khoản tạm thời bị khóa",
+    intro:
+      "Tài khoản của bạn tạm thời bị khóa do đăng nhập sai nhiều lần. Nhấn vào liên kết dưới đây để mở khóa:",
+    actionLabel: "Mở khóa tài khoản",
+    outro:
+      "Nếu không phải bạn đăng nhập, hãy đổi mật khẩu ngay sau khi mở khóa.",
+  });
+}
+
+export function magicLinkMail(params: {
+  to: string;
+  displayName: string;
+  link: string;
+  ttl: number;
+}): MailMessage {
+  return buildActionMail({
+    ...params,
+    subject: "Liên kết đăng nhập",
+    intro:
+      "Nhấn vào liên kết dưới đây để đăng nhập. Liên kết chỉ dùng được một lần:",
+    actionLabel: "Đăng nhập",
+    outro:
+      "Nếu bạn không yêu cầu đăng nhập, hãy bỏ qua email này và không chia sẻ liên kết với bất kỳ ai.",
+  });
+}
@@ -0,0 +1,15 @@
+import { t } from "elysia";
+
+export namespace AccountDto {
+  // Tài khoản chưa có mật khẩu (đăng ký qua OAuth) không cần gửi password
+  export const deletionRequestSchema = t.Object({
+    password: t.Optional(
+      t.String({
+        minLength: 1,
+        maxLength: 255,
+      })
+    ),
+  });
+
+  export type DeletionRequestSchema = typeof deletionRequestSchema.static;
+}
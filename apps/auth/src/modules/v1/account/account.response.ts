@@ -0,0 +1,62 @@
+import { t } from "elysia";
+
+import { ProfileResponse } from "../profile/profile.response";
+
+export namespace AccountResponse {
+  export const deletionStatusSchema = t.Object({
+    pending: t.Boolean(),
+    requestedAt: t.String(),
+    // Thời điểm tài khoản bị xóa vĩnh viễn nếu không hủy
+    scheduledAt: t.String(),
+  });
+
+  export type DeletionStatus = typeof deletionStatusSchema.static;
+
+  export const exportSchema = t.Object({
+    exportedAt: t.String(),
+    profile: ProfileResponse.profileSchema,
+    identities: t.Array(
+      t.Object({
+        provider: t.String(),
+        email: t.String(),
+        displayName: t.String(),
+        linkedAt: t.String(),
+        lastLoginAt: t.String(),
+      })
+    ),
+    passkeys: t.Array(
+      t.Object({
+        name: t.String(),
+        transports: t.Array(t.String()),
+        createdAt: t.String(),
+        lastUsedAt: t.String(),
+      })
+    ),
+    sessions: t.Array(
+      t.Object({
+        deviceId: t.String(),
+        deviceName: t.String(),
+        deviceType: t.String(),
+        os: t.String(),
+        browser: t.String(),
+        userAgent: t.String(),
+        ipAddress: t.String(),
+        isActive: t.Boolean(),
+        createdAt: t.String(),
+        lastUsedAt: t.String(),
+        revokedAt: t.String(),
+      })
+    ),
+    auditEvents: t.Array(
+      t.Object({
+        eventType: t.String(),
+        deviceId: t.String(),
+        ipAddress: t.String(),
+        metadata: t.Record(t.String(), t.Any()),
+        createdAt: t.String(),
+      })
+    ),
+  });
+
+  export type ExportData = typeof exportSchema.static;
+}
@@ -0,0 +1,387 @@
+import { AppError } from "@repo/elysia-common";
+import { Gender } from "@repo/types";
+import {
+  ERROR_CODES,
+  getCurrentUnixTimestamp,
+  HTTP_STATUS,
+  parseUnixToVietnamTime,
+} from "@repo/utils";
+import { ACCOUNT_DELETION_CONFIG, RBAC_CONFIG } from "../../../configs";
+import {
+  accountDeletionRequestRepository,
+  mfaBackupCodeRepository,
+  mfaRepository,
+  sessionRepository,
+  userIdentityRepository,
+  userNameReservationRepository,
+  userRepository,
+  userRoleRepository,
+  webAuthnCredentialRepository,
+} from "../../../database";
+import {
+  AccountDeletionRequestModel,
+  AccountDeletionStatus,
+} from "../../../database/models/account-deletion-request.model";
+import { AuthAuditEventType } from "../../../database/models/auth-audit-event.model";
+import { rateLimiter } from "../../../redis";
+import { AuditService } from "../audit/audit.service";
+import { SessionService } from "../auth/session.service";
+import { ProfileService } from "../profile/profile.service";
+import { RbacService } from "../rbac/rbac.service";
+import { AccountDto } from "./account.dto";
+import { AccountResponse } from "./account.response";
+
+const formatTime = (timestamp: string | number): string =>
+  Number(timestamp) > 0
+    ? parseUnixToVietnamTime(Number(timestamp), "YYYY-MM-DD HH:mm:ss")
+    : "";
+
+/**
+ * Service xóa tài khoản (có thời gian chờ) và xuất dữ liệu cá nhân
+ */
+export class AccountService {
+  constructor(
+    private readonly userRepo = userRepository,
+    private readonly deletionRepo = accountDeletionRequestRepository,
+    private readonly sessionRepo = sessionRepository,
+    private readonly identityRepo = userIdentityRepository,
+    private readonly credentialRepo = webAuthnCredentialRepository,
+    private readonly mfaRepo = mfaRepository,
+    private readonly backupCodeRepo = mfaBackupCodeRepository,
+    private readonly userRoleRepo = userRoleRepository,
+    private readonly reservationRepo = userNameReservationRepository,
+    private readonly sessionService = new SessionService(),
+    private readonly profileService = new ProfileService(),
+    private readonly auditService = new AuditService(),
+    private readonly limiter = rateLimiter,
+    private readonly rbacService = new RbacService()
+  ) {}
+
+  async getDeletionStatus(
+    userId: string | number
+  ): Promise<AccountResponse.DeletionStatus> {
+    const request = await this.deletionRepo.findPending(userId);
+
+    return this.toDeletionStatus(request);
+  }
+
+  /**
+   * Yêu cầu xóa tài khoản. Tài khoản vẫn dùng được và có thể hủy yêu cầu
+   * cho tới khi hết ACCOUNT_DELETION_CONFIG.GRACE_PERIOD
+   */
+  async requestDeletion(
+    userId: string | number,
+    data: AccountDto.DeletionRequestSchema,
+    deviceId: string,
+    ipAddress: string
+  ): Promise<AccountResponse.DeletionStatus> {
+    const user = await this.userRepo.findById(BigInt(userId));
+
+    if (!user || user.is_deleted) {
+      throw new AppError(
+        "auth.profile.not_found",
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND
+      );
+    }
+
+    // Xác nhận lại mật khẩu, trừ tài khoản chưa từng đặt mật khẩu
+    if (user.metadata?.has_password !== false) {
+      const isPasswordValid = data.password
+        ? await Bun.password.verify(data.password, user.password)
+        : false;
+
+      if (!isPasswordValid) {
+        throw new AppError(
+          "auth.account.password_invalid",
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED
+        );
+      }
+    }
+
+    if (await this.deletionRepo.findPending(userId)) {
+      throw new AppError(
+        "auth.account.deletion_pending",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.RESOURCE_CONFLICT
+      );
+    }
+
+    const request = await this.deletionRepo.create(
+      {
+        user_id: userId,
+        status: AccountDeletionStatus.PENDING,
+        scheduled_at:
+          getCurrentUnixTimestamp() + ACCOUNT_DELETION_CONFIG.GRACE_PERIOD,
+        cancelled_at: 0,
+        completed_at: 0,
+        ip_address: ipAddress,
+      },
+      userId
+    );
+
+    await this.auditService.record({
+      eventType: AuthAuditEventType.ACCOUNT_DELETION_REQUESTED,
+      userId,
+      deviceId,
+      ipAddress,
+      metadata: { scheduled_at: request.scheduled_at },
+    });
+
+    return this.toDeletionStatus(request);
+  }
+
+  async cancelDeletion(
+    userId: string | number,
+    deviceId: string,
+    ipAddress: string
+  ): Promise<AccountResponse.DeletionStatus> {
+    const request = await this.deletionRepo.findPending(userId);
+
+    if (!request) {
+      throw new AppError(
+        "auth.account.deletion_not_found",
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND
+      );
+    }
+
+    await this.deletionRepo.update(
+      BigInt(request.id),
+      {
+        status: AccountDeletionStatus.CANCELLED,
+        cancelled_at: getCurrentUnixTimestamp(),
+      },
+      BigInt(userId)
+    );
+
+    await this.auditService.record({
+      eventType: AuthAuditEventType.ACCOUNT_DELETION_CANCELLED,
+      userId,
+      deviceId,
+      ipAddress,
+    });
+
+    return this.toDeletionStatus(null);
+  }
+
+  /**
+   * Xóa vĩnh viễn các tài khoản đã hết thời gian chờ, trả về số tài khoản đã xử lý.
+   * Lỗi của một tài khoản không làm dừng các tài khoản còn lại
+   */
+  async purgeDueAccounts(
+    limit: number = ACCOUNT_DELETION_CONFIG.PURGE_BATCH_SIZE
+  ): Promise<number> {
+    const requests = await this.deletionRepo.findDue(limit);
+    let purged = 0;
+
+    for (const request of requests) {
+      try {
+        await this.purgeAccount(request);
+        purged++;
+      } catch (error) {
+        console.error(`Failed to purge account ${request.user_id}:`, error);
+      }
+    }
+
+    return purged;
+  }
+
+  /**
+   * Đăng xuất mọi session, xóa dữ liệu đăng nhập liên kết và ẩn danh hóa user row,
+   * các session đã kết thúc và audit log. Audit log chỉ còn user id, loại sự kiện,
+   * thời gian và content_hash nên hash chain vẫn kiểm tra được
+   */
+  private async purgeAccount(
+    request: AccountDeletionRequestModel
+  ): Promise<void> {
+    const userId = request.user_id;
+
+    // Device của user trở lại trạng thái guest, không còn gắn với user đã xóa
+    const sessions = await this.sessionService.findActiveUserSessions(userId);
+    await this.sessionService.signOut(
+      sessions,
+      "account_deleted",
+      userId,
+      await this.rbacService.resolveRoleAccess([RBAC_CONFIG.GUEST_ROLE])
+    );
+
+    await this.userRepo.transaction(async (tx, repo) => {
+      await this.identityRepo.deleteWhere({ user_id: userId }, tx);
+      await this.credentialRepo.deleteWhere({ user_id: userId }, tx);
+      await this.backupCodeRepo.deleteWhere({ user_id: userId }, tx);
+      await this.mfaRepo.deleteWhere({ user_id: userId }, tx);
+      await this.userRoleRepo.deleteWhere({ user_id: userId }, tx);
+      await this.reservationRepo.deleteWhere({ user_id: userId }, tx);
+
+      // Session đã kết thúc chỉ giữ lại làm lịch sử, bỏ IP, user agent và thông tin thiết bị
+      await this.sessionRepo.updateWhere(
+        { user_id: userId, is_active: false },
+        {
+          access_token: "",
+          refresh_token: "",
+          device_fingerprint: "",
+          device_name: "",
+          user_agent: "",
+          ip_address: "",
+          metadata: {},
+        },
+        userId,
+        tx
+      );
+      await this.auditService.anonymizeUser(userId, tx);
+
+      await repo.update(
+        BigInt(userId),
+        {
+          user_name: `deleted_${userId}`,
+          email: `deleted_${userId}@deleted.invalid`,
+          password: "",
+          phone_number: "",
+          display_name: "Deleted user",
+          avatar_url: "",
+          cover_url: "",
+          bio: [],
+          gender: Gender.OTHER,
+          date_of_birth: "0",
+          metadata: { deleted_at: getCurrentUnixTimestamp() },
+          is_email_verified: false,
+          is_phone_verified: false,
+          is_active: false,
+          is_deleted: true,
+        },
+        BigInt(userId),
+        tx
+      );
+
+      await this.deletionRepo.update(
+        BigInt(request.id),
+        {
+          status: AccountDeletionStatus.COMPLETED,
+          completed_at: getCurrentUnixTimestamp(),
+        },
+        BigInt(userId),
+        tx
+      );
+    });
+
+    await this.auditService.record({
+      eventType: AuthAuditEventType.ACCOUNT_DELETED,
+      userId,
+      metadata: { revoked_sessions: sessions.length },
+    });
+  }
+
+  /**
+   * Gom profile, tài khoản liên kết, passkey, session/device và audit event
+   * của user thành một bản JSON để tải về
+   */
+  async exportData(
+    userId: string | number,
+    deviceId: string,
+    ipAddress: string
+  ): Promise<AccountResponse.ExportData> {
+    const result = await this.limiter.checkLimit(
+      `account-export:${userId}`,
+      ACCOUNT_DELETION_CONFIG.EXPORT_LIMIT,
+      ACCOUNT_DELETION_CONFIG.EXPORT_WINDOW_MS
+    );
+
+    if (result.limited) {
+      throw new AppError(
+        "auth.account.export_too_many_requests",
+        HTTP_STATUS.TOO_MANY_REQUESTS,
+        ERROR_CODES.RATE_LIMITED
+      );
+    }
+
+    const [profile, identities, passkeys, sessions, auditEvents] =
+      await Promise.all([
+        this.profileService.getProfile(userId),
+        this.identityRepo.findWhere({ user_id: userId }, { limit: 100 }),
+        this.credentialRepo.findWhere({ user_id: userId }, { limit: 100 }),
+        this.sessionRepo.findWhere({ user_id: userId }, { limit: 1000 }),
+        this.exportAuditEvents(userId),
+      ]);
+
+    await this.auditService.record({
+      eventType: AuthAuditEventType.DATA_EXPORTED,
+      userId,
+      deviceId,
+      ipAddress,
+    });
+
+    return {
+      exportedAt: formatTime(getCurrentUnixTimestamp()),
+      profile,
+      identities: identities.map((identity) => ({
+        provider: identity.provider,
+        email: identity.email,
+        displayName: identity.display_name,
+        linkedAt: formatTime(identity.created_at),
+        lastLoginAt: formatTime(identity.last_login_at),
+      })),
+      passkeys: passkeys.map((credential) => ({
+        name: credential.name,
+        transports: credential.transports ?? [],
+        createdAt: formatTime(credential.created_at),
+        lastUsedAt: formatTime(credential.last_used_at),
+      })),
+      // Không bao gồm token của session
+      sessions: sessions.map((session) => ({
+        deviceId: session.device_id,
+        deviceName: session.device_name,
+        deviceType: session.device_type,
+        os: session.device_os,
+        browser: session.device_browser,
+        userAgent: session.user_agent,
+        ipAddress: session.ip_address,
+        isActive: session.is_active,
+        createdAt: formatTime(session.created_at),
+        lastUsedAt: formatTime(session.last_used_at),
+        revokedAt: formatTime(session.revoked_at),
+      })),
+      auditEvents,
+    };
+  }
+
+  private async exportAuditEvents(
+    userId: string | number
+  ): Promise<AccountResponse.ExportData["auditEvents"]> {
+    const events: AccountResponse.ExportData["auditEvents"] = [];
+    const pageSize = 500;
+
+    for (
+      let page = 1;
+      events.length < ACCOUNT_DELETION_CONFIG.EXPORT_MAX_AUDIT_EVENTS;
+      page++
+    ) {
+      const result = await this.auditService.search({ userId }, page, pageSize);
+
+      events.push(
+        ...result.data.map((event) => ({
+          eventType: event.eventType,
+          deviceId: event.deviceId,
+          ipAddress: event.ipAddress,
+          metadata: event.metadata,
+          createdAt: formatTime(event.createdAt),
+        }))
+      );
+
+      if (page >= result.totalPages) break;
+    }
+
+    return events.slice(0, ACCOUNT_DELETION_CONFIG.EXPORT_MAX_AUDIT_EVENTS);
+  }
+
+  private toDeletionStatus(
+    request: AccountDeletionRequestModel | null
+  ): AccountResponse.DeletionStatus {
+    return {
+      pending: !!request,
+      requestedAt: request ? formatTime(request.created_at) : "",
+      scheduledAt: request ? formatTime(request.scheduled_at) : "",
+    };
+  }
+}
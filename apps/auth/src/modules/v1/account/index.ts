@@ -0,0 +1,137 @@
+import { AuthApiConfig } from "@repo/utils";
+import { Elysia } from "elysia";
+import { resolveClientIp } from "../../../client-ip";
+
+import { AuthService } from "../auth/auth.service";
+import { AccountDto } from "./account.dto";
+import { AccountResponse } from "./account.response";
+import { AccountService } from "./account.service";
+
+/**
+ * Xóa tài khoản (có thời gian chờ) và tải dữ liệu cá nhân
+ */
+export const accountController = new Elysia({
+  prefix: "/auth",
+})
+  .decorate("authService", new AuthService())
+  .decorate("accountService", new AccountService())
+  .decorate("requestIP", resolveClientIp)
+  .model({
+    "body.account.deletion": AccountDto.deletionRequestSchema,
+    "response.account.deletionStatus": AccountResponse.deletionStatusSchema,
+    "response.account.export": AccountResponse.exportSchema,
+  })
+  .get(
+    AuthApiConfig.ROUTES["GET /account/deletion"].path,
+    async ({ authService, accountService, headers }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await accountService.getDeletionStatus(payload.sub!);
+    },
+    {
+      response: "response.account.deletionStatus",
+      detail: {
+        summary: "Get account deletion status",
+        description:
+          "Check whether the current account is scheduled for deletion",
+        tags: ["Account"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /account/deletion"].path,
+    async ({
+      authService,
+      accountService,
+      headers,
+      body,
+      request,
+      server,
+      requestIP,
+    }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await accountService.requestDeletion(
+        payload.sub!,
+        body,
+        payload.device_id,
+        requestIP({ request, server })
+      );
+    },
+    {
+      body: "body.account.deletion",
+      response: "response.account.deletionStatus",
+      detail: {
+        summary: "Request account deletion",
+        description:
+          "Schedule the current account for deletion after a grace period. Requires the current password when the account has one",
+        tags: ["Account"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /account/deletion/cancel"].path,
+    async ({
+      authService,
+      accountService,
+      headers,
+      request,
+      server,
+      requestIP,
+    }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await accountService.cancelDeletion(
+        payload.sub!,
+        payload.device_id,
+        requestIP({ request, server })
+      );
+    },
+    {
+      response: "response.account.deletionStatus",
+      detail: {
+        summary: "Cancel account deletion",
+        description:
+          "Cancel a pending deletion request during the grace period",
+        tags: ["Account"],
+      },
+    }
+  )
+  .get(
+    AuthApiConfig.ROUTES["GET /account/export"].path,
+    async ({
+      authService,
+      accountService,
+      headers,
+      request,
+      server,
+      requestIP,
+      set,
+    }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      const archive = await accountService.exportData(
+        payload.sub!,
+        payload.device_id,
+        requestIP({ request, server })
+      );
+
+      set.headers["content-disposition"] =
+        `attachment; filename="account-data-${payload.sub}.json"`;
+
+      return archive;
+    },
+    {
+      response: "response.account.export",
+      detail: {
+        summary: "Export personal data",
+        description:
+          "Download profile, linked accounts, passkeys, sessions/devices and security events of the current account as JSON",
+        tags: ["Account"],
+      },
+    }
+  );
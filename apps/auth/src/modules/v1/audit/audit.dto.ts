@@ -0,0 +1,58 @@
+import { t } from "elysia";
+
+export namespace AuditDto {
+  const paginationQuery = {
+    page: t.Optional(
+      t.Numeric({
+        minimum: 1,
+      })
+    ),
+    limit: t.Optional(
+      t.Numeric({
+        minimum: 1,
+        maximum: 100,
+      })
+    ),
+  };
+
+  // Bộ lọc của admin, from/to là unix time (giây)
+  export const searchQuerySchema = t.Object({
+    ...paginationQuery,
+    user_id: t.Optional(
+      t.String({
+        pattern: "^\\d+$",
+      })
+    ),
+    device_id: t.Optional(
+      t.String({
+        maxLength: 255,
+      })
+    ),
+    ip_address: t.Optional(
+      t.String({
+        maxLength: 45,
+      })
+    ),
+    event_type: t.Optional(
+      t.String({
+        maxLength: 50,
+      })
+    ),
+    from: t.Optional(
+      t.Numeric({
+        minimum: 0,
+      })
+    ),
+    to: t.Optional(
+      t.Numeric({
+        minimum: 0,
+      })
+    ),
+  });
+
+  export type SearchQuerySchema = typeof searchQuerySchema.static;
+
+  export const activityQuerySchema = t.Object(paginationQuery);
+
+  export type ActivityQuerySchema = typeof activityQuerySchema.static;
+}
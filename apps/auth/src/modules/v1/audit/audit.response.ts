@@ -0,0 +1,56 @@
+import { t } from "elysia";
+
+export namespace AuditResponse {
+  const paginationFields = {
+    total: t.Number(),
+    page: t.Number(),
+    limit: t.Number(),
+    totalPages: t.Number(),
+  };
+
+  export const eventSchema = t.Object({
+    id: t.String(),
+    userId: t.String(),
+    eventType: t.String(),
+    deviceId: t.String(),
+    ipAddress: t.String(),
+    metadata: t.Record(t.String(), t.Any()),
+    hash: t.String(),
+    createdAt: t.String(),
+  });
+
+  export type EventData = typeof eventSchema.static;
+
+  export const eventPageSchema = t.Object({
+    data: t.Array(eventSchema),
+    ...paginationFields,
+  });
+
+  export type EventPage = typeof eventPageSchema.static;
+
+  // Hoạt động bảo mật gần đây của user, không trả về metadata nội bộ
+  export const activitySchema = t.Object({
+    eventType: t.String(),
+    deviceId: t.String(),
+    ipAddress: t.String(),
+    isCurrentDevice: t.Boolean(),
+    createdAt: t.String(),
+  });
+
+  export type ActivityData = typeof activitySchema.static;
+
+  export const activityPageSchema = t.Object({
+    data: t.Array(activitySchema),
+    ...paginationFields,
+  });
+
+  export type ActivityPage = typeof activityPageSchema.static;
+
+  export const chainVerificationSchema = t.Object({
+    valid: t.Boolean(),
+    checkedEvents: t.Number(),
+    brokenAtId: t.Union([t.String(), t.Null()]),
+  });
+
+  export type ChainVerificationData = typeof chainVerificationSchema.static;
+}
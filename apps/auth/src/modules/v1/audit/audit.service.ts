@@ -0,0 +1,237 @@
+import { createHash } from "node:crypto";
+import { authAuditEventRepository } from "../../../database";
+import {
+  AuthAuditEventModel,
+  AuthAuditEventType,
+} from "../../../database/models/auth-audit-event.model";
+import { AuthAuditEventFilter } from "../../../database/repositories/auth-audit-event.repository";
+import { AuditResponse } from "./audit.response";
+
+export interface AuthAuditEventInput {
+  eventType: AuthAuditEventType;
+  userId?: string | number;
+  deviceId?: string;
+  ipAddress?: string;
+  metadata?: Record<string, any>;
+}
+
+// Số sự kiện đọc mỗi lần khi kiểm tra hash chain
+const CHAIN_VERIFY_BATCH_SIZE = 500;
+
+/**
+ * Chuẩn hóa giá trị để hash ổn định: key của object được sắp xếp,
+ * bigint chuyển thành string (jsonb không giữ thứ tự key)
+ */
+function canonicalize(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return value.map(canonicalize);
+
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter((key) => (value as any)[key] !== undefined)
+        .map((key) => [key, canonicalize((value as any)[key])])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Service ghi lại các sự kiện bảo mật của auth (append-only, hash chain)
+ */
+export class AuditService {
+  constructor(private readonly auditRepo = authAuditEventRepository) {}
+
+  /**
+   * Hash của dữ liệu cá nhân trong sự kiện (device, IP, metadata). Tách riêng
+   * để có thể xóa các trường này khi xóa tài khoản mà không làm đứt chain
+   */
+  static computeContentHash(
+    event: Pick<AuthAuditEventModel, "device_id" | "ip_address" | "metadata">
+  ): string {
+    const content = JSON.stringify(
+      canonicalize({
+        device_id: event.device_id,
+        ip_address: event.ip_address,
+        metadata: event.metadata,
+      })
+    );
+
+    return createHash("sha256").update(content).digest("hex");
+  }
+
+  /**
+   * Hash của một sự kiện: SHA-256 trên prev_hash, content_hash và các trường còn lại.
+   * Sửa bất kỳ trường nào hoặc xóa một sự kiện đều làm đứt chain
+   */
+  static computeHash(
+    prevHash: string,
+    event: Pick<
+      AuthAuditEventModel,
+      "user_id" | "event_type" | "content_hash"
+    > & { created_at: number | string }
+  ): string {
+    const content = JSON.stringify(
+      canonicalize({
+        prev_hash: prevHash,
+        user_id: String(event.user_id),
+        event_type: event.event_type,
+        content_hash: event.content_hash,
+        created_at: String(event.created_at),
+      })
+    );
+
+    return createHash("sha256").update(content).digest("hex");
+  }
+
+  /**
+   * Ghi một sự kiện audit. Lỗi ghi audit chỉ được log lại,
+   * không làm hỏng luồng nghiệp vụ đã thực hiện xong
+   */
+  async record(event: AuthAuditEventInput): Promise<void> {
+    const data = {
+      user_id: String(event.userId ?? 0),
+      event_type: event.eventType,
+      device_id: event.deviceId ?? "",
+      ip_address: event.ipAddress ?? "",
+      // Lưu metadata ở dạng đã chuẩn hóa để hash tính lại từ DB vẫn khớp
+      metadata: JSON.parse(
+        JSON.stringify(canonicalize(event.metadata ?? {}))
+      ) as Record<string, any>,
+    };
+    const row = {
+      ...data,
+      content_hash: AuditService.computeContentHash(data),
+      anonymized_at: 0,
+    };
+
+    try {
+      await this.auditRepo.append(row, (prevHash, createdAt) =>
+        AuditService.computeHash(prevHash, { ...row, created_at: createdAt })
+      );
+    } catch (error) {
+      console.error(`Failed to record audit event ${event.eventType}:`, error);
+    }
+  }
+
+  /**
+   * Xóa device, IP và metadata khỏi các sự kiện của user (khi xóa vĩnh viễn tài khoản)
+   */
+  async anonymizeUser(userId: string | number, tx?: any): Promise<void> {
+    await this.auditRepo.anonymizeUser(userId, tx);
+  }
+
+  /**
+   * Tra cứu sự kiện cho admin, mới nhất trước
+   */
+  async search(
+    filter: AuthAuditEventFilter,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<AuditResponse.EventPage> {
+    const result = await this.auditRepo.search(filter, {
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    return {
+      ...result,
+      data: result.data.map((event) => ({
+        id: String(event.id),
+        userId: String(event.user_id),
+        eventType: event.event_type,
+        deviceId: event.device_id,
+        ipAddress: event.ip_address,
+        metadata: event.metadata ?? {},
+        hash: event.hash,
+        createdAt: String(event.created_at),
+      })),
+    };
+  }
+
+  /**
+   * Hoạt động bảo mật gần đây của chính user, đánh dấu thiết bị đang dùng
+   */
+  async listUserActivity(
+    userId: string | number,
+    currentDeviceId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<AuditResponse.ActivityPage> {
+    const result = await this.auditRepo.search(
+      { userId },
+      { limit, offset: (page - 1) * limit }
+    );
+
+    return {
+      ...result,
+      data: result.data.map((event) => ({
+        eventType: event.event_type,
+        deviceId: event.device_id,
+        ipAddress: event.ip_address,
+        isCurrentDevice: event.device_id === currentDeviceId,
+        createdAt: String(event.created_at),
+      })),
+    };
+  }
+
+  /**
+   * Sự kiện đã ẩn danh hóa thật sự: có anonymized_at và không còn dữ liệu cá nhân.
+   * anonymized_at không nằm trong hash nên chỉ riêng cột này không đủ để bỏ qua content_hash
+   */
+  private static isAnonymized(event: AuthAuditEventModel): boolean {
+    return (
+      Number(event.anonymized_at) > 0 &&
+      event.device_id === "" &&
+      event.ip_address === "" &&
+      Object.keys(event.metadata ?? {}).length === 0
+    );
+  }
+
+  /**
+   * Duyệt toàn bộ chain theo thứ tự ghi, kiểm tra liên kết prev_hash
+   * và tính lại hash của từng sự kiện. content_hash chỉ tính lại được
+   * với sự kiện chưa bị ẩn danh hóa
+   */
+  async verifyChain(): Promise<AuditResponse.ChainVerificationData> {
+    let prevHash = "";
+    let lastId: string | number = 0;
+    let checkedEvents = 0;
+
+    while (true) {
+      const events = await this.auditRepo.findChainAfter(
+        lastId,
+        CHAIN_VERIFY_BATCH_SIZE
+      );
+
+      for (const event of events) {
+        const expected = AuditService.computeHash(prevHash, event);
+        const contentValid =
+          AuditService.isAnonymized(event) ||
+          event.content_hash === AuditService.computeContentHash(event);
+
+        if (
+          event.prev_hash !== prevHash ||
+          event.hash !== expected ||
+          !contentValid
+        ) {
+          return {
+            valid: false,
+            checkedEvents,
+            brokenAtId: String(event.id),
+          };
+        }
+
+        prevHash = event.hash;
+        lastId = String(event.id);
+        checkedEvents++;
+      }
+
+      if (events.length < CHAIN_VERIFY_BATCH_SIZE) break;
+    }
+
+    return { valid: true, checkedEvents, brokenAtId: null };
+  }
+}
@@ -0,0 +1,100 @@
+import { AuthApiConfig } from "@repo/utils";
+import { Elysia } from "elysia";
+
+import { RBAC_CONFIG } from "../../../configs";
+import { AuthService } from "../auth/auth.service";
+import { RbacService } from "../rbac/rbac.service";
+import { AuditDto } from "./audit.dto";
+import { AuditResponse } from "./audit.response";
+import { AuditService } from "./audit.service";
+
+/**
+ * Tra cứu audit log (admin, permission audit:read) và hoạt động bảo mật của user
+ */
+export const auditController = new Elysia({
+  prefix: "/auth",
+})
+  .decorate("authService", new AuthService())
+  .decorate("rbacService", new RbacService())
+  .decorate("auditService", new AuditService())
+  .model({
+    "query.audit.search": AuditDto.searchQuerySchema,
+    "query.audit.activity": AuditDto.activityQuerySchema,
+    "response.audit.eventPage": AuditResponse.eventPageSchema,
+    "response.audit.activityPage": AuditResponse.activityPageSchema,
+    "response.audit.chainVerification": AuditResponse.chainVerificationSchema,
+  })
+  .get(
+    AuthApiConfig.ROUTES["GET /admin/audit-events"].path,
+    async ({ authService, rbacService, auditService, headers, query }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+      rbacService.assertPermission(payload, RBAC_CONFIG.AUDIT_PERMISSION);
+
+      return await auditService.search(
+        {
+          userId: query.user_id,
+          deviceId: query.device_id,
+          ipAddress: query.ip_address,
+          eventType: query.event_type,
+          from: query.from,
+          to: query.to,
+        },
+        query.page,
+        query.limit
+      );
+    },
+    {
+      query: "query.audit.search",
+      response: "response.audit.eventPage",
+      detail: {
+        summary: "Search audit events",
+        description:
+          "Search security audit events by user, device, IP, event type and time range, newest first",
+        tags: ["Audit"],
+      },
+    }
+  )
+  .get(
+    AuthApiConfig.ROUTES["GET /admin/audit-events/verify"].path,
+    async ({ authService, rbacService, auditService, headers }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+      rbacService.assertPermission(payload, RBAC_CONFIG.AUDIT_PERMISSION);
+
+      return await auditService.verifyChain();
+    },
+    {
+      response: "response.audit.chainVerification",
+      detail: {
+        summary: "Verify audit chain",
+        description:
+          "Recompute the hash chain of the audit log and report the first tampered or missing event",
+        tags: ["Audit"],
+      },
+    }
+  )
+  .get(
+    AuthApiConfig.ROUTES["GET /security/activity"].path,
+    async ({ authService, auditService, headers, query }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await auditService.listUserActivity(
+        payload.sub!,
+        payload.device_id,
+        query.page,
+        query.limit
+      );
+    },
+    {
+      query: "query.audit.activity",
+      response: "response.audit.activityPage",
+      detail: {
+        summary: "Recent security activity",
+        description:
+          "List recent security events of the current account (logins, devices, 2FA changes)",
+        tags: ["Auth", "Audit"],
+      },
+    }
+  );
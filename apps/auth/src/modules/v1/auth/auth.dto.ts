@@ -5,14 +5,113 @@ export namespace AuthDto {
     email: t.String({
       format: "email",
     }),
+    user_name: t.String({
+      minLength: 3,
+      maxLength: 255,
+      pattern: "^[a-zA-Z0-9_.]+$",
+    }),
     password: t.String({
       minLength: 8,
       maxLength: 255,
     }),
+    display_name: t.Optional(
+      t.String({
+        maxLength: 255,
+      })
+    ),
   });
 
   export type RegisterAccountSchema = typeof registerAccountSchema.static;
 
+  export const loginSchema = t.Object({
+    email: t.String({
+      format: "email",
+    }),
+    password: t.String({
+      minLength: 1,
+      maxLength: 255,
+    }),
+  });
+
+  export type LoginSchema = typeof loginSchema.static;
+
+  // Mã TOTP 6 số hoặc backup code dạng XXXXX-XXXXX
+  export const twoFactorCodeSchema = t.Object({
+    code: t.String({
+      minLength: 6,
+      maxLength: 16,
+    }),
+  });
+
+  export type TwoFactorCodeSchema = typeof twoFactorCodeSchema.static;
+
+  export const twoFactorLoginSchema = t.Object({
+    challengeToken: t.String({
+      minLength: 1,
+    }),
+    code: t.String({
+      minLength: 6,
+      maxLength: 16,
+    }),
+  });
+
+  export type TwoFactorLoginSchema = typeof twoFactorLoginSchema.static;
+
+  // Token trong link xác minh email / đặt lại mật khẩu
+  export const accountTokenSchema = t.Object({
+    token: t.String({
+      minLength: 1,
+    }),
+  });
+
+  export type AccountTokenSchema = typeof accountTokenSchema.static;
+
+  export const forgotPasswordSchema = t.Object({
+    email: t.String({
+      format: "email",
+    }),
+  });
+
+  export type ForgotPasswordSchema = typeof forgotPasswordSchema.static;
+
+  export const magicLinkSchema = t.Object({
+    email: t.String({
+      format: "email",
+    }),
+  });
+
+  export type MagicLinkSchema = typeof magicLinkSchema.static;
+
+  export const resetPasswordSchema = t.Object({
+    token: t.String({
+      minLength: 1,
+    }),
+    password: t.String({
+      minLength: 8,
+      maxLength: 255,
+    }),
+  });
+
+  export type ResetPasswordSchema = typeof resetPasswordSchema.static;
+
+  // Số điện thoại Việt Nam, được normalize về dạng +84 ở service
+  export const phoneSchema = t.Object({
+    phone: t.String({
+      minLength: 9,
+      maxLength: 20,
+    }),
+  });
+
+  export type PhoneSchema = typeof phoneSchema.static;
+
+  export const phoneOtpSchema = t.Object({
+    code: t.String({
+      pattern: "^[0-9]{6}$",
+    }),
+  });
+
+  export type PhoneOtpSchema = typeof phoneOtpSchema.static;
+
   // Device fingerprint schema
   export const deviceFingerprintSchema = t.Object({
     deviceInfo: t.String(),
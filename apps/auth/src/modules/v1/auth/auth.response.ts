@@ -10,6 +10,126 @@ export namespace AuthResponse {
 
   export type RegisterData = typeof registerDataSchema.static;
 
+  export const userSummarySchema = t.Object({
+    id: t.Any({}),
+    email: t.String(),
+    user_name: t.String(),
+    display_name: t.String(),
+    avatar_url: t.String(),
+    is_email_verified: t.Boolean(),
+    is_phone_verified: t.Boolean(),
+  });
+
+  export type UserSummary = typeof userSummarySchema.static;
+
+  // Login response schema
+  export const loginDataSchema = t.Object({
+    accessToken: t.String(),
+    refreshToken: t.String(),
+    tokenType: t.String(),
+    accessTokenExpiresAt: t.String(),
+    refreshTokenExpiresAt: t.String(),
+    user: userSummarySchema,
+  });
+
+  export type LoginData = typeof loginDataSchema.static;
+
+  // Login cần bước 2FA: trả về challenge thay vì token
+  export const twoFactorChallengeSchema = t.Object({
+    twoFactorRequired: t.Literal(true),
+    challengeToken: t.String(),
+    challengeExpiresAt: t.String(),
+  });
+
+  export type TwoFactorChallengeData = typeof twoFactorChallengeSchema.static;
+
+  export const loginResultSchema = t.Union([
+    loginDataSchema,
+    twoFactorChallengeSchema,
+  ]);
+
+  export type LoginResult = typeof loginResultSchema.static;
+
+  // Đăng nhập bằng magic link: báo thêm khi device dùng link khác device đã yêu cầu
+  const deviceMismatchSchema = t.Object({
+    deviceMismatch: t.Boolean(),
+  });
+
+  export const magicLinkLoginResultSchema = t.Union([
+    t.Composite([loginDataSchema, deviceMismatchSchema]),
+    t.Composite([twoFactorChallengeSchema, deviceMismatchSchema]),
+  ]);
+
+  export type MagicLinkLoginResult = typeof magicLinkLoginResultSchema.static;
+
+  // Refresh response schema
+  export const refreshDataSchema = t.Omit(loginDataSchema, ["user"]);
+
+  export type RefreshData = typeof refreshDataSchema.static;
+
+  // Logout response schema
+  export const logoutDataSchema = t.Object({
+    revokedSessions: t.Number(),
+  });
+
+  export type LogoutData = typeof logoutDataSchema.static;
+
+  // Kết quả của các thao tác xác minh email / đặt lại mật khẩu
+  export const accountActionSchema = t.Object({
+    success: t.Boolean(),
+  });
+
+  export type AccountActionData = typeof accountActionSchema.static;
+
+  // OTP xác minh số điện thoại đã được gửi
+  export const phoneOtpSchema = t.Object({
+    phoneNumber: t.String(), // Số điện thoại đã che bớt
+    expiresAt: t.String(),
+  });
+
+  export type PhoneOtpData = typeof phoneOtpSchema.static;
+
+  // Two-factor response schemas
+  export const twoFactorSetupSchema = t.Object({
+    secret: t.String(),
+    otpauthUri: t.String(),
+  });
+
+  export type TwoFactorSetupData = typeof twoFactorSetupSchema.static;
+
+  export const backupCodesSchema = t.Object({
+    backupCodes: t.Array(t.String()),
+  });
+
+  export type BackupCodesData = typeof backupCodesSchema.static;
+
+  export const twoFactorStatusSchema = t.Object({
+    enabled: t.Boolean(),
+  });
+
+  export type TwoFactorStatusData = typeof twoFactorStatusSchema.static;
+
+  // Device list response schema
+  export const deviceSessionSchema = t.Object({
+    id: t.String(),
+    deviceId: t.String(),
+    deviceName: t.String(),
+    deviceType: t.String(),
+    os: t.String(),
+    browser: t.String(),
+    ipAddress: t.String(),
+    riskScore: t.Number(),
+    lastUsedAt: t.String(),
+    createdAt: t.String(),
+    isCurrent: t.Boolean(),
+  });
+
+  export type DeviceSession = typeof deviceSessionSchema.static;
+
+  export const deviceListSchema = t.Array(deviceSessionSchema);
+
+  export type DeviceList = typeof deviceListSchema.static;
+
   // Device token response schema
   export const deviceTokenSchema = t.Object({
     deviceToken: t.String(),
@@ -25,7 +145,7 @@ export namespace AuthResponse {
   // Device verification response schema
   export const deviceVerificationSchema = t.Object({
     isValid: t.Boolean(),
-    deviceId: t.Number(),
+    deviceId: t.String(),
     fingerprint: t.String(),
     confidence: t.Number(), // 0-1
     lastSeen: t.String(),
@@ -1,16 +1,54 @@
+import { AppError } from "@repo/elysia-common";
+import { DeviceInfo, Gender } from "@repo/types";
 import {
   decryptDeviceData,
   EncryptionResult,
+  ERROR_CODES,
   generateSecretKey,
   getCurrentUnixTimestamp,
+  HTTP_STATUS,
   parseUnixToVietnamTime,
 } from "@repo/utils";
-import { jwtVerify } from "jose";
-import { SERVICE_CONFIG } from "../../../configs";
-import { sessionRepository, userRepository } from "../../../database";
+import { errors } from "jose";
+import {
+  RBAC_CONFIG,
+  SERVICE_CONFIG,
+  TOKEN_VALIDATION_CONFIG,
+} from "../../../configs";
+import {
+  sessionRepository,
+  userNameReservationRepository,
+  userRepository,
+} from "../../../database";
+import { AuthAuditEventType } from "../../../database/models/auth-audit-event.model";
 import { SessionModel } from "../../../database/models/session.model";
+import { UserModel } from "../../../database/models/user.model";
+import { redisClient } from "../../../redis";
+import { AuditService } from "../audit/audit.service";
 import { AuthDto } from "./auth.dto";
 import { AuthResponse } from "./auth.response";
+import {
+  LoginAttempt,
+  LoginProtectionService,
+} from "./login-protection.service";
+import { AccessClaims, RbacService } from "../rbac/rbac.service";
+import { RiskAssessment, RiskEngine } from "./risk.engine";
+import { SessionService } from "./session.service";
+import { TokenPair, TokenPayload, TokenService } from "./token.service";
+import { TwoFactorService } from "./two-factor.service";
+
+/**
+ * Thông tin access token đã được xác thực cho service nội bộ (gRPC)
+ */
+export interface ValidatedToken {
+  userId: string;
+  roles: string[];
+  permissions: string[];
+  verifiedEmail: boolean;
+  verifiedPhone: boolean;
+  deviceId: string;
+  sessionId: string;
+}
 
 /**
  * Service xử lý xác thực người dùng và device fingerprinting
@@ -19,91 +57,860 @@ import { AuthResponse } from "./auth.response";
 export class AuthService {
   constructor(
     private readonly userRepo = userRepository,
-    private readonly sessionRepo = sessionRepository
+    private readonly sessionRepo = sessionRepository,
+    private readonly tokenService = new TokenService(),
+    private readonly sessionService = new SessionService(),
+    private readonly riskEngine = new RiskEngine(),
+    private readonly redis = redisClient,
+    private readonly twoFactorService = new TwoFactorService(),
+    private readonly loginProtection = new LoginProtectionService(),
+    private readonly rbacService = new RbacService(),
+    private readonly auditService = new AuditService(),
+    private readonly reservationRepo = userNameReservationRepository
   ) {}
 
-  async register(data: AuthDto.RegisterAccountSchema) {}
+  /**
+   * Đăng ký tài khoản mới, mật khẩu được hash bằng Bun password (argon2id)
+   */
+  async register(
+    data: AuthDto.RegisterAccountSchema
+  ): Promise<AuthResponse.RegisterData> {
+    const email = data.email.trim().toLowerCase();
+    const userName = data.user_name.trim().toLowerCase();
+
+    const [emailExists, userNameOwner, userNameReservation] = await Promise.all(
+      [
+        this.userRepo.existsWhere({ email }),
+        this.userRepo.findByUserName(userName),
+        this.reservationRepo.findActive(userName),
+      ]
+    );
+
+    if (emailExists) {
+      throw new AppError(
+        "auth.register.email_exists",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.DUPLICATE_RESOURCE
+      );
+    }
+
+    // User_name cũ đang được giữ cho chủ cũ cũng coi như đã được dùng
+    if (userNameOwner || userNameReservation) {
+      throw new AppError(
+        "auth.register.username_exists",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.DUPLICATE_RESOURCE
+      );
+    }
+
+    const hashedPassword = await Bun.password.hash(data.password);
+
+    const user = await this.userRepo.create(
+      {
+        user_name: userName,
+        email,
+        password: hashedPassword,
+        phone_number: "",
+        display_name: data.display_name?.trim() || userName,
+        avatar_url: "",
+        cover_url: "",
+        bio: [],
+        gender: Gender.OTHER,
+        date_of_birth: "0",
+        metadata: {},
+        is_email_verified: false,
+        is_phone_verified: false,
+        is_active: true,
+        is_deleted: false,
+      },
+      0
+    );
+
+    await this.rbacService.assignDefaultRole(user.id);
+
+    return {
+      id: Number(user.id),
+      email: user.email,
+    };
+  }
+
+  /**
+   * Đăng nhập bằng email + mật khẩu, gắn cặp token vào session của device token.
+   * User đã bật 2FA sẽ nhận challenge token thay vì cặp token.
+   * Số lần sai được giới hạn theo IP, device và account (xem LoginProtectionService)
+   */
+  async login(
+    data: AuthDto.LoginSchema,
+    deviceToken: string | undefined,
+    ipAddress: string
+  ): Promise<AuthResponse.LoginResult> {
+    const session = await this.requireLoginSession(deviceToken);
+    const attempt = this.toLoginAttempt(data.email, session, ipAddress);
+
+    await this.loginProtection.assertSourceAllowed(attempt);
+
+    const user = await this.userRepo.findOne({
+      email: attempt.email,
+      is_deleted: false,
+    });
+
+    // Device đã từng đăng nhập account này không bị chặn bởi account lock
+    await this.loginProtection.assertAccountAllowed(attempt, user);
+
+    const isPasswordValid = user
+      ? await Bun.password.verify(data.password, user.password)
+      : false;
+
+    if (!user || !isPasswordValid) {
+      await this.loginProtection.recordFailure(attempt, user);
+      await this.auditService.record({
+        eventType: AuthAuditEventType.LOGIN_FAILED,
+        userId: user?.id,
+        deviceId: session.device_id,
+        ipAddress,
+        metadata: { reason: "invalid_credentials" },
+      });
+
+      throw new AppError(
+        "auth.login.invalid_credentials",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    if (!user.is_active) {
+      throw new AppError(
+        "auth.login.account_disabled",
+        HTTP_STATUS.FORBIDDEN,
+        ERROR_CODES.FORBIDDEN
+      );
+    }
+
+    // Bộ đếm sai chỉ được reset trong completeLogin, sau khi qua cả bước 2FA
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      return await this.twoFactorService.createChallenge(user.id, session.id);
+    }
+
+    return await this.completeLogin(user, session, ipAddress);
+  }
+
+  /**
+   * Bước đăng nhập thứ hai: verify mã 2FA cho challenge rồi cấp cặp token
+   */
+  async loginWithTwoFactor(
+    data: AuthDto.TwoFactorLoginSchema,
+    deviceToken: string | undefined,
+    ipAddress: string
+  ): Promise<AuthResponse.LoginData> {
+    const session = await this.requireLoginSession(deviceToken);
+
+    const userId = await this.twoFactorService.verifyChallenge(
+      data.challengeToken,
+      session.id,
+      data.code
+    );
+
+    const user = await this.userRepo.findById(BigInt(userId));
+
+    if (!user || user.is_deleted || !user.is_active) {
+      throw new AppError(
+        "auth.login.account_disabled",
+        HTTP_STATUS.FORBIDDEN,
+        ERROR_CODES.FORBIDDEN
+      );
+    }
+
+    return await this.completeLogin(user, session, ipAddress);
+  }
+
+  /**
+   * Đăng nhập cho user đã được xác thực bằng phương thức khác mật khẩu (VD: OAuth),
+   * vẫn yêu cầu 2FA nếu user đã bật, trừ khi phương thức đó đã là đa yếu tố
+   * (VD: passkey có user verification)
+   */
+  async loginAsUser(
+    user: UserModel,
+    deviceToken: string | undefined,
+    ipAddress: string,
+    multiFactor: boolean = false
+  ): Promise<AuthResponse.LoginResult> {
+    const session = await this.requireLoginSession(deviceToken);
+
+    if (user.is_deleted || !user.is_active) {
+      throw new AppError(
+        "auth.login.account_disabled",
+        HTTP_STATUS.FORBIDDEN,
+        ERROR_CODES.FORBIDDEN
+      );
+    }
+
+    if (!multiFactor && (await this.twoFactorService.isEnabled(user.id))) {
+      return await this.twoFactorService.createChallenge(user.id, session.id);
+    }
+
+    return await this.completeLogin(user, session, ipAddress);
+  }
+
+  private toLoginAttempt(
+    email: string,
+    session: SessionModel,
+    ipAddress: string
+  ): LoginAttempt {
+    return {
+      email: email.trim().toLowerCase(),
+      ipAddress,
+      deviceId: session.device_id,
+      deviceKey: session.device_fingerprint || session.device_id,
+    };
+  }
+
+  /**
+   * Session của device token dùng để đăng nhập, phải tồn tại và không bị block
+   */
+  async requireLoginSession(
+    deviceToken: string | undefined
+  ): Promise<SessionModel> {
+    const session = await this.getDeviceSession(deviceToken);
+
+    if (!session) {
+      throw new AppError(
+        "auth.token.invalid",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    if (session.is_blocked) {
+      throw new AppError(
+        "auth.login.user_not_authorized",
+        HTTP_STATUS.FORBIDDEN,
+        ERROR_CODES.FORBIDDEN
+      );
+    }
+
+    return session;
+  }
 
   /**
-   * Tạo device fingerprint hash từ client data sử dụng Bun password
+   * Cấp cặp token và gắn user vào session sau khi đã xác thực đủ các bước
    */
-  private async generateServerFingerprint(
-    data: AuthDto.DeviceFingerprintSchema
-  ): Promise<string> {
-    // const fingerprintData = {
-    //   screenWidth: data.device.screenWidth,
-    //   screenHeight: data.device.screenHeight,
-    //   colorDepth: data.device.colorDepth,
-    //   devicePixelRatio: data.device.devicePixelRatio,
-    //   concurrency: data.device.concurrency,
-    //   memory: data.device.memory || 0,
-    //   maxTouchPoints: data.device.maxTouchPoints,
-    //   platform: data.device.platform,
-    //   language: data.device.language,
-    //   timezone: data.device.timezone,
-    //   webGL: data.features.webGL,
-    //   canvas: data.features.canvas,
-    //   localStorage: data.features.localStorage,
-    //   touchDevice: data.features.touchDevice,
-    // };
-    // const fingerprintString = JSON.stringify(
-    //   fingerprintData,
-    //   Object.keys(fingerprintData).sort()
-    // );
-    // // Sử dụng Bun password để hash fingerprint
-    // const hashedFingerprint = await Bun.password.hash(fingerprintString, {
-    //   algorithm: "bcrypt",
-    //   cost: 4, // Low cost vì không cần security cao cho fingerprint
-    // });
-    // // Lấy 64 ký tự cuối để có fingerprint ngắn gọn
-    // return hashedFingerprint.slice(-64);
+  private async completeLogin(
+    user: UserModel,
+    session: SessionModel,
+    ipAddress: string
+  ): Promise<AuthResponse.LoginData> {
+    const { roles, permissions, version } =
+      await this.rbacService.resolveUserAccess(user.id);
+
+    // Mỗi lần đăng nhập bắt đầu một token family mới
+    const family = crypto.randomUUID();
+    const tokenPair = await this.tokenService.issueTokenPair({
+      userId: String(user.id),
+      email: user.email,
+      roles,
+      permissions,
+      sessionId: String(session.id),
+      deviceId: session.device_id,
+      family,
+      rbacVersion: version ?? 0,
+    });
+
+    const redisSessionId = await this.sessionService.track(
+      session,
+      user.id,
+      tokenPair.refreshToken.expiresAt
+    );
+
+    await this.sessionRepo.update(
+      BigInt(session.id),
+      {
+        user_id: user.id,
+        access_token: tokenPair.accessToken.token,
+        refresh_token: tokenPair.refreshToken.token,
+        token_family: family,
+        roles,
+        permissions,
+        metadata: {
+          ...session.metadata,
+          redis_session_id: redisSessionId,
+        },
+        ip_address: ipAddress,
+        request_count: session.request_count + 1,
+        last_used_at: getCurrentUnixTimestamp(),
+        expires_at: tokenPair.refreshToken.expiresAt,
+      },
+      BigInt(user.id)
+    );
+
+    await this.loginProtection.recordSuccess(
+      this.toLoginAttempt(user.email, session, ipAddress)
+    );
+    await this.loginProtection.rememberDevice(user.id, session.device_id);
+
+    await this.auditService.record({
+      eventType: AuthAuditEventType.LOGIN_SUCCESS,
+      userId: user.id,
+      deviceId: session.device_id,
+      ipAddress,
+      metadata: { session_id: String(session.id) },
+    });
+
+    return {
+      ...this.toTokenResponse(tokenPair),
+      user: {
+        id: Number(user.id),
+        email: user.email,
+        user_name: user.user_name,
+        display_name: user.display_name,
+        avatar_url: user.avatar_url,
+        is_email_verified: user.is_email_verified,
+        is_phone_verified: user.is_phone_verified,
+      },
+    };
   }
 
   /**
-   * Tính risk score dựa trên device fingerprint (scale 0-100)
+   * Rotate refresh token: mỗi refresh token chỉ dùng được một lần.
+   * Nếu một token đã bị rotate được gửi lại, toàn bộ token family (session) bị thu hồi.
    */
-  private calculateRiskScore(data: AuthDto.DeviceFingerprintSchema): number {
-    // let risk = 0;
-    // // Kiểm tra các yếu tố nghi ngờ (scale 0-100)
-    // if (!data.features.localStorage) risk += 20;
-    // if (!data.features.canvas) risk += 30;
-    // if (data.device.concurrency > 32) risk += 20; // CPU quá mạnh - có thể là bot
-    // if (data.device.screenWidth < 800 || data.device.screenHeight < 600)
-    //   risk += 10;
-    // // User agent không khớp với device info
-    // const isInconsistent = this.checkDeviceConsistency(data);
-    // if (!isInconsistent) risk += 40;
-    // return Math.min(risk, 100); // Cap ở 100
+  async refresh(
+    refreshToken: string | undefined,
+    ipAddress: string
+  ): Promise<AuthResponse.RefreshData> {
+    if (!refreshToken) {
+      throw new AppError(
+        "auth.token.missing",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    const payload = await this.tokenService
+      .verify("refresh", refreshToken)
+      .catch(() => null);
+
+    if (!payload?.session_id || !payload.family) {
+      throw new AppError(
+        "auth.token.invalid",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    const session = await this.sessionRepo.findById(BigInt(payload.session_id));
+
+    if (
+      !session ||
+      !session.is_active ||
+      session.is_blocked ||
+      Number(session.revoked_at) > 0 ||
+      session.token_family !== payload.family
+    ) {
+      throw new AppError(
+        "auth.token.invalid",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    // Claims luôn lấy theo RBAC hiện tại để thay đổi quyền có hiệu lực khi refresh
+    const { roles, permissions, version } =
+      await this.rbacService.resolveUserAccess(session.user_id);
+
+    const tokenPair = await this.tokenService.issueTokenPair({
+      userId: String(session.user_id),
+      email: payload.email,
+      roles,
+      permissions,
+      sessionId: String(session.id),
+      deviceId: session.device_id,
+      family: session.token_family,
+      rbacVersion: version ?? 0,
+    });
+
+    // Chỉ update khi refresh token hiện tại vẫn là token mới nhất (atomic compare-and-swap)
+    const [rotated] = await this.sessionRepo.updateWhere(
+      {
+        id: session.id,
+        refresh_token: refreshToken,
+        is_active: true,
+      },
+      {
+        access_token: tokenPair.accessToken.token,
+        refresh_token: tokenPair.refreshToken.token,
+        roles,
+        permissions,
+        ip_address: ipAddress,
+        request_count: session.request_count + 1,
+        last_used_at: getCurrentUnixTimestamp(),
+        expires_at: tokenPair.refreshToken.expiresAt,
+      },
+      session.user_id
+    );
+
+    if (!rotated) {
+      // Refresh token đã bị rotate mà vẫn được dùng lại => thu hồi cả token family
+      console.warn(
+        `Refresh token reuse detected for session ${session.id} (family ${session.token_family})`
+      );
+      await this.sessionService.revoke(
+        [session],
+        "refresh_token_reuse",
+        session.user_id
+      );
+      await this.auditService.record({
+        eventType: AuthAuditEventType.TOKEN_REUSE_DETECTED,
+        userId: session.user_id,
+        deviceId: session.device_id,
+        ipAddress,
+        metadata: { session_id: String(session.id) },
+      });
+
+      throw new AppError(
+        "auth.token.invalid",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    await this.sessionService.touch(rotated, tokenPair.refreshToken.expiresAt);
+    await this.auditService.record({
+      eventType: AuthAuditEventType.TOKEN_REFRESHED,
+      userId: session.user_id,
+      deviceId: session.device_id,
+      ipAddress,
+      metadata: { session_id: String(session.id) },
+    });
+
+    return this.toTokenResponse(tokenPair);
   }
 
   /**
-   * Kiểm tra tính nhất quán của device info
+   * Xác thực access token, token của session đã bị thu hồi bị từ chối ngay lập tức
    */
-  private checkDeviceConsistency(
-    data: AuthDto.DeviceFingerprintSchema
-  ): boolean {
-    // const userAgent = data.userAgent.toLowerCase();
-
-    // // Kiểm tra mobile vs desktop
-    // const isMobileUA = /mobile|android|iphone|ipad/.test(userAgent);
-    // const isMobileDevice =
-    //   data.features.touchDevice && data.device.maxTouchPoints > 0;
-
-    // if (isMobileUA !== isMobileDevice) return false;
-
-    // // Kiểm tra OS consistency
-    // if (
-    //   userAgent.includes("windows") &&
-    //   !data.device.platform.toLowerCase().includes("win")
-    // )
-    //   return false;
-    // if (
-    //   userAgent.includes("mac") &&
-    //   !data.device.platform.toLowerCase().includes("mac")
-    // )
-    //   return false;
-
-    return true;
+  async authenticate(accessToken?: string): Promise<TokenPayload> {
+    if (!accessToken) {
+      throw new AppError(
+        "auth.token.missing",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    const payload = await this.tokenService
+      .verify("access", accessToken)
+      .catch((error) => {
+        if (error instanceof errors.JWTExpired) {
+          throw new AppError(
+            "auth.token.expired",
+            HTTP_STATUS.UNAUTHORIZED,
+            ERROR_CODES.UNAUTHORIZED
+          );
+        }
+
+        return null;
+      });
+
+    if (!payload?.sub || !payload.session_id) {
+      throw new AppError(
+        "auth.token.invalid",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    // Access token cấp trước khi có family không xác định được lần đăng nhập => client phải refresh
+    if (!payload.family) {
+      throw new AppError(
+        "auth.token.expired",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    if (
+      await this.sessionService.isRevoked(payload.session_id, payload.family)
+    ) {
+      throw new AppError(
+        "auth.login.session_expired",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    // Quyền của user đã thay đổi sau khi token được cấp => client phải refresh
+    if (
+      await this.rbacService.isClaimsStale(payload.sub, payload.rbac_version)
+    ) {
+      throw new AppError(
+        "auth.token.expired",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    return payload;
+  }
+
+  /**
+   * Xác thực access token cho service nội bộ (gRPC). Ngoài chữ ký, hạn dùng và thu hồi,
+   * token phải khớp session/device gửi kèm, session và user vẫn còn hoạt động
+   */
+  async validateAccessToken(data: {
+    token: string;
+    deviceId?: string;
+    sessionId?: string;
+    ipAddress?: string;
+  }): Promise<ValidatedToken> {
+    const payload = await this.authenticate(data.token);
+
+    if (data.sessionId && data.sessionId !== payload.session_id) {
+      throw new AppError(
+        "auth.token.invalid",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    if (data.deviceId && data.deviceId !== payload.device_id) {
+      throw new AppError(
+        "auth.token.device_mismatch",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    const session = await this.sessionRepo.findById(BigInt(payload.session_id));
+
+    if (
+      !session ||
+      !session.is_active ||
+      session.is_blocked ||
+      Number(session.revoked_at) > 0 ||
+      String(session.user_id) !== payload.sub ||
+      session.device_id !== payload.device_id
+    ) {
+      throw new AppError(
+        "auth.login.session_expired",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    if (
+      TOKEN_VALIDATION_CONFIG.ENFORCE_IP_BINDING &&
+      data.ipAddress &&
+      data.ipAddress !== session.ip_address
+    ) {
+      throw new AppError(
+        "auth.token.ip_mismatch",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    const user = await this.userRepo.findOne({
+      id: payload.sub,
+      is_deleted: false,
+    });
+
+    if (!user || !user.is_active) {
+      throw new AppError(
+        "auth.login.account_disabled",
+        HTTP_STATUS.FORBIDDEN,
+        ERROR_CODES.FORBIDDEN
+      );
+    }
+
+    return {
+      userId: payload.sub,
+      roles: payload.roles,
+      permissions: payload.permissions,
+      verifiedEmail: user.is_email_verified,
+      verifiedPhone: user.is_phone_verified,
+      deviceId: payload.device_id,
+      sessionId: payload.session_id,
+    };
+  }
+
+  /**
+   * Đăng xuất khỏi device hiện tại
+   */
+  async logout(accessToken?: string): Promise<AuthResponse.LogoutData> {
+    const payload = await this.authenticate(accessToken);
+
+    const session = await this.sessionRepo.findById(BigInt(payload.session_id));
+
+    // Chỉ đăng xuất khi session vẫn đang giữ đúng lần đăng nhập của token này
+    const revokedSessions =
+      session &&
+      session.is_active &&
+      String(session.user_id) === payload.sub &&
+      session.token_family === payload.family
+        ? await this.sessionService.signOut(
+            [session],
+            "logout",
+            payload.sub!,
+            await this.getGuestAccess()
+          )
+        : 0;
+
+    await this.auditService.record({
+      eventType: AuthAuditEventType.LOGOUT,
+      userId: payload.sub,
+      deviceId: payload.device_id,
+      ipAddress: session?.ip_address,
+      metadata: { scope: "current", revoked_sessions: revokedSessions },
+    });
+
+    return { revokedSessions };
+  }
+
+  /**
+   * Đăng xuất khỏi tất cả device, hoặc tất cả trừ device hiện tại
+   */
+  async logoutAll(
+    accessToken: string | undefined,
+    exceptCurrent: boolean
+  ): Promise<AuthResponse.LogoutData> {
+    const payload = await this.authenticate(accessToken);
+
+    const sessions = await this.sessionService.findActiveUserSessions(
+      payload.sub!
+    );
+    const targets = exceptCurrent
+      ? sessions.filter((session) => String(session.id) !== payload.session_id)
+      : sessions;
+
+    const revokedSessions = await this.sessionService.signOut(
+      targets,
+      exceptCurrent ? "logout_others" : "logout_all",
+      payload.sub!,
+      await this.getGuestAccess()
+    );
+
+    await this.auditService.record({
+      eventType: AuthAuditEventType.LOGOUT,
+      userId: payload.sub,
+      deviceId: payload.device_id,
+      metadata: {
+        scope: exceptCurrent ? "others" : "all",
+        revoked_sessions: revokedSessions,
+      },
+    });
+
+    return { revokedSessions };
+  }
+
+  /**
+   * Danh sách device/session đang đăng nhập vào tài khoản
+   */
+  async listDevices(accessToken?: string): Promise<AuthResponse.DeviceList> {
+    const payload = await this.authenticate(accessToken);
+
+    const sessions = await this.sessionService.findActiveUserSessions(
+      payload.sub!
+    );
+
+    return sessions.map((session) => ({
+      id: String(session.id),
+      deviceId: session.device_id,
+      deviceName: session.device_name,
+      deviceType: session.device_type,
+      os: session.device_os,
+      browser: session.device_browser,
+      ipAddress: session.ip_address,
+      riskScore: Number(session.risk_score),
+      lastUsedAt: parseUnixToVietnamTime(
+        Number(session.last_used_at),
+        "YYYY-MM-DD HH:mm:ss"
+      ),
+      createdAt: parseUnixToVietnamTime(
+        Number(session.created_at),
+        "YYYY-MM-DD HH:mm:ss"
+      ),
+      isCurrent: String(session.id) === payload.session_id,
+    }));
+  }
+
+  /**
+   * Gỡ một device khỏi tài khoản, thu hồi token và Redis session của device đó
+   */
+  async deleteDevice(
+    accessToken: string | undefined,
+    sessionId: string
+  ): Promise<AuthResponse.LogoutData> {
+    const payload = await this.authenticate(accessToken);
+
+    const session = /^\d+$/.test(sessionId)
+      ? await this.sessionRepo.findById(BigInt(sessionId))
+      : null;
+
+    // Không tiết lộ session của user khác, coi như không tồn tại
+    if (
+      !session ||
+      !session.is_active ||
+      String(session.user_id) !== payload.sub
+    ) {
+      throw new AppError(
+        "auth.device.not_found",
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND
+      );
+    }
+
+    const revokedSessions = await this.sessionService.revoke(
+      [session],
+      "device_removed",
+      payload.sub
+    );
+
+    await this.auditService.record({
+      eventType: AuthAuditEventType.DEVICE_REMOVED,
+      userId: payload.sub,
+      deviceId: session.device_id,
+      ipAddress: session.ip_address,
+      metadata: { removed_by_device: payload.device_id },
+    });
+
+    return { revokedSessions };
+  }
+
+  /**
+   * Chuyển token pair sang response format trả về client
+   */
+  private toTokenResponse(tokenPair: TokenPair): AuthResponse.RefreshData {
+    return {
+      accessToken: tokenPair.accessToken.token,
+      refreshToken: tokenPair.refreshToken.token,
+      tokenType: "Bearer",
+      accessTokenExpiresAt: parseUnixToVietnamTime(
+        tokenPair.accessToken.expiresAt,
+        "YYYY-MM-DD HH:mm:ss"
+      ),
+      refreshTokenExpiresAt: parseUnixToVietnamTime(
+        tokenPair.refreshToken.expiresAt,
+        "YYYY-MM-DD HH:mm:ss"
+      ),
+    };
+  }
+
+  /**
+   * Lấy session đang active gắn với device token, null nếu token không hợp lệ
+   */
+  private async getDeviceSession(
+    deviceToken?: string
+  ): Promise<SessionModel | null> {
+    if (!deviceToken) return null;
+
+    try {
+      const payload = await this.tokenService.verifyDeviceToken(deviceToken);
+
+      return await this.sessionRepo.findOne({
+        device_id: payload.deviceId,
+        is_active: true,
+      });
+    } catch (error) {
+      // Token không hợp lệ
+      return null;
+    }
+  }
+
+  /**
+   * Giải mã device info client gửi lên (mã hóa bằng encryptDeviceData)
+   */
+  private async decryptDeviceInfo(
+    deviceData: AuthDto.DeviceFingerprintSchema
+  ): Promise<DeviceInfo> {
+    try {
+      const encryption: EncryptionResult = JSON.parse(deviceData.deviceInfo);
+
+      const secretKey = generateSecretKey(
+        SERVICE_CONFIG.DATA_ENCRYPT_SECRET_KEY,
+        SERVICE_CONFIG.NODE_ENV
+      );
+
+      // Bắt buộc payload có timestamp và không quá tuổi tối đa phía server
+      return await decryptDeviceData(encryption, {
+        secretKey,
+        useTimestamp: true,
+        expirationMinutes: SERVICE_CONFIG.DATA_ENCRYPT_MAX_AGE_MINUTES,
+      });
+    } catch (error) {
+      const isExpired =
+        error instanceof Error && error.message.includes("expired");
+
+      throw new AppError(
+        isExpired
+          ? "auth.device.payload_expired"
+          : "auth.device.invalid_payload",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  /**
+   * Mỗi device payload mã hóa chỉ được dùng một lần để tạo device token,
+   * key tự hết hạn cùng lúc với payload nên không cần dọn dẹp
+   */
+  private async assertDevicePayloadUnused(
+    deviceData: AuthDto.DeviceFingerprintSchema
+  ): Promise<void> {
+    const digest = new Bun.CryptoHasher("sha256")
+      .update(deviceData.deviceInfo)
+      .digest("hex");
+    const key = `auth:device:payload:${digest}`;
+
+    // SET NX EX đánh dấu payload kèm TTL trong một lệnh, không để lại key không hết hạn
+    const claimed = await this.redis.send("SET", [
+      key,
+      "1",
+      "EX",
+      String(SERVICE_CONFIG.DATA_ENCRYPT_MAX_AGE_MINUTES * 60),
+      "NX",
+    ]);
+    if (claimed === "OK") return;
+
+    throw new AppError(
+      "auth.device.payload_replayed",
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_CODES.RESOURCE_CONFLICT
+    );
+  }
+
+  /**
+   * Đánh giá risk của device, dùng IP của các session cùng fingerprint để phát hiện IP churn
+   */
+  private async assessDeviceRisk(
+    deviceInfo: DeviceInfo,
+    fingerprint: string,
+    userAgent: string,
+    ipAddress: string,
+    session?: SessionModel | null
+  ): Promise<RiskAssessment> {
+    const knownSessions = await this.sessionRepo.findWhere(
+      { device_fingerprint: fingerprint },
+      { limit: 50, orderBy: "last_used_at" }
+    );
+
+    return this.riskEngine.evaluate({
+      deviceInfo,
+      userAgent,
+      ipAddress,
+      session,
+      knownIpAddresses: knownSessions.map(
+        (knownSession) => knownSession.ip_address
+      ),
+      now: getCurrentUnixTimestamp(),
+    });
+  }
+
+  /**
+   * Quyền của device session khi chưa đăng nhập hoặc đã đăng xuất
+   */
+  private async getGuestAccess(): Promise<AccessClaims> {
+    return await this.rbacService.resolveRoleAccess([RBAC_CONFIG.GUEST_ROLE]);
   }
 
   /**
@@ -111,121 +918,110 @@ export class AuthService {
    */
   async createDeviceToken(
     deviceData: AuthDto.DeviceFingerprintSchema,
+    userAgent: string,
     ipAddress: string
   ): Promise<AuthResponse.DeviceTokenData> {
-    const encryption: EncryptionResult = JSON.parse(deviceData.deviceInfo);
+    await this.loginProtection.assertDeviceTokenAllowed(ipAddress);
+    const deviceInfo = await this.decryptDeviceInfo(deviceData);
+    await this.assertDevicePayloadUnused(deviceData);
+    const guestAccess = await this.getGuestAccess();
+
+    const serverFingerprint = this.riskEngine.generateFingerprint(deviceInfo);
+    const riskAssessment = await this.assessDeviceRisk(
+      deviceInfo,
+      serverFingerprint,
+      userAgent,
+      ipAddress
+    );
+    const shouldBlock = this.riskEngine.shouldBlock(riskAssessment);
+
+    const deviceId = crypto.randomUUID();
+    const deviceToken = await this.tokenService.signDeviceToken(
+      deviceId,
+      serverFingerprint
+    );
+
+    // Parse device info từ user agent
+    const resolvedUserAgent = userAgent || deviceInfo.browser?.userAgent || "";
+    const parsedUserAgent = this.parseUserAgent(resolvedUserAgent);
+    const now = getCurrentUnixTimestamp();
 
-    const secretKey = generateSecretKey(
-      SERVICE_CONFIG.DATA_ENCRYPT_SECRET_KEY,
-      SERVICE_CONFIG.NODE_ENV
+    // Lưu session với user_id = 0 (guest)
+    const session = await this.sessionRepo.create(
+      {
+        user_id: 0,
+        access_token: "",
+        refresh_token: "",
+        token_family: "",
+        device_id: deviceId,
+        device_fingerprint: serverFingerprint,
+        device_token: deviceToken.token,
+        device_name: parsedUserAgent.name,
+        device_type: parsedUserAgent.type,
+        device_os: parsedUserAgent.os,
+        device_browser: parsedUserAgent.browser,
+        user_agent: resolvedUserAgent,
+        ip_address: ipAddress,
+        roles: guestAccess.roles,
+        permissions: guestAccess.permissions,
+        metadata: {
+          confidence: this.calculateConfidence(deviceInfo, riskAssessment),
+          risk_assessment: riskAssessment,
+          first_seen: now,
+        },
+        risk_score: riskAssessment.score,
+        request_count: 1,
+        last_used_at: now,
+        is_active: true,
+        is_blocked: shouldBlock,
+        blocked_reason: shouldBlock ? "High risk device" : "",
+        expires_at: deviceToken.expiresAt,
+        revoked_at: 0,
+      },
+      0
     );
 
-    const deviceInfoDecrypted = await decryptDeviceData(encryption, {
-      secretKey,
+    await this.auditService.record({
+      eventType: shouldBlock
+        ? AuthAuditEventType.DEVICE_BLOCKED
+        : AuthAuditEventType.DEVICE_REGISTERED,
+      deviceId,
+      ipAddress,
+      metadata: { risk_score: riskAssessment.score },
     });
 
-    console.log("deviceInfoDecrypted:", deviceInfoDecrypted);
-
-    // const deviceId = nanoid(16);
-    // const serverFingerprint = await this.generateServerFingerprint(deviceData);
-    // const riskScore = this.calculateRiskScore(deviceData);
-
-    // // Tạo device token (JWT with device info)
-    // const secret = new TextEncoder().encode(
-    //   process.env.JWT_SECRET || "device-secret"
-    // );
-    // const deviceToken = await new SignJWT({
-    //   deviceId,
-    //   fingerprint: serverFingerprint,
-    //   type: "device",
-    //   isGuest: true,
-    // })
-    //   .setProtectedHeader({ alg: "HS256" })
-    //   .setIssuedAt()
-    //   .setExpirationTime("30d")
-    //   .sign(secret);
-
-    // // Parse device info từ user agent
-    // const deviceInfo = this.parseUserAgent(deviceData.userAgent);
-
-    // // Lưu session với user_id = null (guest)
-    // const sessionData: Partial<SessionModel> = {
-    //   user_id: 0, // Guest user
-    //   access_token: "",
-    //   refresh_token: "",
-    //   device_id: deviceId,
-    //   device_fingerprint: serverFingerprint,
-    //   device_token: deviceToken,
-    //   device_name: deviceInfo.name,
-    //   device_type: deviceInfo.type,
-    //   device_os: deviceInfo.os,
-    //   device_browser: deviceInfo.browser,
-    //   user_agent: deviceData.userAgent,
-    //   ip_address: ipAddress,
-    //   roles: ["guest"],
-    //   permissions: ["basic"],
-    //   metadata: {
-    //     clientFingerprints: deviceData.clientFingerprints,
-    //     confidence: await this.calculateConfidence(deviceData),
-    //     firstSeen: getCurrentUnixTimestamp(),
-    //   },
-    //   risk_score: riskScore,
-    //   request_count: 1,
-    //   last_used_at: getCurrentUnixTimestamp(),
-    //   is_active: true,
-    //   is_blocked: riskScore > 80, // Block nếu risk cao (> 80/100)
-    //   blocked_reason: riskScore > 80 ? "High risk device" : "",
-    //   expires_at: getCurrentUnixTimestamp() + 30 * 24 * 60 * 60,
-    //   revoked_at: 0,
-    //   created_at: getCurrentUnixTimestamp(),
-    //   updated_at: getCurrentUnixTimestamp(),
-    // };
-
-    // await this.sessionRepo.create(sessionData as SessionModel, 0);
-
-    // return {
-    //   deviceToken,
-    //   deviceId,
-    //   fingerprint: serverFingerprint,
-    //   expiresAt: parseUnixToVietnamTime(
-    //     Number(sessionData.expires_at),
-    //     "YYYY-MM-DD HH:mm:ss"
-    //   ),
-    //   createdAt: parseUnixToVietnamTime(
-    //     Number(sessionData.created_at),
-    //     "YYYY-MM-DD HH:mm:ss"
-    //   ),
-    //   isGuest: true,
-    // };
+    return {
+      deviceToken: deviceToken.token,
+      deviceId,
+      fingerprint: serverFingerprint,
+      expiresAt: parseUnixToVietnamTime(
+        deviceToken.expiresAt,
+        "YYYY-MM-DD HH:mm:ss"
+      ),
+      createdAt: parseUnixToVietnamTime(
+        Number(session.created_at),
+        "YYYY-MM-DD HH:mm:ss"
+      ),
+      isGuest: true,
+    };
   }
 
   /**
-   * Verify device fingerprint
+   * Verify device fingerprint, đồng thời chấm lại risk score cho session hiện có
    */
   async verifyDevice(
     deviceData: AuthDto.DeviceFingerprintSchema,
+    userAgent: string,
+    ipAddress: string,
     deviceToken?: string
   ): Promise<AuthResponse.DeviceVerificationData> {
-    const serverFingerprint = await this.generateServerFingerprint(deviceData);
+    const deviceInfo = await this.decryptDeviceInfo(deviceData);
+    const serverFingerprint = this.riskEngine.generateFingerprint(deviceInfo);
 
     // Tìm session existing
-    let existingSession: SessionModel | null = null;
-
-    if (deviceToken) {
-      try {
-        const secret = new TextEncoder().encode(
-          process.env.JWT_SECRET || "device-secret"
-        );
-        const { payload } = await jwtVerify(deviceToken, secret);
-
-        existingSession = await this.sessionRepo.findOne({
-          device_id: payload.deviceId as string,
-          is_active: true,
-        });
-      } catch (error) {
-        // Token không hợp lệ
-      }
-    }
+    let existingSession: SessionModel | null = deviceToken
+      ? await this.getDeviceSession(deviceToken)
+      : null;
 
     // Nếu không có token, tìm bằng fingerprint
     if (!existingSession) {
@@ -235,25 +1031,51 @@ export class AuthService {
       });
     }
 
-    const confidence = await this.calculateConfidence(deviceData);
+    const riskAssessment = await this.assessDeviceRisk(
+      deviceInfo,
+      serverFingerprint,
+      userAgent,
+      ipAddress,
+      existingSession
+    );
+    const shouldBlock = this.riskEngine.shouldBlock(riskAssessment);
+    const confidence = this.calculateConfidence(deviceInfo, riskAssessment);
     const isNewDevice = !existingSession;
 
     if (existingSession) {
-      // Update last used
+      // Update last used và risk score, chỉ tự động block chứ không tự gỡ block
       await this.sessionRepo.update(
         BigInt(existingSession.id),
         {
           last_used_at: getCurrentUnixTimestamp(),
           request_count: existingSession.request_count + 1,
+          risk_score: riskAssessment.score,
+          metadata: {
+            ...existingSession.metadata,
+            risk_assessment: riskAssessment,
+          },
+          ...(shouldBlock && !existingSession.is_blocked
+            ? { is_blocked: true, blocked_reason: "High risk device" }
+            : {}),
           updated_at: getCurrentUnixTimestamp(),
         },
         BigInt(0)
       );
+
+      if (shouldBlock && !existingSession.is_blocked) {
+        await this.auditService.record({
+          eventType: AuthAuditEventType.DEVICE_BLOCKED,
+          userId: existingSession.user_id,
+          deviceId: existingSession.device_id,
+          ipAddress,
+          metadata: { risk_score: riskAssessment.score },
+        });
+      }
     }
 
     return {
-      isValid: !!existingSession && !existingSession.is_blocked,
-      deviceId: Number(existingSession?.device_id),
+      isValid: !!existingSession && !existingSession.is_blocked && !shouldBlock,
+      deviceId: existingSession?.device_id ?? "",
       fingerprint: serverFingerprint,
       confidence,
       lastSeen: parseUnixToVietnamTime(
@@ -265,45 +1087,68 @@ export class AuthService {
   }
 
   /**
-   * Link device với user khi đăng nhập
+   * Link device với user sau khi đăng nhập. Chỉ chấp nhận cặp token đang gắn với
+   * chính session của device token: access token hợp lệ có sub = userId,
+   * device_id/session_id khớp device và refresh token là token mới nhất của session
    */
   async linkDeviceToUser(
     userId: string,
-    deviceToken: string,
+    deviceToken: string | undefined,
     accessToken: string,
     refreshToken: string
-  ): Promise<boolean> {
-    try {
-      const secret = new TextEncoder().encode(
-        process.env.JWT_SECRET || "device-secret"
+  ): Promise<void> {
+    const session = await this.requireLoginSession(deviceToken);
+    const payload = await this.authenticate(accessToken);
+
+    if (
+      payload.device_id !== session.device_id ||
+      payload.session_id !== String(session.id)
+    ) {
+      throw new AppError(
+        "auth.token.device_mismatch",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
       );
-      const { payload } = await jwtVerify(deviceToken, secret);
+    }
 
-      const session = await this.sessionRepo.findOne({
-        device_id: payload.deviceId as string,
-        is_active: true,
-      });
+    const refreshPayload = await this.tokenService
+      .verify("refresh", refreshToken)
+      .catch(() => null);
 
-      if (session) {
-        await this.sessionRepo.update(
-          BigInt(session.id),
-          {
-            user_id: userId,
-            access_token: accessToken,
-            refresh_token: refreshToken,
-            roles: ["user"], // Upgrade từ guest thành user
-            permissions: ["read", "write"],
-            updated_at: getCurrentUnixTimestamp(),
-          },
-          BigInt(Number(userId))
-        );
-        return true;
-      }
-    } catch (error) {
-      console.error("Error linking device to user:", error);
+    if (
+      payload.sub !== userId ||
+      String(session.user_id) !== userId ||
+      refreshPayload?.sub !== userId ||
+      refreshPayload.session_id !== payload.session_id ||
+      session.refresh_token !== refreshToken
+    ) {
+      throw new AppError(
+        "auth.token.invalid",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
     }
 
-    return false;
+    // Quyền luôn lấy theo RBAC hiện tại của user đã xác thực
+    const { roles, permissions } =
+      await this.rbacService.resolveUserAccess(userId);
+
+    await this.sessionRepo.update(
+      BigInt(session.id),
+      {
+        access_token: accessToken,
+        roles,
+        permissions,
+        updated_at: getCurrentUnixTimestamp(),
+      },
+      BigInt(userId)
+    );
+    await this.auditService.record({
+      eventType: AuthAuditEventType.DEVICE_LINKED,
+      userId,
+      deviceId: session.device_id,
+      ipAddress: session.ip_address,
+    });
   }
 
   /**
@@ -338,30 +1183,22 @@ export class AuthService {
   }
 
   /**
-   * Tính confidence score cho fingerprint (async để support server fingerprint)
+   * Tính confidence score cho fingerprint (scale 0-100)
    */
-  private async calculateConfidence(
-    data: AuthDto.DeviceFingerprintSchema
-  ): Promise<number> {
-    let confidence = 50; // Base confidence (scale 0-100)
+  private calculateConfidence(
+    deviceInfo: DeviceInfo,
+    riskAssessment: RiskAssessment
+  ): number {
+    let confidence = 50; // Base confidence
 
     // Có nhiều thông tin unique
-    if (data.device.memory) confidence += 10;
-    if (data.features.webGL) confidence += 10;
-    if (data.features.canvas) confidence += 10;
-    if (data.device.maxTouchPoints > 0) confidence += 5;
-
-    // Client và server fingerprint khớp
-    const serverFingerprint = await this.generateServerFingerprint(data);
-    if (
-      data.clientFingerprints.basic.slice(0, 16) ===
-      serverFingerprint.slice(0, 16)
-    ) {
-      confidence += 20;
-    }
+    if (deviceInfo.hardware?.memory) confidence += 10;
+    if (deviceInfo.features?.webGL) confidence += 10;
+    if (deviceInfo.features?.canvas) confidence += 10;
+    if (deviceInfo.hardware?.maxTouchPoints > 0) confidence += 5;
 
-    // Device info consistent
-    if (this.checkDeviceConsistency(data)) confidence += 10;
+    // Device info nhất quán, không rule nào bị kích hoạt
+    if (riskAssessment.findings.length === 0) confidence += 15;
 
     return Math.min(confidence, 100);
   }
@@ -1,21 +1,26 @@
 import { AuthApiConfig } from "@repo/utils";
 import { Elysia } from "elysia";
+import { resolveClientIp } from "../../../client-ip";
 
 import { AuthDto } from "./auth.dto";
 import { AuthResponse } from "./auth.response";
 import { AuthService } from "./auth.service";
+import { LoginProtectionService } from "./login-protection.service";
+import { MagicLinkService } from "./magic-link.service";
+import { PhoneVerificationService } from "./phone-verification.service";
+import { TwoFactorService } from "./two-factor.service";
+import { VerificationService } from "./verification.service";
 
 export const authController = new Elysia({
   prefix: "/auth",
 })
   .decorate("authService", new AuthService())
-  .decorate("requestIP", ({ request }: { request: any }) => {
-    return (
-      request.headers.get("x-forwarded-for") ||
-      request.headers.get("x-real-ip") ||
-      "unknown"
-    );
-  })
+  .decorate("twoFactorService", new TwoFactorService())
+  .decorate("verificationService", new VerificationService())
+  .decorate("phoneVerificationService", new PhoneVerificationService())
+  .decorate("loginProtectionService", new LoginProtectionService())
+  .decorate("magicLinkService", new MagicLinkService())
+  .decorate("requestIP", resolveClientIp)
   .model({
     "body.auth.register": AuthDto.registerAccountSchema,
     "response.auth.register": AuthResponse.registerDataSchema,
@@ -23,14 +28,31 @@ export const authController = new Elysia({
     "response.auth.deviceToken": AuthResponse.deviceTokenSchema,
     "response.auth.deviceVerification": AuthResponse.deviceVerificationSchema,
     "body.auth.deviceLink": AuthDto.deviceLinkSchema,
+    "body.auth.login": AuthDto.loginSchema,
+    "response.auth.login": AuthResponse.loginResultSchema,
+    "response.auth.magicLinkLogin": AuthResponse.magicLinkLoginResultSchema,
+    "body.auth.loginTwoFactor": AuthDto.twoFactorLoginSchema,
+    "body.auth.magicLink": AuthDto.magicLinkSchema,
+    "response.auth.loginTwoFactor": AuthResponse.loginDataSchema,
+    "body.auth.twoFactorCode": AuthDto.twoFactorCodeSchema,
+    "response.auth.twoFactorSetup": AuthResponse.twoFactorSetupSchema,
+    "response.auth.backupCodes": AuthResponse.backupCodesSchema,
+    "response.auth.twoFactorStatus": AuthResponse.twoFactorStatusSchema,
+    "body.auth.accountToken": AuthDto.accountTokenSchema,
+    "body.auth.forgotPassword": AuthDto.forgotPasswordSchema,
+    "body.auth.resetPassword": AuthDto.resetPasswordSchema,
+    "response.auth.accountAction": AuthResponse.accountActionSchema,
+    "body.auth.phone": AuthDto.phoneSchema,
+    "body.auth.phoneOtp": AuthDto.phoneOtpSchema,
+    "response.auth.phoneOtp": AuthResponse.phoneOtpSchema,
+    "response.auth.refresh": AuthResponse.refreshDataSchema,
+    "response.auth.logout": AuthResponse.logoutDataSchema,
+    "response.auth.deviceList": AuthResponse.deviceListSchema,
   })
   .post(
     AuthApiConfig.ROUTES["POST /register"].path,
-    ({ body, authService }) => {
-      return {
-        id: 10,
-        email: "test@test.com",
-      };
+    async ({ body, authService }) => {
+      return await authService.register(body);
     },
     {
       body: "body.auth.register",
@@ -42,13 +64,405 @@ export const authController = new Elysia({
       },
     }
   )
+  .post(
+    AuthApiConfig.ROUTES["POST /login"].path,
+    async ({ body, authService, headers, request, server, requestIP }) => {
+      const deviceToken = headers.authorization?.replace("Bearer ", "");
+
+      return await authService.login(
+        body,
+        deviceToken,
+        requestIP({ request, server })
+      );
+    },
+    {
+      body: "body.auth.login",
+      response: "response.auth.login",
+      detail: {
+        summary: "Login with email and password",
+        description:
+          "Verify credentials and issue an access/refresh token pair bound to the current device token",
+        tags: ["Auth"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /login/2fa"].path,
+    async ({ body, authService, headers, request, server, requestIP }) => {
+      const deviceToken = headers.authorization?.replace("Bearer ", "");
+
+      return await authService.loginWithTwoFactor(
+        body,
+        deviceToken,
+        requestIP({ request, server })
+      );
+    },
+    {
+      body: "body.auth.loginTwoFactor",
+      response: "response.auth.loginTwoFactor",
+      detail: {
+        summary: "Complete login with two-factor code",
+        description:
+          "Exchange the challenge token returned by login plus a TOTP or backup code for an access/refresh token pair",
+        tags: ["Auth", "2FA"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /login/magic-link/request"].path,
+    async ({ body, magicLinkService, headers, request, server, requestIP }) => {
+      const deviceToken = headers.authorization?.replace("Bearer ", "");
+
+      await magicLinkService.request(
+        body.email,
+        deviceToken,
+        requestIP({ request, server })
+      );
+
+      // Luôn trả về thành công để không lộ email nào đã đăng ký
+      return { success: true };
+    },
+    {
+      body: "body.auth.magicLink",
+      response: "response.auth.accountAction",
+      detail: {
+        summary: "Request magic link",
+        description:
+          "Send a single-use login link to the email, bound to the current device token",
+        tags: ["Auth", "Magic Link"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /login/magic-link/verify"].path,
+    async ({ body, magicLinkService, headers, request, server, requestIP }) => {
+      const deviceToken = headers.authorization?.replace("Bearer ", "");
+
+      return await magicLinkService.login(
+        body.token,
+        deviceToken,
+        requestIP({ request, server })
+      );
+    },
+    {
+      body: "body.auth.accountToken",
+      response: "response.auth.magicLinkLogin",
+      detail: {
+        summary: "Login with magic link",
+        description:
+          "Exchange the token from the magic link for an access/refresh token pair bound to the current device token. deviceMismatch is true when the link was requested from another device",
+        tags: ["Auth", "Magic Link"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /2fa/setup"].path,
+    async ({ authService, twoFactorService, headers }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await twoFactorService.setup(payload.sub!, payload.email);
+    },
+    {
+      response: "response.auth.twoFactorSetup",
+      detail: {
+        summary: "Start two-factor enrollment",
+        description:
+          "Generate a TOTP secret and otpauth URI, 2FA is enabled only after the first code is confirmed",
+        tags: ["Auth", "2FA"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /2fa/enable"].path,
+    async ({ authService, twoFactorService, headers, body }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await twoFactorService.enable(payload.sub!, body.code);
+    },
+    {
+      body: "body.auth.twoFactorCode",
+      response: "response.auth.backupCodes",
+      detail: {
+        summary: "Enable two-factor authentication",
+        description:
+          "Confirm the first TOTP code and receive one-time backup codes",
+        tags: ["Auth", "2FA"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /2fa/disable"].path,
+    async ({ authService, twoFactorService, headers, body }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      await twoFactorService.disable(payload.sub!, body.code);
+
+      return { enabled: false };
+    },
+    {
+      body: "body.auth.twoFactorCode",
+      response: "response.auth.twoFactorStatus",
+      detail: {
+        summary: "Disable two-factor authentication",
+        description: "Disable 2FA using a TOTP or backup code",
+        tags: ["Auth", "2FA"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /2fa/backup-codes"].path,
+    async ({ authService, twoFactorService, headers, body }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await twoFactorService.regenerateBackupCodes(
+        payload.sub!,
+        body.code
+      );
+    },
+    {
+      body: "body.auth.twoFactorCode",
+      response: "response.auth.backupCodes",
+      detail: {
+        summary: "Regenerate backup codes",
+        description:
+          "Invalidate all existing backup codes and issue a new set, requires a TOTP code",
+        tags: ["Auth", "2FA"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /email/verify/request"].path,
+    async ({ authService, verificationService, headers }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      await verificationService.requestEmailVerification(payload.sub!);
+
+      return { success: true };
+    },
+    {
+      response: "response.auth.accountAction",
+      detail: {
+        summary: "Send email verification link",
+        description:
+          "Send a single-use verification link to the email of the current user",
+        tags: ["Auth", "Verification"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /email/verify/confirm"].path,
+    async ({ verificationService, body }) => {
+      await verificationService.confirmEmailVerification(body.token);
+
+      return { success: true };
+    },
+    {
+      body: "body.auth.accountToken",
+      response: "response.auth.accountAction",
+      detail: {
+        summary: "Confirm email verification",
+        description: "Mark the email as verified using the token from the link",
+        tags: ["Auth", "Verification"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /password/forgot"].path,
+    async ({ verificationService, body }) => {
+      await verificationService.requestPasswordReset(body.email);
+
+      // Luôn trả về thành công để không lộ email nào đã đăng ký
+      return { success: true };
+    },
+    {
+      body: "body.auth.forgotPassword",
+      response: "response.auth.accountAction",
+      detail: {
+        summary: "Request password reset",
+        description:
+          "Send a single-use password reset link if the email belongs to an active account",
+        tags: ["Auth", "Verification"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /password/reset"].path,
+    async ({ verificationService, body }) => {
+      await verificationService.resetPassword(body.token, body.password);
+
+      return { success: true };
+    },
+    {
+      body: "body.auth.resetPassword",
+      response: "response.auth.accountAction",
+      detail: {
+        summary: "Reset password",
+        description:
+          "Set a new password using the token from the reset link and revoke all existing sessions",
+        tags: ["Auth", "Verification"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /account/unlock"].path,
+    async ({ loginProtectionService, body }) => {
+      await loginProtectionService.unlockAccount(body.token);
+
+      return { success: true };
+    },
+    {
+      body: "body.auth.accountToken",
+      response: "response.auth.accountAction",
+      detail: {
+        summary: "Unlock account",
+        description:
+          "Lift a brute-force lockout on the account using the token sent by email",
+        tags: ["Auth", "Verification"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /phone"].path,
+    async ({ authService, phoneVerificationService, headers, body }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await phoneVerificationService.attachPhone(
+        payload.sub!,
+        body.phone
+      );
+    },
+    {
+      body: "body.auth.phone",
+      response: "response.auth.phoneOtp",
+      detail: {
+        summary: "Add phone number",
+        description:
+          "Send a verification OTP to a Vietnamese phone number, the number replaces the current one only after the OTP is verified",
+        tags: ["Auth", "Verification"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /phone/otp"].path,
+    async ({ authService, phoneVerificationService, headers }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await phoneVerificationService.resendOtp(payload.sub!);
+    },
+    {
+      response: "response.auth.phoneOtp",
+      detail: {
+        summary: "Resend phone OTP",
+        description:
+          "Send a new verification OTP to the phone number awaiting verification, rate limited per user and phone number",
+        tags: ["Auth", "Verification"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /phone/verify"].path,
+    async ({ authService, phoneVerificationService, headers, body }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      await phoneVerificationService.verifyOtp(payload.sub!, body.code);
+
+      return { success: true };
+    },
+    {
+      body: "body.auth.phoneOtp",
+      response: "response.auth.accountAction",
+      detail: {
+        summary: "Verify phone number",
+        description: "Confirm the OTP and mark the phone number as verified",
+        tags: ["Auth", "Verification"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /refresh"].path,
+    async ({ authService, headers, request, server, requestIP }) => {
+      const refreshToken = headers.authorization?.replace("Bearer ", "");
+
+      return await authService.refresh(
+        refreshToken,
+        requestIP({ request, server })
+      );
+    },
+    {
+      response: "response.auth.refresh",
+      detail: {
+        summary: "Rotate refresh token",
+        description:
+          "Exchange a refresh token for a new access/refresh token pair. Reusing an already rotated refresh token revokes the whole session",
+        tags: ["Auth"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /logout"].path,
+    async ({ authService, headers }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+
+      return await authService.logout(accessToken);
+    },
+    {
+      response: "response.auth.logout",
+      detail: {
+        summary: "Logout current device",
+        description:
+          "Revoke the session of the current device, its access token stops validating immediately",
+        tags: ["Auth"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /logout/all"].path,
+    async ({ authService, headers }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+
+      return await authService.logoutAll(accessToken, false);
+    },
+    {
+      response: "response.auth.logout",
+      detail: {
+        summary: "Logout all devices",
+        description: "Revoke every active session of the current user",
+        tags: ["Auth"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /logout/others"].path,
+    async ({ authService, headers }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+
+      return await authService.logoutAll(accessToken, true);
+    },
+    {
+      response: "response.auth.logout",
+      detail: {
+        summary: "Logout all other devices",
+        description:
+          "Revoke every active session of the current user except the current device",
+        tags: ["Auth"],
+      },
+    }
+  )
   .post(
     AuthApiConfig.ROUTES["POST /device/token"].path,
-    async ({ body, authService, request, requestIP }) => {
-      console.log(requestIP({ request }));
+    async ({ body, authService, headers, request, server, requestIP }) => {
       const result = await authService.createDeviceToken(
         body,
-        requestIP({ request })
+        headers["user-agent"] ?? "",
+        requestIP({ request, server })
       );
       return result;
     },
@@ -65,10 +479,15 @@ export const authController = new Elysia({
   )
   .post(
     AuthApiConfig.ROUTES["POST /device/verify"].path,
-    async ({ body, authService, headers, set }) => {
+    async ({ body, authService, headers, request, server, requestIP }) => {
       const deviceToken = headers.authorization?.replace("Bearer ", "");
 
-      const result = await authService.verifyDevice(body, deviceToken);
+      const result = await authService.verifyDevice(
+        body,
+        headers["user-agent"] ?? "",
+        requestIP({ request, server }),
+        deviceToken
+      );
       return result;
     },
     {
@@ -82,44 +501,60 @@ export const authController = new Elysia({
       },
     }
   )
+  .get(
+    AuthApiConfig.ROUTES["GET /device/list"].path,
+    async ({ authService, headers }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+
+      return await authService.listDevices(accessToken);
+    },
+    {
+      response: "response.auth.deviceList",
+      detail: {
+        summary: "List logged-in devices",
+        description:
+          "List every device/session currently signed in to the user's account",
+        tags: ["Auth", "Device"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /device/:id/delete"].path,
+    async ({ authService, headers, params }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+
+      return await authService.deleteDevice(accessToken, params.id);
+    },
+    {
+      response: "response.auth.logout",
+      detail: {
+        summary: "Remove a device",
+        description:
+          "Remove a device from the account, revoking its tokens and Redis session",
+        tags: ["Auth", "Device"],
+      },
+    }
+  )
   .post(
     AuthApiConfig.ROUTES["POST /device/link"].path,
-    async ({ authService, headers, body, set }) => {
-      try {
-        const deviceToken = headers.authorization?.replace("Bearer ", "");
-
-        if (!deviceToken) {
-          set.status = 400;
-          return { error: "Device token required" };
-        }
-
-        const success = await authService.linkDeviceToUser(
-          body.user_id,
-          deviceToken,
-          body.access_token,
-          body.refresh_token
-        );
-
-        if (success) {
-          return { message: "Device linked successfully" };
-        } else {
-          set.status = 400;
-          return { error: "Failed to link device" };
-        }
-      } catch (error) {
-        set.status = 500;
-        return {
-          error: "Failed to link device",
-          message: error instanceof Error ? error.message : "Unknown error",
-        };
-      }
+    async ({ authService, headers, body }) => {
+      const deviceToken = headers.authorization?.replace("Bearer ", "");
+
+      await authService.linkDeviceToUser(
+        body.user_id,
+        deviceToken,
+        body.access_token,
+        body.refresh_token
+      );
+
+      return { message: "Device linked successfully" };
     },
     {
       body: "body.auth.deviceLink",
       detail: {
         summary: "Link device to user account",
         description:
-          "Associate an existing device token with a user account after login",
+          "Refresh the roles/permissions of a device session using the access and refresh tokens issued to that session at login",
         tags: ["Auth", "Device"],
       },
     }
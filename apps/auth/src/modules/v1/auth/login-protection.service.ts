@@ -0,0 +1,291 @@
+import { AppError } from "@repo/elysia-common";
+import { ERROR_CODES, getCurrentUnixTimestamp, HTTP_STATUS } from "@repo/utils";
+import { createHash } from "node:crypto";
+import { LOCKOUT_CONFIG, LockoutPolicy } from "../../../configs";
+import { AuthAuditEventType } from "../../../database/models/auth-audit-event.model";
+import { UserModel } from "../../../database/models/user.model";
+import { cacheManager, rateLimiter, redisClient } from "../../../redis";
+import { AuditService } from "../audit/audit.service";
+import { VerificationService } from "./verification.service";
+
+export type LockoutScope = "ip" | "device" | "account";
+
+/**
+ * Thông tin nguồn của một lần đăng nhập
+ */
+export interface LoginAttempt {
+  email: string;
+  ipAddress: string;
+  deviceId: string;
+  deviceKey: string; // Fingerprint của device, fallback về device id
+}
+
+interface LoginLock {
+  level: number;
+  lockedUntil: number; // unix seconds
+}
+
+const LOCKOUT_POLICIES: Record<LockoutScope, LockoutPolicy> = {
+  ip: LOCKOUT_CONFIG.IP,
+  device: LOCKOUT_CONFIG.DEVICE,
+  account: LOCKOUT_CONFIG.ACCOUNT,
+};
+
+/**
+ * Chống brute-force khi đăng nhập: đếm số lần sai riêng theo IP, device và account,
+ * khóa tăng dần (exponential backoff) khi vượt ngưỡng.
+ * IP/device bị chặn trước account nên một nguồn tấn công không thể tự mình khóa
+ * tài khoản của nạn nhân, và device đã từng đăng nhập tài khoản vẫn vào được khi account bị khóa
+ */
+export class LoginProtectionService {
+  constructor(
+    private readonly limiter = rateLimiter,
+    private readonly cache = cacheManager,
+    private readonly redis = redisClient,
+    private readonly auditService = new AuditService(),
+    private readonly verificationService = new VerificationService()
+  ) {}
+
+  /**
+   * Identifier theo từng chiều, null nếu không xác định được (VD: IP unknown)
+   */
+  private getIdentifier(
+    scope: LockoutScope,
+    attempt: LoginAttempt
+  ): string | null {
+    switch (scope) {
+      case "ip":
+        return attempt.ipAddress && attempt.ipAddress !== "unknown"
+          ? `ip:${attempt.ipAddress}`
+          : null;
+      case "device":
+        return attempt.deviceKey ? `device:${attempt.deviceKey}` : null;
+      case "account":
+        // Hash email để không lưu email dạng plain text trong Redis key
+        return `account:${createHash("sha256").update(attempt.email).digest("hex")}`;
+    }
+  }
+
+  private getFailureKey(identifier: string): string {
+    return `login-fail:${identifier}`;
+  }
+
+  private getLockKey(identifier: string): string {
+    return `login-lock:${identifier}`;
+  }
+
+  private getLevelKey(identifier: string): string {
+    return `auth:login-lock-level:${identifier}`;
+  }
+
+  private getTrustedDeviceKey(
+    userId: string | number,
+    deviceId: string
+  ): string {
+    return `login-trusted:${userId}:${deviceId}`;
+  }
+
+  /**
+   * Giới hạn số device token cấp cho một IP. Device token mới là device key mới
+   * nên nếu không giới hạn thì khóa theo device bị né bằng cách xin token liên tục
+   */
+  async assertDeviceTokenAllowed(ipAddress: string): Promise<void> {
+    const identifier = this.getIdentifier("ip", {
+      email: "",
+      ipAddress,
+      deviceId: "",
+      deviceKey: "",
+    });
+    if (!identifier) return;
+
+    const result = await this.limiter.checkLimit(
+      `device-token:${identifier}`,
+      LOCKOUT_CONFIG.DEVICE_TOKEN_LIMIT,
+      LOCKOUT_CONFIG.DEVICE_TOKEN_WINDOW_MS
+    );
+
+    if (result.limited) {
+      throw new AppError(
+        "auth.login.too_many_attempts",
+        HTTP_STATUS.TOO_MANY_REQUESTS,
+        ERROR_CODES.RATE_LIMITED
+      );
+    }
+  }
+
+  /**
+   * Ghi nhận device đã hoàn tất đăng nhập vào account (sau mật khẩu và 2FA nếu có).
+   * Lưu phía server nên không giả mạo được qua session và vẫn còn sau khi logout
+   */
+  async rememberDevice(
+    userId: string | number,
+    deviceId: string
+  ): Promise<void> {
+    await this.cache.set(
+      this.getTrustedDeviceKey(userId, deviceId),
+      getCurrentUnixTimestamp(),
+      LOCKOUT_CONFIG.TRUSTED_DEVICE_TTL
+    );
+  }
+
+  private async isTrustedDevice(
+    userId: string | number,
+    deviceId: string
+  ): Promise<boolean> {
+    return await this.cache.exists(this.getTrustedDeviceKey(userId, deviceId));
+  }
+
+  /**
+   * Chặn request từ IP hoặc device đang bị khóa, kiểm tra trước khi verify mật khẩu
+   */
+  async assertSourceAllowed(attempt: LoginAttempt): Promise<void> {
+    for (const scope of ["ip", "device"] as const) {
+      const identifier = this.getIdentifier(scope, attempt);
+
+      if (identifier && (await this.getLock(identifier))) {
+        throw new AppError(
+          "auth.login.too_many_attempts",
+          HTTP_STATUS.TOO_MANY_REQUESTS,
+          ERROR_CODES.RATE_LIMITED
+        );
+      }
+    }
+  }
+
+  /**
+   * Chặn đăng nhập vào account đang bị khóa, trừ device đã từng đăng nhập account này
+   */
+  async assertAccountAllowed(
+    attempt: LoginAttempt,
+    user: UserModel | null
+  ): Promise<void> {
+    if (user && (await this.isTrustedDevice(user.id, attempt.deviceId))) {
+      return;
+    }
+
+    const identifier = this.getIdentifier("account", attempt)!;
+
+    if (await this.getLock(identifier)) {
+      throw new AppError(
+        "auth.login.account_locked",
+        HTTP_STATUS.FORBIDDEN,
+        ERROR_CODES.FORBIDDEN
+      );
+    }
+  }
+
+  /**
+   * Ghi nhận một lần đăng nhập sai cho từng chiều, khóa chiều nào vượt ngưỡng
+   */
+  async recordFailure(
+    attempt: LoginAttempt,
+    user: UserModel | null
+  ): Promise<void> {
+    for (const scope of ["device", "ip", "account"] as const) {
+      const identifier = this.getIdentifier(scope, attempt);
+      if (!identifier) continue;
+
+      const policy = LOCKOUT_POLICIES[scope];
+      const result = await this.limiter.checkLimit(
+        this.getFailureKey(identifier),
+        policy.threshold,
+        policy.windowMs
+      );
+
+      if (result.remaining === 0) {
+        await this.lock(scope, identifier, attempt, user);
+      }
+    }
+  }
+
+  /**
+   * Đăng nhập thành công: xóa bộ đếm sai của device và account.
+   * Bộ đếm IP được giữ lại vì IP có thể dùng chung (NAT) và kẻ tấn công
+   * có thể dùng tài khoản của chính mình để reset
+   */
+  async recordSuccess(attempt: LoginAttempt): Promise<void> {
+    for (const scope of ["device", "account"] as const) {
+      const identifier = this.getIdentifier(scope, attempt);
+      if (!identifier) continue;
+
+      await this.limiter.reset(
+        this.getFailureKey(identifier),
+        LOCKOUT_POLICIES[scope].windowMs
+      );
+    }
+  }
+
+  /**
+   * Mở khóa account bằng token trong email
+   */
+  async unlockAccount(token: string): Promise<void> {
+    const user = await this.verificationService.confirmAccountUnlock(token);
+    const identifier = this.getIdentifier("account", {
+      email: user.email,
+      ipAddress: "",
+      deviceId: "",
+      deviceKey: "",
+    })!;
+
+    await this.cache.del(this.getLockKey(identifier));
+    await this.redis.del(this.getLevelKey(identifier));
+    await this.limiter.reset(
+      this.getFailureKey(identifier),
+      LOCKOUT_POLICIES.account.windowMs
+    );
+
+    await this.auditService.record({
+      eventType: AuthAuditEventType.ACCOUNT_UNLOCKED,
+      userId: user.id,
+      metadata: { method: "email" },
+    });
+  }
+
+  private async getLock(identifier: string): Promise<LoginLock | null> {
+    return await this.cache.get<LoginLock>(this.getLockKey(identifier));
+  }
+
+  /**
+   * Khóa một chiều với thời gian tăng gấp đôi sau mỗi lần bị khóa trong LOCK_LEVEL_TTL
+   */
+  private async lock(
+    scope: LockoutScope,
+    identifier: string,
+    attempt: LoginAttempt,
+    user: UserModel | null
+  ): Promise<void> {
+    const policy = LOCKOUT_POLICIES[scope];
+    const levelKey = this.getLevelKey(identifier);
+
+    const level = await this.redis.incr(levelKey);
+    await this.redis.expire(levelKey, LOCKOUT_CONFIG.LOCK_LEVEL_TTL);
+
+    const duration = Math.min(
+      policy.baseLockSeconds * 2 ** (level - 1),
+      policy.maxLockSeconds
+    );
+    const lock: LoginLock = {
+      level,
+      lockedUntil: getCurrentUnixTimestamp() + duration,
+    };
+
+    await this.cache.set(this.getLockKey(identifier), lock, duration);
+    await this.limiter.reset(this.getFailureKey(identifier), policy.windowMs);
+
+    await this.auditService.record({
+      eventType: AuthAuditEventType.LOGIN_LOCKOUT,
+      userId: user?.id,
+      deviceId: attempt.deviceId,
+      ipAddress: attempt.ipAddress,
+      metadata: { scope, level, duration, locked_until: lock.lockedUntil },
+    });
+
+    if (scope === "account" && user) {
+      try {
+        await this.verificationService.requestAccountUnlock(user);
+      } catch (error) {
+        console.error("Failed to send account unlock email:", error);
+      }
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { AppError } from "@repo/elysia-common";
+import { ERROR_CODES, HTTP_STATUS } from "@repo/utils";
+import { ACCOUNT_TOKEN_CONFIG } from "../../../configs";
+import { userRepository } from "../../../database";
+import { AuthAuditEventType } from "../../../database/models/auth-audit-event.model";
+import { rateLimiter } from "../../../redis";
+import { AuditService } from "../audit/audit.service";
+import { AuthResponse } from "./auth.response";
+import { AuthService } from "./auth.service";
+import { VerificationService } from "./verification.service";
+
+/**
+ * Service đăng nhập không mật khẩu bằng magic link gửi qua email
+ */
+export class MagicLinkService {
+  constructor(
+    private readonly userRepo = userRepository,
+    private readonly verificationService = new VerificationService(),
+    private readonly authService = new AuthService(),
+    private readonly auditService = new AuditService(),
+    private readonly limiter = rateLimiter
+  ) {}
+
+  /**
+   * Gửi magic link cho email, link gắn với device token đang yêu cầu.
+   * Không báo lỗi khi email không tồn tại để tránh lộ thông tin tài khoản
+   */
+  async request(
+    email: string,
+    deviceToken: string | undefined,
+    ipAddress: string
+  ): Promise<void> {
+    const session = await this.authService.requireLoginSession(deviceToken);
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const result = await this.limiter.checkLimit(
+      `magic-link:${normalizedEmail}`,
+      ACCOUNT_TOKEN_CONFIG.MAGIC_LINK_SEND_LIMIT,
+      ACCOUNT_TOKEN_CONFIG.MAGIC_LINK_SEND_WINDOW_MS
+    );
+
+    if (result.limited) {
+      throw new AppError(
+        "auth.verification.too_many_requests",
+        HTTP_STATUS.TOO_MANY_REQUESTS,
+        ERROR_CODES.RATE_LIMITED
+      );
+    }
+
+    const user = await this.userRepo.findOne({
+      email: normalizedEmail,
+      is_deleted: false,
+    });
+
+    if (!user || !user.is_active) return;
+
+    await this.verificationService.requestMagicLink(user, {
+      deviceId: session.device_id,
+      ipAddress,
+    });
+  }
+
+  /**
+   * Đổi magic link lấy session cho device token đang dùng link.
+   * Device dùng link khác device đã yêu cầu vẫn được đăng nhập, kết quả có deviceMismatch để client cảnh báo user
+   */
+  async login(
+    token: string,
+    deviceToken: string | undefined,
+    ipAddress: string
+  ): Promise<AuthResponse.MagicLinkLoginResult> {
+    const session = await this.authService.requireLoginSession(deviceToken);
+    const {
+      user,
+      deviceId,
+      ipAddress: requestedIp,
+    } = await this.verificationService.confirmMagicLink(token);
+
+    const deviceMismatch = deviceId !== session.device_id;
+
+    await this.auditService.record({
+      eventType: AuthAuditEventType.MAGIC_LINK_LOGIN,
+      userId: user.id,
+      deviceId: session.device_id,
+      ipAddress,
+      metadata: {
+        requested_device_id: deviceId,
+        requested_ip: requestedIp,
+        redeemed_device_id: session.device_id,
+        device_mismatch: deviceMismatch,
+      },
+    });
+
+    const result = await this.authService.loginAsUser(
+      user,
+      deviceToken,
+      ipAddress
+    );
+
+    return { ...result, deviceMismatch };
+  }
+}
@@ -0,0 +1,297 @@
+import { AppError } from "@repo/elysia-common";
+import {
+  ERROR_CODES,
+  getCurrentUnixTimestamp,
+  HTTP_STATUS,
+  normalizeVietnamesePhone,
+  parseUnixToVietnamTime,
+} from "@repo/utils";
+import {
+  createHash,
+  randomBytes,
+  randomInt,
+  timingSafeEqual,
+} from "node:crypto";
+import { SMS_CONFIG } from "../../../configs";
+import { userRepository } from "../../../database";
+import { UserModel } from "../../../database/models/user.model";
+import { cacheManager, rateLimiter, redisClient } from "../../../redis";
+import { smsProvider } from "../../../sms";
+import { AuthResponse } from "./auth.response";
+
+interface PhoneOtpChallenge {
+  id: string; // Mỗi OTP một id, dùng làm key đếm số lần nhập
+  phoneNumber: string; // Số đang chờ xác minh, chỉ ghi vào user khi OTP đúng
+  codeHash: string;
+}
+
+/**
+ * Service xác minh số điện thoại bằng mã OTP gửi qua SMS
+ */
+export class PhoneVerificationService {
+  constructor(
+    private readonly userRepo = userRepository,
+    private readonly cache = cacheManager,
+    private readonly limiter = rateLimiter,
+    private readonly sms = smsProvider,
+    private readonly redis = redisClient
+  ) {}
+
+  private getOtpKey(userId: string | number): string {
+    return `phone-otp:${userId}`;
+  }
+
+  private getAttemptsKey(challengeId: string): string {
+    return `auth:phone-otp:attempts:${challengeId}`;
+  }
+
+  /**
+   * Gửi OTP tới số điện thoại mới. Số mới chỉ nằm trong OTP challenge cho tới khi
+   * được xác minh, số hiện tại của user giữ nguyên trạng thái
+   */
+  async attachPhone(
+    userId: string | number,
+    phone: string
+  ): Promise<AuthResponse.PhoneOtpData> {
+    const phoneNumber = normalizeVietnamesePhone(phone);
+
+    if (!phoneNumber) {
+      throw new AppError(
+        "user.validation.phone_invalid",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR
+      );
+    }
+
+    const user = await this.requireUser(userId);
+
+    if (user.phone_number === phoneNumber && user.is_phone_verified) {
+      this.throwAlreadyVerified();
+    }
+
+    await this.assertPhoneAvailable(phoneNumber, userId);
+
+    return await this.sendOtp(user.id, phoneNumber);
+  }
+
+  /**
+   * Gửi lại OTP cho số đang chờ xác minh, hoặc số chưa xác minh đang gắn với user
+   */
+  async resendOtp(userId: string | number): Promise<AuthResponse.PhoneOtpData> {
+    const user = await this.requireUser(userId);
+    const challenge = await this.cache.get<PhoneOtpChallenge>(
+      this.getOtpKey(user.id)
+    );
+
+    if (challenge) {
+      return await this.sendOtp(user.id, challenge.phoneNumber);
+    }
+
+    if (!user.phone_number) {
+      throw new AppError(
+        "auth.verification.phone_required",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST
+      );
+    }
+
+    if (user.is_phone_verified) {
+      this.throwAlreadyVerified();
+    }
+
+    return await this.sendOtp(user.id, user.phone_number);
+  }
+
+  /**
+   * Verify OTP, ghi số điện thoại đã nhận mã vào user và đánh dấu đã xác minh
+   */
+  async verifyOtp(userId: string | number, code: string): Promise<void> {
+    const user = await this.requireUser(userId);
+    const key = this.getOtpKey(user.id);
+    const challenge = await this.cache.get<PhoneOtpChallenge>(key);
+
+    if (!challenge) {
+      throw new AppError(
+        "auth.verification.code_expired",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST
+      );
+    }
+
+    await this.assertAttemptAllowed(key, challenge.id);
+
+    const expected = Buffer.from(challenge.codeHash, "hex");
+    const actual = Buffer.from(this.hashCode(user.id, code.trim()), "hex");
+
+    if (!timingSafeEqual(expected, actual)) {
+      throw new AppError(
+        "auth.verification.code_invalid",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST
+      );
+    }
+
+    // Chỉ request xóa được challenge mới được dùng OTP
+    if (!(await this.cache.del(key))) {
+      throw new AppError(
+        "auth.verification.code_expired",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST
+      );
+    }
+
+    await this.assertPhoneAvailable(challenge.phoneNumber, user.id);
+    await this.redis.del(this.getAttemptsKey(challenge.id));
+
+    await this.userRepo.update(
+      BigInt(user.id),
+      { phone_number: challenge.phoneNumber, is_phone_verified: true },
+      BigInt(user.id)
+    );
+  }
+
+  /**
+   * Tạo OTP mới (ghi đè OTP cũ), giới hạn số lần gửi theo user và số điện thoại
+   */
+  private async sendOtp(
+    userId: string | number,
+    phoneNumber: string
+  ): Promise<AuthResponse.PhoneOtpData> {
+    for (const identifier of [
+      `phone-otp:user:${userId}`,
+      `phone-otp:phone:${phoneNumber}`,
+    ]) {
+      const result = await this.limiter.checkLimit(
+        identifier,
+        SMS_CONFIG.PHONE_OTP_SEND_LIMIT,
+        SMS_CONFIG.PHONE_OTP_SEND_WINDOW_MS
+      );
+
+      if (result.limited) {
+        throw new AppError(
+          "auth.verification.too_many_requests",
+          HTTP_STATUS.TOO_MANY_REQUESTS,
+          ERROR_CODES.RATE_LIMITED
+        );
+      }
+    }
+
+    const code = String(
+      randomInt(0, 10 ** SMS_CONFIG.PHONE_OTP_LENGTH)
+    ).padStart(SMS_CONFIG.PHONE_OTP_LENGTH, "0");
+    const challenge: PhoneOtpChallenge = {
+      id: randomBytes(16).toString("hex"),
+      phoneNumber,
+      codeHash: this.hashCode(userId, code),
+    };
+
+    await this.cache.set(
+      this.getOtpKey(userId),
+      challenge,
+      SMS_CONFIG.PHONE_OTP_TTL
+    );
+
+    await this.sms.send({
+      to: phoneNumber,
+      text: `Ma xac minh Wibutime cua ban la ${code}. Ma co hieu luc trong ${Math.ceil(
+        SMS_CONFIG.PHONE_OTP_TTL / 60
+      )} phut. Khong chia se ma nay voi bat ky ai.`,
+    });
+
+    return {
+      phoneNumber: this.maskPhone(phoneNumber),
+      expiresAt: parseUnixToVietnamTime(
+        getCurrentUnixTimestamp() + SMS_CONFIG.PHONE_OTP_TTL,
+        "YYYY-MM-DD HH:mm:ss"
+      ),
+    };
+  }
+
+  /**
+   * Đếm lượt nhập (atomic) trước khi so sánh mã, các request đồng thời
+   * không thể cùng đọc một giá trị attempts cũ để thử quá giới hạn
+   */
+  private async assertAttemptAllowed(
+    otpKey: string,
+    challengeId: string
+  ): Promise<void> {
+    const attemptsKey = this.getAttemptsKey(challengeId);
+
+    // Tạo counter kèm TTL trước khi INCR để key không bao giờ tồn tại mà thiếu TTL
+    await this.redis.send("SET", [
+      attemptsKey,
+      "0",
+      "EX",
+      String(SMS_CONFIG.PHONE_OTP_TTL),
+      "NX",
+    ]);
+    const attempts = await this.redis.incr(attemptsKey);
+
+    if (attempts > SMS_CONFIG.PHONE_OTP_MAX_ATTEMPTS) {
+      await this.cache.del(otpKey);
+
+      throw new AppError(
+        "auth.login.too_many_attempts",
+        HTTP_STATUS.TOO_MANY_REQUESTS,
+        ERROR_CODES.RATE_LIMITED
+      );
+    }
+  }
+
+  private async requireUser(userId: string | number): Promise<UserModel> {
+    const user = await this.userRepo.findOne({ id: userId, is_deleted: false });
+
+    if (!user) {
+      throw new AppError(
+        "auth.login.user_not_found",
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND
+      );
+    }
+
+    return user;
+  }
+
+  /**
+   * Số điện thoại đã được user khác xác minh thì không thể dùng lại
+   */
+  private async assertPhoneAvailable(
+    phoneNumber: string,
+    userId: string | number
+  ): Promise<void> {
+    const owner = await this.userRepo.findOne({
+      phone_number: phoneNumber,
+      is_phone_verified: true,
+      is_deleted: false,
+    });
+
+    if (owner && String(owner.id) !== String(userId)) {
+      throw new AppError(
+        "auth.verification.phone_taken",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.DUPLICATE_RESOURCE
+      );
+    }
+  }
+
+  private throwAlreadyVerified(): never {
+    throw new AppError(
+      "auth.verification.phone_already_verified",
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_CODES.RESOURCE_CONFLICT
+    );
+  }
+
+  /**
+   * Hash OTP kèm user id, OTP ngắn nên không lưu dạng plain text trong Redis
+   */
+  private hashCode(userId: string | number, code: string): string {
+    return createHash("sha256").update(`${userId}:${code}`).digest("hex");
+  }
+
+  private maskPhone(phoneNumber: string): string {
+    return `${phoneNumber.slice(0, 3)}${"*".repeat(
+      phoneNumber.length - 7
+    )}${phoneNumber.slice(-4)}`;
+  }
+}
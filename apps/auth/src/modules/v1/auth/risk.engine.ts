@@ -0,0 +1,109 @@
+import type { DeviceInfo } from "@repo/types";
+import { RISK_CONFIG } from "../../../configs";
+import { DEFAULT_RISK_RULES, RiskContext, RiskRule } from "./risk.rules";
+
+export type RiskLevel = "low" | "review" | "block";
+
+export interface RiskThresholds {
+  review: number;
+  block: number;
+}
+
+export interface RiskFinding {
+  rule: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface RiskAssessment {
+  score: number; // 0-100
+  level: RiskLevel;
+  findings: RiskFinding[];
+  evaluatedAt: number;
+}
+
+/**
+ * Engine tính risk score cho device từ danh sách rule có thể thay thế
+ */
+export class RiskEngine {
+  constructor(
+    private readonly rules: RiskRule[] = DEFAULT_RISK_RULES,
+    private readonly thresholds: RiskThresholds = {
+      review: RISK_CONFIG.RISK_REVIEW_THRESHOLD,
+      block: RISK_CONFIG.RISK_BLOCK_THRESHOLD,
+    }
+  ) {}
+
+  /**
+   * Tạo fingerprint deterministic từ các thuộc tính ổn định của device
+   * (bỏ qua kích thước cửa sổ, version, network, pin... vì thay đổi thường xuyên)
+   */
+  generateFingerprint(deviceInfo: DeviceInfo): string {
+    const { screen, device, os, browser, hardware, features } = deviceInfo;
+
+    const fingerprintData = {
+      screen: [
+        screen?.width,
+        screen?.height,
+        screen?.colorDepth,
+        screen?.pixelDepth,
+        screen?.devicePixelRatio,
+      ],
+      device: [device?.type, device?.isTouchDevice],
+      os: [os?.name, os?.platform, os?.architecture],
+      browser: [
+        browser?.name,
+        browser?.language,
+        browser?.languages?.join(","),
+      ],
+      hardware: [
+        hardware?.concurrency,
+        hardware?.memory ?? 0,
+        hardware?.maxTouchPoints,
+      ],
+      features: Object.keys(features ?? {})
+        .sort()
+        .map((key) => `${key}:${features[key as keyof typeof features]}`),
+    };
+
+    return new Bun.CryptoHasher("sha256")
+      .update(JSON.stringify(fingerprintData))
+      .digest("hex");
+  }
+
+  /**
+   * Chạy toàn bộ rule và tổng hợp thành risk assessment (cap ở 100)
+   */
+  evaluate(context: RiskContext): RiskAssessment {
+    const findings: RiskFinding[] = [];
+
+    for (const rule of this.rules) {
+      const result = rule.evaluate(context);
+      if (result && result.score > 0) {
+        findings.push({ rule: rule.id, ...result });
+      }
+    }
+
+    const score = Math.min(
+      findings.reduce((total, finding) => total + finding.score, 0),
+      100
+    );
+
+    return {
+      score,
+      level: this.getLevel(score),
+      findings,
+      evaluatedAt: context.now,
+    };
+  }
+
+  shouldBlock(assessment: RiskAssessment): boolean {
+    return assessment.level === "block";
+  }
+
+  private getLevel(score: number): RiskLevel {
+    if (score >= this.thresholds.block) return "block";
+    if (score >= this.thresholds.review) return "review";
+    return "low";
+  }
+}
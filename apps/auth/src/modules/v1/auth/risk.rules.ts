@@ -0,0 +1,226 @@
+import type { DeviceInfo } from "@repo/types";
+import { SessionModel } from "../../../database/models/session.model";
+
+/**
+ * Dữ liệu đầu vào cho các risk rule
+ */
+export interface RiskContext {
+  deviceInfo: DeviceInfo;
+  userAgent: string; // User-Agent header của request
+  ipAddress: string;
+  session?: SessionModel | null; // Session hiện có của device (nếu có)
+  knownIpAddresses?: string[]; // Các IP đã thấy với cùng fingerprint
+  now: number; // unix seconds
+}
+
+export interface RiskRuleResult {
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Một rule độc lập, chỉ phụ thuộc vào context nên có thể test riêng
+ */
+export interface RiskRule {
+  id: string;
+  evaluate(context: RiskContext): RiskRuleResult | null;
+}
+
+const HEADLESS_UA_PATTERN =
+  /headless|phantomjs|puppeteer|playwright|selenium|webdriver/i;
+const MAX_SCREEN_SIZE = 16384;
+const MAX_CONCURRENCY = 128;
+const MAX_DEVICE_MEMORY = 8; // navigator.deviceMemory bị browser giới hạn ở 8GB
+const MAX_IPS_PER_DEVICE = 5;
+const VELOCITY_SUSPICIOUS_RPM = 10;
+const VELOCITY_ABUSIVE_RPM = 30;
+
+/**
+ * Gom các tín hiệu của một rule thành kết quả, null nếu không có tín hiệu nào
+ */
+function collect(signals: [number, string][]): RiskRuleResult | null {
+  if (signals.length === 0) return null;
+
+  return {
+    score: signals.reduce((total, [score]) => total + score, 0),
+    reasons: signals.map(([, reason]) => reason),
+  };
+}
+
+/**
+ * User-Agent header khác với user agent client tự báo cáo
+ */
+export const userAgentMismatchRule: RiskRule = {
+  id: "user_agent_mismatch",
+  evaluate({ deviceInfo, userAgent }) {
+    const reported = deviceInfo.browser?.userAgent ?? "";
+    if (!userAgent || !reported || reported === userAgent) return null;
+
+    return collect([
+      [30, "User-Agent header differs from client-reported user agent"],
+    ]);
+  },
+};
+
+/**
+ * OS/loại thiết bị trong user agent không khớp với platform và touch support
+ */
+export const platformMismatchRule: RiskRule = {
+  id: "platform_mismatch",
+  evaluate({ deviceInfo }) {
+    const userAgent = (deviceInfo.browser?.userAgent ?? "").toLowerCase();
+    const platform = (deviceInfo.os?.platform ?? "").toLowerCase();
+    const signals: [number, string][] = [];
+
+    if (platform) {
+      if (userAgent.includes("windows") && !platform.includes("win")) {
+        signals.push([25, "Windows user agent on non-Windows platform"]);
+      }
+      if (userAgent.includes("mac os x") && !/mac|iphone|ipad/.test(platform)) {
+        signals.push([25, "macOS user agent on non-Apple platform"]);
+      }
+    }
+
+    const isMobileUA = /mobile|android|iphone|ipad/.test(userAgent);
+    const isTouchDevice =
+      deviceInfo.device?.isTouchDevice &&
+      deviceInfo.hardware?.maxTouchPoints > 0;
+    if (isMobileUA && !isTouchDevice) {
+      signals.push([20, "Mobile user agent without touch support"]);
+    }
+
+    return collect(signals);
+  },
+};
+
+/**
+ * Dấu hiệu trình duyệt headless/automation
+ */
+export const headlessRule: RiskRule = {
+  id: "headless_browser",
+  evaluate({ deviceInfo, userAgent }) {
+    const signals: [number, string][] = [];
+
+    if (
+      HEADLESS_UA_PATTERN.test(userAgent) ||
+      HEADLESS_UA_PATTERN.test(deviceInfo.browser?.userAgent ?? "")
+    ) {
+      signals.push([60, "Automation keyword in user agent"]);
+    }
+    if (!deviceInfo.browser?.languages?.length) {
+      signals.push([15, "No navigator languages"]);
+    }
+    if (!deviceInfo.features?.canvas && !deviceInfo.features?.webGL) {
+      signals.push([15, "Neither canvas nor WebGL is available"]);
+    }
+    if (!deviceInfo.features?.localStorage) {
+      signals.push([10, "localStorage is unavailable"]);
+    }
+
+    return collect(signals);
+  },
+};
+
+/**
+ * Thông số phần cứng/màn hình không thể tồn tại trên thiết bị thật
+ */
+export const impossibleHardwareRule: RiskRule = {
+  id: "impossible_hardware",
+  evaluate({ deviceInfo }) {
+    const { screen, hardware } = deviceInfo;
+    const signals: [number, string][] = [];
+
+    if (
+      !screen ||
+      screen.width <= 0 ||
+      screen.height <= 0 ||
+      screen.width > MAX_SCREEN_SIZE ||
+      screen.height > MAX_SCREEN_SIZE
+    ) {
+      signals.push([30, "Invalid screen dimensions"]);
+    } else if (
+      screen.availWidth > screen.width ||
+      screen.availHeight > screen.height
+    ) {
+      signals.push([20, "Available screen area larger than screen"]);
+    }
+    if (
+      !hardware ||
+      hardware.concurrency < 1 ||
+      hardware.concurrency > MAX_CONCURRENCY
+    ) {
+      signals.push([20, "Invalid hardware concurrency"]);
+    }
+    if (hardware?.memory !== undefined && hardware.memory > MAX_DEVICE_MEMORY) {
+      signals.push([20, "Device memory above browser-reported maximum"]);
+    }
+    if (
+      screen &&
+      (screen.devicePixelRatio <= 0 || screen.devicePixelRatio > 10)
+    ) {
+      signals.push([10, "Invalid device pixel ratio"]);
+    }
+
+    return collect(signals);
+  },
+};
+
+/**
+ * Device đổi IP quá nhiều lần hoặc IP client báo cáo khác IP request
+ */
+export const ipChurnRule: RiskRule = {
+  id: "ip_churn",
+  evaluate({ deviceInfo, ipAddress, knownIpAddresses = [] }) {
+    const signals: [number, string][] = [];
+
+    const distinctIps = new Set([...knownIpAddresses, ipAddress]);
+    if (distinctIps.size > MAX_IPS_PER_DEVICE) {
+      signals.push([
+        20,
+        `Device seen from ${distinctIps.size} different IP addresses`,
+      ]);
+    }
+
+    const reportedIp = deviceInfo.ip?.public;
+    if (reportedIp && ipAddress !== "unknown" && reportedIp !== ipAddress) {
+      signals.push([15, "Client-reported public IP differs from request IP"]);
+    }
+
+    return collect(signals);
+  },
+};
+
+/**
+ * Số request trên phút của session vượt ngưỡng
+ */
+export const requestVelocityRule: RiskRule = {
+  id: "request_velocity",
+  evaluate({ session, now }) {
+    if (!session) return null;
+
+    const ageMinutes = Math.max(1, (now - Number(session.created_at)) / 60);
+    const requestsPerMinute = Number(session.request_count) / ageMinutes;
+
+    if (requestsPerMinute > VELOCITY_ABUSIVE_RPM) {
+      return collect([
+        [40, `${requestsPerMinute.toFixed(1)} requests per minute`],
+      ]);
+    }
+    if (requestsPerMinute > VELOCITY_SUSPICIOUS_RPM) {
+      return collect([
+        [15, `${requestsPerMinute.toFixed(1)} requests per minute`],
+      ]);
+    }
+
+    return null;
+  },
+};
+
+export const DEFAULT_RISK_RULES: RiskRule[] = [
+  userAgentMismatchRule,
+  platformMismatchRule,
+  headlessRule,
+  impossibleHardwareRule,
+  ipChurnRule,
+  requestVelocityRule,
+];
@@ -0,0 +1,188 @@
+import { getCurrentUnixTimestamp } from "@repo/utils";
+import { decodeJwt } from "jose";
+import { sessionRepository } from "../../../database";
+import { SessionModel } from "../../../database/models/session.model";
+import { cacheManager, sessionManager } from "../../../redis";
+import type { AccessClaims } from "../rbac/rbac.service";
+
+/**
+ * Service quản lý vòng đời session đăng nhập
+ * Đồng bộ trạng thái giữa PostgreSQL và Redis, thu hồi token ngay lập tức thay vì đợi hết hạn
+ */
+export class SessionService {
+  constructor(
+    private readonly sessionRepo = sessionRepository,
+    private readonly redisSessions = sessionManager,
+    private readonly cache = cacheManager
+  ) {}
+
+  // Theo token family: đăng nhập lại trên cùng device session tạo family mới nên không bị chặn
+  private getRevokedKey(sessionId: string | number, family: string): string {
+    return `revoked:session:${sessionId}:${family}`;
+  }
+
+  /**
+   * Mirror session đăng nhập vào Redis, trả về Redis session id
+   */
+  async track(
+    session: SessionModel,
+    userId: string | number,
+    expiresAt: number
+  ): Promise<string> {
+    const ttl = Math.max(1, expiresAt - getCurrentUnixTimestamp());
+
+    // Một device chỉ giữ một Redis session cho mỗi user
+    await this.redisSessions.destroyUserDeviceSessions(
+      Number(userId),
+      session.device_id
+    );
+
+    return await this.redisSessions.create(
+      Number(userId),
+      session.device_id,
+      { session_id: String(session.id) },
+      ttl
+    );
+  }
+
+  /**
+   * Gia hạn Redis session sau khi rotate token
+   */
+  async touch(session: SessionModel, expiresAt: number): Promise<void> {
+    const redisSessionId = session.metadata?.redis_session_id;
+    if (!redisSessionId) return;
+
+    const ttl = Math.max(1, expiresAt - getCurrentUnixTimestamp());
+    await this.redisSessions.refresh(redisSessionId, ttl);
+  }
+
+  /**
+   * Kiểm tra token family của session đã bị thu hồi hay chưa (chỉ dùng Redis để validate nhanh)
+   */
+  async isRevoked(
+    sessionId: string | number,
+    family: string
+  ): Promise<boolean> {
+    return await this.cache.exists(this.getRevokedKey(sessionId, family));
+  }
+
+  /**
+   * Lấy tất cả session đang active của user
+   */
+  async findActiveUserSessions(
+    userId: string | number
+  ): Promise<SessionModel[]> {
+    return await this.sessionRepo.findWhere(
+      { user_id: userId, is_active: true },
+      { limit: 1000, orderBy: "last_used_at" }
+    );
+  }
+
+  /**
+   * Thu hồi danh sách session: đánh dấu revoked trong DB, blacklist access token
+   * trong Redis cho tới khi hết hạn và xóa session khỏi Redis SessionManager.
+   * Device bị vô hiệu hóa, device token không dùng được nữa (VD: gỡ device, token reuse)
+   */
+  async revoke(
+    sessions: SessionModel[],
+    reason: string,
+    actorId: string | number
+  ): Promise<number> {
+    const now = getCurrentUnixTimestamp();
+
+    for (const session of sessions) {
+      await this.sessionRepo.update(
+        BigInt(session.id),
+        {
+          is_active: false,
+          revoked_at: now,
+          metadata: {
+            ...session.metadata,
+            revoked_reason: reason,
+          },
+        },
+        BigInt(actorId)
+      );
+
+      await this.endLogin(session, reason);
+    }
+
+    return sessions.length;
+  }
+
+  /**
+   * Đăng xuất user khỏi các device session: gỡ user và cặp token khỏi session,
+   * trả session về quyền guest. Device vẫn active nên device token đăng nhập lại được
+   */
+  async signOut(
+    sessions: SessionModel[],
+    reason: string,
+    actorId: string | number,
+    guestAccess: AccessClaims
+  ): Promise<number> {
+    for (const session of sessions) {
+      const { redis_session_id: _, ...metadata } = session.metadata ?? {};
+
+      await this.sessionRepo.update(
+        BigInt(session.id),
+        {
+          user_id: 0,
+          access_token: "",
+          refresh_token: "",
+          token_family: "",
+          roles: guestAccess.roles,
+          permissions: guestAccess.permissions,
+          metadata: { ...metadata, signed_out_reason: reason },
+          expires_at: this.getTokenExpiry(session.device_token),
+        },
+        BigInt(actorId)
+      );
+
+      await this.endLogin(session, reason);
+    }
+
+    return sessions.length;
+  }
+
+  /**
+   * Kết thúc lần đăng nhập hiện tại của session: blacklist access token và xóa Redis session
+   */
+  private async endLogin(session: SessionModel, reason: string): Promise<void> {
+    await this.blacklistAccessToken(session, reason);
+
+    if (Number(session.user_id) > 0) {
+      await this.redisSessions.destroyUserDeviceSessions(
+        Number(session.user_id),
+        session.device_id
+      );
+    }
+  }
+
+  private getTokenExpiry(token: string): number {
+    try {
+      return token ? (decodeJwt(token).exp ?? 0) : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Đánh dấu session revoked trong Redis với TTL bằng thời gian sống còn lại
+   * của access token mới nhất, sau đó token tự hết hạn nên không cần giữ key
+   */
+  private async blacklistAccessToken(
+    session: SessionModel,
+    reason: string
+  ): Promise<void> {
+    // Access token không decode được hoặc session chưa đăng nhập thì không cần blacklist
+    const ttl =
+      this.getTokenExpiry(session.access_token) - getCurrentUnixTimestamp();
+    if (ttl > 0 && session.token_family) {
+      await this.cache.set(
+        this.getRevokedKey(session.id, session.token_family),
+        reason,
+        ttl
+      );
+    }
+  }
+}
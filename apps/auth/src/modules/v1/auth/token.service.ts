@@ -0,0 +1,250 @@
+import { decodeJwt, errors, JWTPayload, jwtVerify, SignJWT } from "jose";
+import { JWT_CONFIG } from "../../../configs";
+import {
+  Jwks,
+  SIGNING_ALGORITHMS,
+  signingKeyStore,
+} from "../../../signing-keys";
+
+export type TokenType = "access" | "refresh";
+
+/**
+ * Claims được nhúng vào access/refresh token
+ */
+export interface TokenClaims {
+  userId: string;
+  email: string;
+  roles: string[];
+  permissions: string[];
+  sessionId: string;
+  deviceId: string;
+  family: string;
+  rbacVersion: number;
+}
+
+export interface TokenPayload extends JWTPayload {
+  email: string;
+  roles: string[];
+  permissions: string[];
+  session_id: string;
+  device_id: string;
+  type: TokenType;
+  family?: string;
+  // Phiên bản RBAC của user khi cấp token (xem RbacService.isClaimsStale)
+  rbac_version?: number;
+}
+
+export interface DeviceTokenPayload extends JWTPayload {
+  deviceId: string;
+  fingerprint: string;
+  type: "device";
+  isGuest: boolean;
+}
+
+export type AccountTokenPurpose =
+  | "email_verification"
+  | "password_reset"
+  | "account_unlock"
+  | "magic_link";
+
+export interface AccountTokenPayload extends JWTPayload {
+  type: AccountTokenPurpose;
+  [claim: string]: unknown;
+}
+
+export interface IssuedToken {
+  token: string;
+  jti: string;
+  expiresAt: number; // unix seconds
+}
+
+export interface TokenPair {
+  accessToken: IssuedToken;
+  refreshToken: IssuedToken;
+}
+
+/**
+ * Service ký và xác thực JWT bằng signing key bất đối xứng (ES256/EdDSA) có kid,
+ * service khác verify được bằng public key trong JWKS
+ */
+export class TokenService {
+  constructor(private readonly keyStore = signingKeyStore) {}
+
+  private getExpiresIn(type: TokenType): string {
+    return type === "access"
+      ? JWT_CONFIG.JWT_EXPIRES_IN
+      : JWT_CONFIG.JWT_REFRESH_EXPIRES_IN;
+  }
+
+  /**
+   * Ký payload bằng signing key đang active, kid nằm trong protected header
+   */
+  private async signPayload(
+    payload: JWTPayload,
+    expiresIn: string,
+    subject?: string
+  ): Promise<IssuedToken> {
+    const key = this.keyStore.getSigningKey();
+    const jti = crypto.randomUUID();
+
+    const builder = new SignJWT(payload)
+      .setProtectedHeader({ alg: key.alg, kid: key.kid, typ: "JWT" })
+      .setIssuer(JWT_CONFIG.JWT_ISSUER)
+      .setJti(jti)
+      .setIssuedAt()
+      .setExpirationTime(expiresIn);
+
+    if (subject) {
+      builder.setSubject(subject);
+    }
+
+    const token = await builder.sign(key.privateKey);
+
+    return {
+      token,
+      jti,
+      expiresAt: decodeJwt(token).exp ?? 0,
+    };
+  }
+
+  /**
+   * Verify chữ ký theo kid và issuer, throw nếu không hợp lệ hoặc hết hạn
+   */
+  private async verifyPayload<T extends JWTPayload>(token: string): Promise<T> {
+    const { payload } = await jwtVerify<T>(
+      token,
+      async (header) => {
+        const key = this.keyStore.getVerificationKey(header.kid);
+
+        if (!key || key.alg !== header.alg) {
+          throw new errors.JWKSNoMatchingKey();
+        }
+
+        return key.publicKey;
+      },
+      {
+        issuer: JWT_CONFIG.JWT_ISSUER,
+        algorithms: SIGNING_ALGORITHMS,
+      }
+    );
+
+    return payload;
+  }
+
+  /**
+   * Ký một token theo loại (access hoặc refresh)
+   */
+  async sign(type: TokenType, claims: TokenClaims): Promise<IssuedToken> {
+    return await this.signPayload(
+      {
+        email: claims.email,
+        roles: claims.roles,
+        permissions: claims.permissions,
+        session_id: claims.sessionId,
+        device_id: claims.deviceId,
+        rbac_version: claims.rbacVersion,
+        type,
+        // Refresh token dùng family để phát hiện reuse sau khi rotate,
+        // access token dùng family để biết lần đăng nhập nào đã bị thu hồi
+        family: claims.family,
+      },
+      this.getExpiresIn(type),
+      claims.userId
+    );
+  }
+
+  /**
+   * Ký cặp access + refresh token cho cùng một session
+   */
+  async issueTokenPair(claims: TokenClaims): Promise<TokenPair> {
+    const [accessToken, refreshToken] = await Promise.all([
+      this.sign("access", claims),
+      this.sign("refresh", claims),
+    ]);
+
+    return { accessToken, refreshToken };
+  }
+
+  /**
+   * Verify token và đảm bảo đúng loại, throw nếu không hợp lệ hoặc hết hạn
+   */
+  async verify(type: TokenType, token: string): Promise<TokenPayload> {
+    const payload = await this.verifyPayload<TokenPayload>(token);
+
+    if (payload.type !== type) {
+      throw new Error(`Expected ${type} token but received ${payload.type}`);
+    }
+
+    return payload;
+  }
+
+  /**
+   * Ký device token cho guest device (chưa đăng nhập)
+   */
+  async signDeviceToken(
+    deviceId: string,
+    fingerprint: string
+  ): Promise<IssuedToken> {
+    return await this.signPayload(
+      {
+        deviceId,
+        fingerprint,
+        type: "device",
+        isGuest: true,
+      },
+      JWT_CONFIG.JWT_DEVICE_EXPIRES_IN
+    );
+  }
+
+  /**
+   * Verify device token, throw nếu không hợp lệ hoặc hết hạn
+   */
+  async verifyDeviceToken(token: string): Promise<DeviceTokenPayload> {
+    const payload = await this.verifyPayload<DeviceTokenPayload>(token);
+
+    if (payload.type !== "device" || !payload.deviceId) {
+      throw new Error(`Expected device token but received ${payload.type}`);
+    }
+
+    return payload;
+  }
+
+  /**
+   * Ký token một lần cho các luồng tài khoản (xác minh email, đặt lại mật khẩu, mở khóa)
+   */
+  async signAccountToken(
+    purpose: AccountTokenPurpose,
+    userId: string | number,
+    ttl: number,
+    claims: Record<string, unknown> = {}
+  ): Promise<IssuedToken> {
+    return await this.signPayload(
+      { ...claims, type: purpose },
+      `${ttl}s`,
+      String(userId)
+    );
+  }
+
+  /**
+   * Verify account token và đảm bảo đúng mục đích, throw nếu không hợp lệ hoặc hết hạn
+   */
+  async verifyAccountToken(
+    purpose: AccountTokenPurpose,
+    token: string
+  ): Promise<AccountTokenPayload> {
+    const payload = await this.verifyPayload<AccountTokenPayload>(token);
+
+    if (payload.type !== purpose || !payload.sub) {
+      throw new Error(`Expected ${purpose} token but received ${payload.type}`);
+    }
+
+    return payload;
+  }
+
+  /**
+   * Public key của các signing key còn hiệu lực (JWKS)
+   */
+  getJwks(): Jwks {
+    return this.keyStore.getJwks();
+  }
+}
@@ -0,0 +1,180 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+/**
+ * TOTP (RFC 6238) / HOTP (RFC 4226) thuần, không phụ thuộc DB hay Redis
+ */
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export interface TotpOptions {
+  period?: number; // Độ dài time step (giây)
+  digits?: number;
+  window?: number; // Số time step lệch cho phép mỗi phía (clock skew)
+}
+
+export const TOTP_DEFAULTS: Required<TotpOptions> = {
+  period: 30,
+  digits: 6,
+  window: 1,
+};
+
+/**
+ * Encode bytes sang base32 (RFC 4648, không padding) - định dạng secret của authenticator app
+ */
+export function base32Encode(buffer: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode base32, bỏ qua padding/khoảng trắng và không phân biệt hoa thường
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Tạo secret ngẫu nhiên (mặc định 160 bit theo khuyến nghị RFC 4226)
+ */
+export function generateTotpSecret(byteLength: number = 20): string {
+  return base32Encode(randomBytes(byteLength));
+}
+
+/**
+ * Tạo mã HOTP cho một counter
+ */
+export function generateHotp(
+  secret: string,
+  counter: number,
+  digits: number = TOTP_DEFAULTS.digits
+): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac("sha1", base32Decode(secret))
+    .update(counterBuffer)
+    .digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const binary =
+    ((hmac[offset]! & 0x7f) << 24) |
+    (hmac[offset + 1]! << 16) |
+    (hmac[offset + 2]! << 8) |
+    hmac[offset + 3]!;
+
+  return String(binary % 10 ** digits).padStart(digits, "0");
+}
+
+/**
+ * Time step tương ứng với thời điểm (unix seconds)
+ */
+export function getTotpStep(
+  time: number,
+  period: number = TOTP_DEFAULTS.period
+): number {
+  return Math.floor(time / period);
+}
+
+/**
+ * Tạo mã TOTP tại thời điểm (unix seconds)
+ */
+export function generateTotp(
+  secret: string,
+  time: number,
+  options: TotpOptions = {}
+): string {
+  const { period, digits } = { ...TOTP_DEFAULTS, ...options };
+
+  return generateHotp(secret, getTotpStep(time, period), digits);
+}
+
+/**
+ * Verify mã TOTP với dung sai clock skew
+ * @returns time step khớp (để chống dùng lại mã), null nếu không khớp
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  time: number,
+  options: TotpOptions = {}
+): number | null {
+  const { period, digits, window } = { ...TOTP_DEFAULTS, ...options };
+  const normalized = code.replace(/\s/g, "");
+
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) return null;
+
+  const currentStep = getTotpStep(time, period);
+
+  for (let offset = -window; offset <= window; offset++) {
+    const step = currentStep + offset;
+    if (step < 0) continue;
+
+    const expected = generateHotp(secret, step, digits);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Tạo otpauth:// URI để authenticator app quét QR
+ */
+export function buildOtpauthUri(params: {
+  secret: string;
+  accountName: string;
+  issuer: string;
+  period?: number;
+  digits?: number;
+}): string {
+  const { secret, accountName, issuer } = params;
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const query = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(params.digits ?? TOTP_DEFAULTS.digits),
+    period: String(params.period ?? TOTP_DEFAULTS.period),
+  });
+
+  return `otpauth://totp/${label}?${query.toString()}`;
+}
@@ -0,0 +1,502 @@
+import { AppError } from "@repo/elysia-common";
+import {
+  ERROR_CODES,
+  getCurrentUnixTimestamp,
+  HTTP_STATUS,
+  parseUnixToVietnamTime,
+} from "@repo/utils";
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "node:crypto";
+import { MFA_CONFIG } from "../../../configs";
+import { mfaBackupCodeRepository, mfaRepository } from "../../../database";
+import { AuthAuditEventType } from "../../../database/models/auth-audit-event.model";
+import { MfaModel, MfaType } from "../../../database/models/mfa.model";
+import { cacheManager, rateLimiter, redisClient } from "../../../redis";
+import { AuditService } from "../audit/audit.service";
+import { AuthResponse } from "./auth.response";
+import {
+  base32Encode,
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from "./totp";
+
+interface TwoFactorChallenge {
+  userId: string;
+  sessionId: string;
+}
+
+/**
+ * Service xác thực 2 bước bằng TOTP và backup codes
+ */
+export class TwoFactorService {
+  constructor(
+    private readonly mfaRepo = mfaRepository,
+    private readonly backupCodeRepo = mfaBackupCodeRepository,
+    private readonly cache = cacheManager,
+    private readonly auditService = new AuditService(),
+    private readonly redis = redisClient,
+    private readonly limiter = rateLimiter
+  ) {}
+
+  private getChallengeKey(challengeToken: string): string {
+    return `2fa:challenge:${challengeToken}`;
+  }
+
+  private getChallengeAttemptsKey(challengeToken: string): string {
+    return `auth:2fa:attempts:${challengeToken}`;
+  }
+
+  private getUserAttemptsKey(userId: string | number): string {
+    return `2fa:user:${userId}`;
+  }
+
+  /**
+   * User đã bật 2FA hay chưa
+   */
+  async isEnabled(userId: string | number): Promise<boolean> {
+    return !!(await this.getActiveMfa(userId));
+  }
+
+  /**
+   * Bắt đầu đăng ký TOTP: tạo secret mới (chưa active) và otpauth URI
+   */
+  async setup(
+    userId: string | number,
+    accountName: string
+  ): Promise<AuthResponse.TwoFactorSetupData> {
+    const existing = await this.mfaRepo.findOne({
+      user_id: userId,
+      type: MfaType.TOTP,
+    });
+
+    if (existing?.is_active) {
+      throw new AppError(
+        "auth.twoFactor.already_enabled",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.RESOURCE_CONFLICT
+      );
+    }
+
+    const secret = generateTotpSecret();
+    const encryptedSecret = this.encryptSecret(secret);
+
+    if (existing) {
+      await this.mfaRepo.update(
+        BigInt(existing.id),
+        { secret: encryptedSecret, last_used_step: 0 },
+        BigInt(userId)
+      );
+    } else {
+      await this.mfaRepo.create(
+        {
+          user_id: userId,
+          secret: encryptedSecret,
+          type: MfaType.TOTP,
+          is_active: false,
+          verified_at: 0,
+          last_used_step: 0,
+        },
+        userId
+      );
+    }
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri({
+        secret,
+        accountName,
+        issuer: MFA_CONFIG.MFA_ISSUER,
+      }),
+    };
+  }
+
+  /**
+   * Xác nhận mã TOTP đầu tiên để bật 2FA, trả về bộ backup codes
+   */
+  async enable(
+    userId: string | number,
+    code: string
+  ): Promise<AuthResponse.BackupCodesData> {
+    const mfa = await this.mfaRepo.findOne({
+      user_id: userId,
+      type: MfaType.TOTP,
+    });
+
+    if (!mfa) {
+      throw new AppError(
+        "auth.twoFactor.not_setup",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST
+      );
+    }
+
+    if (mfa.is_active) {
+      throw new AppError(
+        "auth.twoFactor.already_enabled",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.RESOURCE_CONFLICT
+      );
+    }
+
+    await this.assertUserAttemptAllowed(userId);
+    if (!(await this.consumeTotpCode(mfa, code))) {
+      this.throwCodeInvalid();
+    }
+    await this.resetUserAttempts(userId);
+
+    await this.mfaRepo.update(
+      BigInt(mfa.id),
+      { is_active: true, verified_at: getCurrentUnixTimestamp() },
+      BigInt(userId)
+    );
+    await this.auditService.record({
+      eventType: AuthAuditEventType.TWO_FACTOR_ENABLED,
+      userId,
+    });
+
+    return { backupCodes: await this.issueBackupCodes(mfa) };
+  }
+
+  /**
+   * Tắt 2FA, yêu cầu mã TOTP hoặc backup code
+   */
+  async disable(userId: string | number, code: string): Promise<void> {
+    const mfa = await this.requireActiveMfa(userId);
+
+    await this.assertUserAttemptAllowed(userId);
+    if (!(await this.verifyCode(mfa, code))) {
+      this.throwCodeInvalid();
+    }
+    await this.resetUserAttempts(userId);
+
+    await this.backupCodeRepo.deleteWhere({ mfa_id: mfa.id });
+    await this.mfaRepo.update(
+      BigInt(mfa.id),
+      { is_active: false, secret: "", verified_at: 0, last_used_step: 0 },
+      BigInt(userId)
+    );
+    await this.auditService.record({
+      eventType: AuthAuditEventType.TWO_FACTOR_DISABLED,
+      userId,
+    });
+  }
+
+  /**
+   * Tạo lại backup codes, toàn bộ code cũ bị vô hiệu hóa
+   */
+  async regenerateBackupCodes(
+    userId: string | number,
+    code: string
+  ): Promise<AuthResponse.BackupCodesData> {
+    const mfa = await this.requireActiveMfa(userId);
+
+    await this.assertUserAttemptAllowed(userId);
+    if (!(await this.consumeTotpCode(mfa, code))) {
+      this.throwCodeInvalid();
+    }
+    await this.resetUserAttempts(userId);
+
+    await this.auditService.record({
+      eventType: AuthAuditEventType.BACKUP_CODES_REGENERATED,
+      userId,
+    });
+
+    return { backupCodes: await this.issueBackupCodes(mfa) };
+  }
+
+  /**
+   * Tạo challenge cho bước đăng nhập thứ hai, gắn với session của device
+   */
+  async createChallenge(
+    userId: string | number,
+    sessionId: string | number
+  ): Promise<AuthResponse.TwoFactorChallengeData> {
+    const challengeToken = randomBytes(32).toString("base64url");
+    const challenge: TwoFactorChallenge = {
+      userId: String(userId),
+      sessionId: String(sessionId),
+    };
+
+    await this.cache.set(
+      this.getChallengeKey(challengeToken),
+      challenge,
+      MFA_CONFIG.MFA_CHALLENGE_TTL
+    );
+
+    return {
+      twoFactorRequired: true,
+      challengeToken,
+      challengeExpiresAt: parseUnixToVietnamTime(
+        getCurrentUnixTimestamp() + MFA_CONFIG.MFA_CHALLENGE_TTL,
+        "YYYY-MM-DD HH:mm:ss"
+      ),
+    };
+  }
+
+  /**
+   * Verify mã 2FA cho challenge, challenge chỉ dùng được một lần
+   * @returns user id của challenge
+   */
+  async verifyChallenge(
+    challengeToken: string,
+    sessionId: string | number,
+    code: string
+  ): Promise<string> {
+    const key = this.getChallengeKey(challengeToken);
+    const challenge = await this.cache.get<TwoFactorChallenge>(key);
+
+    // Challenge phải được dùng trên chính device đã đăng nhập bằng mật khẩu
+    if (!challenge || challenge.sessionId !== String(sessionId)) {
+      throw new AppError(
+        "auth.twoFactor.code_expired",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    }
+
+    await this.assertAttemptAllowed(challengeToken, challenge.userId);
+
+    const mfa = await this.getActiveMfa(challenge.userId);
+    if (mfa && (await this.verifyCode(mfa, code))) {
+      await this.cache.del(key);
+      await this.redis.del(this.getChallengeAttemptsKey(challengeToken));
+      await this.resetUserAttempts(challenge.userId);
+      return challenge.userId;
+    }
+
+    this.throwCodeInvalid();
+  }
+
+  /**
+   * Đếm lượt thử (atomic) trước khi verify mã, theo challenge và theo user.
+   * Giới hạn theo user để không thể tạo challenge mới liên tục nhằm thử tiếp
+   */
+  private async assertAttemptAllowed(
+    challengeToken: string,
+    userId: string
+  ): Promise<void> {
+    const attemptsKey = this.getChallengeAttemptsKey(challengeToken);
+
+    // Tạo counter kèm TTL trước khi INCR để key không bao giờ tồn tại mà thiếu TTL
+    await this.redis.send("SET", [
+      attemptsKey,
+      "0",
+      "EX",
+      String(MFA_CONFIG.MFA_CHALLENGE_TTL),
+      "NX",
+    ]);
+    const attempts = await this.redis.incr(attemptsKey);
+
+    if (attempts > MFA_CONFIG.MFA_CHALLENGE_MAX_ATTEMPTS) {
+      await this.cache.del(this.getChallengeKey(challengeToken));
+      this.throwTooManyAttempts();
+    }
+
+    try {
+      await this.assertUserAttemptAllowed(userId);
+    } catch (error) {
+      await this.cache.del(this.getChallengeKey(challengeToken));
+      throw error;
+    }
+  }
+
+  /**
+   * Đếm lượt thử mã 2FA của user trên mọi luồng (challenge đăng nhập, bật/tắt 2FA,
+   * tạo lại backup codes) để access token bị lộ cũng không thử mã liên tục được
+   */
+  private async assertUserAttemptAllowed(
+    userId: string | number
+  ): Promise<void> {
+    const userLimit = await this.limiter.checkLimit(
+      this.getUserAttemptsKey(userId),
+      MFA_CONFIG.MFA_USER_MAX_ATTEMPTS,
+      MFA_CONFIG.MFA_USER_ATTEMPT_WINDOW_MS
+    );
+
+    if (userLimit.limited) this.throwTooManyAttempts();
+  }
+
+  private async resetUserAttempts(userId: string | number): Promise<void> {
+    await this.limiter.reset(
+      this.getUserAttemptsKey(userId),
+      MFA_CONFIG.MFA_USER_ATTEMPT_WINDOW_MS
+    );
+  }
+
+  private throwTooManyAttempts(): never {
+    throw new AppError(
+      "auth.login.too_many_attempts",
+      HTTP_STATUS.TOO_MANY_REQUESTS,
+      ERROR_CODES.RATE_LIMITED
+    );
+  }
+
+  private async getActiveMfa(
+    userId: string | number
+  ): Promise<MfaModel | null> {
+    return await this.mfaRepo.findOne({
+      user_id: userId,
+      type: MfaType.TOTP,
+      is_active: true,
+    });
+  }
+
+  private async requireActiveMfa(userId: string | number): Promise<MfaModel> {
+    const mfa = await this.getActiveMfa(userId);
+
+    if (!mfa) {
+      throw new AppError(
+        "auth.twoFactor.not_enabled",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST
+      );
+    }
+
+    return mfa;
+  }
+
+  private throwCodeInvalid(): never {
+    throw new AppError(
+      "auth.twoFactor.code_invalid",
+      HTTP_STATUS.UNAUTHORIZED,
+      ERROR_CODES.UNAUTHORIZED
+    );
+  }
+
+  /**
+   * Chấp nhận mã TOTP hoặc backup code
+   */
+  private async verifyCode(mfa: MfaModel, code: string): Promise<boolean> {
+    if (/^\d{6}$/.test(code.trim())) {
+      return await this.consumeTotpCode(mfa, code);
+    }
+
+    return await this.consumeBackupCode(mfa, code);
+  }
+
+  /**
+   * Verify mã TOTP, mỗi time step chỉ được dùng một lần
+   */
+  private async consumeTotpCode(mfa: MfaModel, code: string): Promise<boolean> {
+    const now = getCurrentUnixTimestamp();
+    const step = verifyTotp(this.decryptSecret(mfa.secret), code, now);
+
+    if (step === null || step <= Number(mfa.last_used_step)) return false;
+
+    // Compare-and-swap để hai request song song không cùng dùng được một mã
+    const [updated] = await this.mfaRepo.updateWhere(
+      { id: mfa.id, last_used_step: mfa.last_used_step },
+      { last_used_step: step },
+      mfa.user_id
+    );
+
+    return !!updated;
+  }
+
+  /**
+   * Dùng backup code (một lần), code được so khớp với hash đã lưu
+   */
+  private async consumeBackupCode(
+    mfa: MfaModel,
+    code: string
+  ): Promise<boolean> {
+    const normalized = this.normalizeBackupCode(code);
+    if (!normalized) return false;
+
+    const backupCodes = await this.backupCodeRepo.findWhere(
+      { mfa_id: mfa.id, used_at: 0 },
+      { limit: MFA_CONFIG.MFA_BACKUP_CODE_COUNT }
+    );
+
+    for (const backupCode of backupCodes) {
+      if (await Bun.password.verify(normalized, backupCode.code_hash)) {
+        const [updated] = await this.backupCodeRepo.updateWhere(
+          { id: backupCode.id, used_at: 0 },
+          { used_at: getCurrentUnixTimestamp() },
+          mfa.user_id
+        );
+
+        return !!updated;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Tạo bộ backup codes mới dạng XXXXX-XXXXX, chỉ lưu hash
+   */
+  private async issueBackupCodes(mfa: MfaModel): Promise<string[]> {
+    await this.backupCodeRepo.deleteWhere({ mfa_id: mfa.id });
+
+    const codes = Array.from({ length: MFA_CONFIG.MFA_BACKUP_CODE_COUNT }, () =>
+      base32Encode(randomBytes(7)).slice(0, 10)
+    );
+
+    await this.backupCodeRepo.createMany(
+      await Promise.all(
+        codes.map(async (code) => ({
+          user_id: mfa.user_id,
+          mfa_id: mfa.id,
+          code_hash: await Bun.password.hash(code),
+          used_at: 0,
+        }))
+      ),
+      mfa.user_id
+    );
+
+    return codes.map((code) => `${code.slice(0, 5)}-${code.slice(5)}`);
+  }
+
+  private normalizeBackupCode(code: string): string | null {
+    const normalized = code.toUpperCase().replace(/[\s-]/g, "");
+
+    return /^[A-Z2-7]{10}$/.test(normalized) ? normalized : null;
+  }
+
+  private getEncryptionKey(): Buffer {
+    if (!MFA_CONFIG.MFA_ENCRYPT_SECRET_KEY) {
+      throw new Error("MFA_ENCRYPT_SECRET_KEY is not configured");
+    }
+
+    return createHash("sha256")
+      .update(MFA_CONFIG.MFA_ENCRYPT_SECRET_KEY)
+      .digest();
+  }
+
+  /**
+   * Mã hóa TOTP secret bằng AES-256-GCM (iv + auth tag + ciphertext, base64)
+   */
+  private encryptSecret(secret: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([
+      cipher.update(secret, "utf8"),
+      cipher.final(),
+    ]);
+
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString(
+      "base64"
+    );
+  }
+
+  private decryptSecret(payload: string): string {
+    const buffer = Buffer.from(payload, "base64");
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      this.getEncryptionKey(),
+      buffer.subarray(0, 12)
+    );
+    decipher.setAuthTag(buffer.subarray(12, 28));
+
+    return Buffer.concat([
+      decipher.update(buffer.subarray(28)),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+}
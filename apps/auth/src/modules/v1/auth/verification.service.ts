@@ -0,0 +1,423 @@
+import { AppError } from "@repo/elysia-common";
+import { ERROR_CODES, HTTP_STATUS } from "@repo/utils";
+import { errors } from "jose";
+import { createHash } from "node:crypto";
+import {
+  ACCOUNT_TOKEN_CONFIG,
+  LOCKOUT_CONFIG,
+  MAIL_CONFIG,
+  RBAC_CONFIG,
+} from "../../../configs";
+import { userRepository } from "../../../database";
+import { UserModel } from "../../../database/models/user.model";
+import {
+  accountUnlockMail,
+  emailVerificationMail,
+  magicLinkMail,
+  mailTransport,
+  passwordResetMail,
+} from "../../../mail";
+import { cacheManager } from "../../../redis";
+import { RbacService } from "../rbac/rbac.service";
+import { SessionService } from "./session.service";
+import {
+  AccountTokenPayload,
+  AccountTokenPurpose,
+  TokenService,
+} from "./token.service";
+
+/**
+ * Service xác minh email, đặt lại mật khẩu, mở khóa tài khoản và magic link đăng nhập
+ * Token được ký JWT, chỉ lưu hash trong Redis và bị xóa ngay khi sử dụng
+ */
+export class VerificationService {
+  constructor(
+    private readonly userRepo = userRepository,
+    private readonly tokenService = new TokenService(),
+    private readonly sessionService = new SessionService(),
+    private readonly cache = cacheManager,
+    private readonly mailer = mailTransport,
+    private readonly rbacService = new RbacService()
+  ) {}
+
+  private hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+  }
+
+  private getTokenKey(purpose: AccountTokenPurpose, tokenHash: string): string {
+    return `account-token:${purpose}:${tokenHash}`;
+  }
+
+  private getLatestTokenKey(
+    purpose: AccountTokenPurpose,
+    userId: string | number
+  ): string {
+    return `account-token:${purpose}:user:${userId}`;
+  }
+
+  /**
+   * Gửi link xác minh email cho user hiện tại
+   */
+  async requestEmailVerification(userId: string | number): Promise<void> {
+    const user = await this.userRepo.findOne({ id: userId, is_deleted: false });
+
+    if (!user) {
+      throw new AppError(
+        "auth.login.user_not_found",
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND
+      );
+    }
+
+    if (user.is_email_verified) {
+      throw new AppError(
+        "auth.verification.email_already_verified",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.RESOURCE_CONFLICT
+      );
+    }
+
+    const ttl = ACCOUNT_TOKEN_CONFIG.EMAIL_VERIFICATION_TTL;
+    const token = await this.issueToken("email_verification", user, ttl, {
+      email: user.email,
+    });
+
+    await this.mailer.send(
+      emailVerificationMail({
+        to: user.email,
+        displayName: user.display_name || user.user_name,
+        link: this.buildLink("/verify-email", token),
+        ttl,
+      })
+    );
+  }
+
+  /**
+   * Xác minh email bằng token trong link
+   */
+  async confirmEmailVerification(token: string): Promise<void> {
+    const payload = await this.verifyToken(
+      "email_verification",
+      token,
+      "auth.verification.link_expired"
+    );
+
+    const user = await this.userRepo.findOne({
+      id: payload.sub!,
+      is_deleted: false,
+    });
+
+    // Email đã đổi sau khi gửi link thì link cũ không còn giá trị
+    if (!user || user.email !== payload.email) {
+      this.throwTokenInvalid();
+    }
+
+    await this.consumeToken("email_verification", token);
+
+    if (!user.is_email_verified) {
+      await this.userRepo.update(
+        BigInt(user.id),
+        { is_email_verified: true },
+        BigInt(user.id)
+      );
+    }
+  }
+
+  /**
+   * Gửi link đặt lại mật khẩu. Không báo lỗi khi email không tồn tại
+   * để tránh lộ thông tin tài khoản
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepo.findOne({
+      email: email.trim().toLowerCase(),
+      is_deleted: false,
+    });
+
+    if (!user || !user.is_active) return;
+
+    const ttl = ACCOUNT_TOKEN_CONFIG.PASSWORD_RESET_TTL;
+    const token = await this.issueToken("password_reset", user, ttl, {
+      pwd: this.getPasswordFingerprint(user),
+    });
+
+    await this.mailer.send(
+      passwordResetMail({
+        to: user.email,
+        displayName: user.display_name || user.user_name,
+        link: this.buildLink("/reset-password", token),
+        ttl,
+      })
+    );
+  }
+
+  /**
+   * Đặt lại mật khẩu bằng token và thu hồi toàn bộ session đang đăng nhập
+   * @returns số session bị thu hồi
+   */
+  async resetPassword(token: string, password: string): Promise<number> {
+    const payload = await this.verifyToken(
+      "password_reset",
+      token,
+      "auth.password.reset_expired"
+    );
+
+    const user = await this.userRepo.findOne({
+      id: payload.sub!,
+      is_deleted: false,
+    });
+
+    // Mật khẩu đã đổi sau khi gửi link thì link cũ không còn giá trị
+    if (
+      !user ||
+      !user.is_active ||
+      payload.pwd !== this.getPasswordFingerprint(user)
+    ) {
+      this.throwTokenInvalid();
+    }
+
+    if (await Bun.password.verify(password, user.password)) {
+      throw new AppError(
+        "auth.password.must_differ",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR
+      );
+    }
+
+    await this.consumeToken("password_reset", token);
+
+    await this.userRepo.update(
+      BigInt(user.id),
+      {
+        password: await Bun.password.hash(password),
+        // User tạo qua OAuth giờ đã có mật khẩu để đăng nhập
+        metadata: { ...user.metadata, has_password: true },
+      },
+      BigInt(user.id)
+    );
+
+    const sessions = await this.sessionService.findActiveUserSessions(user.id);
+
+    // Đăng xuất khỏi mọi device, device vẫn đăng nhập lại được bằng mật khẩu mới
+    return await this.sessionService.signOut(
+      sessions,
+      "password_reset",
+      user.id,
+      await this.rbacService.resolveRoleAccess([RBAC_CONFIG.GUEST_ROLE])
+    );
+  }
+
+  /**
+   * Gửi link mở khóa tài khoản sau khi bị khóa do đăng nhập sai nhiều lần
+   */
+  async requestAccountUnlock(user: UserModel): Promise<void> {
+    const ttl = LOCKOUT_CONFIG.UNLOCK_TOKEN_TTL;
+    const token = await this.issueToken("account_unlock", user, ttl, {
+      email: user.email,
+    });
+
+    await this.mailer.send(
+      accountUnlockMail({
+        to: user.email,
+        displayName: user.display_name || user.user_name,
+        link: this.buildLink("/unlock-account", token),
+        ttl,
+      })
+    );
+  }
+
+  /**
+   * Dùng token mở khóa, trả về user sở hữu token
+   */
+  async confirmAccountUnlock(token: string): Promise<UserModel> {
+    const payload = await this.verifyToken(
+      "account_unlock",
+      token,
+      "auth.login.unlock_link_expired"
+    );
+
+    const user = await this.userRepo.findOne({
+      id: payload.sub!,
+      is_deleted: false,
+    });
+
+    if (!user || user.email !== payload.email) {
+      this.throwTokenInvalid();
+    }
+
+    await this.consumeToken("account_unlock", token);
+
+    return user;
+  }
+
+  /**
+   * Gửi magic link đăng nhập, token ghi lại device và IP đã yêu cầu link
+   */
+  async requestMagicLink(
+    user: UserModel,
+    requestedBy: { deviceId: string; ipAddress: string }
+  ): Promise<void> {
+    const ttl = ACCOUNT_TOKEN_CONFIG.MAGIC_LINK_TTL;
+    const token = await this.issueToken("magic_link", user, ttl, {
+      email: user.email,
+      did: requestedBy.deviceId,
+      ip: requestedBy.ipAddress,
+    });
+
+    await this.mailer.send(
+      magicLinkMail({
+        to: user.email,
+        displayName: user.display_name || user.user_name,
+        link: this.buildLink("/magic-link", token),
+        ttl,
+      })
+    );
+  }
+
+  /**
+   * Dùng magic link, trả về user cùng device/IP đã yêu cầu link.
+   * User nhận được link qua email nên email được xác minh luôn
+   */
+  async confirmMagicLink(
+    token: string
+  ): Promise<{ user: UserModel; deviceId: string; ipAddress: string }> {
+    const payload = await this.verifyToken(
+      "magic_link",
+      token,
+      "auth.login.magic_link_expired"
+    );
+
+    const user = await this.userRepo.findOne({
+      id: payload.sub!,
+      is_deleted: false,
+    });
+
+    if (!user || user.email !== payload.email) {
+      this.throwTokenInvalid();
+    }
+
+    await this.consumeToken("magic_link", token);
+
+    const verifiedUser = user.is_email_verified
+      ? user
+      : ((await this.userRepo.update(
+          BigInt(user.id),
+          { is_email_verified: true },
+          BigInt(user.id)
+        )) ?? user);
+
+    return {
+      user: verifiedUser,
+      deviceId: String(payload.did ?? ""),
+      ipAddress: String(payload.ip ?? ""),
+    };
+  }
+
+  /**
+   * Ký token và lưu hash vào Redis, token cũ cùng mục đích của user bị vô hiệu hóa
+   */
+  private async issueToken(
+    purpose: AccountTokenPurpose,
+    user: UserModel,
+    ttl: number,
+    claims: Record<string, unknown>
+  ): Promise<string> {
+    const { token } = await this.tokenService.signAccountToken(
+      purpose,
+      user.id,
+      ttl,
+      claims
+    );
+    const tokenHash = this.hashToken(token);
+    const latestKey = this.getLatestTokenKey(purpose, user.id);
+
+    const previousHash = await this.cache.get<string>(latestKey);
+    if (previousHash) {
+      await this.cache.del(this.getTokenKey(purpose, previousHash));
+    }
+
+    await this.cache.set(
+      this.getTokenKey(purpose, tokenHash),
+      String(user.id),
+      ttl
+    );
+    await this.cache.set(latestKey, tokenHash, ttl);
+
+    return token;
+  }
+
+  /**
+   * Verify chữ ký, hạn dùng và token còn tồn tại trong Redis (chưa dùng)
+   */
+  private async verifyToken(
+    purpose: AccountTokenPurpose,
+    token: string,
+    expiredMessageKey: string
+  ): Promise<AccountTokenPayload> {
+    let payload: AccountTokenPayload;
+
+    try {
+      payload = await this.tokenService.verifyAccountToken(purpose, token);
+    } catch (error) {
+      if (error instanceof errors.JWTExpired) {
+        throw new AppError(
+          expiredMessageKey,
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_CODES.BAD_REQUEST
+        );
+      }
+
+      this.throwTokenInvalid();
+    }
+
+    const userId = await this.cache.get<string>(
+      this.getTokenKey(purpose, this.hashToken(token))
+    );
+
+    if (userId !== payload.sub) {
+      this.throwTokenInvalid();
+    }
+
+    return payload;
+  }
+
+  /**
+   * Xóa token khỏi Redis, chỉ request xóa thành công mới được dùng token
+   */
+  private async consumeToken(
+    purpose: AccountTokenPurpose,
+    token: string
+  ): Promise<void> {
+    const consumed = await this.cache.del(
+      this.getTokenKey(purpose, this.hashToken(token))
+    );
+
+    if (!consumed) {
+      this.throwTokenInvalid();
+    }
+  }
+
+  private throwTokenInvalid(): never {
+    throw new AppError(
+      "auth.verification.code_invalid",
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_CODES.BAD_REQUEST
+    );
+  }
+
+  /**
+   * Fingerprint của password hash hiện tại, không chứa đủ thông tin để suy ra hash
+   */
+  private getPasswordFingerprint(user: UserModel): string {
+    return createHash("sha256")
+      .update(user.password)
+      .digest("hex")
+      .slice(0, 16);
+  }
+
+  private buildLink(path: string, token: string): string {
+    const url = new URL(path, MAIL_CONFIG.APP_URL);
+    url.searchParams.set("token", token);
+
+    return url.toString();
+  }
+}
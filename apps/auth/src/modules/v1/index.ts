@@ -1,5 +1,11 @@
 import { Elysia } from "elysia";
+import { accountController } from "./account";
+import { auditController } from "./audit";
 import { authController } from "./auth";
+import { oauthController } from "./oauth";
+import { passkeyController } from "./passkey";
+import { profileController } from "./profile";
+import { rbacController } from "./rbac";
 
 /**
  * Tất cả các routes cho API v1
@@ -7,4 +13,11 @@ import { authController } from "./auth";
 export const apiRoutesV1 = new Elysia({
   name: "apiRoutesV1",
   prefix: "/v1",
-}).use(authController);
+})
+  .use(authController)
+  .use(accountController)
+  .use(auditController)
+  .use(oauthController)
+  .use(passkeyController)
+  .use(profileController)
+  .use(rbacController);
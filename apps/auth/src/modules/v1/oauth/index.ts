@@ -0,0 +1,183 @@
+import { AuthApiConfig } from "@repo/utils";
+import { Elysia } from "elysia";
+import { resolveClientIp } from "../../../client-ip";
+
+import { AuthResponse } from "../auth/auth.response";
+import { AuthService } from "../auth/auth.service";
+import { OAuthDto } from "./oauth.dto";
+import { OAuthResponse } from "./oauth.response";
+import { OAuthService } from "./oauth.service";
+
+/**
+ * Đăng nhập bằng OAuth2/OIDC provider và quản lý liên kết provider
+ */
+export const oauthController = new Elysia({
+  prefix: "/auth",
+})
+  .decorate("authService", new AuthService())
+  .decorate("oauthService", new OAuthService())
+  .decorate("requestIP", resolveClientIp)
+  .model({
+    "params.oauth.provider": OAuthDto.providerParamsSchema,
+    "body.oauth.callback": OAuthDto.callbackSchema,
+    "response.oauth.providerList": OAuthResponse.providerListSchema,
+    "response.oauth.authorization": OAuthResponse.authorizationSchema,
+    "response.oauth.identity": OAuthResponse.identitySchema,
+    "response.oauth.identityList": OAuthResponse.identityListSchema,
+    "response.oauth.unlinkResult": OAuthResponse.unlinkResultSchema,
+    "response.auth.login": AuthResponse.loginResultSchema,
+  })
+  .get(
+    AuthApiConfig.ROUTES["GET /oauth/providers"].path,
+    ({ oauthService }) => {
+      return oauthService.listProviders();
+    },
+    {
+      response: "response.oauth.providerList",
+      detail: {
+        summary: "List OAuth providers",
+        description: "List enabled social login providers",
+        tags: ["Auth", "OAuth"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /oauth/:provider/authorize"].path,
+    async ({ authService, oauthService, params, headers }) => {
+      const deviceToken = headers.authorization?.replace("Bearer ", "");
+      const session = await authService.requireLoginSession(deviceToken);
+
+      return await oauthService.authorize(
+        params.provider,
+        "login",
+        session.device_id
+      );
+    },
+    {
+      params: "params.oauth.provider",
+      response: "response.oauth.authorization",
+      detail: {
+        summary: "Start OAuth login",
+        description:
+          "Create state and PKCE challenge bound to the device token, returns the provider authorization URL",
+        tags: ["Auth", "OAuth"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /oauth/:provider/callback"].path,
+    async ({
+      oauthService,
+      params,
+      body,
+      headers,
+      request,
+      server,
+      requestIP,
+    }) => {
+      const deviceToken = headers.authorization?.replace("Bearer ", "");
+
+      return await oauthService.login(
+        params.provider,
+        body,
+        deviceToken,
+        requestIP({ request, server })
+      );
+    },
+    {
+      params: "params.oauth.provider",
+      body: "body.oauth.callback",
+      response: "response.auth.login",
+      detail: {
+        summary: "Complete OAuth login",
+        description:
+          "Exchange the authorization code and log in, creating an account for new identities",
+        tags: ["Auth", "OAuth"],
+      },
+    }
+  )
+  .get(
+    AuthApiConfig.ROUTES["GET /oauth/identities"].path,
+    async ({ authService, oauthService, headers }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await oauthService.listIdentities(payload.sub!);
+    },
+    {
+      response: "response.oauth.identityList",
+      detail: {
+        summary: "List linked providers",
+        description: "List OAuth identities linked to the current account",
+        tags: ["Auth", "OAuth"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /oauth/:provider/link"].path,
+    async ({ authService, oauthService, headers, params }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await oauthService.authorize(
+        params.provider,
+        "link",
+        payload.device_id,
+        payload.sub!
+      );
+    },
+    {
+      params: "params.oauth.provider",
+      response: "response.oauth.authorization",
+      detail: {
+        summary: "Start linking a provider",
+        description: "Returns the provider authorization URL for linking",
+        tags: ["Auth", "OAuth"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /oauth/:provider/link/callback"].path,
+    async ({ authService, oauthService, headers, params, body }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await oauthService.link(
+        params.provider,
+        body,
+        payload.sub!,
+        payload.device_id
+      );
+    },
+    {
+      params: "params.oauth.provider",
+      body: "body.oauth.callback",
+      response: "response.oauth.identity",
+      detail: {
+        summary: "Complete linking a provider",
+        description:
+          "Exchange the authorization code and link the identity to the current account",
+        tags: ["Auth", "OAuth"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /oauth/:provider/unlink"].path,
+    async ({ authService, oauthService, headers, params }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      await oauthService.unlink(params.provider, payload.sub!);
+
+      return { success: true };
+    },
+    {
+      params: "params.oauth.provider",
+      response: "response.oauth.unlinkResult",
+      detail: {
+        summary: "Unlink a provider",
+        description: "Remove a linked OAuth identity from the current account",
+        tags: ["Auth", "OAuth"],
+      },
+    }
+  );
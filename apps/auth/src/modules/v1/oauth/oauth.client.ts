@@ -0,0 +1,264 @@
+import { AppError } from "@repo/elysia-common";
+import { ERROR_CODES, HTTP_STATUS } from "@repo/utils";
+import { createRemoteJWKSet, JWTPayload, jwtVerify } from "jose";
+import { OAuthProviderConfig } from "../../../configs";
+
+/**
+ * Thông tin user đã chuẩn hóa từ id token / userinfo của provider
+ */
+export interface OAuthProfile {
+  subject: string;
+  email: string; // Lowercase, rỗng nếu provider không trả về
+  emailVerified: boolean;
+  displayName: string;
+  avatarUrl: string;
+}
+
+interface ProviderEndpoints {
+  issuer?: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userinfoEndpoint?: string;
+  jwksUri?: string;
+}
+
+interface TokenResponse {
+  access_token?: string;
+  id_token?: string;
+  token_type?: string;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Client OAuth2 authorization code + PKCE, hỗ trợ OIDC (discovery, verify id token)
+ * và provider OAuth2 thuần (chỉ có userinfo endpoint)
+ */
+export class OAuthClient {
+  private endpoints?: ProviderEndpoints;
+  private jwks?: ReturnType<typeof createRemoteJWKSet>;
+
+  constructor(
+    readonly id: string,
+    private readonly config: OAuthProviderConfig,
+    private readonly redirectUrl: string
+  ) {}
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  get isOidc(): boolean {
+    return !!this.config.issuer;
+  }
+
+  /**
+   * URL redirect user sang trang đăng nhập của provider
+   */
+  async buildAuthorizationUrl(params: {
+    state: string;
+    codeChallenge: string;
+    nonce: string;
+  }): Promise<string> {
+    const endpoints = await this.getEndpoints();
+    const url = new URL(endpoints.authorizationEndpoint);
+
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("client_id", this.config.clientId);
+    url.searchParams.set("redirect_uri", this.redirectUrl);
+    url.searchParams.set("scope", this.config.scopes.join(" "));
+    url.searchParams.set("state", params.state);
+    url.searchParams.set("code_challenge", params.codeChallenge);
+    url.searchParams.set("code_challenge_method", "S256");
+
+    if (this.isOidc) {
+      url.searchParams.set("nonce", params.nonce);
+    }
+
+    return url.toString();
+  }
+
+  /**
+   * Đổi authorization code lấy token và trả về profile của user
+   */
+  async exchangeCode(
+    code: string,
+    codeVerifier: string,
+    nonce: string
+  ): Promise<OAuthProfile> {
+    const endpoints = await this.getEndpoints();
+    const tokens = await this.requestJson<TokenResponse>(
+      endpoints.tokenEndpoint,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Accept: "application/json",
+        },
+        body: new URLSearchParams({
+          grant_type: "authorization_code",
+          code,
+          redirect_uri: this.redirectUrl,
+          client_id: this.config.clientId,
+          client_secret: this.config.clientSecret,
+          code_verifier: codeVerifier,
+        }),
+      }
+    );
+
+    let claims: Record<string, any> = {};
+
+    if (this.isOidc) {
+      if (!tokens.id_token) this.throwExchangeFailed();
+      claims = await this.verifyIdToken(endpoints, tokens.id_token, nonce);
+    }
+
+    // Provider OAuth2 thuần hoặc id token thiếu email => lấy thêm từ userinfo
+    if (endpoints.userinfoEndpoint && (!this.isOidc || !claims.email)) {
+      if (!tokens.access_token) this.throwExchangeFailed();
+
+      const userinfo = await this.requestJson<Record<string, any>>(
+        endpoints.userinfoEndpoint,
+        {
+          headers: {
+            Authorization: `Bearer ${tokens.access_token}`,
+            Accept: "application/json",
+          },
+        }
+      );
+
+      // Userinfo phải thuộc cùng subject với id token
+      if (this.isOidc && String(userinfo.sub) !== String(claims.sub)) {
+        this.throwExchangeFailed();
+      }
+
+      claims = { ...userinfo, ...claims };
+    }
+
+    return this.toProfile(claims);
+  }
+
+  /**
+   * Endpoints của provider, provider OIDC lấy từ discovery document (cache trong memory)
+   */
+  private async getEndpoints(): Promise<ProviderEndpoints> {
+    if (this.endpoints) return this.endpoints;
+
+    if (!this.isOidc) {
+      this.endpoints = {
+        authorizationEndpoint: this.config.authorizationEndpoint!,
+        tokenEndpoint: this.config.tokenEndpoint!,
+        userinfoEndpoint: this.config.userinfoEndpoint,
+      };
+
+      return this.endpoints;
+    }
+
+    const issuer = this.config.issuer!.replace(/\/$/, "");
+    const discovery = await this.requestJson<Record<string, any>>(
+      `${issuer}/.well-known/openid-configuration`,
+      { headers: { Accept: "application/json" } }
+    );
+
+    if (
+      discovery.issuer !== issuer ||
+      !discovery.authorization_endpoint ||
+      !discovery.token_endpoint ||
+      !discovery.jwks_uri
+    ) {
+      throw new Error(`Invalid OIDC discovery document for ${this.id}`);
+    }
+
+    this.endpoints = {
+      issuer: discovery.issuer,
+      authorizationEndpoint: discovery.authorization_endpoint,
+      tokenEndpoint: discovery.token_endpoint,
+      userinfoEndpoint: discovery.userinfo_endpoint,
+      jwksUri: discovery.jwks_uri,
+    };
+
+    return this.endpoints;
+  }
+
+  /**
+   * Verify chữ ký (JWKS của provider), issuer, audience và nonce của id token
+   */
+  private async verifyIdToken(
+    endpoints: ProviderEndpoints,
+    idToken: string,
+    nonce: string
+  ): Promise<JWTPayload> {
+    this.jwks ??= createRemoteJWKSet(new URL(endpoints.jwksUri!));
+
+    try {
+      const { payload } = await jwtVerify(idToken, this.jwks, {
+        issuer: endpoints.issuer,
+        audience: this.config.clientId,
+      });
+
+      if (payload.nonce !== nonce) this.throwExchangeFailed();
+
+      return payload;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+
+      console.warn(`Invalid id token from ${this.id}:`, error);
+      this.throwExchangeFailed();
+    }
+  }
+
+  private async requestJson<T>(url: string, init: RequestInit): Promise<T> {
+    const response = await fetch(url, {
+      ...init,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }).catch((error) => {
+      console.error(`OAuth request to ${this.id} failed:`, error);
+      this.throwExchangeFailed();
+    });
+
+    if (!response.ok) {
+      console.warn(
+        `OAuth request to ${this.id} failed with status ${response.status}`
+      );
+      this.throwExchangeFailed();
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Chuẩn hóa claims của các provider (OIDC, Discord, Facebook...) về cùng một dạng
+   */
+  private toProfile(claims: Record<string, any>): OAuthProfile {
+    const subject = String(claims.sub ?? claims.id ?? "");
+
+    if (!subject) this.throwExchangeFailed();
+
+    const picture =
+      typeof claims.picture === "string"
+        ? claims.picture
+        : claims.picture?.data?.url;
+
+    return {
+      subject,
+      email: typeof claims.email === "string" ? claims.email.toLowerCase() : "",
+      emailVerified:
+        this.config.trustEmail === true ||
+        claims.email_verified === true ||
+        claims.email_verified === "true" ||
+        claims.verified === true,
+      displayName: String(
+        claims.name ?? claims.global_name ?? claims.username ?? ""
+      ),
+      avatarUrl: typeof picture === "string" ? picture : "",
+    };
+  }
+
+  private throwExchangeFailed(): never {
+    throw new AppError(
+      "auth.oauth.exchange_failed",
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_CODES.BAD_REQUEST
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { t } from "elysia";
+
+export namespace OAuthDto {
+  export const providerParamsSchema = t.Object({
+    provider: t.String({
+      maxLength: 50,
+    }),
+  });
+
+  export type ProviderParamsSchema = typeof providerParamsSchema.static;
+
+  // Code và state provider trả về qua redirect URL của frontend
+  export const callbackSchema = t.Object({
+    code: t.String({
+      minLength: 1,
+      maxLength: 2048,
+    }),
+    state: t.String({
+      minLength: 1,
+      maxLength: 255,
+    }),
+  });
+
+  export type CallbackSchema = typeof callbackSchema.static;
+}
@@ -0,0 +1,41 @@
+import { t } from "elysia";
+
+export namespace OAuthResponse {
+  export const providerSchema = t.Object({
+    id: t.String(),
+    name: t.String(),
+  });
+
+  export const providerListSchema = t.Array(providerSchema);
+
+  export type ProviderList = typeof providerListSchema.static;
+
+  export const authorizationSchema = t.Object({
+    authorizationUrl: t.String(),
+    state: t.String(),
+    expiresAt: t.String(),
+  });
+
+  export type AuthorizationData = typeof authorizationSchema.static;
+
+  export const identitySchema = t.Object({
+    provider: t.String(),
+    email: t.String(),
+    displayName: t.String(),
+    avatarUrl: t.String(),
+    linkedAt: t.String(),
+    lastLoginAt: t.Union([t.String(), t.Null()]),
+  });
+
+  export type IdentityData = typeof identitySchema.static;
+
+  export const identityListSchema = t.Array(identitySchema);
+
+  export type IdentityList = typeof identityListSchema.static;
+
+  export const unlinkResultSchema = t.Object({
+    success: t.Boolean(),
+  });
+
+  export type UnlinkResultData = typeof unlinkResultSchema.static;
+}
@@ -0,0 +1,495 @@
+import { AppError } from "@repo/elysia-common";
+import { Gender } from "@repo/types";
+import {
+  ERROR_CODES,
+  getCurrentUnixTimestamp,
+  HTTP_STATUS,
+  parseUnixToVietnamTime,
+} from "@repo/utils";
+import { createHash, randomBytes, randomInt } from "node:crypto";
+import { OAUTH_CONFIG, OAuthProviderConfig } from "../../../configs";
+import {
+  userIdentityRepository,
+  userNameReservationRepository,
+  userRepository,
+  webAuthnCredentialRepository,
+} from "../../../database";
+import { UserIdentityModel } from "../../../database/models/user-identity.model";
+import { UserModel } from "../../../database/models/user.model";
+import { cacheManager } from "../../../redis";
+import { AuthResponse } from "../auth/auth.response";
+import { AuthService } from "../auth/auth.service";
+import { RbacService } from "../rbac/rbac.service";
+import { OAuthClient, OAuthProfile } from "./oauth.client";
+import { OAuthDto } from "./oauth.dto";
+import { OAuthResponse } from "./oauth.response";
+
+type OAuthIntent = "login" | "link";
+
+interface OAuthState {
+  provider: string;
+  intent: OAuthIntent;
+  userId: string; // User yêu cầu liên kết, rỗng khi đăng nhập
+  deviceId: string; // Device bắt đầu luồng, callback phải đến từ cùng device
+  codeVerifier: string;
+  nonce: string;
+}
+
+/**
+ * Service đăng nhập bằng tài khoản bên thứ ba (OAuth2/OIDC) và liên kết
+ * provider với tài khoản hiện có
+ */
+export class OAuthService {
+  private readonly clients: Map<string, OAuthClient>;
+
+  constructor(
+    private readonly identityRepo = userIdentityRepository,
+    private readonly userRepo = userRepository,
+    private readonly authService = new AuthService(),
+    private readonly rbacService = new RbacService(),
+    private readonly cache = cacheManager,
+    private readonly credentialRepo = webAuthnCredentialRepository,
+    private readonly reservationRepo = userNameReservationRepository,
+    providers: Record<string, OAuthProviderConfig> = OAUTH_CONFIG.PROVIDERS
+  ) {
+    this.clients = new Map(
+      Object.entries(providers)
+        .filter(
+          ([, config]) =>
+            config.clientId &&
+            (config.issuer ||
+              (config.authorizationEndpoint && config.tokenEndpoint))
+        )
+        .map(([id, config]) => [
+          id,
+          new OAuthClient(
+            id,
+            config,
+            OAUTH_CONFIG.REDIRECT_URL.replace("{provider}", id)
+          ),
+        ])
+    );
+  }
+
+  private getStateKey(state: string): string {
+    return `oauth-state:${state}`;
+  }
+
+  /**
+   * Danh sách provider đang được bật
+   */
+  listProviders(): OAuthResponse.ProviderList {
+    return [...this.clients.values()].map((client) => ({
+      id: client.id,
+      name: client.name,
+    }));
+  }
+
+  /**
+   * Tạo state + PKCE gắn với device và trả về URL đăng nhập của provider
+   */
+  async authorize(
+    providerId: string,
+    intent: OAuthIntent,
+    deviceId: string,
+    userId: string = ""
+  ): Promise<OAuthResponse.AuthorizationData> {
+    const client = this.requireClient(providerId);
+
+    const state = randomBytes(32).toString("base64url");
+    const codeVerifier = randomBytes(32).toString("base64url");
+    const nonce = randomBytes(16).toString("base64url");
+
+    await this.cache.set(
+      this.getStateKey(state),
+      {
+        provider: client.id,
+        intent,
+        userId,
+        deviceId,
+        codeVerifier,
+        nonce,
+      } satisfies OAuthState,
+      OAUTH_CONFIG.STATE_TTL
+    );
+
+    const authorizationUrl = await client.buildAuthorizationUrl({
+      state,
+      codeChallenge: createHash("sha256")
+        .update(codeVerifier)
+        .digest("base64url"),
+      nonce,
+    });
+
+    return {
+      authorizationUrl,
+      state,
+      expiresAt: parseUnixToVietnamTime(
+        getCurrentUnixTimestamp() + OAUTH_CONFIG.STATE_TTL,
+        "YYYY-MM-DD HH:mm:ss"
+      ),
+    };
+  }
+
+  /**
+   * Đăng nhập bằng provider. Identity chưa liên kết sẽ tạo tài khoản mới,
+   * trừ khi email đã thuộc về một tài khoản khác
+   */
+  async login(
+    providerId: string,
+    data: OAuthDto.CallbackSchema,
+    deviceToken: string | undefined,
+    ipAddress: string
+  ): Promise<AuthResponse.LoginResult> {
+    const session = await this.authService.requireLoginSession(deviceToken);
+    const { client, profile } = await this.completeAuthorization(
+      providerId,
+      data,
+      "login",
+      session.device_id
+    );
+
+    const user = await this.resolveLoginUser(client, profile);
+
+    return await this.authService.loginAsUser(user, deviceToken, ipAddress);
+  }
+
+  /**
+   * Liên kết provider với tài khoản đang đăng nhập
+   */
+  async link(
+    providerId: string,
+    data: OAuthDto.CallbackSchema,
+    userId: string,
+    deviceId: string
+  ): Promise<OAuthResponse.IdentityData> {
+    const { client, profile } = await this.completeAuthorization(
+      providerId,
+      data,
+      "link",
+      deviceId,
+      userId
+    );
+
+    const identity = await this.identityRepo.findOne({
+      provider: client.id,
+      provider_user_id: profile.subject,
+    });
+
+    if (identity) {
+      if (String(identity.user_id) === String(userId)) {
+        return this.toIdentityData(identity);
+      }
+
+      throw new AppError(
+        "auth.oauth.identity_taken",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.RESOURCE_CONFLICT,
+        { provider: client.name }
+      );
+    }
+
+    // Mỗi tài khoản chỉ liên kết một identity cho mỗi provider
+    if (
+      await this.identityRepo.existsWhere({
+        user_id: userId,
+        provider: client.id,
+      })
+    ) {
+      throw new AppError(
+        "auth.oauth.provider_already_linked",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.RESOURCE_CONFLICT,
+        { provider: client.name }
+      );
+    }
+
+    const created = await this.createIdentity(
+      client.id,
+      profile,
+      userId,
+      false
+    );
+
+    return this.toIdentityData(created);
+  }
+
+  /**
+   * Hủy liên kết provider. Không cho hủy phương thức đăng nhập cuối cùng
+   * (identity hoặc passkey) của tài khoản chưa có mật khẩu
+   */
+  async unlink(providerId: string, userId: string): Promise<void> {
+    const identity = await this.identityRepo.findOne({
+      user_id: userId,
+      provider: providerId,
+    });
+
+    if (!identity) {
+      throw new AppError(
+        "auth.oauth.identity_not_found",
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND
+      );
+    }
+
+    const user = await this.userRepo.findOne({ id: userId, is_deleted: false });
+
+    if (
+      user?.metadata?.has_password === false &&
+      (await this.identityRepo.count({ user_id: userId })) <= 1 &&
+      !(await this.credentialRepo.existsWhere({ user_id: userId }))
+    ) {
+      throw new AppError(
+        "auth.oauth.last_login_method",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST
+      );
+    }
+
+    await this.identityRepo.delete(BigInt(identity.id));
+  }
+
+  async listIdentities(userId: string): Promise<OAuthResponse.IdentityList> {
+    const identities = await this.identityRepo.findWhere(
+      { user_id: userId },
+      { limit: 50, orderBy: "created_at", orderDirection: "ASC" }
+    );
+
+    return identities.map((identity) => this.toIdentityData(identity));
+  }
+
+  /**
+   * Dùng state (một lần) và đổi authorization code lấy profile của user.
+   * State phải thuộc đúng device đã bắt đầu luồng, chống login CSRF
+   * (kẻ tấn công gửi callback của mình cho nạn nhân)
+   */
+  private async completeAuthorization(
+    providerId: string,
+    data: OAuthDto.CallbackSchema,
+    intent: OAuthIntent,
+    deviceId: string,
+    userId: string = ""
+  ): Promise<{ client: OAuthClient; profile: OAuthProfile }> {
+    const client = this.requireClient(providerId);
+    const key = this.getStateKey(data.state);
+    const state = await this.cache.get<OAuthState>(key);
+
+    if (
+      !state ||
+      state.provider !== client.id ||
+      state.intent !== intent ||
+      state.userId !== String(userId) ||
+      state.deviceId !== deviceId ||
+      !(await this.cache.del(key))
+    ) {
+      throw new AppError(
+        "auth.oauth.state_invalid",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST
+      );
+    }
+
+    const profile = await client.exchangeCode(
+      data.code,
+      state.codeVerifier,
+      state.nonce
+    );
+
+    return { client, profile };
+  }
+
+  /**
+   * User tương ứng với identity, tạo mới nếu chưa có
+   */
+  private async resolveLoginUser(
+    client: OAuthClient,
+    profile: OAuthProfile
+  ): Promise<UserModel> {
+    const identity = await this.identityRepo.findOne({
+      provider: client.id,
+      provider_user_id: profile.subject,
+    });
+
+    if (identity) {
+      const user = await this.userRepo.findOne({
+        id: identity.user_id,
+        is_deleted: false,
+      });
+
+      if (!user) {
+        throw new AppError(
+          "auth.login.account_disabled",
+          HTTP_STATUS.FORBIDDEN,
+          ERROR_CODES.FORBIDDEN
+        );
+      }
+
+      await this.identityRepo.update(
+        BigInt(identity.id),
+        {
+          email: profile.email,
+          display_name: profile.displayName,
+          avatar_url: profile.avatarUrl,
+          last_login_at: getCurrentUnixTimestamp(),
+        },
+        BigInt(user.id)
+      );
+
+      return user;
+    }
+
+    if (!profile.email) {
+      throw new AppError(
+        "auth.oauth.email_required",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST,
+        { provider: client.name }
+      );
+    }
+
+    // Email chưa xác minh có thể là email của người khác, không dùng để tạo tài khoản
+    if (!profile.emailVerified) {
+      throw new AppError(
+        "auth.oauth.email_unverified",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST,
+        { provider: client.name }
+      );
+    }
+
+    // Không tự động liên kết theo email để tránh chiếm tài khoản qua provider,
+    // user phải đăng nhập tài khoản hiện có rồi liên kết provider
+    if (await this.userRepo.existsWhere({ email: profile.email })) {
+      throw new AppError(
+        "auth.oauth.email_conflict",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.RESOURCE_CONFLICT,
+        { provider: client.name }
+      );
+    }
+
+    return await this.createUserFromProfile(client.id, profile);
+  }
+
+  /**
+   * Tạo tài khoản mới từ profile của provider, mật khẩu ngẫu nhiên không dùng được
+   * cho tới khi user đặt lại mật khẩu
+   */
+  private async createUserFromProfile(
+    providerId: string,
+    profile: OAuthProfile
+  ): Promise<UserModel> {
+    const userName = await this.generateUserName(profile.email);
+
+    const user = await this.userRepo.create(
+      {
+        user_name: userName,
+        email: profile.email,
+        password: await Bun.password.hash(randomBytes(32).toString("hex")),
+        phone_number: "",
+        display_name: profile.displayName.trim().slice(0, 255) || userName,
+        avatar_url: profile.avatarUrl,
+        cover_url: "",
+        bio: [],
+        gender: Gender.OTHER,
+        date_of_birth: "0",
+        metadata: { has_password: false, signup_provider: providerId },
+        // resolveLoginUser chỉ tạo tài khoản từ email provider đã xác minh
+        is_email_verified: true,
+        is_phone_verified: false,
+        is_active: true,
+        is_deleted: false,
+      },
+      0
+    );
+
+    await this.rbacService.assignDefaultRole(user.id);
+    await this.createIdentity(providerId, profile, user.id, true);
+
+    return user;
+  }
+
+  private async createIdentity(
+    providerId: string,
+    profile: OAuthProfile,
+    userId: string | number,
+    isLogin: boolean
+  ): Promise<UserIdentityModel> {
+    return await this.identityRepo.create(
+      {
+        user_id: userId,
+        provider: providerId,
+        provider_user_id: profile.subject,
+        email: profile.email,
+        display_name: profile.displayName,
+        avatar_url: profile.avatarUrl,
+        metadata: { email_verified: profile.emailVerified },
+        last_login_at: isLogin ? getCurrentUnixTimestamp() : 0,
+      },
+      userId
+    );
+  }
+
+  /**
+   * Sinh user_name chưa được dùng hoặc giữ chỗ từ phần trước @ của email
+   */
+  private async generateUserName(email: string): Promise<string> {
+    const localPart = (email.split("@")[0] ?? "")
+      .toLowerCase()
+      .replace(/[^a-z0-9_.]/g, "")
+      .slice(0, 30);
+    const base = localPart.length >= 3 ? localPart : `user${localPart}`;
+
+    let candidate = base;
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const [taken, reservation] = await Promise.all([
+        this.userRepo.findByUserName(candidate),
+        this.reservationRepo.findActive(candidate),
+      ]);
+
+      if (!taken && !reservation) {
+        return candidate;
+      }
+
+      candidate = `${base}_${randomInt(1000, 100000)}`;
+    }
+
+    return `${base}_${randomBytes(4).toString("hex")}`;
+  }
+
+  private requireClient(providerId: string): OAuthClient {
+    const client = this.clients.get(providerId);
+
+    if (!client) {
+      throw new AppError(
+        "auth.oauth.provider_not_found",
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND
+      );
+    }
+
+    return client;
+  }
+
+  private toIdentityData(
+    identity: UserIdentityModel
+  ): OAuthResponse.IdentityData {
+    return {
+      provider: identity.provider,
+      email: identity.email,
+      displayName: identity.display_name,
+      avatarUrl: identity.avatar_url,
+      linkedAt: parseUnixToVietnamTime(
+        Number(identity.created_at),
+        "YYYY-MM-DD HH:mm:ss"
+      ),
+      lastLoginAt:
+        Number(identity.last_login_at) > 0
+          ? parseUnixToVietnamTime(
+              Number(identity.last_login_at),
+              "YYYY-MM-DD HH:mm:ss"
+            )
+          : null,
+    };
+  }
+}
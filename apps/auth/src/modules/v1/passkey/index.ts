@@ -0,0 +1,143 @@
+import { AuthApiConfig } from "@repo/utils";
+import { Elysia } from "elysia";
+import { resolveClientIp } from "../../../client-ip";
+
+import { AuthResponse } from "../auth/auth.response";
+import { AuthService } from "../auth/auth.service";
+import { PasskeyDto } from "./passkey.dto";
+import { PasskeyResponse } from "./passkey.response";
+import { PasskeyService } from "./passkey.service";
+
+/**
+ * Đăng ký, quản lý passkey và đăng nhập bằng passkey (WebAuthn)
+ */
+export const passkeyController = new Elysia({
+  prefix: "/auth",
+})
+  .decorate("authService", new AuthService())
+  .decorate("passkeyService", new PasskeyService())
+  .decorate("requestIP", resolveClientIp)
+  .model({
+    "body.passkey.registration": PasskeyDto.registrationSchema,
+    "body.passkey.authentication": PasskeyDto.authenticationSchema,
+    "response.passkey.registrationOptions":
+      PasskeyResponse.registrationOptionsSchema,
+    "response.passkey.authenticationOptions":
+      PasskeyResponse.authenticationOptionsSchema,
+    "response.passkey.passkey": PasskeyResponse.passkeySchema,
+    "response.passkey.passkeyList": PasskeyResponse.passkeyListSchema,
+    "response.passkey.deleteResult": PasskeyResponse.deleteResultSchema,
+    "response.auth.login": AuthResponse.loginResultSchema,
+  })
+  .post(
+    AuthApiConfig.ROUTES["POST /passkeys/register/options"].path,
+    async ({ authService, passkeyService, headers }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await passkeyService.createRegistrationOptions(payload.sub!);
+    },
+    {
+      response: "response.passkey.registrationOptions",
+      detail: {
+        summary: "Start passkey registration",
+        description:
+          "Create a registration challenge and the options for navigator.credentials.create()",
+        tags: ["Auth", "Passkey"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /passkeys/register/verify"].path,
+    async ({ authService, passkeyService, headers, body }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await passkeyService.register(payload.sub!, body);
+    },
+    {
+      body: "body.passkey.registration",
+      response: "response.passkey.passkey",
+      detail: {
+        summary: "Complete passkey registration",
+        description:
+          "Verify the attestation (format none) and store the passkey for the current account",
+        tags: ["Auth", "Passkey"],
+      },
+    }
+  )
+  .get(
+    AuthApiConfig.ROUTES["GET /passkeys"].path,
+    async ({ authService, passkeyService, headers }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await passkeyService.list(payload.sub!);
+    },
+    {
+      response: "response.passkey.passkeyList",
+      detail: {
+        summary: "List passkeys",
+        description: "List passkeys registered to the current account",
+        tags: ["Auth", "Passkey"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /passkeys/:id/delete"].path,
+    async ({ authService, passkeyService, headers, params }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      await passkeyService.remove(payload.sub!, params.id);
+
+      return { success: true };
+    },
+    {
+      response: "response.passkey.deleteResult",
+      detail: {
+        summary: "Delete passkey",
+        description: "Remove a passkey from the current account",
+        tags: ["Auth", "Passkey"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /login/passkey/options"].path,
+    async ({ passkeyService, headers }) => {
+      const deviceToken = headers.authorization?.replace("Bearer ", "");
+
+      return await passkeyService.createAuthenticationOptions(deviceToken);
+    },
+    {
+      response: "response.passkey.authenticationOptions",
+      detail: {
+        summary: "Start passkey login",
+        description:
+          "Create an authentication challenge bound to the current device token and the options for navigator.credentials.get()",
+        tags: ["Auth", "Passkey"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /login/passkey/verify"].path,
+    async ({ passkeyService, headers, body, request, server, requestIP }) => {
+      const deviceToken = headers.authorization?.replace("Bearer ", "");
+
+      return await passkeyService.login(
+        body,
+        deviceToken,
+        requestIP({ request, server })
+      );
+    },
+    {
+      body: "body.passkey.authentication",
+      response: "response.auth.login",
+      detail: {
+        summary: "Complete passkey login",
+        description:
+          "Verify the assertion signature and sign count, then issue an access/refresh token pair bound to the current device token",
+        tags: ["Auth", "Passkey"],
+      },
+    }
+  );
@@ -0,0 +1,63 @@
+import { t } from "elysia";
+
+export namespace PasskeyDto {
+  // Kết quả navigator.credentials.create() dạng JSON (các trường binary là base64url)
+  export const registrationSchema = t.Object({
+    name: t.Optional(
+      t.String({
+        maxLength: 100,
+      })
+    ),
+    credential: t.Object({
+      id: t.String({
+        minLength: 1,
+        maxLength: 1024,
+      }),
+      rawId: t.String({
+        minLength: 1,
+        maxLength: 1024,
+      }),
+      type: t.Literal("public-key"),
+      response: t.Object({
+        clientDataJSON: t.String({
+          minLength: 1,
+        }),
+        attestationObject: t.String({
+          minLength: 1,
+        }),
+        transports: t.Optional(t.Array(t.String({ maxLength: 32 }))),
+      }),
+    }),
+  });
+
+  export type RegistrationSchema = typeof registrationSchema.static;
+
+  // Kết quả navigator.credentials.get() dạng JSON (các trường binary là base64url)
+  export const authenticationSchema = t.Object({
+    credential: t.Object({
+      id: t.String({
+        minLength: 1,
+        maxLength: 1024,
+      }),
+      rawId: t.String({
+        minLength: 1,
+        maxLength: 1024,
+      }),
+      type: t.Literal("public-key"),
+      response: t.Object({
+        clientDataJSON: t.String({
+          minLength: 1,
+        }),
+        authenticatorData: t.String({
+          minLength: 1,
+        }),
+        signature: t.String({
+          minLength: 1,
+        }),
+        userHandle: t.Optional(t.Union([t.String(), t.Null()])),
+      }),
+    }),
+  });
+
+  export type AuthenticationSchema = typeof authenticationSchema.static;
+}
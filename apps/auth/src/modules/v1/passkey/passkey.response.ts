@@ -0,0 +1,70 @@
+import { t } from "elysia";
+
+export namespace PasskeyResponse {
+  const credentialDescriptorSchema = t.Object({
+    type: t.Literal("public-key"),
+    id: t.String(),
+    transports: t.Array(t.String()),
+  });
+
+  // PublicKeyCredentialCreationOptions dạng JSON, client decode base64url trước khi gọi WebAuthn
+  export const registrationOptionsSchema = t.Object({
+    challenge: t.String(),
+    rp: t.Object({
+      id: t.String(),
+      name: t.String(),
+    }),
+    user: t.Object({
+      id: t.String(),
+      name: t.String(),
+      displayName: t.String(),
+    }),
+    pubKeyCredParams: t.Array(
+      t.Object({
+        type: t.Literal("public-key"),
+        alg: t.Number(),
+      })
+    ),
+    timeout: t.Number(),
+    attestation: t.Literal("none"),
+    authenticatorSelection: t.Object({
+      residentKey: t.String(),
+      userVerification: t.String(),
+    }),
+    excludeCredentials: t.Array(credentialDescriptorSchema),
+  });
+
+  export type RegistrationOptions = typeof registrationOptionsSchema.static;
+
+  // PublicKeyCredentialRequestOptions dạng JSON
+  export const authenticationOptionsSchema = t.Object({
+    challenge: t.String(),
+    rpId: t.String(),
+    timeout: t.Number(),
+    userVerification: t.String(),
+    allowCredentials: t.Array(credentialDescriptorSchema),
+  });
+
+  export type AuthenticationOptions = typeof authenticationOptionsSchema.static;
+
+  export const passkeySchema = t.Object({
+    id: t.String(),
+    name: t.String(),
+    transports: t.Array(t.String()),
+    backedUp: t.Boolean(),
+    createdAt: t.String(),
+    lastUsedAt: t.Union([t.String(), t.Null()]),
+  });
+
+  export type PasskeyData = typeof passkeySchema.static;
+
+  export const passkeyListSchema = t.Array(passkeySchema);
+
+  export type PasskeyList = typeof passkeyListSchema.static;
+
+  export const deleteResultSchema = t.Object({
+    success: t.Boolean(),
+  });
+
+  export type DeleteResultData = typeof deleteResultSchema.static;
+}
@@ -0,0 +1,561 @@
+import { AppError } from "@repo/elysia-common";
+import {
+  ERROR_CODES,
+  getCurrentUnixTimestamp,
+  HTTP_STATUS,
+  parseUnixToVietnamTime,
+} from "@repo/utils";
+import { createHash, randomBytes } from "node:crypto";
+import { WEBAUTHN_CONFIG } from "../../../configs";
+import {
+  userIdentityRepository,
+  userRepository,
+  webAuthnCredentialRepository,
+} from "../../../database";
+import { AuthAuditEventType } from "../../../database/models/auth-audit-event.model";
+import { WebAuthnCredentialModel } from "../../../database/models/webauthn-credential.model";
+import { cacheManager } from "../../../redis";
+import { AuditService } from "../audit/audit.service";
+import { AuthResponse } from "../auth/auth.response";
+import { AuthService } from "../auth/auth.service";
+import { PasskeyDto } from "./passkey.dto";
+import { PasskeyResponse } from "./passkey.response";
+import {
+  AuthenticatorData,
+  ClientData,
+  coseToPublicKey,
+  parseAttestationObject,
+  parseAuthenticatorData,
+  parseClientData,
+  SUPPORTED_ALGORITHMS,
+  verifySignature,
+  WebAuthnError,
+} from "./webauthn";
+
+type ChallengePurpose = "registration" | "authentication";
+
+interface WebAuthnChallenge {
+  purpose: ChallengePurpose;
+  userId: string; // User đăng ký passkey, rỗng khi đăng nhập
+  sessionId: string; // Session của device token đăng nhập, rỗng khi đăng ký
+}
+
+/**
+ * Service đăng ký và đăng nhập bằng passkey (WebAuthn). Chỉ hỗ trợ attestation "none",
+ * chữ ký được verify bằng public key lưu lúc đăng ký
+ */
+export class PasskeyService {
+  constructor(
+    private readonly credentialRepo = webAuthnCredentialRepository,
+    private readonly userRepo = userRepository,
+    private readonly identityRepo = userIdentityRepository,
+    private readonly authService = new AuthService(),
+    private readonly auditService = new AuditService(),
+    private readonly cache = cacheManager
+  ) {}
+
+  private getChallengeKey(challenge: string): string {
+    return `webauthn-challenge:${challenge}`;
+  }
+
+  /**
+   * User handle gửi cho authenticator, authenticator trả lại khi đăng nhập bằng passkey
+   */
+  private getUserHandle(userId: string | number): string {
+    return Buffer.from(String(userId)).toString("base64url");
+  }
+
+  /**
+   * Options cho navigator.credentials.create(), passkey đã đăng ký bị loại trừ
+   * để authenticator không tạo trùng
+   */
+  async createRegistrationOptions(
+    userId: string
+  ): Promise<PasskeyResponse.RegistrationOptions> {
+    const user = await this.userRepo.findOne({ id: userId, is_deleted: false });
+
+    if (!user) {
+      throw new AppError(
+        "auth.login.account_disabled",
+        HTTP_STATUS.FORBIDDEN,
+        ERROR_CODES.FORBIDDEN
+      );
+    }
+
+    const credentials = await this.credentialRepo.findWhere(
+      { user_id: userId },
+      { limit: WEBAUTHN_CONFIG.MAX_CREDENTIALS }
+    );
+
+    if (credentials.length >= WEBAUTHN_CONFIG.MAX_CREDENTIALS) {
+      throw new AppError(
+        "auth.passkey.limit_reached",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST,
+        { max: WEBAUTHN_CONFIG.MAX_CREDENTIALS }
+      );
+    }
+
+    const challenge = await this.createChallenge({
+      purpose: "registration",
+      userId: String(user.id),
+      sessionId: "",
+    });
+
+    return {
+      challenge,
+      rp: { id: WEBAUTHN_CONFIG.RP_ID, name: WEBAUTHN_CONFIG.RP_NAME },
+      user: {
+        id: this.getUserHandle(user.id),
+        name: user.email,
+        displayName: user.display_name || user.user_name,
+      },
+      pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({
+        type: "public-key" as const,
+        alg,
+      })),
+      timeout: WEBAUTHN_CONFIG.CHALLENGE_TTL * 1000,
+      attestation: "none",
+      authenticatorSelection: {
+        residentKey: "required",
+        userVerification: "preferred",
+      },
+      excludeCredentials: credentials.map((credential) =>
+        this.toDescriptor(credential)
+      ),
+    };
+  }
+
+  /**
+   * Verify kết quả navigator.credentials.create() và lưu passkey cho user
+   */
+  async register(
+    userId: string,
+    data: PasskeyDto.RegistrationSchema
+  ): Promise<PasskeyResponse.PasskeyData> {
+    const { response } = data.credential;
+    const clientData = this.parseClientData(response.clientDataJSON);
+
+    await this.consumeChallenge(clientData, "webauthn.create", {
+      purpose: "registration",
+      userId: String(userId),
+      sessionId: "",
+    });
+
+    const { authenticatorData, algorithm } = this.verifyAttestation(
+      response.attestationObject
+    );
+    const attested = authenticatorData.attestedCredential!;
+    const credentialId = attested.credentialId.toString("base64url");
+
+    if (credentialId !== data.credential.rawId) {
+      this.throwVerificationFailed();
+    }
+
+    if (
+      await this.credentialRepo.existsWhere({ credential_id: credentialId })
+    ) {
+      throw new AppError(
+        "auth.passkey.credential_exists",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.RESOURCE_CONFLICT
+      );
+    }
+
+    const credential = await this.credentialRepo.create(
+      {
+        user_id: userId,
+        credential_id: credentialId,
+        public_key: attested.publicKey.toString("base64url"),
+        algorithm,
+        sign_count: authenticatorData.signCount,
+        transports: response.transports ?? [],
+        aaguid: attested.aaguid,
+        name: data.name?.trim() || "Passkey",
+        backup_eligible: authenticatorData.flags.backupEligible,
+        backed_up: authenticatorData.flags.backedUp,
+        last_used_at: 0,
+      },
+      userId
+    );
+
+    await this.auditService.record({
+      eventType: AuthAuditEventType.PASSKEY_REGISTERED,
+      userId,
+      metadata: { passkey_id: credential.id, aaguid: attested.aaguid },
+    });
+
+    return this.toPasskeyData(credential);
+  }
+
+  /**
+   * Options cho navigator.credentials.get(). Không giới hạn allowCredentials để
+   * authenticator tự chọn passkey (discoverable), tránh lộ email nào có passkey
+   */
+  async createAuthenticationOptions(
+    deviceToken: string | undefined
+  ): Promise<PasskeyResponse.AuthenticationOptions> {
+    const session = await this.authService.requireLoginSession(deviceToken);
+
+    const challenge = await this.createChallenge({
+      purpose: "authentication",
+      userId: "",
+      sessionId: String(session.id),
+    });
+
+    return {
+      challenge,
+      rpId: WEBAUTHN_CONFIG.RP_ID,
+      timeout: WEBAUTHN_CONFIG.CHALLENGE_TTL * 1000,
+      userVerification: "preferred",
+      allowCredentials: [],
+    };
+  }
+
+  /**
+   * Verify kết quả navigator.credentials.get() và đăng nhập cho device token hiện tại.
+   * Sign count không tăng (trừ authenticator luôn trả về 0) hoặc đã bị request khác
+   * cập nhật trước được xem là passkey bị sao chép
+   */
+  async login(
+    data: PasskeyDto.AuthenticationSchema,
+    deviceToken: string | undefined,
+    ipAddress: string
+  ): Promise<AuthResponse.LoginResult> {
+    const session = await this.authService.requireLoginSession(deviceToken);
+    const { response } = data.credential;
+    const clientDataJSON = Buffer.from(response.clientDataJSON, "base64url");
+    const clientData = this.parseClientData(response.clientDataJSON);
+
+    await this.consumeChallenge(clientData, "webauthn.get", {
+      purpose: "authentication",
+      userId: "",
+      sessionId: String(session.id),
+    });
+
+    const credential = await this.credentialRepo.findOne({
+      credential_id: data.credential.rawId,
+    });
+
+    if (
+      !credential ||
+      (response.userHandle &&
+        response.userHandle !== this.getUserHandle(credential.user_id))
+    ) {
+      this.throwVerificationFailed(HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    const rawAuthenticatorData = Buffer.from(
+      response.authenticatorData,
+      "base64url"
+    );
+    const authenticatorData = this.verifyAuthenticatorData(
+      rawAuthenticatorData,
+      HTTP_STATUS.UNAUTHORIZED
+    );
+
+    const signedData = Buffer.concat([
+      rawAuthenticatorData,
+      createHash("sha256").update(clientDataJSON).digest(),
+    ]);
+
+    const isSignatureValid = this.guard(
+      () =>
+        verifySignature(
+          Buffer.from(credential.public_key, "base64url"),
+          signedData,
+          Buffer.from(response.signature, "base64url")
+        ),
+      HTTP_STATUS.UNAUTHORIZED
+    );
+
+    if (!isSignatureValid) {
+      this.throwVerificationFailed(HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    const storedSignCount = Number(credential.sign_count);
+    const rejectSignCount = async (): Promise<never> => {
+      await this.auditService.record({
+        eventType: AuthAuditEventType.PASSKEY_SIGN_COUNT_INVALID,
+        userId: credential.user_id,
+        deviceId: session.device_id,
+        ipAddress,
+        metadata: {
+          passkey_id: credential.id,
+          stored_sign_count: storedSignCount,
+          received_sign_count: authenticatorData.signCount,
+        },
+      });
+
+      throw new AppError(
+        "auth.passkey.sign_count_invalid",
+        HTTP_STATUS.UNAUTHORIZED,
+        ERROR_CODES.UNAUTHORIZED
+      );
+    };
+
+    if (
+      (authenticatorData.signCount > 0 || storedSignCount > 0) &&
+      authenticatorData.signCount <= storedSignCount
+    ) {
+      await rejectSignCount();
+    }
+
+    // Compare-and-swap trên sign_count đã đọc: hai assertion dùng cùng một sign count
+    // gửi đồng thời thì chỉ một request cập nhật được
+    const [updated] = await this.credentialRepo.updateWhere(
+      { id: credential.id, sign_count: storedSignCount },
+      {
+        sign_count: authenticatorData.signCount,
+        backed_up: authenticatorData.flags.backedUp,
+        last_used_at: getCurrentUnixTimestamp(),
+      },
+      credential.user_id
+    );
+
+    if (!updated) {
+      await rejectSignCount();
+    }
+
+    const user = await this.userRepo.findOne({
+      id: credential.user_id,
+      is_deleted: false,
+    });
+
+    if (!user) {
+      throw new AppError(
+        "auth.login.account_disabled",
+        HTTP_STATUS.FORBIDDEN,
+        ERROR_CODES.FORBIDDEN
+      );
+    }
+
+    return await this.authService.loginAsUser(
+      user,
+      deviceToken,
+      ipAddress,
+      authenticatorData.flags.userVerified
+    );
+  }
+
+  async list(userId: string): Promise<PasskeyResponse.PasskeyList> {
+    const credentials = await this.credentialRepo.findWhere(
+      { user_id: userId },
+      {
+        limit: WEBAUTHN_CONFIG.MAX_CREDENTIALS,
+        orderBy: "created_at",
+        orderDirection: "ASC",
+      }
+    );
+
+    return credentials.map((credential) => this.toPasskeyData(credential));
+  }
+
+  /**
+   * Xóa passkey. Không cho xóa phương thức đăng nhập cuối cùng
+   * của tài khoản chưa có mật khẩu
+   */
+  async remove(userId: string, passkeyId: string): Promise<void> {
+    const credential = await this.credentialRepo.findOne({
+      id: passkeyId,
+      user_id: userId,
+    });
+
+    if (!credential) {
+      throw new AppError(
+        "auth.passkey.not_found",
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND
+      );
+    }
+
+    const user = await this.userRepo.findOne({ id: userId, is_deleted: false });
+
+    if (
+      user?.metadata?.has_password === false &&
+      (await this.credentialRepo.count({ user_id: userId })) <= 1 &&
+      !(await this.identityRepo.existsWhere({ user_id: userId }))
+    ) {
+      throw new AppError(
+        "auth.passkey.last_login_method",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST
+      );
+    }
+
+    await this.credentialRepo.delete(BigInt(credential.id));
+
+    await this.auditService.record({
+      eventType: AuthAuditEventType.PASSKEY_REMOVED,
+      userId,
+      metadata: { passkey_id: credential.id },
+    });
+  }
+
+  private async createChallenge(state: WebAuthnChallenge): Promise<string> {
+    const challenge = randomBytes(32).toString("base64url");
+
+    await this.cache.set(
+      this.getChallengeKey(challenge),
+      state,
+      WEBAUTHN_CONFIG.CHALLENGE_TTL
+    );
+
+    return challenge;
+  }
+
+  /**
+   * Kiểm tra client data (type, origin) và dùng challenge (một lần),
+   * challenge phải được tạo cho đúng user / session đang verify
+   */
+  private async consumeChallenge(
+    clientData: ClientData,
+    type: "webauthn.create" | "webauthn.get",
+    expected: WebAuthnChallenge
+  ): Promise<void> {
+    if (
+      clientData.type !== type ||
+      clientData.crossOrigin === true ||
+      !WEBAUTHN_CONFIG.ORIGINS.includes(clientData.origin)
+    ) {
+      this.throwVerificationFailed();
+    }
+
+    const key = this.getChallengeKey(clientData.challenge);
+    const state = await this.cache.get<WebAuthnChallenge>(key);
+
+    if (
+      !state ||
+      state.purpose !== expected.purpose ||
+      state.userId !== expected.userId ||
+      state.sessionId !== expected.sessionId ||
+      !(await this.cache.del(key))
+    ) {
+      throw new AppError(
+        "auth.passkey.challenge_invalid",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  /**
+   * Attestation object phải có format "none", authenticator data chứa credential mới
+   * với public key thuộc thuật toán được hỗ trợ
+   */
+  private verifyAttestation(attestationObject: string): {
+    authenticatorData: AuthenticatorData;
+    algorithm: number;
+  } {
+    const { fmt, attStmt, authData } = this.guard(() =>
+      parseAttestationObject(Buffer.from(attestationObject, "base64url"))
+    );
+
+    if (fmt !== "none" || attStmt.size > 0) {
+      throw new AppError(
+        "auth.passkey.unsupported_attestation",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST
+      );
+    }
+
+    const authenticatorData = this.verifyAuthenticatorData(authData);
+
+    if (!authenticatorData.attestedCredential) {
+      this.throwVerificationFailed();
+    }
+
+    const { algorithm } = this.guard(() =>
+      coseToPublicKey(authenticatorData.attestedCredential!.publicKey)
+    );
+
+    return { authenticatorData, algorithm };
+  }
+
+  /**
+   * rpIdHash phải khớp RP_ID và user phải có mặt (UP)
+   */
+  private verifyAuthenticatorData(
+    data: Buffer,
+    status: number = HTTP_STATUS.BAD_REQUEST
+  ): AuthenticatorData {
+    const authenticatorData = this.guard(
+      () => parseAuthenticatorData(data),
+      status
+    );
+    const expectedRpIdHash = createHash("sha256")
+      .update(WEBAUTHN_CONFIG.RP_ID)
+      .digest();
+
+    if (
+      !authenticatorData.rpIdHash.equals(expectedRpIdHash) ||
+      !authenticatorData.flags.userPresent
+    ) {
+      this.throwVerificationFailed(status);
+    }
+
+    return authenticatorData;
+  }
+
+  private parseClientData(clientDataJSON: string): ClientData {
+    return this.guard(() =>
+      parseClientData(Buffer.from(clientDataJSON, "base64url"))
+    );
+  }
+
+  /**
+   * Chuyển lỗi parse dữ liệu WebAuthn thành lỗi verify thất bại
+   */
+  private guard<T>(fn: () => T, status: number = HTTP_STATUS.BAD_REQUEST): T {
+    try {
+      return fn();
+    } catch (error) {
+      if (!(error instanceof WebAuthnError)) throw error;
+
+      console.warn("Invalid WebAuthn response:", error.message);
+      this.throwVerificationFailed(status);
+    }
+  }
+
+  private throwVerificationFailed(
+    status: number = HTTP_STATUS.BAD_REQUEST
+  ): never {
+    throw new AppError(
+      "auth.passkey.verification_failed",
+      status,
+      status === HTTP_STATUS.UNAUTHORIZED
+        ? ERROR_CODES.UNAUTHORIZED
+        : ERROR_CODES.BAD_REQUEST
+    );
+  }
+
+  private toDescriptor(credential: WebAuthnCredentialModel) {
+    return {
+      type: "public-key" as const,
+      id: credential.credential_id,
+      transports: credential.transports ?? [],
+    };
+  }
+
+  private toPasskeyData(
+    credential: WebAuthnCredentialModel
+  ): PasskeyResponse.PasskeyData {
+    return {
+      id: String(credential.id),
+      name: credential.name,
+      transports: credential.transports ?? [],
+      backedUp: credential.backed_up,
+      createdAt: parseUnixToVietnamTime(
+        Number(credential.created_at),
+        "YYYY-MM-DD HH:mm:ss"
+      ),
+      lastUsedAt:
+        Number(credential.last_used_at) > 0
+          ? parseUnixToVietnamTime(
+              Number(credential.last_used_at),
+              "YYYY-MM-DD HH:mm:ss"
+            )
+          : null,
+    };
+  }
+}
@@ -0,0 +1,326 @@
+import { createPublicKey, KeyObject, verify } from "node:crypto";
+
+/**
+ * Các hàm WebAuthn thuần (CBOR, authenticator data, COSE key, chữ ký),
+ * không phụ thuộc DB hay Redis
+ */
+
+// COSE algorithm được hỗ trợ, theo thứ tự ưu tiên khi tạo passkey
+export const COSE_ALGORITHMS = {
+  ES256: -7,
+  EdDSA: -8,
+  RS256: -257,
+} as const;
+
+export const SUPPORTED_ALGORITHMS: number[] = Object.values(COSE_ALGORITHMS);
+
+export interface AuthenticatorFlags {
+  userPresent: boolean; // UP
+  userVerified: boolean; // UV
+  backupEligible: boolean; // BE
+  backedUp: boolean; // BS
+  attestedCredentialData: boolean; // AT
+  extensionData: boolean; // ED
+}
+
+export interface AttestedCredential {
+  aaguid: string;
+  credentialId: Buffer;
+  publicKey: Buffer; // COSE key (CBOR)
+}
+
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: AuthenticatorFlags;
+  signCount: number;
+  attestedCredential?: AttestedCredential;
+}
+
+export interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+}
+
+/**
+ * Lỗi dữ liệu WebAuthn không hợp lệ, service chuyển thành AppError
+ */
+export class WebAuthnError extends Error {}
+
+/**
+ * Decode một item CBOR (RFC 8949) bắt đầu tại offset, đủ cho attestation object
+ * và COSE key: số nguyên, byte/text string, array, map, bool, null.
+ * Map được trả về dạng Map vì COSE key dùng key là số
+ */
+export function decodeCbor(
+  buffer: Buffer,
+  offset: number = 0
+): { value: unknown; offset: number } {
+  if (offset >= buffer.length) throw new WebAuthnError("CBOR data truncated");
+
+  const initial = buffer[offset]!;
+  const majorType = initial >> 5;
+  const info = initial & 0x1f;
+  let position = offset + 1;
+
+  const readLength = (): number => {
+    if (info < 24) return info;
+
+    const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : 0;
+    if (!size || position + size > buffer.length) {
+      throw new WebAuthnError("Unsupported CBOR length");
+    }
+
+    const length = buffer.readUIntBE(position, size);
+    position += size;
+
+    return length;
+  };
+
+  switch (majorType) {
+    case 0:
+      return { value: readLength(), offset: position };
+    case 1:
+      return { value: -1 - readLength(), offset: position };
+    case 2:
+    case 3: {
+      const length = readLength();
+      if (position + length > buffer.length) {
+        throw new WebAuthnError("CBOR data truncated");
+      }
+
+      const bytes = buffer.subarray(position, position + length);
+
+      return {
+        value: majorType === 2 ? Buffer.from(bytes) : bytes.toString("utf8"),
+        offset: position + length,
+      };
+    }
+    case 4: {
+      const length = readLength();
+      const items: unknown[] = [];
+
+      for (let i = 0; i < length; i++) {
+        const item = decodeCbor(buffer, position);
+        items.push(item.value);
+        position = item.offset;
+      }
+
+      return { value: items, offset: position };
+    }
+    case 5: {
+      const length = readLength();
+      const map = new Map<unknown, unknown>();
+
+      for (let i = 0; i < length; i++) {
+        const key = decodeCbor(buffer, position);
+        const value = decodeCbor(buffer, key.offset);
+        map.set(key.value, value.value);
+        position = value.offset;
+      }
+
+      return { value: map, offset: position };
+    }
+    case 7:
+      if (info === 20) return { value: false, offset: position };
+      if (info === 21) return { value: true, offset: position };
+      if (info === 22) return { value: null, offset: position };
+  }
+
+  throw new WebAuthnError(`Unsupported CBOR item 0x${initial.toString(16)}`);
+}
+
+/**
+ * Parse authenticator data: rpIdHash (32) | flags (1) | signCount (4) | attested credential data
+ */
+export function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) {
+    throw new WebAuthnError("Authenticator data too short");
+  }
+
+  const flagsByte = data[32]!;
+  const flags: AuthenticatorFlags = {
+    userPresent: !!(flagsByte & 0x01),
+    userVerified: !!(flagsByte & 0x04),
+    backupEligible: !!(flagsByte & 0x08),
+    backedUp: !!(flagsByte & 0x10),
+    attestedCredentialData: !!(flagsByte & 0x40),
+    extensionData: !!(flagsByte & 0x80),
+  };
+
+  const result: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags,
+    signCount: data.readUInt32BE(33),
+  };
+
+  if (flags.attestedCredentialData) {
+    if (data.length < 55) {
+      throw new WebAuthnError("Attested credential data too short");
+    }
+
+    const aaguid = data.subarray(37, 53).toString("hex");
+    const credentialIdLength = data.readUInt16BE(53);
+    const credentialIdEnd = 55 + credentialIdLength;
+
+    if (credentialIdEnd > data.length) {
+      throw new WebAuthnError("Credential id truncated");
+    }
+
+    // COSE key nằm ngay sau credential id, phần còn lại (nếu có) là extensions
+    const { offset } = decodeCbor(data, credentialIdEnd);
+
+    result.attestedCredential = {
+      aaguid: [
+        aaguid.slice(0, 8),
+        aaguid.slice(8, 12),
+        aaguid.slice(12, 16),
+        aaguid.slice(16, 20),
+        aaguid.slice(20),
+      ].join("-"),
+      credentialId: Buffer.from(data.subarray(55, credentialIdEnd)),
+      publicKey: Buffer.from(data.subarray(credentialIdEnd, offset)),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Decode attestation object của bước đăng ký thành format, attStmt và authenticator data
+ */
+export function parseAttestationObject(attestationObject: Buffer): {
+  fmt: string;
+  attStmt: Map<unknown, unknown>;
+  authData: Buffer;
+} {
+  const { value } = decodeCbor(attestationObject);
+
+  if (!(value instanceof Map)) {
+    throw new WebAuthnError("Attestation object must be a map");
+  }
+
+  const fmt = value.get("fmt");
+  const attStmt = value.get("attStmt");
+  const authData = value.get("authData");
+
+  if (
+    typeof fmt !== "string" ||
+    !(attStmt instanceof Map) ||
+    !Buffer.isBuffer(authData)
+  ) {
+    throw new WebAuthnError("Malformed attestation object");
+  }
+
+  return { fmt, attStmt, authData };
+}
+
+export function parseClientData(clientDataJSON: Buffer): ClientData {
+  let clientData: Partial<ClientData>;
+
+  try {
+    clientData = JSON.parse(clientDataJSON.toString("utf8"));
+  } catch {
+    throw new WebAuthnError("Malformed client data");
+  }
+
+  if (
+    typeof clientData.type !== "string" ||
+    typeof clientData.challenge !== "string" ||
+    typeof clientData.origin !== "string"
+  ) {
+    throw new WebAuthnError("Malformed client data");
+  }
+
+  return clientData as ClientData;
+}
+
+/**
+ * Chuyển COSE key (RFC 9053) thành public key của node:crypto
+ */
+export function coseToPublicKey(coseKey: Buffer): {
+  algorithm: number;
+  key: KeyObject;
+} {
+  const { value } = decodeCbor(coseKey);
+
+  if (!(value instanceof Map)) {
+    throw new WebAuthnError("COSE key must be a map");
+  }
+
+  const kty = value.get(1);
+  const algorithm = value.get(3);
+  const bytes = (label: number): string => {
+    const item = value.get(label);
+    if (!Buffer.isBuffer(item)) {
+      throw new WebAuthnError("Malformed COSE key");
+    }
+
+    return item.toString("base64url");
+  };
+
+  if (
+    typeof algorithm !== "number" ||
+    !SUPPORTED_ALGORITHMS.includes(algorithm)
+  ) {
+    throw new WebAuthnError(`Unsupported COSE algorithm ${algorithm}`);
+  }
+
+  // EC2, curve P-256
+  if (kty === 2 && algorithm === COSE_ALGORITHMS.ES256 && value.get(-1) === 1) {
+    return {
+      algorithm,
+      key: createPublicKey({
+        key: { kty: "EC", crv: "P-256", x: bytes(-2), y: bytes(-3) },
+        format: "jwk",
+      }),
+    };
+  }
+
+  // OKP, curve Ed25519
+  if (kty === 1 && algorithm === COSE_ALGORITHMS.EdDSA && value.get(-1) === 6) {
+    return {
+      algorithm,
+      key: createPublicKey({
+        key: { kty: "OKP", crv: "Ed25519", x: bytes(-2) },
+        format: "jwk",
+      }),
+    };
+  }
+
+  // RSA
+  if (kty === 3 && algorithm === COSE_ALGORITHMS.RS256) {
+    return {
+      algorithm,
+      key: createPublicKey({
+        key: { kty: "RSA", n: bytes(-1), e: bytes(-2) },
+        format: "jwk",
+      }),
+    };
+  }
+
+  throw new WebAuthnError("Unsupported COSE key type");
+}
+
+/**
+ * Verify chữ ký assertion trên authenticatorData || SHA-256(clientDataJSON).
+ * Chữ ký ES256 của WebAuthn dùng định dạng DER
+ */
+export function verifySignature(
+  coseKey: Buffer,
+  data: Buffer,
+  signature: Buffer
+): boolean {
+  const { algorithm, key } = coseToPublicKey(coseKey);
+
+  try {
+    if (algorithm === COSE_ALGORITHMS.EdDSA) {
+      return verify(null, data, key, signature);
+    }
+
+    return verify("sha256", data, { key, dsaEncoding: "der" }, signature);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,149 @@
+import type { EditorContent, EditorContentChild } from "@repo/types";
+
+/**
+ * Validate và làm sạch nội dung rich-text (EditorContent), không phụ thuộc DB
+ */
+
+// Loại block được phép trong bio, true nếu block bắt buộc có url
+export const EDITOR_BLOCK_TYPES: Record<string, boolean> = {
+  paragraph: false,
+  heading: false,
+  quote: false,
+  link: true,
+};
+
+export interface EditorContentLimits {
+  maxBlocks: number;
+  maxTextLength: number; // Tổng số ký tự text của tất cả block
+}
+
+export type EditorContentErrorReason =
+  | "too_many_blocks"
+  | "too_long"
+  | "invalid_block"
+  | "invalid_url";
+
+/**
+ * Lỗi nội dung không hợp lệ, service chuyển thành AppError theo reason
+ */
+export class EditorContentError extends Error {
+  constructor(
+    public readonly reason: EditorContentErrorReason,
+    public readonly params?: Record<string, any>
+  ) {
+    super(reason);
+  }
+}
+
+// Ký tự điều khiển (trừ xuống dòng và tab) bị loại khỏi text
+const CONTROL_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g;
+const MAX_BLOCK_ID_LENGTH = 64;
+const MAX_URL_LENGTH = 2048;
+
+/**
+ * Chỉ chấp nhận URL tuyệt đối http(s) không chứa thông tin đăng nhập,
+ * chặn javascript:, data:... Trả về null nếu URL không an toàn
+ */
+export function sanitizeUrl(url: string): string | null {
+  if (url.length > MAX_URL_LENGTH) return null;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+  if (parsed.username || parsed.password) return null;
+
+  return parsed.toString();
+}
+
+function sanitizeChild(child: unknown): EditorContentChild {
+  if (!child || typeof child !== "object") {
+    throw new EditorContentError("invalid_block");
+  }
+
+  const { text, bold, italic } = child as Record<string, unknown>;
+
+  if (
+    typeof text !== "string" ||
+    (bold !== undefined && typeof bold !== "boolean") ||
+    (italic !== undefined && typeof italic !== "boolean")
+  ) {
+    throw new EditorContentError("invalid_block");
+  }
+
+  return {
+    text: text.replace(CONTROL_CHARS, ""),
+    ...(bold ? { bold: true } : {}),
+    ...(italic ? { italic: true } : {}),
+  };
+}
+
+function sanitizeBlock(block: unknown): EditorContent {
+  if (!block || typeof block !== "object") {
+    throw new EditorContentError("invalid_block");
+  }
+
+  const { id, type, url, children } = block as Record<string, unknown>;
+
+  if (
+    typeof id !== "string" ||
+    !id ||
+    id.length > MAX_BLOCK_ID_LENGTH ||
+    typeof type !== "string" ||
+    !(type in EDITOR_BLOCK_TYPES) ||
+    !Array.isArray(children)
+  ) {
+    throw new EditorContentError("invalid_block", { type });
+  }
+
+  const sanitized: EditorContent = {
+    id,
+    type,
+    children: children.map(sanitizeChild),
+  };
+
+  // Block không cần url bị bỏ url để không lưu link ẩn
+  if (EDITOR_BLOCK_TYPES[type]) {
+    const safeUrl = typeof url === "string" ? sanitizeUrl(url) : null;
+    if (!safeUrl) {
+      throw new EditorContentError("invalid_url");
+    }
+
+    sanitized.url = safeUrl;
+  }
+
+  return sanitized;
+}
+
+/**
+ * Kiểm tra cấu trúc, loại block, độ dài và URL, trả về bản sao chỉ gồm các field hợp lệ
+ */
+export function sanitizeEditorContent(
+  content: unknown,
+  limits: EditorContentLimits
+): EditorContent[] {
+  if (!Array.isArray(content)) {
+    throw new EditorContentError("invalid_block");
+  }
+
+  if (content.length > limits.maxBlocks) {
+    throw new EditorContentError("too_many_blocks", { max: limits.maxBlocks });
+  }
+
+  const blocks = content.map(sanitizeBlock);
+  const textLength = blocks.reduce(
+    (total, block) =>
+      total + block.children.reduce((sum, child) => sum + child.text.length, 0),
+    0
+  );
+
+  if (textLength > limits.maxTextLength) {
+    throw new EditorContentError("too_long", { max: limits.maxTextLength });
+  }
+
+  return blocks;
+}
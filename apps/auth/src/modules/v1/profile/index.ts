@@ -0,0 +1,92 @@
+import { AuthApiConfig } from "@repo/utils";
+import { Elysia } from "elysia";
+
+import { AuthService } from "../auth/auth.service";
+import { ProfileDto } from "./profile.dto";
+import { ProfileResponse } from "./profile.response";
+import { ProfileService } from "./profile.service";
+
+/**
+ * Profile của user hiện tại và profile công khai theo user_name
+ */
+export const profileController = new Elysia({
+  prefix: "/auth",
+})
+  .decorate("authService", new AuthService())
+  .decorate("profileService", new ProfileService())
+  .model({
+    "body.profile.update": ProfileDto.updateProfileSchema,
+    "body.profile.userName": ProfileDto.changeUserNameSchema,
+    "response.profile.profile": ProfileResponse.profileSchema,
+    "response.profile.publicProfile": ProfileResponse.publicProfileSchema,
+  })
+  .get(
+    AuthApiConfig.ROUTES["GET /profile"].path,
+    async ({ authService, profileService, headers }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await profileService.getProfile(payload.sub!);
+    },
+    {
+      response: "response.profile.profile",
+      detail: {
+        summary: "Get profile",
+        description: "Get the profile of the current account",
+        tags: ["Profile"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /profile/update"].path,
+    async ({ authService, profileService, headers, body }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await profileService.updateProfile(payload.sub!, body);
+    },
+    {
+      body: "body.profile.update",
+      response: "response.profile.profile",
+      detail: {
+        summary: "Update profile",
+        description:
+          "Update display name, images, gender, date of birth and the rich-text bio (validated and sanitized)",
+        tags: ["Profile"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /profile/user-name"].path,
+    async ({ authService, profileService, headers, body }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+
+      return await profileService.changeUserName(payload.sub!, body);
+    },
+    {
+      body: "body.profile.userName",
+      response: "response.profile.profile",
+      detail: {
+        summary: "Change username",
+        description:
+          "Change the username, limited by a cooldown. The old username stays reserved for the current account for a while",
+        tags: ["Profile"],
+      },
+    }
+  )
+  .get(
+    AuthApiConfig.ROUTES["GET /users/:user_name"].path,
+    async ({ profileService, params }) => {
+      return await profileService.getPublicProfile(params.user_name);
+    },
+    {
+      response: "response.profile.publicProfile",
+      detail: {
+        summary: "Get public profile",
+        description:
+          "Get the public profile by username. A reserved old username resolves to its current owner",
+        tags: ["Profile"],
+      },
+    }
+  );
@@ -0,0 +1,71 @@
+import { Gender } from "@repo/types";
+import { t } from "elysia";
+
+export namespace ProfileDto {
+  // Cấu trúc của EditorContent, loại block và URL được kiểm tra thêm ở service
+  export const editorContentSchema = t.Object({
+    id: t.String({
+      minLength: 1,
+      maxLength: 64,
+    }),
+    type: t.String({
+      minLength: 1,
+      maxLength: 32,
+    }),
+    url: t.Optional(
+      t.String({
+        maxLength: 2048,
+      })
+    ),
+    children: t.Array(
+      t.Object({
+        text: t.String(),
+        bold: t.Optional(t.Boolean()),
+        italic: t.Optional(t.Boolean()),
+      }),
+      {
+        maxItems: 100,
+      }
+    ),
+  });
+
+  export const updateProfileSchema = t.Object({
+    display_name: t.Optional(
+      t.String({
+        minLength: 1,
+        maxLength: 255,
+      })
+    ),
+    // Chuỗi rỗng để xóa ảnh
+    avatar_url: t.Optional(
+      t.String({
+        maxLength: 2048,
+      })
+    ),
+    cover_url: t.Optional(
+      t.String({
+        maxLength: 2048,
+      })
+    ),
+    bio: t.Optional(t.Array(editorContentSchema)),
+    gender: t.Optional(t.Enum(Gender)),
+    // Ngày sinh dạng unix time, 0 nếu không cung cấp
+    date_of_birth: t.Optional(
+      t.Integer({
+        minimum: 0,
+      })
+    ),
+  });
+
+  export type UpdateProfileSchema = typeof updateProfileSchema.static;
+
+  export const changeUserNameSchema = t.Object({
+    user_name: t.String({
+      minLength: 3,
+      maxLength: 255,
+      pattern: "^[a-zA-Z0-9_.]+$",
+    }),
+  });
+
+  export type ChangeUserNameSchema = typeof changeUserNameSchema.static;
+}
@@ -0,0 +1,43 @@
+import { t } from "elysia";
+
+export namespace ProfileResponse {
+  const editorContentSchema = t.Object({
+    id: t.String(),
+    type: t.String(),
+    url: t.Optional(t.String()),
+    children: t.Array(
+      t.Object({
+        text: t.String(),
+        bold: t.Optional(t.Boolean()),
+        italic: t.Optional(t.Boolean()),
+      })
+    ),
+  });
+
+  export const publicProfileSchema = t.Object({
+    id: t.Any({}),
+    user_name: t.String(),
+    display_name: t.String(),
+    avatar_url: t.String(),
+    cover_url: t.String(),
+    bio: t.Array(editorContentSchema),
+    gender: t.Number(),
+    created_at: t.String(),
+  });
+
+  export type PublicProfile = typeof publicProfileSchema.static;
+
+  // Profile của chính user, gồm thông tin riêng tư
+  export const profileSchema = t.Object({
+    ...publicProfileSchema.properties,
+    email: t.String(),
+    phone_number: t.String(),
+    date_of_birth: t.Number(),
+    is_email_verified: t.Boolean(),
+    is_phone_verified: t.Boolean(),
+    // Thời điểm sớm nhất được đổi user_name tiếp, rỗng nếu đổi được ngay
+    user_name_changeable_at: t.String(),
+  });
+
+  export type Profile = typeof profileSchema.static;
+}
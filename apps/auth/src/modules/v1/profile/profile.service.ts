@@ -0,0 +1,276 @@
+import { AppError } from "@repo/elysia-common";
+import {
+  ERROR_CODES,
+  getCurrentUnixTimestamp,
+  HTTP_STATUS,
+  parseUnixToVietnamTime,
+} from "@repo/utils";
+import { PROFILE_CONFIG } from "../../../configs";
+import {
+  userNameReservationRepository,
+  userRepository,
+} from "../../../database";
+import { UserModel } from "../../../database/models/user.model";
+import {
+  EditorContentError,
+  sanitizeEditorContent,
+  sanitizeUrl,
+} from "./editor-content";
+import { ProfileDto } from "./profile.dto";
+import { ProfileResponse } from "./profile.response";
+
+/**
+ * Service xem/cập nhật profile và đổi user_name
+ */
+export class ProfileService {
+  constructor(
+    private readonly userRepo = userRepository,
+    private readonly reservationRepo = userNameReservationRepository
+  ) {}
+
+  async getProfile(userId: string | number): Promise<ProfileResponse.Profile> {
+    const user = await this.requireUser(userId);
+
+    return await this.toProfile(user);
+  }
+
+  /**
+   * Cập nhật các field được gửi lên, bio và URL ảnh được validate và làm sạch trước khi lưu
+   */
+  async updateProfile(
+    userId: string | number,
+    data: ProfileDto.UpdateProfileSchema
+  ): Promise<ProfileResponse.Profile> {
+    await this.requireUser(userId);
+
+    const changes: Partial<UserModel> = {};
+
+    if (data.display_name !== undefined) {
+      changes.display_name = data.display_name.trim();
+    }
+    if (data.avatar_url !== undefined) {
+      changes.avatar_url = this.sanitizeImageUrl(data.avatar_url);
+    }
+    if (data.cover_url !== undefined) {
+      changes.cover_url = this.sanitizeImageUrl(data.cover_url);
+    }
+    if (data.bio !== undefined) {
+      changes.bio = this.sanitizeBio(data.bio);
+    }
+    if (data.gender !== undefined) {
+      changes.gender = data.gender;
+    }
+    if (data.date_of_birth !== undefined) {
+      changes.date_of_birth = String(data.date_of_birth);
+    }
+
+    const user = await this.userRepo.update(
+      BigInt(userId),
+      changes,
+      BigInt(userId)
+    );
+
+    return await this.toProfile(user!);
+  }
+
+  /**
+   * Đổi user_name: giới hạn theo cooldown, user_name cũ được giữ lại cho chủ cũ
+   * trong PROFILE_CONFIG.USER_NAME_RESERVATION_TTL
+   */
+  async changeUserName(
+    userId: string | number,
+    data: ProfileDto.ChangeUserNameSchema
+  ): Promise<ProfileResponse.Profile> {
+    const user = await this.requireUser(userId);
+    const userName = data.user_name.trim().toLowerCase();
+
+    if (userName === user.user_name.toLowerCase()) {
+      throw new AppError(
+        "auth.profile.user_name_unchanged",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.BAD_REQUEST
+      );
+    }
+
+    const changeableAt = await this.getUserNameChangeableAt(userId);
+    if (changeableAt > getCurrentUnixTimestamp()) {
+      throw new AppError(
+        "auth.profile.user_name_cooldown",
+        HTTP_STATUS.TOO_MANY_REQUESTS,
+        ERROR_CODES.RATE_LIMITED,
+        { date: parseUnixToVietnamTime(changeableAt, "YYYY-MM-DD HH:mm:ss") }
+      );
+    }
+
+    const [owner, reservation] = await Promise.all([
+      this.userRepo.findByUserName(userName),
+      this.reservationRepo.findActive(userName),
+    ]);
+
+    if (owner) {
+      throw new AppError(
+        "auth.register.username_exists",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.DUPLICATE_RESOURCE
+      );
+    }
+
+    if (reservation && String(reservation.user_id) !== String(userId)) {
+      throw new AppError(
+        "auth.profile.user_name_reserved",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.DUPLICATE_RESOURCE
+      );
+    }
+
+    const updated = await this.userRepo.transaction(async (tx, repo) => {
+      // Chủ cũ lấy lại user_name thì reservation đó không còn cần nữa
+      if (reservation) {
+        await this.reservationRepo.deleteWhere({ id: reservation.id }, tx);
+      }
+
+      await this.reservationRepo.create(
+        {
+          user_name: user.user_name,
+          user_id: userId,
+          expires_at:
+            getCurrentUnixTimestamp() +
+            PROFILE_CONFIG.USER_NAME_RESERVATION_TTL,
+        },
+        userId,
+        tx
+      );
+
+      return await repo.update(
+        BigInt(userId),
+        { user_name: userName },
+        BigInt(userId),
+        tx
+      );
+    });
+
+    return await this.toProfile(updated!);
+  }
+
+  /**
+   * Profile công khai theo user_name. User_name cũ còn được giữ trỏ về chủ cũ
+   * để link cũ vẫn hoạt động (client so sánh user_name để redirect)
+   */
+  async getPublicProfile(
+    userName: string
+  ): Promise<ProfileResponse.PublicProfile> {
+    let user = await this.userRepo.findByUserName(userName);
+
+    if (!user) {
+      const reservation = await this.reservationRepo.findActive(userName);
+      user = reservation
+        ? await this.userRepo.findById(BigInt(reservation.user_id))
+        : null;
+    }
+
+    if (!user || user.is_deleted || !user.is_active) {
+      throw new AppError(
+        "auth.profile.not_found",
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND
+      );
+    }
+
+    return this.toPublicProfile(user);
+  }
+
+  private async requireUser(userId: string | number): Promise<UserModel> {
+    const user = await this.userRepo.findById(BigInt(userId));
+
+    if (!user || user.is_deleted) {
+      throw new AppError(
+        "auth.profile.not_found",
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND
+      );
+    }
+
+    return user;
+  }
+
+  /**
+   * Lần đổi user_name gần nhất là lúc tạo reservation mới nhất của user
+   */
+  private async getUserNameChangeableAt(
+    userId: string | number
+  ): Promise<number> {
+    const latest = await this.reservationRepo.findLatestByUser(userId);
+
+    return latest
+      ? Number(latest.created_at) + PROFILE_CONFIG.USER_NAME_CHANGE_COOLDOWN
+      : 0;
+  }
+
+  private sanitizeBio(bio: unknown): UserModel["bio"] {
+    try {
+      return sanitizeEditorContent(bio, {
+        maxBlocks: PROFILE_CONFIG.BIO_MAX_BLOCKS,
+        maxTextLength: PROFILE_CONFIG.BIO_MAX_TEXT_LENGTH,
+      });
+    } catch (error) {
+      if (error instanceof EditorContentError) {
+        throw new AppError(
+          `auth.profile.bio_${error.reason}`,
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_CODES.VALIDATION_ERROR,
+          error.params
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  private sanitizeImageUrl(url: string): string {
+    if (!url.trim()) return "";
+
+    const safeUrl = sanitizeUrl(url);
+    if (!safeUrl) {
+      throw new AppError(
+        "auth.profile.url_invalid",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR
+      );
+    }
+
+    return safeUrl;
+  }
+
+  private toPublicProfile(user: UserModel): ProfileResponse.PublicProfile {
+    return {
+      id: Number(user.id),
+      user_name: user.user_name,
+      display_name: user.display_name,
+      avatar_url: user.avatar_url,
+      cover_url: user.cover_url,
+      bio: Array.isArray(user.bio) ? user.bio : [],
+      gender: Number(user.gender),
+      created_at: parseUnixToVietnamTime(
+        Number(user.created_at),
+        "YYYY-MM-DD HH:mm:ss"
+      ),
+    };
+  }
+
+  private async toProfile(user: UserModel): Promise<ProfileResponse.Profile> {
+    const changeableAt = await this.getUserNameChangeableAt(user.id);
+
+    return {
+      ...this.toPublicProfile(user),
+      email: user.email,
+      phone_number: user.phone_number,
+      date_of_birth: Number(user.date_of_birth),
+      is_email_verified: user.is_email_verified,
+      is_phone_verified: user.is_phone_verified,
+      user_name_changeable_at:
+        changeableAt > getCurrentUnixTimestamp()
+          ? parseUnixToVietnamTime(changeableAt, "YYYY-MM-DD HH:mm:ss")
+          : "",
+    };
+  }
+}
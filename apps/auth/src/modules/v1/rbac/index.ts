@@ -0,0 +1,227 @@
+import { AuthApiConfig } from "@repo/utils";
+import { Elysia } from "elysia";
+
+import { AuthService } from "../auth/auth.service";
+import { RbacDto } from "./rbac.dto";
+import { RbacResponse } from "./rbac.response";
+import { RbacService } from "./rbac.service";
+
+/**
+ * Admin API quản lý role/permission, yêu cầu permission rbac:manage
+ */
+export const rbacController = new Elysia({
+  prefix: "/auth",
+})
+  .decorate("authService", new AuthService())
+  .decorate("rbacService", new RbacService())
+  .model({
+    "body.rbac.createRole": RbacDto.createRoleSchema,
+    "body.rbac.updateRole": RbacDto.updateRoleSchema,
+    "body.rbac.rolePermissions": RbacDto.rolePermissionsSchema,
+    "body.rbac.createPermission": RbacDto.createPermissionSchema,
+    "body.rbac.userRoles": RbacDto.userRolesSchema,
+    "response.rbac.role": RbacResponse.roleSchema,
+    "response.rbac.roleList": RbacResponse.roleListSchema,
+    "response.rbac.permission": RbacResponse.permissionSchema,
+    "response.rbac.permissionList": RbacResponse.permissionListSchema,
+    "response.rbac.userAccess": RbacResponse.userAccessSchema,
+    "response.rbac.deleteResult": RbacResponse.deleteResultSchema,
+  })
+  .get(
+    AuthApiConfig.ROUTES["GET /admin/roles"].path,
+    async ({ authService, rbacService, headers }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+      rbacService.assertPermission(payload);
+
+      return await rbacService.listRoles();
+    },
+    {
+      response: "response.rbac.roleList",
+      detail: {
+        summary: "List roles",
+        description: "List all roles with their directly assigned permissions",
+        tags: ["RBAC"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /admin/roles"].path,
+    async ({ authService, rbacService, headers, body }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+      rbacService.assertPermission(payload);
+
+      return await rbacService.createRole(body, payload.sub!);
+    },
+    {
+      body: "body.rbac.createRole",
+      response: "response.rbac.role",
+      detail: {
+        summary: "Create role",
+        description: "Create a role, optionally inheriting from a parent role",
+        tags: ["RBAC"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /admin/roles/:id/update"].path,
+    async ({ authService, rbacService, headers, params, body }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+      rbacService.assertPermission(payload);
+
+      return await rbacService.updateRole(params.id, body, payload.sub!);
+    },
+    {
+      body: "body.rbac.updateRole",
+      response: "response.rbac.role",
+      detail: {
+        summary: "Update role",
+        description: "Update role description or parent role",
+        tags: ["RBAC"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /admin/roles/:id/delete"].path,
+    async ({ authService, rbacService, headers, params }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+      rbacService.assertPermission(payload);
+
+      await rbacService.deleteRole(params.id, payload.sub!);
+
+      return { success: true };
+    },
+    {
+      response: "response.rbac.deleteResult",
+      detail: {
+        summary: "Delete role",
+        description: "Delete a non-system role and its assignments",
+        tags: ["RBAC"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /admin/roles/:id/permissions"].path,
+    async ({ authService, rbacService, headers, params, body }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+      rbacService.assertPermission(payload);
+
+      return await rbacService.setRolePermissions(
+        params.id,
+        body.permissions,
+        payload.sub!
+      );
+    },
+    {
+      body: "body.rbac.rolePermissions",
+      response: "response.rbac.role",
+      detail: {
+        summary: "Set role permissions",
+        description: "Replace the permissions directly assigned to a role",
+        tags: ["RBAC"],
+      },
+    }
+  )
+  .get(
+    AuthApiConfig.ROUTES["GET /admin/permissions"].path,
+    async ({ authService, rbacService, headers }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+      rbacService.assertPermission(payload);
+
+      return await rbacService.listPermissions();
+    },
+    {
+      response: "response.rbac.permissionList",
+      detail: {
+        summary: "List permissions",
+        description: "List all permissions",
+        tags: ["RBAC"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /admin/permissions"].path,
+    async ({ authService, rbacService, headers, body }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+      rbacService.assertPermission(payload);
+
+      return await rbacService.createPermission(body, payload.sub!);
+    },
+    {
+      body: "body.rbac.createPermission",
+      response: "response.rbac.permission",
+      detail: {
+        summary: "Create permission",
+        description: "Create a permission in resource:action format",
+        tags: ["RBAC"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /admin/permissions/:id/delete"].path,
+    async ({ authService, rbacService, headers, params }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+      rbacService.assertPermission(payload);
+
+      await rbacService.deletePermission(params.id, payload.sub!);
+
+      return { success: true };
+    },
+    {
+      response: "response.rbac.deleteResult",
+      detail: {
+        summary: "Delete permission",
+        description: "Delete a non-system permission and remove it from roles",
+        tags: ["RBAC"],
+      },
+    }
+  )
+  .get(
+    AuthApiConfig.ROUTES["GET /admin/users/:id/roles"].path,
+    async ({ authService, rbacService, headers, params }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+      rbacService.assertPermission(payload);
+
+      return await rbacService.getUserAccess(params.id);
+    },
+    {
+      response: "response.rbac.userAccess",
+      detail: {
+        summary: "Get user roles",
+        description: "Get assigned roles and effective permissions of a user",
+        tags: ["RBAC"],
+      },
+    }
+  )
+  .post(
+    AuthApiConfig.ROUTES["POST /admin/users/:id/roles"].path,
+    async ({ authService, rbacService, headers, params, body }) => {
+      const accessToken = headers.authorization?.replace("Bearer ", "");
+      const payload = await authService.authenticate(accessToken);
+      rbacService.assertPermission(payload);
+
+      return await rbacService.setUserRoles(
+        params.id,
+        body.roles,
+        payload.sub!
+      );
+    },
+    {
+      body: "body.rbac.userRoles",
+      response: "response.rbac.userAccess",
+      detail: {
+        summary: "Set user roles",
+        description:
+          "Replace the roles assigned to a user and update active sessions",
+        tags: ["RBAC"],
+      },
+    }
+  );
@@ -0,0 +1,64 @@
+import { t } from "elysia";
+
+export namespace RbacDto {
+  // Role name dạng UPPER_CASE_WITH_UNDERSCORE
+  export const createRoleSchema = t.Object({
+    name: t.String({
+      minLength: 2,
+      maxLength: 100,
+      pattern: "^[A-Z][A-Z0-9_]*$",
+    }),
+    description: t.Optional(
+      t.String({
+        maxLength: 255,
+      })
+    ),
+    parentId: t.Optional(t.Union([t.String(), t.Null()])),
+  });
+
+  export type CreateRoleSchema = typeof createRoleSchema.static;
+
+  // parentId = null để bỏ kế thừa
+  export const updateRoleSchema = t.Object({
+    description: t.Optional(
+      t.String({
+        maxLength: 255,
+      })
+    ),
+    parentId: t.Optional(t.Union([t.String(), t.Null()])),
+  });
+
+  export type UpdateRoleSchema = typeof updateRoleSchema.static;
+
+  export const rolePermissionsSchema = t.Object({
+    permissions: t.Array(t.String(), {
+      maxItems: 500,
+    }),
+  });
+
+  export type RolePermissionsSchema = typeof rolePermissionsSchema.static;
+
+  // Permission name dạng resource:action
+  export const createPermissionSchema = t.Object({
+    name: t.String({
+      minLength: 3,
+      maxLength: 255,
+      pattern: "^[a-z][a-z0-9_-]*:[a-z][a-z0-9_-]*$",
+    }),
+    description: t.Optional(
+      t.String({
+        maxLength: 255,
+      })
+    ),
+  });
+
+  export type CreatePermissionSchema = typeof createPermissionSchema.static;
+
+  export const userRolesSchema = t.Object({
+    roles: t.Array(t.String(), {
+      maxItems: 50,
+    }),
+  });
+
+  export type UserRolesSchema = typeof userRolesSchema.static;
+}
@@ -0,0 +1,46 @@
+import { t } from "elysia";
+
+export namespace RbacResponse {
+  export const roleSchema = t.Object({
+    id: t.String(),
+    name: t.String(),
+    description: t.String(),
+    isSystem: t.Boolean(),
+    parentId: t.Union([t.String(), t.Null()]),
+    permissions: t.Array(t.String()), // Chỉ các permission gán trực tiếp, không gồm kế thừa
+  });
+
+  export type RoleData = typeof roleSchema.static;
+
+  export const roleListSchema = t.Array(roleSchema);
+
+  export type RoleList = typeof roleListSchema.static;
+
+  export const permissionSchema = t.Object({
+    id: t.String(),
+    name: t.String(),
+    description: t.String(),
+    isSystem: t.Boolean(),
+  });
+
+  export type PermissionData = typeof permissionSchema.static;
+
+  export const permissionListSchema = t.Array(permissionSchema);
+
+  export type PermissionList = typeof permissionListSchema.static;
+
+  export const userAccessSchema = t.Object({
+    userId: t.String(),
+    assignedRoles: t.Array(t.String()),
+    roles: t.Array(t.String()), // Gồm cả role kế thừa
+    permissions: t.Array(t.String()),
+  });
+
+  export type UserAccessData = typeof userAccessSchema.static;
+
+  export const deleteResultSchema = t.Object({
+    success: t.Boolean(),
+  });
+
+  export type DeleteResultData = typeof deleteResultSchema.static;
+}
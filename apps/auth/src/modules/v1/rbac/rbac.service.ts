@@ -0,0 +1,820 @@
+import { AppError } from "@repo/elysia-common";
+import { ERROR_CODES, HTTP_STATUS } from "@repo/utils";
+import { RBAC_CONFIG } from "../../../configs";
+import {
+  permissionRepository,
+  rolePermissionRepository,
+  roleRepository,
+  sessionRepository,
+  userRepository,
+  userRoleRepository,
+} from "../../../database";
+import { PermissionModel } from "../../../database/models/permission.model";
+import { RoleModel } from "../../../database/models/role.model";
+import { cacheManager, redisClient } from "../../../redis";
+import { SessionService } from "../auth/session.service";
+import { RbacDto } from "./rbac.dto";
+import { RbacResponse } from "./rbac.response";
+
+/**
+ * Roles và permissions được nhúng vào token
+ */
+export interface AccessClaims {
+  roles: string[];
+  permissions: string[];
+  // Phiên bản RBAC của user tại thời điểm tính claims (không có với guest)
+  version?: number;
+}
+
+interface RoleGraphNode {
+  id: string;
+  name: string;
+  parentId: string | null;
+  permissions: string[]; // Permission gán trực tiếp cho role
+}
+
+// Role graph theo role id, đủ để tính quyền mà không cần query DB
+type RoleGraph = Record<string, RoleGraphNode>;
+
+// Bảng RBAC nhỏ nên được load toàn bộ
+const MAX_RBAC_ROWS = 10000;
+const ROLE_GRAPH_KEY = "rbac:graph";
+
+// Actor của các bản ghi do hệ thống tạo khi khởi động
+const SYSTEM_ACTOR_ID = 0;
+
+interface SystemRoleDefinition {
+  name: string;
+  parent: string | null;
+  description: string;
+  permissions: string[];
+}
+
+const SYSTEM_PERMISSIONS = [
+  {
+    name: RBAC_CONFIG.MANAGE_PERMISSION,
+    description: "Manage roles, permissions and user roles",
+  },
+  {
+    name: RBAC_CONFIG.AUDIT_PERMISSION,
+    description: "Search and verify the security audit log",
+  },
+];
+
+// Role cha đứng trước role con: SUPER_ADMIN -> ADMIN -> MODERATOR -> USER
+const SYSTEM_ROLES: SystemRoleDefinition[] = [
+  {
+    name: RBAC_CONFIG.GUEST_ROLE,
+    parent: null,
+    description: "Unauthenticated device",
+    permissions: [],
+  },
+  {
+    name: RBAC_CONFIG.DEFAULT_USER_ROLE,
+    parent: null,
+    description: "Regular user",
+    permissions: [],
+  },
+  {
+    name: "MODERATOR",
+    parent: RBAC_CONFIG.DEFAULT_USER_ROLE,
+    description: "Content moderator",
+    permissions: [],
+  },
+  {
+    name: "ADMIN",
+    parent: "MODERATOR",
+    description: "Organization administrator",
+    permissions: [RBAC_CONFIG.AUDIT_PERMISSION],
+  },
+  {
+    name: RBAC_CONFIG.SUPER_ADMIN_ROLE,
+    parent: "ADMIN",
+    description: "System super administrator",
+    permissions: [RBAC_CONFIG.MANAGE_PERMISSION],
+  },
+];
+
+/**
+ * Service quản lý role/permission (RBAC) và tính claims cho token.
+ * Role kế thừa toàn bộ permission của role cha (parent_id)
+ */
+export class RbacService {
+  constructor(
+    private readonly roleRepo = roleRepository,
+    private readonly permissionRepo = permissionRepository,
+    private readonly rolePermissionRepo = rolePermissionRepository,
+    private readonly userRoleRepo = userRoleRepository,
+    private readonly userRepo = userRepository,
+    private readonly sessionRepo = sessionRepository,
+    private readonly sessionService = new SessionService(),
+    private readonly cache = cacheManager,
+    private readonly redis = redisClient
+  ) {}
+
+  private getVersionKey(userId: string | number): string {
+    return `auth:rbac:version:${userId}`;
+  }
+
+  /**
+   * Phiên bản RBAC hiện tại của user, tăng mỗi khi quyền của user thay đổi
+   */
+  async getClaimsVersion(userId: string | number): Promise<number> {
+    return Number((await this.redis.get(this.getVersionKey(userId))) ?? 0);
+  }
+
+  /**
+   * Tính roles (gồm role kế thừa) và permissions hiện tại của user.
+   * User chưa được gán role nhận role mặc định
+   */
+  async resolveUserAccess(userId: string | number): Promise<AccessClaims> {
+    // Đọc version trước quyền: thay đổi xảy ra giữa hai bước chỉ làm token bị coi là cũ
+    const version = await this.getClaimsVersion(userId);
+    const graph = await this.loadGraph();
+    const assignments = await this.userRoleRepo.findWhere(
+      { user_id: userId },
+      { limit: 100 }
+    );
+
+    const roleIds =
+      assignments.length > 0
+        ? assignments.map((assignment) => String(assignment.role_id))
+        : this.findRoleIds(graph, [RBAC_CONFIG.DEFAULT_USER_ROLE]);
+
+    return { ...this.expand(graph, roleIds), version };
+  }
+
+  /**
+   * Tính claims cho danh sách role name (VD: guest device không gắn với user)
+   */
+  async resolveRoleAccess(roleNames: string[]): Promise<AccessClaims> {
+    const graph = await this.loadGraph();
+
+    return this.expand(graph, this.findRoleIds(graph, roleNames));
+  }
+
+  /**
+   * Tạo role, permission hệ thống còn thiếu và gán SUPER_ADMIN cho
+   * RBAC_BOOTSTRAP_ADMIN_EMAIL, chạy mỗi lần service khởi động
+   */
+  async seed(): Promise<void> {
+    await this.seedSystemRoles();
+
+    if (RBAC_CONFIG.BOOTSTRAP_ADMIN_EMAIL) {
+      await this.bootstrapAdmin(RBAC_CONFIG.BOOTSTRAP_ADMIN_EMAIL);
+    }
+  }
+
+  /**
+   * Tạo role và permission hệ thống chưa có (không sửa bản ghi đã tồn tại)
+   */
+  async seedSystemRoles(): Promise<void> {
+    await this.roleRepo.transaction(async (tx, roleRepo) => {
+      const permissionIds = new Map<string, string | number>();
+      for (const definition of SYSTEM_PERMISSIONS) {
+        const permission =
+          (await this.permissionRepo.findOne({ name: definition.name })) ??
+          (await this.permissionRepo.create(
+            { ...definition, is_system: true },
+            SYSTEM_ACTOR_ID,
+            tx
+          ));
+
+        permissionIds.set(permission.name, permission.id);
+      }
+
+      const roleIds = new Map<string, string | number>();
+      for (const definition of SYSTEM_ROLES) {
+        let role = await roleRepo.findOne({ name: definition.name });
+
+        if (!role) {
+          role = await roleRepo.create(
+            {
+              name: definition.name,
+              parent_id: definition.parent
+                ? (roleIds.get(definition.parent) ?? 0)
+                : 0,
+              is_system: true,
+              description: definition.description,
+            },
+            SYSTEM_ACTOR_ID,
+            tx
+          );
+
+          if (definition.permissions.length > 0) {
+            await this.rolePermissionRepo.createMany(
+              definition.permissions.map((name) => ({
+                role_id: role!.id,
+                permission_id: permissionIds.get(name)!,
+              })),
+              SYSTEM_ACTOR_ID,
+              tx
+            );
+          }
+        }
+
+        roleIds.set(definition.name, role.id);
+      }
+    });
+
+    await this.invalidateGraph();
+  }
+
+  /**
+   * Gán SUPER_ADMIN cho user có email này nếu chưa có user nào giữ role,
+   * để hệ thống mới có tài khoản đầu tiên dùng được admin API
+   * @returns true nếu đã gán role
+   */
+  async bootstrapAdmin(email: string): Promise<boolean> {
+    const role = await this.roleRepo.findOne({
+      name: RBAC_CONFIG.SUPER_ADMIN_ROLE,
+    });
+    if (!role || (await this.userRoleRepo.existsWhere({ role_id: role.id }))) {
+      return false;
+    }
+
+    const user = await this.userRepo.findOne({
+      email: email.trim().toLowerCase(),
+      is_deleted: false,
+    });
+    if (!user) return false;
+
+    await this.userRoleRepo.create(
+      { user_id: user.id, role_id: role.id },
+      SYSTEM_ACTOR_ID
+    );
+    await this.propagate([String(user.id)], SYSTEM_ACTOR_ID);
+
+    return true;
+  }
+
+  /**
+   * Gán role mặc định cho user mới đăng ký
+   */
+  async assignDefaultRole(userId: string | number): Promise<void> {
+    const role = await this.roleRepo.findOne({
+      name: RBAC_CONFIG.DEFAULT_USER_ROLE,
+    });
+    if (!role) return;
+
+    await this.userRoleRepo.create(
+      { user_id: userId, role_id: role.id },
+      userId
+    );
+  }
+
+  /**
+   * Throw 403 nếu claims không có permission yêu cầu
+   */
+  assertPermission(
+    claims: { permissions?: string[] },
+    permission: string = RBAC_CONFIG.MANAGE_PERMISSION
+  ): void {
+    if (!claims.permissions?.includes(permission)) {
+      throw new AppError(
+        "auth.rbac.permission_denied",
+        HTTP_STATUS.FORBIDDEN,
+        ERROR_CODES.FORBIDDEN
+      );
+    }
+  }
+
+  /**
+   * Token mang rbac_version cũ hơn phiên bản hiện tại của user phải refresh để nhận claims mới
+   */
+  async isClaimsStale(
+    userId: string | number,
+    tokenVersion: number | undefined
+  ): Promise<boolean> {
+    return (await this.getClaimsVersion(userId)) > (tokenVersion ?? 0);
+  }
+
+  async listRoles(): Promise<RbacResponse.RoleList> {
+    const [roles, graph] = await Promise.all([
+      this.roleRepo.findWhere(
+        {},
+        { limit: MAX_RBAC_ROWS, orderBy: "id", orderDirection: "ASC" }
+      ),
+      this.loadGraph(),
+    ]);
+
+    return roles.map((role) => this.toRoleData(role, graph));
+  }
+
+  async createRole(
+    data: RbacDto.CreateRoleSchema,
+    actorId: string | number
+  ): Promise<RbacResponse.RoleData> {
+    if (await this.roleRepo.existsWhere({ name: data.name })) {
+      throw new AppError(
+        "auth.rbac.role_exists",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.DUPLICATE_RESOURCE
+      );
+    }
+
+    const parent = data.parentId ? await this.requireRole(data.parentId) : null;
+
+    const role = await this.roleRepo.create(
+      {
+        name: data.name,
+        parent_id: parent?.id ?? 0,
+        is_system: false,
+        description: data.description ?? "",
+      },
+      actorId
+    );
+
+    await this.invalidateGraph();
+
+    return this.toRoleData(role, await this.loadGraph());
+  }
+
+  /**
+   * Cập nhật mô tả hoặc role cha, đổi role cha sẽ cập nhật quyền của các user liên quan
+   */
+  async updateRole(
+    roleId: string,
+    data: RbacDto.UpdateRoleSchema,
+    actorId: string | number
+  ): Promise<RbacResponse.RoleData> {
+    const role = await this.requireRole(roleId);
+    const graph = await this.loadGraph();
+    const changes: Partial<RoleModel> = {};
+
+    if (data.description !== undefined) {
+      changes.description = data.description;
+    }
+
+    if (data.parentId !== undefined) {
+      const parentId = data.parentId ? String(data.parentId) : null;
+
+      // Không cho phép vòng kế thừa
+      if (parentId && this.findDescendants(graph, role.id).has(parentId)) {
+        throw new AppError(
+          "auth.rbac.invalid_parent",
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_CODES.VALIDATION_ERROR
+        );
+      }
+
+      changes.parent_id = parentId ? (await this.requireRole(parentId)).id : 0;
+    }
+
+    const updated = await this.roleRepo.update(
+      BigInt(role.id),
+      changes,
+      BigInt(actorId)
+    );
+
+    await this.invalidateGraph();
+
+    if (
+      String(changes.parent_id ?? role.parent_id) !== String(role.parent_id)
+    ) {
+      await this.propagate(
+        await this.findUsersOfRoles([...this.findDescendants(graph, role.id)]),
+        actorId
+      );
+    }
+
+    return this.toRoleData(updated ?? role, await this.loadGraph());
+  }
+
+  /**
+   * Xóa role không phải system role, role con được chuyển lên kế thừa role cha của role bị xóa
+   */
+  async deleteRole(roleId: string, actorId: string | number): Promise<void> {
+    const role = await this.requireRole(roleId);
+    this.assertNotSystem(role);
+
+    const graph = await this.loadGraph();
+    const userIds = await this.findUsersOfRoles([
+      ...this.findDescendants(graph, role.id),
+    ]);
+
+    await this.roleRepo.transaction(async (tx, roleRepo) => {
+      await roleRepo.updateWhere(
+        { parent_id: role.id },
+        { parent_id: role.parent_id },
+        actorId,
+        tx
+      );
+      await this.rolePermissionRepo.deleteWhere({ role_id: role.id }, tx);
+      await this.userRoleRepo.deleteWhere({ role_id: role.id }, tx);
+      await roleRepo.delete(BigInt(role.id), tx);
+    });
+
+    await this.invalidateGraph();
+    await this.propagate(userIds, actorId);
+  }
+
+  /**
+   * Thay toàn bộ permission gán trực tiếp cho role. Permission của system role
+   * không đổi được để không thể mất quyền rbac:manage
+   */
+  async setRolePermissions(
+    roleId: string,
+    permissionNames: string[],
+    actorId: string | number
+  ): Promise<RbacResponse.RoleData> {
+    const role = await this.requireRole(roleId);
+    this.assertNotSystem(role);
+
+    const permissions = await this.permissionRepo.findWhere(
+      {},
+      { limit: MAX_RBAC_ROWS }
+    );
+    const permissionsByName = new Map(
+      permissions.map((permission) => [permission.name, permission])
+    );
+
+    const selected = [...new Set(permissionNames)].map((name) => {
+      const permission = permissionsByName.get(name);
+
+      if (!permission) {
+        throw new AppError(
+          "auth.rbac.permission_not_found",
+          HTTP_STATUS.NOT_FOUND,
+          ERROR_CODES.NOT_FOUND,
+          { name }
+        );
+      }
+
+      return permission;
+    });
+
+    await this.roleRepo.transaction(async (tx) => {
+      await this.rolePermissionRepo.deleteWhere({ role_id: role.id }, tx);
+      if (selected.length > 0) {
+        await this.rolePermissionRepo.createMany(
+          selected.map((permission) => ({
+            role_id: role.id,
+            permission_id: permission.id,
+          })),
+          actorId,
+          tx
+        );
+      }
+    });
+
+    await this.invalidateGraph();
+
+    const graph = await this.loadGraph();
+    await this.propagate(
+      await this.findUsersOfRoles([...this.findDescendants(graph, role.id)]),
+      actorId
+    );
+
+    return this.toRoleData(role, graph);
+  }
+
+  async listPermissions(): Promise<RbacResponse.PermissionList> {
+    const permissions = await this.permissionRepo.findWhere(
+      {},
+      { limit: MAX_RBAC_ROWS, orderBy: "name", orderDirection: "ASC" }
+    );
+
+    return permissions.map((permission) => this.toPermissionData(permission));
+  }
+
+  async createPermission(
+    data: RbacDto.CreatePermissionSchema,
+    actorId: string | number
+  ): Promise<RbacResponse.PermissionData> {
+    if (await this.permissionRepo.existsWhere({ name: data.name })) {
+      throw new AppError(
+        "auth.rbac.permission_exists",
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.DUPLICATE_RESOURCE
+      );
+    }
+
+    const permission = await this.permissionRepo.create(
+      {
+        name: data.name,
+        is_system: false,
+        description: data.description ?? "",
+      },
+      actorId
+    );
+
+    return this.toPermissionData(permission);
+  }
+
+  /**
+   * Xóa permission không phải system permission khỏi hệ thống và khỏi mọi role
+   */
+  async deletePermission(
+    permissionId: string,
+    actorId: string | number
+  ): Promise<void> {
+    const permission = await this.requirePermission(permissionId);
+    this.assertNotSystem(permission);
+
+    const graph = await this.loadGraph();
+    const assignments = await this.rolePermissionRepo.findWhere(
+      { permission_id: permission.id },
+      { limit: MAX_RBAC_ROWS }
+    );
+    const roleIds = new Set<string>();
+    for (const assignment of assignments) {
+      this.findDescendants(graph, assignment.role_id).forEach((id) =>
+        roleIds.add(id)
+      );
+    }
+    const userIds = await this.findUsersOfRoles([...roleIds]);
+
+    await this.permissionRepo.transaction(async (tx, permissionRepo) => {
+      await this.rolePermissionRepo.deleteWhere(
+        { permission_id: permission.id },
+        tx
+      );
+      await permissionRepo.delete(BigInt(permission.id), tx);
+    });
+
+    await this.invalidateGraph();
+    await this.propagate(userIds, actorId);
+  }
+
+  async getUserAccess(userId: string): Promise<RbacResponse.UserAccessData> {
+    await this.requireUser(userId);
+
+    const graph = await this.loadGraph();
+    const assignments = await this.userRoleRepo.findWhere(
+      { user_id: userId },
+      { limit: 100 }
+    );
+    const access = await this.resolveUserAccess(userId);
+
+    return {
+      userId: String(userId),
+      assignedRoles: assignments
+        .map((assignment) => graph[String(assignment.role_id)]?.name)
+        .filter((name): name is string => !!name),
+      roles: access.roles,
+      permissions: access.permissions,
+    };
+  }
+
+  /**
+   * Thay toàn bộ role được gán trực tiếp cho user
+   */
+  async setUserRoles(
+    userId: string,
+    roleNames: string[],
+    actorId: string | number
+  ): Promise<RbacResponse.UserAccessData> {
+    await this.requireUser(userId);
+
+    const graph = await this.loadGraph();
+    const names = [...new Set(roleNames)];
+    const roleIds = this.findRoleIds(graph, names);
+
+    if (roleIds.length !== names.length) {
+      throw new AppError(
+        "auth.rbac.role_not_found",
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND
+      );
+    }
+
+    await this.userRoleRepo.transaction(async (tx, userRoleRepo) => {
+      await userRoleRepo.deleteWhere({ user_id: userId }, tx);
+      if (roleIds.length > 0) {
+        await userRoleRepo.createMany(
+          roleIds.map((roleId) => ({ user_id: userId, role_id: roleId })),
+          actorId,
+          tx
+        );
+      }
+    });
+
+    await this.propagate([userId], actorId);
+
+    return await this.getUserAccess(userId);
+  }
+
+  /**
+   * Load role graph (roles + permission gán trực tiếp), cache trong Redis
+   */
+  private async loadGraph(): Promise<RoleGraph> {
+    const cached = await this.cache.get<RoleGraph>(ROLE_GRAPH_KEY);
+    if (cached) return cached;
+
+    const [roles, permissions, rolePermissions] = await Promise.all([
+      this.roleRepo.findWhere({}, { limit: MAX_RBAC_ROWS }),
+      this.permissionRepo.findWhere({}, { limit: MAX_RBAC_ROWS }),
+      this.rolePermissionRepo.findWhere({}, { limit: MAX_RBAC_ROWS }),
+    ]);
+
+    const permissionNames = new Map(
+      permissions.map((permission) => [String(permission.id), permission.name])
+    );
+
+    const graph: RoleGraph = {};
+    for (const role of roles) {
+      graph[String(role.id)] = {
+        id: String(role.id),
+        name: role.name,
+        parentId: Number(role.parent_id) > 0 ? String(role.parent_id) : null,
+        permissions: [],
+      };
+    }
+
+    for (const rolePermission of rolePermissions) {
+      const node = graph[String(rolePermission.role_id)];
+      const name = permissionNames.get(String(rolePermission.permission_id));
+
+      if (node && name) node.permissions.push(name);
+    }
+
+    await this.cache.set(ROLE_GRAPH_KEY, graph, RBAC_CONFIG.GRAPH_CACHE_TTL);
+
+    return graph;
+  }
+
+  private async invalidateGraph(): Promise<void> {
+    await this.cache.del(ROLE_GRAPH_KEY);
+  }
+
+  private findRoleIds(graph: RoleGraph, roleNames: string[]): string[] {
+    return Object.values(graph)
+      .filter((node) => roleNames.includes(node.name))
+      .map((node) => node.id);
+  }
+
+  /**
+   * Gộp roles và permissions của các role cùng toàn bộ role cha của chúng
+   */
+  private expand(graph: RoleGraph, roleIds: string[]): AccessClaims {
+    const roles = new Set<string>();
+    const permissions = new Set<string>();
+
+    for (const roleId of roleIds) {
+      const visited = new Set<string>();
+      let node: RoleGraphNode | undefined = graph[roleId];
+
+      while (node && !visited.has(node.id)) {
+        visited.add(node.id);
+        roles.add(node.name);
+        node.permissions.forEach((permission) => permissions.add(permission));
+        node = node.parentId ? graph[node.parentId] : undefined;
+      }
+    }
+
+    return {
+      roles: [...roles],
+      permissions: [...permissions].sort(),
+    };
+  }
+
+  /**
+   * Role và tất cả role kế thừa từ nó (trực tiếp hoặc gián tiếp)
+   */
+  private findDescendants(
+    graph: RoleGraph,
+    roleId: string | number
+  ): Set<string> {
+    const descendants = new Set<string>([String(roleId)]);
+    let added = true;
+
+    while (added) {
+      added = false;
+      for (const node of Object.values(graph)) {
+        if (
+          node.parentId &&
+          descendants.has(node.parentId) &&
+          !descendants.has(node.id)
+        ) {
+          descendants.add(node.id);
+          added = true;
+        }
+      }
+    }
+
+    return descendants;
+  }
+
+  private async findUsersOfRoles(roleIds: string[]): Promise<string[]> {
+    const userIds = new Set<string>();
+
+    for (const roleId of roleIds) {
+      const assignments = await this.userRoleRepo.findWhere(
+        { role_id: roleId },
+        { limit: MAX_RBAC_ROWS }
+      );
+      assignments.forEach((assignment) =>
+        userIds.add(String(assignment.user_id))
+      );
+    }
+
+    return [...userIds];
+  }
+
+  /**
+   * Đẩy quyền mới vào các session đang active của user và tăng phiên bản RBAC của user,
+   * access token mang version cũ bị từ chối cho tới khi client refresh
+   */
+  private async propagate(
+    userIds: string[],
+    actorId: string | number
+  ): Promise<void> {
+    for (const userId of userIds) {
+      // INCR atomic nên các thay đổi đồng thời luôn cho version mới khác nhau.
+      // Key không có TTL: version giảm về 0 sẽ làm token cấp sau lần đổi quyền trước hợp lệ trở lại
+      await this.redis.incr(this.getVersionKey(userId));
+
+      const access = await this.resolveUserAccess(userId);
+      const sessions = await this.sessionService.findActiveUserSessions(userId);
+
+      for (const session of sessions) {
+        await this.sessionRepo.update(
+          BigInt(session.id),
+          { roles: access.roles, permissions: access.permissions },
+          BigInt(actorId)
+        );
+      }
+    }
+  }
+
+  private async requireRole(roleId: string | number): Promise<RoleModel> {
+    const role = /^\d+$/.test(String(roleId))
+      ? await this.roleRepo.findById(BigInt(roleId))
+      : null;
+
+    if (!role) {
+      throw new AppError(
+        "auth.rbac.role_not_found",
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND
+      );
+    }
+
+    return role;
+  }
+
+  private async requirePermission(
+    permissionId: string
+  ): Promise<PermissionModel> {
+    const permission = /^\d+$/.test(permissionId)
+      ? await this.permissionRepo.findById(BigInt(permissionId))
+      : null;
+
+    if (!permission) {
+      throw new AppError(
+        "auth.rbac.permission_not_found",
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND
+      );
+    }
+
+    return permission;
+  }
+
+  private async requireUser(userId: string): Promise<void> {
+    const exists =
+      /^\d+$/.test(userId) &&
+      (await this.userRepo.existsWhere({ id: userId, is_deleted: false }));
+
+    if (!exists) {
+      throw new AppError(
+        "auth.login.user_not_found",
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND
+      );
+    }
+  }
+
+  private assertNotSystem(entity: { is_system: boolean }): void {
+    if (entity.is_system) {
+      throw new AppError(
+        "auth.rbac.system_protected",
+        HTTP_STATUS.FORBIDDEN,
+        ERROR_CODES.FORBIDDEN
+      );
+    }
+  }
+
+  private toRoleData(role: RoleModel, graph: RoleGraph): RbacResponse.RoleData {
+    return {
+      id: String(role.id),
+      name: role.name,
+      description: role.description,
+      isSystem: role.is_system,
+      parentId: Number(role.parent_id) > 0 ? String(role.parent_id) : null,
+      permissions: graph[String(role.id)]?.permissions ?? [],
+    };
+  }
+
+  private toPermissionData(
+    permission: PermissionModel
+  ): RbacResponse.PermissionData {
+    return {
+      id: String(permission.id),
+      name: permission.name,
+      description: permission.description,
+      isSystem: permission.is_system,
+    };
+  }
+}
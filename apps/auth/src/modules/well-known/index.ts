@@ -0,0 +1,32 @@
+import { Elysia } from "elysia";
+
+import { JWT_CONFIG } from "../../configs";
+import { TokenService } from "../v1/auth/token.service";
+
+/**
+ * Public key để gateway và service khác tự verify token (RFC 7517).
+ * Trả về JSON chuẩn, không bọc trong ApiResponse
+ */
+export const wellKnownController = new Elysia({
+  name: "wellKnown",
+  prefix: "/.well-known",
+})
+  .decorate("tokenService", new TokenService())
+  .get(
+    "/jwks.json",
+    ({ tokenService }) =>
+      new Response(JSON.stringify(tokenService.getJwks()), {
+        headers: {
+          "Content-Type": "application/jwk-set+json",
+          "Cache-Control": `public, max-age=${JWT_CONFIG.JWKS_MAX_AGE}`,
+        },
+      }),
+    {
+      detail: {
+        summary: "JSON Web Key Set",
+        description:
+          "Public keys (ES256/EdDSA) of the active and recently retired token signing keys, identified by kid",
+        tags: ["Auth"],
+      },
+    }
+  );
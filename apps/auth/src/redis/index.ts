@@ -0,0 +1,40 @@
+import {
+  CacheManager,
+  RateLimiter,
+  RedisClient,
+  SessionManager,
+} from "@repo/redis";
+import { REDIS_CONFIG } from "../configs";
+
+// Tạo Redis URL từ config
+const buildRedisUrl = (): string => {
+  const host = REDIS_CONFIG.CONFIG_REDIS_HOST || "localhost";
+  const port = REDIS_CONFIG.CONFIG_REDIS_PORT || "6379";
+  const db = REDIS_CONFIG.CONFIG_REDIS_DBNAME || "0";
+  const auth = REDIS_CONFIG.CONFIG_REDIS_PASSWORD
+    ? `:${encodeURIComponent(REDIS_CONFIG.CONFIG_REDIS_PASSWORD)}@`
+    : "";
+
+  return `redis://${auth}${host}:${port}/${db}`;
+};
+
+// Khởi tạo Redis client dùng chung cho auth service
+export const redisClient = new RedisClient({
+  url: buildRedisUrl(),
+  maxConnections: 10,
+});
+
+// Session store mirror các session đăng nhập trong PostgreSQL
+export const sessionManager = new SessionManager(redisClient, {
+  prefix: "auth:session:",
+});
+
+// Cache cho token blacklist, mã xác thực...
+export const cacheManager = new CacheManager(redisClient, {
+  namespace: "auth:",
+});
+
+// Rate limiter cho các endpoint nhạy cảm
+export const rateLimiter = new RateLimiter(redisClient, {
+  prefix: "auth:ratelimit:",
+});
@@ -0,0 +1,55 @@
+import { generateKeyPairSync, randomUUID } from "node:crypto";
+import { JWT_CONFIG, SERVICE_CONFIG } from "../configs";
+import { SigningKeyConfig, SigningKeyStore } from "./key-store";
+
+export type { Jwks, SigningAlgorithm, SigningKey } from "./key-store";
+export { SIGNING_ALGORITHMS, SigningKeyStore } from "./key-store";
+
+// Key tạm cho môi trường dev, mất khi restart nên token cũ không còn hợp lệ
+const generateDevelopmentKey = (): SigningKeyConfig => {
+  const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+
+  return {
+    kid: `dev-${randomUUID().slice(0, 8)}`,
+    alg: "ES256",
+    privateKey: privateKey.export({ format: "pem", type: "pkcs8" }).toString(),
+  };
+};
+
+// Đọc JWT_SIGNING_KEYS, production bắt buộc cấu hình và phải có key đang active
+const createSigningKeyStore = (): SigningKeyStore => {
+  const isProduction = SERVICE_CONFIG.NODE_ENV === "production";
+  let configs: SigningKeyConfig[] = [];
+
+  if (JWT_CONFIG.JWT_SIGNING_KEYS) {
+    try {
+      configs = JSON.parse(JWT_CONFIG.JWT_SIGNING_KEYS);
+    } catch {
+      throw new Error("JWT_SIGNING_KEYS must be a JSON array of signing keys");
+    }
+  }
+
+  if (!Array.isArray(configs) || configs.length === 0) {
+    if (isProduction) {
+      throw new Error("JWT_SIGNING_KEYS is not configured");
+    }
+
+    console.warn(
+      "JWT_SIGNING_KEYS is not configured, using an ephemeral development key"
+    );
+    configs = [generateDevelopmentKey()];
+  }
+
+  const store = SigningKeyStore.fromConfig(
+    configs,
+    JWT_CONFIG.JWT_KEY_RETIRED_TTL
+  );
+
+  // Throw ngay khi khởi động nếu không có key nào ký được
+  store.getSigningKey();
+
+  return store;
+};
+
+// Signing key dùng chung cho access/refresh/device/account token
+export const signingKeyStore = createSigningKeyStore();
@@ -0,0 +1,153 @@
+import { getCurrentUnixTimestamp } from "@repo/utils";
+import type { JWK } from "jose";
+import { createPrivateKey, createPublicKey, KeyObject } from "node:crypto";
+
+export type SigningAlgorithm = "ES256" | "EdDSA";
+
+export const SIGNING_ALGORITHMS: SigningAlgorithm[] = ["ES256", "EdDSA"];
+
+/**
+ * Một signing key trong JWT_SIGNING_KEYS. Key bắt đầu ký từ activateAt và
+ * dừng ký ở retireAt, nhưng vẫn được dùng để verify thêm một khoảng retiredTtl
+ */
+export interface SigningKeyConfig {
+  kid: string;
+  alg: SigningAlgorithm;
+  privateKey: string; // PKCS#8 PEM
+  activateAt?: number; // unix time, mặc định 0 (đã active)
+  retireAt?: number; // unix time, mặc định 0 (không retire)
+}
+
+export interface SigningKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  activateAt: number;
+  retireAt: number;
+}
+
+export interface Jwks {
+  keys: JWK[];
+}
+
+// Loại key tương ứng với từng thuật toán
+const KEY_TYPES: Record<SigningAlgorithm, { type: string; curve?: string }> = {
+  ES256: { type: "ec", curve: "prime256v1" },
+  EdDSA: { type: "ed25519" },
+};
+
+/**
+ * Tập signing key có kid, chọn key ký theo thời gian để rotate theo lịch:
+ * key mới được công bố trong JWKS trước khi active, key cũ vẫn verify được
+ * sau khi retire cho tới khi token cuối cùng nó ký hết hạn
+ */
+export class SigningKeyStore {
+  private readonly keys: Map<string, SigningKey>;
+
+  constructor(
+    keys: SigningKey[],
+    private readonly retiredTtl: number
+  ) {
+    this.keys = new Map(keys.map((key) => [key.kid, key]));
+  }
+
+  /**
+   * Parse và kiểm tra cấu hình key, throw nếu key không hợp lệ
+   */
+  static fromConfig(
+    configs: SigningKeyConfig[],
+    retiredTtl: number
+  ): SigningKeyStore {
+    const keys = configs.map((config) => {
+      if (!config.kid || !SIGNING_ALGORITHMS.includes(config.alg)) {
+        throw new Error(
+          `Signing key "${config.kid}" must have a kid and alg ES256 or EdDSA`
+        );
+      }
+
+      const privateKey = createPrivateKey(config.privateKey);
+      const expected = KEY_TYPES[config.alg];
+
+      if (
+        privateKey.asymmetricKeyType !== expected.type ||
+        (expected.curve &&
+          privateKey.asymmetricKeyDetails?.namedCurve !== expected.curve)
+      ) {
+        throw new Error(
+          `Signing key "${config.kid}" does not match algorithm ${config.alg}`
+        );
+      }
+
+      return {
+        kid: config.kid,
+        alg: config.alg,
+        privateKey,
+        publicKey: createPublicKey(privateKey),
+        activateAt: Number(config.activateAt ?? 0),
+        retireAt: Number(config.retireAt ?? 0),
+      };
+    });
+
+    if (new Set(keys.map((key) => key.kid)).size !== keys.length) {
+      throw new Error("Signing key ids (kid) must be unique");
+    }
+
+    return new SigningKeyStore(keys, retiredTtl);
+  }
+
+  /**
+   * Key dùng để ký: key đã active, chưa retire và active gần nhất
+   */
+  getSigningKey(now: number = getCurrentUnixTimestamp()): SigningKey {
+    let current: SigningKey | undefined;
+
+    for (const key of this.keys.values()) {
+      const active =
+        key.activateAt <= now && (key.retireAt === 0 || now < key.retireAt);
+
+      if (active && (!current || key.activateAt > current.activateAt)) {
+        current = key;
+      }
+    }
+
+    if (!current) {
+      throw new Error("No active JWT signing key");
+    }
+
+    return current;
+  }
+
+  /**
+   * Public key để verify token theo kid, null nếu kid không tồn tại
+   * hoặc key đã retire quá retiredTtl
+   */
+  getVerificationKey(
+    kid: string | undefined,
+    now: number = getCurrentUnixTimestamp()
+  ): SigningKey | null {
+    const key = kid ? this.keys.get(kid) : undefined;
+
+    return key && this.isPublished(key, now) ? key : null;
+  }
+
+  /**
+   * JWKS gồm mọi key còn được dùng để verify, kể cả key chưa tới lúc active
+   */
+  getJwks(now: number = getCurrentUnixTimestamp()): Jwks {
+    return {
+      keys: [...this.keys.values()]
+        .filter((key) => this.isPublished(key, now))
+        .map((key) => ({
+          ...(key.publicKey.export({ format: "jwk" }) as JWK),
+          kid: key.kid,
+          alg: key.alg,
+          use: "sig",
+        })),
+    };
+  }
+
+  private isPublished(key: SigningKey, now: number): boolean {
+    return key.retireAt === 0 || now < key.retireAt + this.retiredTtl;
+  }
+}
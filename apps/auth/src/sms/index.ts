@@ -0,0 +1,28 @@
+import { SERVICE_CONFIG, SMS_CONFIG } from "../configs";
+import { LogSmsProvider } from "./log.provider";
+import { SmsProvider } from "./sms.provider";
+
+export type { SmsMessage, SmsProvider } from "./sms.provider";
+
+// Chọn provider theo SMS_PROVIDER, hiện tại chỉ có provider ghi log.
+// Production không chấp nhận provider không xác định, tránh OTP chỉ bị ghi ra log
+const createSmsProvider = (): SmsProvider => {
+  const provider = SMS_CONFIG.SMS_PROVIDER;
+
+  switch (provider) {
+    case "log":
+      return new LogSmsProvider();
+    default:
+      if (SERVICE_CONFIG.NODE_ENV === "production") {
+        throw new Error(`Unknown SMS_PROVIDER "${provider}"`);
+      }
+
+      console.warn(
+        `Unknown SMS_PROVIDER "${provider}", falling back to log provider`
+      );
+      return new LogSmsProvider();
+  }
+};
+
+// SMS provider dùng chung cho auth service
+export const smsProvider = createSmsProvider();
@@ -0,0 +1,10 @@
+import { SmsMessage, SmsProvider } from "./sms.provider";
+
+/**
+ * Ghi SMS ra log thay vì gửi thật, dùng cho local development khi chưa có tài khoản nhà mạng
+ */
+export class LogSmsProvider implements SmsProvider {
+  async send(message: SmsMessage): Promise<void> {
+    console.log(`📱 SMS to ${message.to}: ${message.text}`);
+  }
+}
@@ -0,0 +1,11 @@
+export interface SmsMessage {
+  to: string; // Số điện thoại dạng E.164
+  text: string;
+}
+
+/**
+ * Provider gửi SMS, có thể thay thế theo nhà mạng / dịch vụ
+ */
+export interface SmsProvider {
+  send(message: SmsMessage): Promise<void>;
+}
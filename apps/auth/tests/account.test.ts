@@ -0,0 +1,332 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { getCurrentUnixTimestamp } from "@repo/utils";
+import { ACCOUNT_DELETION_CONFIG } from "../src/configs";
+import {
+  AccountDeletionRequestModel,
+  AccountDeletionStatus,
+} from "../src/database/models/account-deletion-request.model";
+import { SessionModel } from "../src/database/models/session.model";
+import { AccountService } from "../src/modules/v1/account/account.service";
+import { ProfileService } from "../src/modules/v1/profile/profile.service";
+import {
+  FakeRateLimiter,
+  MemoryRepository,
+  MemoryUserNameReservationRepository,
+  MemoryUserRepository,
+} from "./fakes";
+
+/**
+ * Repository yêu cầu xóa tài khoản in-memory với các query của AccountDeletionRequestRepository
+ */
+class MemoryDeletionRepository extends MemoryRepository<AccountDeletionRequestModel> {
+  async findPending(userId: string | number) {
+    return await this.findOne({
+      user_id: userId,
+      status: AccountDeletionStatus.PENDING,
+    });
+  }
+
+  async findDue(limit: number) {
+    const now = getCurrentUnixTimestamp();
+    return (await this.findWhere({ status: AccountDeletionStatus.PENDING }))
+      .filter((request) => request.scheduled_at <= now)
+      .slice(0, limit);
+  }
+}
+
+const PASSWORD = "correct horse battery staple";
+
+describe("AccountService", () => {
+  let users: MemoryUserRepository;
+  let deletions: MemoryDeletionRepository;
+  let sessions: MemoryRepository<SessionModel>;
+  let identities: MemoryRepository<Record<string, any>>;
+  let credentials: MemoryRepository<Record<string, any>>;
+  let mfa: MemoryRepository<Record<string, any>>;
+  let backupCodes: MemoryRepository<Record<string, any>>;
+  let userRoles: MemoryRepository<Record<string, any>>;
+  let reservations: MemoryUserNameReservationRepository;
+  let signedOut: Array<{ sessions: SessionModel[]; reason: string }>;
+  let anonymized: unknown[];
+  let service: AccountService;
+
+  const auditService = {
+    record: async () => {},
+    anonymizeUser: async (userId: unknown) => {
+      anonymized.push(userId);
+    },
+    search: async (filters: { userId: unknown }, page: number) => ({
+      data:
+        page === 1 && filters.userId === 1
+          ? [
+              {
+                eventType: "login_success",
+                deviceId: "device-a",
+                ipAddress: "203.0.113.7",
+                metadata: { session_id: "1" },
+                createdAt: 1_700_000_000,
+              },
+            ]
+          : [],
+      totalPages: 1,
+    }),
+  };
+
+  /**
+   * Dữ liệu đăng nhập liên kết của user trong mọi bảng bị xóa khi purge
+   */
+  const seedUserData = async (userId: number) => {
+    await identities.create({
+      user_id: userId,
+      provider: "google",
+      email: `user${userId}@gmail.com`,
+      display_name: `User ${userId}`,
+      created_at: 1_700_000_000,
+      last_login_at: 0,
+    });
+    await credentials.create({
+      user_id: userId,
+      name: "Laptop",
+      public_key: "secret-public-key",
+      transports: ["internal"],
+      created_at: 1_700_000_000,
+      last_used_at: 0,
+    });
+    await mfa.create({ user_id: userId });
+    await backupCodes.create({ user_id: userId });
+    await userRoles.create({ user_id: userId, role_id: 1 });
+    await reservations.create({
+      user_name: `old${userId}`,
+      user_id: userId,
+      expires_at: getCurrentUnixTimestamp() + 3600,
+    });
+    await sessions.create({
+      user_id: userId,
+      device_id: `device-${userId}`,
+      device_name: "macOS desktop",
+      user_agent: "Mozilla/5.0",
+      ip_address: "203.0.113.7",
+      access_token: "access",
+      refresh_token: "refresh",
+      device_fingerprint: "fp",
+      metadata: { revoked_reason: "logout" },
+      is_active: false,
+      created_at: 1_700_000_000,
+      last_used_at: 1_700_000_000,
+      revoked_at: 1_700_000_100,
+    });
+    await sessions.create({
+      user_id: userId,
+      device_id: `device-${userId}-active`,
+      ip_address: "203.0.113.8",
+      access_token: "access-active",
+      refresh_token: "refresh-active",
+      metadata: {},
+      is_active: true,
+      created_at: 1_700_000_000,
+      last_used_at: 1_700_000_000,
+      revoked_at: 0,
+    });
+  };
+
+  beforeEach(async () => {
+    users = new MemoryUserRepository();
+    deletions = new MemoryDeletionRepository();
+    sessions = new MemoryRepository<SessionModel>();
+    identities = new MemoryRepository();
+    credentials = new MemoryRepository();
+    mfa = new MemoryRepository();
+    backupCodes = new MemoryRepository();
+    userRoles = new MemoryRepository();
+    reservations = new MemoryUserNameReservationRepository();
+    signedOut = [];
+    anonymized = [];
+    service = new AccountService(
+      users as any,
+      deletions as any,
+      sessions as any,
+      identities as any,
+      credentials as any,
+      mfa as any,
+      backupCodes as any,
+      userRoles as any,
+      reservations as any,
+      {
+        findActiveUserSessions: async (userId: unknown) =>
+          await sessions.findWhere({ user_id: userId, is_active: true }),
+        signOut: async (targets: SessionModel[], reason: string) => {
+          signedOut.push({ sessions: targets, reason });
+          return targets.length;
+        },
+      } as any,
+      new ProfileService(users as any, reservations as any),
+      auditService as any,
+      new FakeRateLimiter() as any,
+      {
+        resolveRoleAccess: async () => ({ roles: ["GUEST"], permissions: [] }),
+      } as any
+    );
+
+    const password = await Bun.password.hash(PASSWORD);
+    for (const userName of ["reader", "other"]) {
+      await users.create({
+        user_name: userName,
+        email: `${userName}@example.com`,
+        password,
+        phone_number: "+84912345678",
+        display_name: userName,
+        bio: [],
+        metadata: {},
+        created_at: 1_700_000_000,
+        is_active: true,
+        is_deleted: false,
+      });
+    }
+    await seedUserData(1);
+    await seedUserData(2);
+  });
+
+  describe("deletion", () => {
+    test("requires the current password and one pending request", async () => {
+      await expect(
+        service.requestDeletion(1, { password: "wrong" }, "device-1", "ip")
+      ).rejects.toMatchObject({ messageKey: "auth.account.password_invalid" });
+
+      expect(
+        await service.requestDeletion(
+          1,
+          { password: PASSWORD },
+          "device-1",
+          "203.0.113.7"
+        )
+      ).toMatchObject({ pending: true });
+      await expect(
+        service.requestDeletion(1, { password: PASSWORD }, "device-1", "ip")
+      ).rejects.toMatchObject({ messageKey: "auth.account.deletion_pending" });
+
+      await service.cancelDeletion(1, "device-1", "203.0.113.7");
+      expect(await service.getDeletionStatus(1)).toMatchObject({
+        pending: false,
+      });
+    });
+
+    test("does not purge an account before the grace period ends", async () => {
+      await service.requestDeletion(1, { password: PASSWORD }, "device-1", "");
+
+      expect(await service.purgeDueAccounts()).toBe(0);
+      expect(users.rows[0]!.is_deleted).toBe(false);
+    });
+
+    test("anonymizes the user and removes linked login data when due", async () => {
+      await deletions.create({
+        user_id: 1,
+        status: AccountDeletionStatus.PENDING,
+        scheduled_at: getCurrentUnixTimestamp() - 1,
+      });
+
+      expect(await service.purgeDueAccounts()).toBe(1);
+
+      expect(users.rows[0]).toMatchObject({
+        user_name: "deleted_1",
+        email: "deleted_1@deleted.invalid",
+        password: "",
+        phone_number: "",
+        display_name: "Deleted user",
+        is_active: false,
+        is_deleted: true,
+      });
+      for (const repo of [
+        identities,
+        credentials,
+        mfa,
+        backupCodes,
+        userRoles,
+        reservations,
+      ]) {
+        expect(repo.rows.map((row) => row.user_id)).toEqual([2]);
+      }
+      expect(
+        sessions.rows.find((session) => session.device_id === "device-1")
+      ).toMatchObject({
+        access_token: "",
+        refresh_token: "",
+        device_fingerprint: "",
+        device_name: "",
+        user_agent: "",
+        ip_address: "",
+        metadata: {},
+      });
+      expect(signedOut).toHaveLength(1);
+      expect(signedOut[0]!.reason).toBe("account_deleted");
+      expect(
+        signedOut[0]!.sessions.map((session) => session.device_id)
+      ).toEqual(["device-1-active"]);
+      expect(anonymized).toEqual([1]);
+      expect(deletions.rows[0]!.status).toBe(AccountDeletionStatus.COMPLETED);
+
+      // Dữ liệu của user khác không bị ảnh hưởng
+      expect(users.rows[1]).toMatchObject({
+        email: "other@example.com",
+        is_deleted: false,
+      });
+      expect(
+        sessions.rows.find((session) => session.device_id === "device-2")
+      ).toMatchObject({ ip_address: "203.0.113.7", access_token: "access" });
+    });
+  });
+
+  describe("export", () => {
+    test("includes the user's own data without tokens or keys", async () => {
+      const data = await service.exportData(1, "device-1", "203.0.113.7");
+
+      expect(data.profile).toMatchObject({
+        id: 1,
+        user_name: "reader",
+        email: "reader@example.com",
+      });
+      expect(data.identities).toEqual([
+        expect.objectContaining({
+          provider: "google",
+          email: "user1@gmail.com",
+        }),
+      ]);
+      expect(data.passkeys).toEqual([
+        expect.objectContaining({ name: "Laptop", transports: ["internal"] }),
+      ]);
+      expect(data.sessions.map((session) => session.deviceId)).toEqual([
+        "device-1",
+        "device-1-active",
+      ]);
+      expect(data.auditEvents).toEqual([
+        expect.objectContaining({
+          eventType: "login_success",
+          ipAddress: "203.0.113.7",
+        }),
+      ]);
+
+      const serialized = JSON.stringify(data);
+      for (const secret of [
+        "access",
+        "refresh",
+        "secret-public-key",
+        "password",
+      ]) {
+        expect(serialized).not.toContain(secret);
+      }
+      expect(serialized).not.toContain("other@example.com");
+    });
+
+    test("limits how often the data can be exported", async () => {
+      for (let i = 0; i < ACCOUNT_DELETION_CONFIG.EXPORT_LIMIT; i++) {
+        await service.exportData(1, "device-1", "203.0.113.7");
+      }
+
+      await expect(
+        service.exportData(1, "device-1", "203.0.113.7")
+      ).rejects.toMatchObject({
+        messageKey: "auth.account.export_too_many_requests",
+        statusCode: 429,
+      });
+    });
+  });
+});
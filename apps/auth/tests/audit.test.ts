@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+  AuthAuditEventModel,
+  AuthAuditEventType,
+} from "../src/database/models/auth-audit-event.model";
+import { AuthAuditEventInsert } from "../src/database/repositories/auth-audit-event.repository";
+import { AuditService } from "../src/modules/v1/audit/audit.service";
+
+/**
+ * Repository audit in-memory: append nối chain, anonymizeUser giống câu UPDATE thật
+ */
+class MemoryAuditRepository {
+  readonly rows: AuthAuditEventModel[] = [];
+
+  async append(
+    data: AuthAuditEventInsert,
+    computeHash: (prevHash: string, createdAt: number) => string
+  ): Promise<AuthAuditEventModel> {
+    const prevHash = this.rows.at(-1)?.hash ?? "";
+    const createdAt = 1_700_000_000 + this.rows.length;
+    const row = {
+      ...data,
+      id: String(this.rows.length + 1),
+      prev_hash: prevHash,
+      hash: computeHash(prevHash, createdAt),
+      created_at: String(createdAt),
+    } as unknown as AuthAuditEventModel;
+
+    this.rows.push(row);
+    return row;
+  }
+
+  async anonymizeUser(userId: string | number): Promise<number> {
+    const targets = this.rows.filter(
+      (row) =>
+        String(row.user_id) === String(userId) &&
+        Number(row.anonymized_at) === 0
+    );
+    for (const row of targets) {
+      Object.assign(row, {
+        device_id: "",
+        ip_address: "",
+        metadata: {},
+        anonymized_at: 1_800_000_000,
+      });
+    }
+    return targets.length;
+  }
+
+  async findChainAfter(
+    afterId: string | number,
+    limit: number
+  ): Promise<AuthAuditEventModel[]> {
+    return this.rows
+      .filter((row) => Number(row.id) > Number(afterId))
+      .slice(0, limit);
+  }
+}
+
+describe("AuditService hash chain", () => {
+  let repo: MemoryAuditRepository;
+  let service: AuditService;
+
+  beforeEach(async () => {
+    repo = new MemoryAuditRepository();
+    service = new AuditService(repo as any);
+
+    for (const userId of [1, 2, 1]) {
+      await service.record({
+        eventType: AuthAuditEventType.LOGIN_SUCCESS,
+        userId,
+        deviceId: `device-${userId}`,
+        ipAddress: "203.0.113.7",
+        metadata: { method: "password" },
+      });
+    }
+  });
+
+  test("stays valid after a user's events are anonymized", async () => {
+    await service.anonymizeUser(1);
+
+    expect(repo.rows[0]).toMatchObject({
+      device_id: "",
+      ip_address: "",
+      metadata: {},
+    });
+    expect(repo.rows[1]?.ip_address).toBe("203.0.113.7");
+    expect(await service.verifyChain()).toEqual({
+      valid: true,
+      checkedEvents: 3,
+      brokenAtId: null,
+    });
+  });
+
+  test("detects edited personal data on an event that is not anonymized", async () => {
+    repo.rows[1]!.ip_address = "198.51.100.1";
+
+    expect(await service.verifyChain()).toMatchObject({
+      valid: false,
+      brokenAtId: "2",
+    });
+  });
+
+  test("detects forged personal data behind a manually set anonymized_at", async () => {
+    Object.assign(repo.rows[1]!, {
+      anonymized_at: 1_800_000_000,
+      ip_address: "198.51.100.1",
+      metadata: { method: "passkey" },
+    });
+
+    expect(await service.verifyChain()).toMatchObject({
+      valid: false,
+      brokenAtId: "2",
+    });
+  });
+
+  test("detects a changed content hash even on an anonymized event", async () => {
+    await service.anonymizeUser(1);
+    repo.rows[2]!.content_hash = AuditService.computeContentHash({
+      device_id: "",
+      ip_address: "",
+      metadata: {},
+    });
+
+    expect(await service.verifyChain()).toMatchObject({
+      valid: false,
+      brokenAtId: "3",
+    });
+  });
+});
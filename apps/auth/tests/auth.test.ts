@@ -0,0 +1,509 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { getCurrentUnixTimestamp } from "@repo/utils";
+import { decodeJwt } from "jose";
+import { SessionModel } from "../src/database/models/session.model";
+import { AuthService } from "../src/modules/v1/auth/auth.service";
+import { SessionService } from "../src/modules/v1/auth/session.service";
+import {
+  TokenPayload,
+  TokenService,
+} from "../src/modules/v1/auth/token.service";
+import {
+  FakeCache,
+  FakeRedis,
+  MemoryRepository,
+  MemoryUserNameReservationRepository,
+  MemoryUserRepository,
+  fakeAuditService,
+} from "./fakes";
+
+/**
+ * SessionManager giả, ghi lại các device bị xóa Redis session
+ */
+class FakeSessionManager {
+  readonly destroyed: string[] = [];
+  private nextId = 1;
+
+  async create(): Promise<string> {
+    return `redis-session-${this.nextId++}`;
+  }
+
+  async refresh(): Promise<boolean> {
+    return true;
+  }
+
+  async destroyUserDeviceSessions(
+    userId: number,
+    deviceId: string
+  ): Promise<number> {
+    this.destroyed.push(`${userId}:${deviceId}`);
+    return 1;
+  }
+}
+
+const PASSWORD = "correct horse battery staple";
+
+describe("AuthService token lifecycle", () => {
+  let users: MemoryUserRepository;
+  let sessions: MemoryRepository<SessionModel>;
+  let cache: FakeCache;
+  let redisSessions: FakeSessionManager;
+  let tokens: TokenService;
+  let service: AuthService;
+
+  const rbacService = {
+    resolveUserAccess: async () => ({
+      roles: ["USER"],
+      permissions: [],
+      version: 1,
+    }),
+    resolveRoleAccess: async () => ({ roles: ["GUEST"], permissions: [] }),
+    isClaimsStale: async () => false,
+  };
+  const loginProtection = {
+    assertSourceAllowed: async () => {},
+    assertAccountAllowed: async () => {},
+    recordFailure: async () => {},
+    recordSuccess: async () => {},
+    rememberDevice: async () => {},
+  };
+
+  /**
+   * Tạo guest session cho device, trả về device token
+   */
+  const registerDevice = async (deviceId: string): Promise<string> => {
+    const deviceToken = await tokens.signDeviceToken(
+      deviceId,
+      `fp-${deviceId}`
+    );
+
+    await sessions.create({
+      user_id: 0,
+      access_token: "",
+      refresh_token: "",
+      token_family: "",
+      device_id: deviceId,
+      device_fingerprint: `fp-${deviceId}`,
+      device_token: deviceToken.token,
+      ip_address: "203.0.113.7",
+      roles: ["GUEST"],
+      permissions: [],
+      metadata: {},
+      request_count: 1,
+      is_active: true,
+      is_blocked: false,
+      revoked_at: 0,
+    });
+
+    return deviceToken.token;
+  };
+
+  const sessionOf = (deviceId: string) =>
+    sessions.rows.find((session) => session.device_id === deviceId)!;
+
+  const login = async (deviceId: string, email = "reader@example.com") =>
+    (await service.login(
+      { email, password: PASSWORD },
+      await registerDevice(deviceId),
+      "203.0.113.7"
+    )) as { accessToken: string; refreshToken: string };
+
+  beforeEach(async () => {
+    users = new MemoryUserRepository();
+    sessions = new MemoryRepository<SessionModel>();
+    cache = new FakeCache();
+    redisSessions = new FakeSessionManager();
+    tokens = new TokenService();
+    service = new AuthService(
+      users as any,
+      sessions as any,
+      tokens,
+      new SessionService(sessions as any, redisSessions as any, cache as any),
+      undefined,
+      new FakeRedis() as any,
+      { isEnabled: async () => false } as any,
+      loginProtection as any,
+      rbacService as any,
+      fakeAuditService as any
+    );
+
+    const password = await Bun.password.hash(PASSWORD);
+    for (const email of ["reader@example.com", "other@example.com"]) {
+      await users.create({
+        user_name: email.split("@")[0],
+        email,
+        password,
+        is_active: true,
+        is_deleted: false,
+      });
+    }
+  });
+
+  describe("login", () => {
+    test("issues a token pair bound to the device session", async () => {
+      const result = await login("device-a");
+      const session = sessionOf("device-a");
+      const access = decodeJwt(result.accessToken) as TokenPayload;
+      const refresh = decodeJwt(result.refreshToken) as TokenPayload;
+
+      expect(access).toMatchObject({
+        sub: "1",
+        type: "access",
+        session_id: String(session.id),
+        device_id: "device-a",
+        roles: ["USER"],
+      });
+      expect(refresh).toMatchObject({
+        sub: "1",
+        type: "refresh",
+        session_id: String(session.id),
+        family: access.family,
+      });
+      expect(session).toMatchObject({
+        user_id: 1,
+        access_token: result.accessToken,
+        refresh_token: result.refreshToken,
+        token_family: access.family,
+        metadata: { redis_session_id: "redis-session-1" },
+      });
+      expect(await service.authenticate(result.accessToken)).toMatchObject({
+        sub: "1",
+      });
+    });
+
+    test("rejects a wrong password without touching the session", async () => {
+      const deviceToken = await registerDevice("device-a");
+
+      await expect(
+        service.login(
+          { email: "reader@example.com", password: "wrong password" },
+          deviceToken,
+          "203.0.113.7"
+        )
+      ).rejects.toMatchObject({
+        messageKey: "auth.login.invalid_credentials",
+        statusCode: 401,
+      });
+      expect(sessionOf("device-a")).toMatchObject({
+        user_id: 0,
+        access_token: "",
+      });
+    });
+
+    test("requires a valid device token", async () => {
+      await expect(
+        service.login(
+          { email: "reader@example.com", password: PASSWORD },
+          "not-a-device-token",
+          "203.0.113.7"
+        )
+      ).rejects.toMatchObject({ messageKey: "auth.token.invalid" });
+    });
+  });
+
+  describe("refresh", () => {
+    test("rotates the pair within the same token family", async () => {
+      const first = await login("device-a");
+
+      const rotated = await service.refresh(first.refreshToken, "203.0.113.8");
+      const session = sessionOf("device-a");
+
+      expect(rotated.refreshToken).not.toBe(first.refreshToken);
+      expect(decodeJwt(rotated.refreshToken).family).toBe(
+        decodeJwt(first.refreshToken).family
+      );
+      expect(session).toMatchObject({
+        refresh_token: rotated.refreshToken,
+        access_token: rotated.accessToken,
+        ip_address: "203.0.113.8",
+        is_active: true,
+      });
+    });
+
+    test("lets only one of two concurrent refreshes with the same token win", async () => {
+      const { refreshToken } = await login("device-a");
+
+      const results = await Promise.allSettled([
+        service.refresh(refreshToken, "203.0.113.7"),
+        service.refresh(refreshToken, "203.0.113.7"),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual([
+        "fulfilled",
+        "rejected",
+      ]);
+    });
+
+    test("revokes the whole family when a rotated refresh token is reused", async () => {
+      const first = await login("device-a");
+      const rotated = await service.refresh(first.refreshToken, "203.0.113.7");
+
+      await expect(
+        service.refresh(first.refreshToken, "198.51.100.1")
+      ).rejects.toMatchObject({ messageKey: "auth.token.invalid" });
+
+      const session = sessionOf("device-a");
+      const family = decodeJwt(first.refreshToken).family;
+      expect(session).toMatchObject({
+        is_active: false,
+        metadata: { revoked_reason: "refresh_token_reuse" },
+      });
+      expect(Number(session.revoked_at)).toBeGreaterThan(0);
+      expect(cache.store.get(`revoked:session:${session.id}:${family}`)).toBe(
+        "refresh_token_reuse"
+      );
+      await expect(
+        service.refresh(rotated.refreshToken, "203.0.113.7")
+      ).rejects.toMatchObject({ messageKey: "auth.token.invalid" });
+      await expect(
+        service.authenticate(rotated.accessToken)
+      ).rejects.toMatchObject({ messageKey: "auth.login.session_expired" });
+    });
+
+    test("rejects an access token used as a refresh token", async () => {
+      const { accessToken } = await login("device-a");
+
+      await expect(
+        service.refresh(accessToken, "203.0.113.7")
+      ).rejects.toMatchObject({ messageKey: "auth.token.invalid" });
+    });
+  });
+
+  describe("logout", () => {
+    const revokedKey = (deviceId: string, accessToken: string) =>
+      `revoked:session:${sessionOf(deviceId).id}:${decodeJwt(accessToken).family}`;
+
+    test("signs the current device out and blacklists its access token", async () => {
+      const { accessToken, refreshToken } = await login("device-a");
+      const key = revokedKey("device-a", accessToken);
+      // Login cũng dọn Redis session cũ của device, chỉ đếm từ lúc logout
+      redisSessions.destroyed.length = 0;
+
+      expect(await service.logout(accessToken)).toEqual({ revokedSessions: 1 });
+
+      expect(cache.store.get(key)).toBe("logout");
+      expect(sessionOf("device-a")).toMatchObject({
+        user_id: 0,
+        access_token: "",
+        refresh_token: "",
+        token_family: "",
+        roles: ["GUEST"],
+        is_active: true,
+      });
+      expect(redisSessions.destroyed).toEqual(["1:device-a"]);
+      await expect(service.authenticate(accessToken)).rejects.toMatchObject({
+        messageKey: "auth.login.session_expired",
+      });
+      await expect(
+        service.refresh(refreshToken, "203.0.113.7")
+      ).rejects.toMatchObject({ messageKey: "auth.token.invalid" });
+    });
+
+    test("signs out every device of the user", async () => {
+      const first = await login("device-a");
+      const second = await login("device-b");
+      const keys = [
+        revokedKey("device-a", first.accessToken),
+        revokedKey("device-b", second.accessToken),
+      ];
+
+      expect(await service.logoutAll(first.accessToken, false)).toEqual({
+        revokedSessions: 2,
+      });
+
+      for (const key of keys) {
+        expect(cache.store.get(key)).toBe("logout_all");
+      }
+      for (const accessToken of [first.accessToken, second.accessToken]) {
+        await expect(service.authenticate(accessToken)).rejects.toMatchObject({
+          messageKey: "auth.login.session_expired",
+        });
+      }
+    });
+
+    test("keeps the current device when signing out the others", async () => {
+      const current = await login("device-a");
+      const other = await login("device-b");
+      const otherKey = revokedKey("device-b", other.accessToken);
+
+      expect(await service.logoutAll(current.accessToken, true)).toEqual({
+        revokedSessions: 1,
+      });
+
+      expect(cache.store.get(otherKey)).toBe("logout_others");
+      expect(sessionOf("device-a").user_id).toBe(1);
+      expect(await service.authenticate(current.accessToken)).toMatchObject({
+        sub: "1",
+      });
+      await expect(
+        service.authenticate(other.accessToken)
+      ).rejects.toMatchObject({ messageKey: "auth.login.session_expired" });
+    });
+
+    test("does not sign out a newer login on the same device", async () => {
+      const stale = await login("device-a");
+      await service.logout(stale.accessToken);
+      const fresh = await service.login(
+        { email: "reader@example.com", password: PASSWORD },
+        sessionOf("device-a").device_token,
+        "203.0.113.7"
+      );
+
+      await expect(service.logout(stale.accessToken)).rejects.toMatchObject({
+        messageKey: "auth.login.session_expired",
+      });
+      expect(sessionOf("device-a").access_token).toBe(
+        (fresh as { accessToken: string }).accessToken
+      );
+    });
+  });
+
+  describe("devices", () => {
+    test("lists only the devices signed in to the account", async () => {
+      const current = await login("device-a");
+      await login("device-b");
+      await login("device-c", "other@example.com");
+
+      const devices = await service.listDevices(current.accessToken);
+
+      expect(
+        devices.map(({ deviceId, isCurrent }) => ({ deviceId, isCurrent }))
+      ).toEqual([
+        { deviceId: "device-a", isCurrent: true },
+        { deviceId: "device-b", isCurrent: false },
+      ]);
+    });
+
+    test("removes one of the user's devices and revokes its tokens", async () => {
+      const current = await login("device-a");
+      const removed = await login("device-b");
+      const session = sessionOf("device-b");
+
+      expect(
+        await service.deleteDevice(current.accessToken, String(session.id))
+      ).toEqual({ revokedSessions: 1 });
+
+      expect(sessionOf("device-b")).toMatchObject({
+        is_active: false,
+        metadata: { revoked_reason: "device_removed" },
+      });
+      await expect(
+        service.authenticate(removed.accessToken)
+      ).rejects.toMatchObject({ messageKey: "auth.login.session_expired" });
+      await expect(
+        service.login(
+          { email: "reader@example.com", password: PASSWORD },
+          session.device_token,
+          "203.0.113.7"
+        )
+      ).rejects.toMatchObject({ messageKey: "auth.token.invalid" });
+    });
+
+    test("refuses to remove another user's device", async () => {
+      const current = await login("device-a");
+      await login("device-c", "other@example.com");
+      const foreign = sessionOf("device-c");
+
+      for (const sessionId of [String(foreign.id), "999", "not-an-id"]) {
+        await expect(
+          service.deleteDevice(current.accessToken, sessionId)
+        ).rejects.toMatchObject({
+          messageKey: "auth.device.not_found",
+          statusCode: 404,
+        });
+      }
+      expect(sessionOf("device-c")).toMatchObject({
+        is_active: true,
+        user_id: 2,
+      });
+    });
+  });
+});
+
+describe("AuthService.register", () => {
+  let users: MemoryUserRepository;
+  let reservations: MemoryUserNameReservationRepository;
+  let defaultRoles: unknown[];
+  let service: AuthService;
+
+  const register = (overrides: Record<string, string> = {}) =>
+    service.register({
+      email: "Reader@Example.com ",
+      user_name: "Reader",
+      password: PASSWORD,
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    users = new MemoryUserRepository();
+    reservations = new MemoryUserNameReservationRepository();
+    defaultRoles = [];
+    service = new AuthService(
+      users as any,
+      new MemoryRepository() as any,
+      undefined,
+      undefined,
+      undefined,
+      new FakeRedis() as any,
+      undefined,
+      undefined,
+      {
+        assignDefaultRole: async (userId: unknown) => {
+          defaultRoles.push(userId);
+        },
+      } as any,
+      fakeAuditService as any,
+      reservations as any
+    );
+  });
+
+  test("creates a user with a normalized email and a hashed password", async () => {
+    expect(await register()).toEqual({ id: 1, email: "reader@example.com" });
+
+    const [user] = users.rows;
+    expect(user).toMatchObject({
+      email: "reader@example.com",
+      user_name: "reader",
+      display_name: "reader",
+      is_email_verified: false,
+      is_active: true,
+    });
+    expect(user!.password).not.toBe(PASSWORD);
+    expect(await Bun.password.verify(PASSWORD, user!.password)).toBe(true);
+    expect(defaultRoles).toEqual([1]);
+  });
+
+  test("rejects an email or user name that is already taken", async () => {
+    await register();
+
+    await expect(
+      register({ email: "READER@example.com", user_name: "someone" })
+    ).rejects.toMatchObject({ messageKey: "auth.register.email_exists" });
+    await expect(
+      register({ email: "someone@example.com", user_name: "READER" })
+    ).rejects.toMatchObject({ messageKey: "auth.register.username_exists" });
+    expect(users.rows).toHaveLength(1);
+  });
+
+  test("rejects a user name still reserved for its previous owner", async () => {
+    await reservations.create({
+      user_name: "reader",
+      user_id: 7,
+      expires_at: getCurrentUnixTimestamp() + 3600,
+    });
+
+    await expect(register()).rejects.toMatchObject({
+      messageKey: "auth.register.username_exists",
+    });
+  });
+
+  test("accepts a user name whose reservation has expired", async () => {
+    await reservations.create({
+      user_name: "reader",
+      user_id: 7,
+      expires_at: getCurrentUnixTimestamp() - 1,
+    });
+
+    expect(await register()).toMatchObject({ email: "reader@example.com" });
+  });
+});
@@ -0,0 +1,261 @@
+import type { RateLimitResult } from "@repo/redis";
+import { getCurrentUnixTimestamp } from "@repo/utils";
+import { UserNameReservationModel } from "../src/database/models/user-name-reservation.model";
+import { UserModel } from "../src/database/models/user.model";
+
+/**
+ * Fake in-memory cho CacheManager/RedisClient/RateLimiter, đủ cho các lệnh service dùng.
+ * TTL không được mô phỏng, test điều khiển thời gian qua dữ liệu đầu vào
+ */
+export class FakeCache {
+  readonly store = new Map<string, unknown>();
+
+  async get<T>(key: string): Promise<T | null> {
+    return (this.store.get(key) as T) ?? null;
+  }
+
+  async set<T>(key: string, value: T, _ttl?: number): Promise<void> {
+    this.store.set(key, structuredClone(value));
+  }
+
+  async del(key: string): Promise<boolean> {
+    return this.store.delete(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.store.has(key);
+  }
+
+  async ttl(key: string): Promise<number> {
+    return this.store.has(key) ? 60 : -2;
+  }
+}
+
+export class FakeRedis {
+  readonly store = new Map<string, string>();
+
+  async get(key: string): Promise<string | null> {
+    return this.store.get(key) ?? null;
+  }
+
+  async set(key: string, value: unknown, _ttl?: number): Promise<string> {
+    this.store.set(key, String(value));
+    return "OK";
+  }
+
+  async incr(key: string): Promise<number> {
+    const value = Number(this.store.get(key) ?? 0) + 1;
+    this.store.set(key, String(value));
+    return value;
+  }
+
+  async expire(_key: string, _seconds: number): Promise<boolean> {
+    return true;
+  }
+
+  async del(key: string): Promise<number> {
+    return this.store.delete(key) ? 1 : 0;
+  }
+
+  // Chỉ hỗ trợ SET key value [EX seconds] [NX]
+  async send(command: string, args: string[]): Promise<unknown> {
+    if (command !== "SET") {
+      throw new Error(`FakeRedis does not support ${command}`);
+    }
+
+    const [key, value] = args as [string, string];
+    if (args.includes("NX") && this.store.has(key)) return null;
+
+    this.store.set(key, value);
+    return "OK";
+  }
+}
+
+export class FakeRateLimiter {
+  readonly counts = new Map<string, number>();
+
+  async checkLimit(
+    identifier: string,
+    limit: number,
+    _windowMs?: number
+  ): Promise<RateLimitResult> {
+    const current = this.counts.get(identifier) ?? 0;
+    // Giống Lua script của RateLimiter: đã đủ limit thì không đếm thêm
+    if (current >= limit) {
+      return {
+        limited: true,
+        remaining: 0,
+        resetTime: Date.now(),
+        total: limit,
+      };
+    }
+
+    this.counts.set(identifier, current + 1);
+    return {
+      limited: false,
+      remaining: limit - current - 1,
+      resetTime: Date.now(),
+      total: limit,
+    };
+  }
+
+  async reset(identifier: string, _windowMs?: number): Promise<boolean> {
+    return this.counts.delete(identifier);
+  }
+}
+
+export const fakeAuditService = {
+  record: async (_event: unknown): Promise<void> => {},
+};
+
+type Row = { id: number } & Record<string, any>;
+
+const matches = (row: Row, where: Record<string, unknown>): boolean =>
+  // So sánh dạng string vì PostgreSQL trả về bigint dưới dạng string
+  Object.entries(where).every(
+    ([field, value]) => String(row[field]) === String(value)
+  );
+
+/**
+ * Repository in-memory với các method BaseRepository mà service dùng
+ */
+export class MemoryRepository<T extends Record<string, any>> {
+  readonly rows: Array<T & { id: number }> = [];
+  private nextId = 1;
+
+  async create(
+    data: Partial<T>,
+    _actorId?: unknown
+  ): Promise<T & { id: number }> {
+    const row = { ...data, id: this.nextId++ } as T & { id: number };
+    this.rows.push(row);
+    return { ...row };
+  }
+
+  async createMany(
+    data: Partial<T>[],
+    actorId?: unknown
+  ): Promise<Array<T & { id: number }>> {
+    return await Promise.all(data.map((item) => this.create(item, actorId)));
+  }
+
+  async findById(
+    id: bigint | number | string
+  ): Promise<(T & { id: number }) | null> {
+    return await this.findOne({ id } as Record<string, unknown>);
+  }
+
+  async findOne(
+    where: Record<string, unknown>
+  ): Promise<(T & { id: number }) | null> {
+    const row = this.rows.find((candidate) => matches(candidate, where));
+    return row ? { ...row } : null;
+  }
+
+  async findWhere(
+    where: Record<string, unknown>,
+    _options?: unknown
+  ): Promise<Array<T & { id: number }>> {
+    return this.rows
+      .filter((row) => matches(row, where))
+      .map((row) => ({ ...row }));
+  }
+
+  async existsWhere(where: Record<string, unknown>): Promise<boolean> {
+    return this.rows.some((row) => matches(row, where));
+  }
+
+  async update(
+    id: bigint | number | string,
+    data: Partial<T>,
+    _actorId?: unknown
+  ): Promise<(T & { id: number }) | null> {
+    const [updated] = await this.updateWhere({ id }, data);
+    return updated ?? null;
+  }
+
+  async updateWhere(
+    where: Record<string, unknown>,
+    data: Partial<T>,
+    _actorId?: unknown
+  ): Promise<Array<T & { id: number }>> {
+    const targets = this.rows.filter((row) => matches(row, where));
+    for (const row of targets) {
+      Object.assign(row, data);
+    }
+    return targets.map((row) => ({ ...row }));
+  }
+
+  async delete(id: bigint | number | string, _tx?: unknown): Promise<boolean> {
+    return (await this.deleteWhere({ id })) > 0;
+  }
+
+  async deleteWhere(
+    where: Record<string, unknown>,
+    _tx?: unknown
+  ): Promise<number> {
+    const remaining = this.rows.filter((row) => !matches(row, where));
+    const deleted = this.rows.length - remaining.length;
+    this.rows.splice(0, this.rows.length, ...remaining);
+    return deleted;
+  }
+
+  // Không có rollback: test chỉ cần callback nhận tx và repository
+  async transaction<R>(
+    callback: (tx: unknown, repo: this) => Promise<R>
+  ): Promise<R> {
+    return await callback(undefined, this);
+  }
+}
+
+/**
+ * Repository user in-memory, tìm user_name không phân biệt hoa thường như UserRepository
+ */
+export class MemoryUserRepository extends MemoryRepository<UserModel> {
+  async findByUserName(
+    userName: string
+  ): Promise<(UserModel & { id: number }) | null> {
+    const row = this.rows.find(
+      (candidate) =>
+        candidate.user_name.toLowerCase() === userName.toLowerCase()
+    );
+    return row ? { ...row } : null;
+  }
+}
+
+/**
+ * Repository reservation user_name in-memory, created_at lấy theo thời điểm tạo
+ * như BaseRepository để tính cooldown
+ */
+export class MemoryUserNameReservationRepository extends MemoryRepository<UserNameReservationModel> {
+  async create(
+    data: Partial<UserNameReservationModel>,
+    actorId?: unknown
+  ): Promise<UserNameReservationModel & { id: number }> {
+    return await super.create(
+      { created_at: getCurrentUnixTimestamp(), ...data },
+      actorId
+    );
+  }
+
+  async findActive(
+    userName: string
+  ): Promise<(UserNameReservationModel & { id: number }) | null> {
+    const now = getCurrentUnixTimestamp();
+    const row = this.rows.find(
+      (candidate) =>
+        candidate.user_name.toLowerCase() === userName.toLowerCase() &&
+        candidate.expires_at > now
+    );
+    return row ? { ...row } : null;
+  }
+
+  async findLatestByUser(
+    userId: string | number
+  ): Promise<(UserNameReservationModel & { id: number }) | null> {
+    const [latest] = (await this.findWhere({ user_id: userId })).sort(
+      (a, b) => Number(b.created_at) - Number(a.created_at)
+    );
+    return latest ?? null;
+  }
+}
@@ -0,0 +1,194 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  setSystemTime,
+  test,
+} from "bun:test";
+import type { ValidateTokenRequest, ValidateTokenResponse } from "@repo/grpc";
+import { SessionModel } from "../src/database/models/session.model";
+import { AuthGrpcService } from "../src/grpc/auth.grpc";
+import { AuthService } from "../src/modules/v1/auth/auth.service";
+import { SessionService } from "../src/modules/v1/auth/session.service";
+import { TokenService } from "../src/modules/v1/auth/token.service";
+import { FakeCache, MemoryRepository, MemoryUserRepository } from "./fakes";
+
+/**
+ * Gọi validateToken như GrpcServer, trả về response của callback
+ */
+const callValidateToken = (
+  grpc: AuthGrpcService,
+  request: Partial<ValidateTokenRequest>
+): Promise<ValidateTokenResponse> =>
+  new Promise((resolve, reject) => {
+    grpc.validateToken(
+      {
+        request: {
+          token: "",
+          device_id: "",
+          session_id: "",
+          ip_address: "",
+          ...request,
+        },
+        metadata: { get: () => ["req-1"] },
+      },
+      (error, response) => (error ? reject(error) : resolve(response!))
+    );
+  });
+
+describe("AuthGrpcService.validateToken", () => {
+  test("returns the user id as a string without losing bigint precision", async () => {
+    const grpc = new AuthGrpcService({
+      validateAccessToken: async () => ({
+        userId: "9007199254740993",
+        roles: ["USER"],
+        permissions: [],
+        verifiedEmail: true,
+        verifiedPhone: false,
+        deviceId: "device-a",
+        sessionId: "1",
+      }),
+    } as any);
+
+    const response = await callValidateToken(grpc, { token: "access" });
+
+    expect(response).toMatchObject({
+      status: 200,
+      request_id: "req-1",
+      data: { id: "9007199254740993", roles: ["USER"] },
+    });
+  });
+});
+
+describe("AuthGrpcService.validateToken with AuthService", () => {
+  let sessions: MemoryRepository<SessionModel>;
+  let sessionService: SessionService;
+  let claimsStale: boolean;
+  let grpc: AuthGrpcService;
+  let session: SessionModel & { id: number };
+  let accessToken: string;
+
+  beforeEach(async () => {
+    const users = new MemoryUserRepository();
+    const tokens = new TokenService();
+    sessions = new MemoryRepository<SessionModel>();
+    sessionService = new SessionService(
+      sessions as any,
+      { destroyUserDeviceSessions: async () => 0 } as any,
+      new FakeCache() as any
+    );
+    claimsStale = false;
+    grpc = new AuthGrpcService(
+      new AuthService(
+        users as any,
+        sessions as any,
+        tokens,
+        sessionService,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { isClaimsStale: async () => claimsStale } as any
+      )
+    );
+
+    await users.create({
+      email: "reader@example.com",
+      is_email_verified: true,
+      is_phone_verified: false,
+      is_active: true,
+      is_deleted: false,
+    });
+    session = await sessions.create({
+      user_id: 1,
+      device_id: "device-a",
+      token_family: "family-1",
+      ip_address: "203.0.113.7",
+      metadata: {},
+      is_active: true,
+      is_blocked: false,
+      revoked_at: 0,
+    });
+    accessToken = (
+      await tokens.sign("access", {
+        userId: "1",
+        email: "reader@example.com",
+        roles: ["USER"],
+        permissions: ["novel:read"],
+        sessionId: String(session.id),
+        deviceId: "device-a",
+        family: "family-1",
+        rbacVersion: 1,
+      })
+    ).token;
+    await sessions.update(session.id, { access_token: accessToken });
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  const validate = (request: Partial<ValidateTokenRequest> = {}) =>
+    callValidateToken(grpc, {
+      token: accessToken,
+      device_id: "device-a",
+      session_id: String(session.id),
+      ...request,
+    });
+
+  test("accepts a live token and returns the session identity", async () => {
+    expect(await validate()).toMatchObject({
+      status: 200,
+      data: {
+        id: "1",
+        roles: ["USER"],
+        permissions: ["novel:read"],
+        verified_email: true,
+        verified_phone: false,
+        device_id: "device-a",
+        session_id: String(session.id),
+      },
+    });
+  });
+
+  test("rejects a token whose session was revoked", async () => {
+    await sessionService.revoke(
+      [(await sessions.findById(session.id))!],
+      "logout",
+      1
+    );
+
+    expect(await validate()).toMatchObject({
+      status: 401,
+      message: "auth.login.session_expired",
+      data: undefined,
+      error: { code: "UNAUTHORIZED" },
+    });
+  });
+
+  test("rejects an expired token", async () => {
+    setSystemTime(Date.now() + 16 * 60 * 1000);
+
+    expect(await validate()).toMatchObject({
+      status: 401,
+      message: "auth.token.expired",
+    });
+  });
+
+  test("asks the client to refresh when the RBAC version is stale", async () => {
+    claimsStale = true;
+
+    expect(await validate()).toMatchObject({
+      status: 401,
+      message: "auth.token.expired",
+    });
+  });
+
+  test("rejects a token presented for another device", async () => {
+    expect(await validate({ device_id: "device-b" })).toMatchObject({
+      status: 401,
+      message: "auth.token.device_mismatch",
+    });
+  });
+});
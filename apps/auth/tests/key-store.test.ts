@@ -0,0 +1,195 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { generateKeyPairSync } from "node:crypto";
+import { decodeProtectedHeader } from "jose";
+import { TokenService } from "../src/modules/v1/auth/token.service";
+import { wellKnownController } from "../src/modules/well-known";
+import { SigningKeyStore } from "../src/signing-keys";
+
+const ecPrivateKey = () =>
+  generateKeyPairSync("ec", { namedCurve: "P-256" })
+    .privateKey.export({ format: "pem", type: "pkcs8" })
+    .toString();
+
+const ed25519PrivateKey = () =>
+  generateKeyPairSync("ed25519")
+    .privateKey.export({ format: "pem", type: "pkcs8" })
+    .toString();
+
+// Key "old" retire tại ROTATE_AT, key "new" active cùng lúc, key cũ verify thêm RETIRED_TTL
+const NOW = 1_800_000_000;
+const ROTATE_AT = NOW + 60;
+const RETIRED_TTL = 3600;
+
+describe("SigningKeyStore", () => {
+  const createStore = () =>
+    SigningKeyStore.fromConfig(
+      [
+        {
+          kid: "old",
+          alg: "ES256",
+          privateKey: ecPrivateKey(),
+          retireAt: ROTATE_AT,
+        },
+        {
+          kid: "new",
+          alg: "EdDSA",
+          privateKey: ed25519PrivateKey(),
+          activateAt: ROTATE_AT,
+        },
+      ],
+      RETIRED_TTL
+    );
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test("rejects keys that do not match their algorithm or share a kid", () => {
+    const privateKey = ecPrivateKey();
+
+    expect(() =>
+      SigningKeyStore.fromConfig(
+        [{ kid: "a", alg: "EdDSA", privateKey }],
+        RETIRED_TTL
+      )
+    ).toThrow('Signing key "a" does not match algorithm EdDSA');
+    expect(() =>
+      SigningKeyStore.fromConfig(
+        [
+          { kid: "a", alg: "ES256", privateKey },
+          { kid: "a", alg: "ES256", privateKey },
+        ],
+        RETIRED_TTL
+      )
+    ).toThrow("Signing key ids (kid) must be unique");
+  });
+
+  test("publishes the next key before it starts signing", () => {
+    const store = createStore();
+
+    expect(store.getSigningKey(NOW).kid).toBe("old");
+    expect(store.getJwks(NOW).keys.map((key) => key.kid)).toEqual([
+      "old",
+      "new",
+    ]);
+  });
+
+  test("keeps a retired key for verification during the overlap window", () => {
+    const store = createStore();
+
+    expect(store.getSigningKey(ROTATE_AT).kid).toBe("new");
+    expect(store.getVerificationKey("old", ROTATE_AT)?.kid).toBe("old");
+    expect(
+      store.getVerificationKey("old", ROTATE_AT + RETIRED_TTL - 1)?.kid
+    ).toBe("old");
+
+    expect(store.getVerificationKey("old", ROTATE_AT + RETIRED_TTL)).toBeNull();
+    expect(
+      store.getJwks(ROTATE_AT + RETIRED_TTL).keys.map((key) => key.kid)
+    ).toEqual(["new"]);
+    expect(store.getVerificationKey("unknown", NOW)).toBeNull();
+  });
+
+  test("throws when no key is active", () => {
+    expect(() =>
+      SigningKeyStore.fromConfig(
+        [
+          {
+            kid: "future",
+            alg: "ES256",
+            privateKey: ecPrivateKey(),
+            activateAt: ROTATE_AT,
+          },
+        ],
+        RETIRED_TTL
+      ).getSigningKey(NOW)
+    ).toThrow("No active JWT signing key");
+  });
+
+  test("verifies tokens by kid across a rotation", async () => {
+    const tokens = new TokenService(createStore());
+
+    setSystemTime(NOW * 1000);
+    const before = await tokens.signAccountToken("password_reset", 1, 86400);
+    expect(decodeProtectedHeader(before.token)).toMatchObject({
+      kid: "old",
+      alg: "ES256",
+    });
+
+    setSystemTime((ROTATE_AT + 1) * 1000);
+    const after = await tokens.signAccountToken("password_reset", 1, 86400);
+    expect(decodeProtectedHeader(after.token)).toMatchObject({
+      kid: "new",
+      alg: "EdDSA",
+    });
+    for (const { token } of [before, after]) {
+      expect(
+        await tokens.verifyAccountToken("password_reset", token)
+      ).toMatchObject({ sub: "1" });
+    }
+
+    // Hết overlap window thì token của key cũ không còn verify được
+    setSystemTime((ROTATE_AT + RETIRED_TTL) * 1000);
+    await expect(
+      tokens.verifyAccountToken("password_reset", before.token)
+    ).rejects.toThrow();
+    expect(
+      await tokens.verifyAccountToken("password_reset", after.token)
+    ).toMatchObject({ sub: "1" });
+  });
+});
+
+describe("GET /.well-known/jwks.json", () => {
+  test("returns public JWKs identified by kid", async () => {
+    const response = await wellKnownController.handle(
+      new Request("http://localhost/.well-known/jwks.json")
+    );
+    const jwks = (await response.json()) as {
+      keys: Array<Record<string, string>>;
+    };
+
+    expect(response.headers.get("content-type")).toBe(
+      "application/jwk-set+json"
+    );
+    expect(response.headers.get("cache-control")).toMatch(
+      /^public, max-age=\d+$/
+    );
+    expect(jwks.keys.length).toBeGreaterThan(0);
+    for (const key of jwks.keys) {
+      expect(key).toMatchObject({ use: "sig", kid: expect.any(String) });
+      expect(["ES256", "EdDSA"]).toContain(key.alg!);
+      // Không bao giờ lộ private key
+      expect(key.d).toBeUndefined();
+    }
+  });
+
+  test("exports EC and OKP public keys in JWK form", () => {
+    const jwks = SigningKeyStore.fromConfig(
+      [
+        { kid: "ec", alg: "ES256", privateKey: ecPrivateKey() },
+        { kid: "ed", alg: "EdDSA", privateKey: ed25519PrivateKey() },
+      ],
+      RETIRED_TTL
+    ).getJwks(NOW);
+
+    expect(jwks.keys).toEqual([
+      {
+        kty: "EC",
+        crv: "P-256",
+        x: expect.any(String),
+        y: expect.any(String),
+        kid: "ec",
+        alg: "ES256",
+        use: "sig",
+      },
+      {
+        kty: "OKP",
+        crv: "Ed25519",
+        x: expect.any(String),
+        kid: "ed",
+        alg: "EdDSA",
+        use: "sig",
+      },
+    ]);
+  });
+});
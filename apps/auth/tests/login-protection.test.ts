@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { getCurrentUnixTimestamp } from "@repo/utils";
+import { LOCKOUT_CONFIG } from "../src/configs";
+import { UserModel } from "../src/database/models/user.model";
+import {
+  LoginAttempt,
+  LoginProtectionService,
+} from "../src/modules/v1/auth/login-protection.service";
+import {
+  FakeCache,
+  FakeRateLimiter,
+  FakeRedis,
+  fakeAuditService,
+} from "./fakes";
+
+describe("LoginProtectionService", () => {
+  let cache: FakeCache;
+  let unlockMails: string[];
+  let service: LoginProtectionService;
+  const user = { id: 1, email: "victim@example.com" } as UserModel;
+
+  const attempt = (overrides: Partial<LoginAttempt> = {}): LoginAttempt => ({
+    email: user.email,
+    ipAddress: "203.0.113.7",
+    deviceId: "device-a",
+    deviceKey: "fp-a",
+    ...overrides,
+  });
+
+  const fail = async (count: number, source: (i: number) => LoginAttempt) => {
+    for (let i = 0; i < count; i++) {
+      await service.recordFailure(source(i), user);
+    }
+  };
+
+  // Mỗi lần thử từ một device và IP khác nhau
+  const distinctSource = (i: number) =>
+    attempt({
+      ipAddress: `198.51.100.${i}`,
+      deviceId: `device-${i}`,
+      deviceKey: `fp-${i}`,
+    });
+
+  beforeEach(() => {
+    cache = new FakeCache();
+    unlockMails = [];
+    service = new LoginProtectionService(
+      new FakeRateLimiter() as any,
+      cache as any,
+      new FakeRedis() as any,
+      fakeAuditService as any,
+      {
+        requestAccountUnlock: async (target: UserModel) => {
+          unlockMails.push(target.email);
+        },
+        confirmAccountUnlock: async () => user,
+      } as any
+    );
+  });
+
+  test("locks a device after repeated failures without blocking others on the IP", async () => {
+    await fail(LOCKOUT_CONFIG.DEVICE.threshold - 1, () => attempt());
+    await service.assertSourceAllowed(attempt());
+
+    await service.recordFailure(attempt(), user);
+
+    await expect(service.assertSourceAllowed(attempt())).rejects.toMatchObject({
+      messageKey: "auth.login.too_many_attempts",
+      statusCode: 429,
+    });
+    await service.assertSourceAllowed(
+      attempt({ deviceId: "device-b", deviceKey: "fp-b" })
+    );
+  });
+
+  test("locks an IP that rotates through devices", async () => {
+    await fail(LOCKOUT_CONFIG.IP.threshold, (i) =>
+      attempt({ deviceId: `device-${i}`, deviceKey: `fp-${i}` })
+    );
+
+    await expect(
+      service.assertSourceAllowed(
+        attempt({ deviceId: "device-new", deviceKey: "fp-new" })
+      )
+    ).rejects.toMatchObject({ messageKey: "auth.login.too_many_attempts" });
+  });
+
+  test("locks the account against distributed attempts and mails an unlock link", async () => {
+    await fail(LOCKOUT_CONFIG.ACCOUNT.threshold - 1, distinctSource);
+    await service.assertAccountAllowed(attempt({ deviceId: "device-x" }), user);
+
+    await service.recordFailure(distinctSource(99), user);
+
+    await expect(
+      service.assertAccountAllowed(attempt({ deviceId: "device-x" }), user)
+    ).rejects.toMatchObject({
+      messageKey: "auth.login.account_locked",
+      statusCode: 403,
+    });
+    expect(unlockMails).toEqual([user.email]);
+  });
+
+  test("lets a device that signed in before through an account lock", async () => {
+    await service.rememberDevice(user.id, "device-trusted");
+    await fail(LOCKOUT_CONFIG.ACCOUNT.threshold, distinctSource);
+
+    await service.assertAccountAllowed(
+      attempt({ deviceId: "device-trusted" }),
+      user
+    );
+    await expect(
+      service.assertAccountAllowed(attempt({ deviceId: "device-x" }), user)
+    ).rejects.toMatchObject({ messageKey: "auth.login.account_locked" });
+  });
+
+  test("doubles the lock duration each time the same source is locked again", async () => {
+    const lockKey = "login-lock:device:fp-a";
+    const durations: number[] = [];
+
+    for (let round = 0; round < 3; round++) {
+      await fail(LOCKOUT_CONFIG.DEVICE.threshold, () =>
+        attempt({ ipAddress: `198.51.100.${round}` })
+      );
+      const lock = (await cache.get<{ level: number; lockedUntil: number }>(
+        lockKey
+      ))!;
+      durations.push(lock.lockedUntil - getCurrentUnixTimestamp());
+      // Giả lập lock hết hạn
+      await cache.del(lockKey);
+    }
+
+    const base = LOCKOUT_CONFIG.DEVICE.baseLockSeconds;
+    // Cho phép lệch 1 giây nếu đồng hồ sang giây mới giữa lúc khóa và lúc đọc
+    durations.forEach((duration, i) => {
+      expect(duration).toBeGreaterThanOrEqual(base * 2 ** i - 1);
+      expect(duration).toBeLessThanOrEqual(base * 2 ** i);
+    });
+  });
+
+  test("clears device and account failures on success but keeps the IP count", async () => {
+    const deviceThreshold = LOCKOUT_CONFIG.DEVICE.threshold;
+    const ipThreshold = LOCKOUT_CONFIG.IP.threshold;
+
+    await fail(deviceThreshold - 1, () => attempt());
+    await service.recordSuccess(attempt());
+    await fail(ipThreshold - deviceThreshold, () => attempt());
+    await service.assertSourceAllowed(attempt());
+
+    // Bộ đếm IP không bị reset bởi lần đăng nhập thành công
+    await service.recordFailure(
+      attempt({ deviceId: "device-b", deviceKey: "fp-b" }),
+      user
+    );
+    await expect(
+      service.assertSourceAllowed(
+        attempt({ deviceId: "device-c", deviceKey: "fp-c" })
+      )
+    ).rejects.toMatchObject({ messageKey: "auth.login.too_many_attempts" });
+  });
+
+  test("unlocks the account from the emailed link", async () => {
+    await fail(LOCKOUT_CONFIG.ACCOUNT.threshold, distinctSource);
+
+    await service.unlockAccount("unlock-token");
+
+    await service.assertAccountAllowed(attempt({ deviceId: "device-x" }), user);
+  });
+});
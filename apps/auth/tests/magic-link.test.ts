@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { MagicLinkService } from "../src/modules/v1/auth/magic-link.service";
+import { FakeRateLimiter } from "./fakes";
+
+describe("MagicLinkService", () => {
+  let service: MagicLinkService;
+  const audited: Array<Record<string, unknown>> = [];
+
+  // Device token của test chỉ là device id, link được yêu cầu từ device-a
+  const authService = {
+    requireLoginSession: async (deviceToken?: string) => ({
+      id: 1,
+      device_id: deviceToken ?? "",
+    }),
+    loginAsUser: async () => ({ accessToken: "access" }) as any,
+  };
+
+  beforeEach(() => {
+    audited.length = 0;
+    service = new MagicLinkService(
+      {} as any,
+      {
+        confirmMagicLink: async () => ({
+          user: { id: 1 },
+          deviceId: "device-a",
+          ipAddress: "203.0.113.7",
+        }),
+      } as any,
+      authService as any,
+      {
+        record: async (event: { metadata: Record<string, unknown> }) => {
+          audited.push(event.metadata);
+        },
+      } as any,
+      new FakeRateLimiter() as any
+    );
+  });
+
+  test("logs in on the device that requested the link", async () => {
+    const result = await service.login("token", "device-a", "203.0.113.7");
+
+    expect(result).toMatchObject({
+      accessToken: "access",
+      deviceMismatch: false,
+    });
+    expect(audited[0]).toMatchObject({ device_mismatch: false });
+  });
+
+  test("flags a link redeemed by another device", async () => {
+    const result = await service.login("token", "device-b", "198.51.100.1");
+
+    expect(result).toMatchObject({ deviceMismatch: true });
+    expect(audited[0]).toMatchObject({
+      requested_device_id: "device-a",
+      redeemed_device_id: "device-b",
+      device_mismatch: true,
+    });
+  });
+});
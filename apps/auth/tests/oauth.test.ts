@@ -0,0 +1,295 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { exportJWK, generateKeyPair, JWTPayload, SignJWT } from "jose";
+import { createHash, randomBytes } from "node:crypto";
+import { UserIdentityModel } from "../src/database/models/user-identity.model";
+import { UserModel } from "../src/database/models/user.model";
+import { OAuthService } from "../src/modules/v1/oauth/oauth.service";
+import { FakeCache, MemoryRepository, MemoryUserRepository } from "./fakes";
+
+const CLIENT_ID = "wibutime-test";
+
+interface PendingCode {
+  claims: JWTPayload;
+  codeChallenge: string;
+}
+
+/**
+ * OIDC provider giả chạy local: discovery, JWKS và token endpoint (authorization code + PKCE)
+ */
+const startMockOidcProvider = async () => {
+  const { privateKey, publicKey } = await generateKeyPair("ES256");
+  const jwk = { ...(await exportJWK(publicKey)), kid: "mock", alg: "ES256" };
+  const codes = new Map<string, PendingCode>();
+
+  const server = Bun.serve({
+    port: 0,
+    fetch: async (request, server): Promise<Response> => {
+      const url = new URL(request.url);
+      const issuer: string = `http://127.0.0.1:${server.port}`;
+
+      if (url.pathname === "/.well-known/openid-configuration") {
+        return Response.json({
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+        });
+      }
+
+      if (url.pathname === "/jwks") {
+        return Response.json({ keys: [jwk] });
+      }
+
+      if (url.pathname === "/token" && request.method === "POST") {
+        const form = new URLSearchParams(await request.text());
+        const pending = codes.get(form.get("code") ?? "");
+        codes.delete(form.get("code") ?? "");
+
+        const verifierHash = createHash("sha256")
+          .update(form.get("code_verifier") ?? "")
+          .digest("base64url");
+        if (
+          !pending ||
+          pending.codeChallenge !== verifierHash ||
+          form.get("client_id") !== CLIENT_ID
+        ) {
+          return Response.json({ error: "invalid_grant" }, { status: 400 });
+        }
+
+        const idToken = await new SignJWT(pending.claims)
+          .setProtectedHeader({ alg: "ES256", kid: "mock" })
+          .setIssuer(issuer)
+          .setAudience(CLIENT_ID)
+          .setIssuedAt()
+          .setExpirationTime("5m")
+          .sign(privateKey);
+
+        return Response.json({ access_token: "mock", id_token: idToken });
+      }
+
+      return new Response("Not found", { status: 404 });
+    },
+  });
+
+  return {
+    issuer: `http://127.0.0.1:${server.port}`,
+    // Giả lập user đăng nhập trên trang provider rồi được redirect về với code
+    authorize(authorizationUrl: string, claims: JWTPayload): string {
+      const url = new URL(authorizationUrl);
+      const code = randomBytes(16).toString("base64url");
+
+      codes.set(code, {
+        claims: { nonce: url.searchParams.get("nonce"), ...claims },
+        codeChallenge: url.searchParams.get("code_challenge") ?? "",
+      });
+
+      return code;
+    },
+    stop: () => server.stop(true),
+  };
+};
+
+describe("OAuthService with an OIDC provider", () => {
+  let provider: Awaited<ReturnType<typeof startMockOidcProvider>>;
+  let users: MemoryUserRepository;
+  let identities: MemoryRepository<UserIdentityModel>;
+  let service: OAuthService;
+  const loggedIn: Array<{ user: UserModel; deviceToken?: string }> = [];
+
+  // Device token của test chỉ là device id
+  const authService = {
+    requireLoginSession: async (deviceToken?: string) => ({
+      id: 1,
+      device_id: deviceToken ?? "",
+    }),
+    loginAsUser: async (user: UserModel, deviceToken?: string) => {
+      loggedIn.push({ user, deviceToken });
+      return { userId: user.id } as any;
+    },
+  };
+
+  // Đi hết luồng: authorize trên deviceId, provider trả về claims, callback từ callbackDevice
+  const loginWith = async (
+    claims: JWTPayload,
+    deviceId: string = "device-a",
+    callbackDevice: string = deviceId
+  ) => {
+    const { authorizationUrl, state } = await service.authorize(
+      "mock",
+      "login",
+      deviceId
+    );
+    const code = provider.authorize(authorizationUrl, claims);
+
+    return await service.login(
+      "mock",
+      { code, state },
+      callbackDevice,
+      "127.0.0.1"
+    );
+  };
+
+  beforeAll(async () => {
+    provider = await startMockOidcProvider();
+  });
+
+  afterAll(() => provider.stop());
+
+  beforeEach(() => {
+    users = new MemoryUserRepository();
+    identities = new MemoryRepository<UserIdentityModel>();
+    loggedIn.length = 0;
+    service = new OAuthService(
+      identities as any,
+      users as any,
+      authService as any,
+      { assignDefaultRole: async () => {} } as any,
+      new FakeCache() as any,
+      new MemoryRepository() as any,
+      { findActive: async () => null } as any,
+      {
+        mock: {
+          name: "Mock",
+          clientId: CLIENT_ID,
+          clientSecret: "secret",
+          scopes: ["openid", "email", "profile"],
+          issuer: provider.issuer,
+        },
+      }
+    );
+  });
+
+  test("creates an account from a verified email", async () => {
+    await loginWith({
+      sub: "oidc-1",
+      email: "Reader@Example.com",
+      email_verified: true,
+      name: "Reader",
+    });
+
+    expect(users.rows).toHaveLength(1);
+    expect(users.rows[0]).toMatchObject({
+      email: "reader@example.com",
+      user_name: "reader",
+      is_email_verified: true,
+    });
+    expect(identities.rows[0]).toMatchObject({
+      provider: "mock",
+      provider_user_id: "oidc-1",
+    });
+    expect(loggedIn[0]?.deviceToken).toBe("device-a");
+  });
+
+  test("does not reuse a user name that differs only in case", async () => {
+    await users.create({ user_name: "Reader", email: "other@example.com" });
+
+    await loginWith({
+      sub: "oidc-9",
+      email: "reader@example.com",
+      email_verified: true,
+    });
+
+    expect(users.rows[1]?.user_name).toMatch(/^reader_\d+$/);
+  });
+
+  test("logs in an existing identity without creating another account", async () => {
+    const claims = {
+      sub: "oidc-2",
+      email: "b@example.com",
+      email_verified: true,
+    };
+
+    await loginWith(claims);
+    await loginWith(claims, "device-b");
+
+    expect(users.rows).toHaveLength(1);
+    expect(loggedIn).toHaveLength(2);
+  });
+
+  test("rejects a new account when the provider has not verified the email", async () => {
+    await expect(
+      loginWith({
+        sub: "oidc-3",
+        email: "c@example.com",
+        email_verified: false,
+      })
+    ).rejects.toMatchObject({ message: "auth.oauth.email_unverified" });
+    await expect(
+      loginWith({ sub: "oidc-3", email: "c@example.com" })
+    ).rejects.toMatchObject({ message: "auth.oauth.email_unverified" });
+
+    expect(users.rows).toHaveLength(0);
+    expect(loggedIn).toHaveLength(0);
+  });
+
+  test("does not link an unknown identity to an existing account by email", async () => {
+    await loginWith({
+      sub: "oidc-4",
+      email: "d@example.com",
+      email_verified: true,
+    });
+
+    await expect(
+      loginWith({ sub: "oidc-5", email: "d@example.com", email_verified: true })
+    ).rejects.toMatchObject({ message: "auth.oauth.email_conflict" });
+    expect(identities.rows).toHaveLength(1);
+  });
+
+  test("rejects a callback from a different device than the one that started", async () => {
+    await expect(
+      loginWith(
+        { sub: "oidc-6", email: "e@example.com", email_verified: true },
+        "attacker-device",
+        "victim-device"
+      )
+    ).rejects.toMatchObject({ message: "auth.oauth.state_invalid" });
+
+    expect(users.rows).toHaveLength(0);
+  });
+
+  test("accepts the state only once", async () => {
+    const { authorizationUrl, state } = await service.authorize(
+      "mock",
+      "login",
+      "device-a"
+    );
+    const claims = {
+      sub: "oidc-7",
+      email: "f@example.com",
+      email_verified: true,
+    };
+
+    await service.login(
+      "mock",
+      { code: provider.authorize(authorizationUrl, claims), state },
+      "device-a",
+      "127.0.0.1"
+    );
+    await expect(
+      service.login(
+        "mock",
+        { code: provider.authorize(authorizationUrl, claims), state },
+        "device-a",
+        "127.0.0.1"
+      )
+    ).rejects.toMatchObject({ message: "auth.oauth.state_invalid" });
+  });
+
+  test("rejects an id token with a different nonce", async () => {
+    await expect(
+      loginWith({
+        sub: "oidc-8",
+        email: "g@example.com",
+        email_verified: true,
+        nonce: "replayed-nonce",
+      })
+    ).rejects.toMatchObject({ message: "auth.oauth.exchange_failed" });
+  });
+});
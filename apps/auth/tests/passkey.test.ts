@@ -0,0 +1,310 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { createHash, generateKeyPairSync, KeyObject, sign } from "node:crypto";
+import { WEBAUTHN_CONFIG } from "../src/configs";
+import { UserModel } from "../src/database/models/user.model";
+import { WebAuthnCredentialModel } from "../src/database/models/webauthn-credential.model";
+import { PasskeyService } from "../src/modules/v1/passkey/passkey.service";
+import { parseAuthenticatorData } from "../src/modules/v1/passkey/webauthn";
+import { FakeCache, MemoryRepository, fakeAuditService } from "./fakes";
+
+/**
+ * Encode CBOR tối giản cho fixture: số nguyên, byte/text string, Map
+ */
+const encodeCbor = (value: unknown): Buffer => {
+  const head = (majorType: number, length: number): Buffer => {
+    if (length < 24) return Buffer.from([(majorType << 5) | length]);
+    if (length < 0x100) return Buffer.from([(majorType << 5) | 24, length]);
+
+    const buffer = Buffer.alloc(3);
+    buffer[0] = (majorType << 5) | 25;
+    buffer.writeUInt16BE(length, 1);
+    return buffer;
+  };
+
+  if (typeof value === "number") {
+    return value >= 0 ? head(0, value) : head(1, -1 - value);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([head(2, value.length), value]);
+  }
+  if (typeof value === "string") {
+    const bytes = Buffer.from(value, "utf8");
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+  if (value instanceof Map) {
+    return Buffer.concat([
+      head(5, value.size),
+      ...[...value].flatMap(([key, item]) => [
+        encodeCbor(key),
+        encodeCbor(item),
+      ]),
+    ]);
+  }
+
+  throw new Error(`Cannot encode ${typeof value}`);
+};
+
+const b64url = (buffer: Buffer): string => buffer.toString("base64url");
+const sha256 = (data: string | Buffer): Buffer =>
+  createHash("sha256").update(data).digest();
+
+// Flags: UP (0x01), UV (0x04), AT (0x40)
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED = 0x40;
+
+/**
+ * Authenticator ES256 giả lập, tạo response giống navigator.credentials.create()/get()
+ */
+class VirtualAuthenticator {
+  readonly credentialId = Buffer.from("virtual-credential-0001");
+  private readonly privateKey: KeyObject;
+  private readonly coseKey: Buffer;
+
+  constructor(public signCount: number = 0) {
+    const { privateKey, publicKey } = generateKeyPairSync("ec", {
+      namedCurve: "P-256",
+    });
+    const jwk = publicKey.export({ format: "jwk" });
+
+    this.privateKey = privateKey;
+    this.coseKey = encodeCbor(
+      new Map<number, unknown>([
+        [1, 2],
+        [3, -7],
+        [-1, 1],
+        [-2, Buffer.from(jwk.x!, "base64url")],
+        [-3, Buffer.from(jwk.y!, "base64url")],
+      ])
+    );
+  }
+
+  authenticatorData(
+    flags: number,
+    options: { rpId?: string; attested?: boolean } = {}
+  ): Buffer {
+    const header = Buffer.alloc(37);
+    sha256(options.rpId ?? WEBAUTHN_CONFIG.RP_ID).copy(header, 0);
+    header[32] = flags;
+    header.writeUInt32BE(this.signCount, 33);
+
+    if (!options.attested) return header;
+
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(this.credentialId.length);
+    return Buffer.concat([
+      header,
+      Buffer.alloc(16),
+      idLength,
+      this.credentialId,
+      this.coseKey,
+    ]);
+  }
+
+  clientData(type: string, challenge: string): Buffer {
+    return Buffer.from(
+      JSON.stringify({
+        type,
+        challenge,
+        origin: WEBAUTHN_CONFIG.ORIGINS[0],
+        crossOrigin: false,
+      })
+    );
+  }
+
+  create(challenge: string) {
+    const attestationObject = encodeCbor(
+      new Map<string, unknown>([
+        ["fmt", "none"],
+        ["attStmt", new Map()],
+        [
+          "authData",
+          this.authenticatorData(FLAG_USER_PRESENT | FLAG_ATTESTED, {
+            attested: true,
+          }),
+        ],
+      ])
+    );
+
+    return {
+      id: b64url(this.credentialId),
+      rawId: b64url(this.credentialId),
+      type: "public-key" as const,
+      response: {
+        clientDataJSON: b64url(this.clientData("webauthn.create", challenge)),
+        attestationObject: b64url(attestationObject),
+        transports: ["internal"],
+      },
+    };
+  }
+
+  get(
+    challenge: string,
+    options: { rpId?: string; signCount?: number; tamper?: boolean } = {}
+  ) {
+    this.signCount = options.signCount ?? this.signCount + 1;
+    const authenticatorData = this.authenticatorData(
+      FLAG_USER_PRESENT | FLAG_USER_VERIFIED,
+      { rpId: options.rpId }
+    );
+    const clientDataJSON = this.clientData("webauthn.get", challenge);
+    const signature = sign(
+      "sha256",
+      Buffer.concat([authenticatorData, sha256(clientDataJSON)]),
+      this.privateKey
+    );
+    if (options.tamper) signature[signature.length - 1]! ^= 0x01;
+
+    return {
+      id: b64url(this.credentialId),
+      rawId: b64url(this.credentialId),
+      type: "public-key" as const,
+      response: {
+        clientDataJSON: b64url(clientDataJSON),
+        authenticatorData: b64url(authenticatorData),
+        signature: b64url(signature),
+        userHandle: b64url(Buffer.from("1")),
+      },
+    };
+  }
+}
+
+describe("PasskeyService with WebAuthn fixtures", () => {
+  let users: MemoryRepository<UserModel>;
+  let credentials: MemoryRepository<WebAuthnCredentialModel>;
+  let authenticator: VirtualAuthenticator;
+  let service: PasskeyService;
+  const loggedIn: Array<{ userId: string; userVerified?: boolean }> = [];
+
+  const authService = {
+    requireLoginSession: async () => ({ id: 7, device_id: "device-a" }),
+    loginAsUser: async (
+      user: UserModel,
+      _deviceToken?: string,
+      _ipAddress?: string,
+      userVerified?: boolean
+    ) => {
+      loggedIn.push({ userId: String(user.id), userVerified });
+      return { userId: String(user.id) } as any;
+    },
+  };
+
+  const register = async () => {
+    const { challenge } = await service.createRegistrationOptions("1");
+    return await service.register("1", {
+      name: "Laptop",
+      credential: authenticator.create(challenge),
+    });
+  };
+
+  const login = async (options: Parameters<VirtualAuthenticator["get"]>[1]) => {
+    const { challenge } = await service.createAuthenticationOptions("device");
+    return await service.login(
+      { credential: authenticator.get(challenge, options) },
+      "device",
+      "127.0.0.1"
+    );
+  };
+
+  beforeEach(async () => {
+    users = new MemoryRepository<UserModel>();
+    credentials = new MemoryRepository<WebAuthnCredentialModel>();
+    authenticator = new VirtualAuthenticator();
+    loggedIn.length = 0;
+    service = new PasskeyService(
+      credentials as any,
+      users as any,
+      new MemoryRepository() as any,
+      authService as any,
+      fakeAuditService as any,
+      new FakeCache() as any
+    );
+
+    await users.create({
+      user_name: "reader",
+      email: "reader@example.com",
+      is_deleted: false,
+    });
+  });
+
+  test("registers a passkey from a valid none attestation", async () => {
+    const passkey = await register();
+
+    expect(passkey.name).toBe("Laptop");
+    expect(credentials.rows[0]).toMatchObject({
+      credential_id: b64url(authenticator.credentialId),
+      algorithm: -7,
+      sign_count: 0,
+      transports: ["internal"],
+    });
+    expect(
+      parseAuthenticatorData(
+        authenticator.authenticatorData(FLAG_USER_PRESENT | FLAG_ATTESTED, {
+          attested: true,
+        })
+      ).attestedCredential?.aaguid
+    ).toBe("00000000-0000-0000-0000-000000000000");
+  });
+
+  test("logs in with a valid assertion and stores the new sign count", async () => {
+    await register();
+    await login({});
+
+    expect(loggedIn).toEqual([{ userId: "1", userVerified: true }]);
+    expect(credentials.rows[0]?.sign_count).toBe(1);
+  });
+
+  test("rejects an assertion for a different relying party", async () => {
+    await register();
+
+    await expect(login({ rpId: "evil.example.com" })).rejects.toMatchObject({
+      message: "auth.passkey.verification_failed",
+    });
+    expect(loggedIn).toHaveLength(0);
+  });
+
+  test("rejects an assertion with an invalid signature", async () => {
+    await register();
+
+    await expect(login({ tamper: true })).rejects.toMatchObject({
+      message: "auth.passkey.verification_failed",
+    });
+    expect(loggedIn).toHaveLength(0);
+  });
+
+  test("rejects a sign count that does not increase", async () => {
+    await register();
+    await login({ signCount: 5 });
+
+    await expect(login({ signCount: 5 })).rejects.toMatchObject({
+      message: "auth.passkey.sign_count_invalid",
+    });
+    await expect(login({ signCount: 3 })).rejects.toMatchObject({
+      message: "auth.passkey.sign_count_invalid",
+    });
+    expect(credentials.rows[0]?.sign_count).toBe(5);
+  });
+
+  test("accepts only one of two concurrent assertions with the same sign count", async () => {
+    await register();
+    const challenges = await Promise.all([
+      service.createAuthenticationOptions("device"),
+      service.createAuthenticationOptions("device"),
+    ]);
+    const assertions = challenges.map(({ challenge }) =>
+      authenticator.get(challenge, { signCount: 1 })
+    );
+
+    const results = await Promise.allSettled(
+      assertions.map((credential) =>
+        service.login({ credential }, "device", "127.0.0.1")
+      )
+    );
+
+    expect(results.map((result) => result.status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect(loggedIn).toHaveLength(1);
+  });
+});
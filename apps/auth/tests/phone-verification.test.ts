@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { PhoneVerificationService } from "../src/modules/v1/auth/phone-verification.service";
+import { SmsMessage } from "../src/sms";
+import {
+  FakeCache,
+  FakeRateLimiter,
+  FakeRedis,
+  MemoryUserRepository,
+} from "./fakes";
+
+describe("PhoneVerificationService", () => {
+  let users: MemoryUserRepository;
+  let service: PhoneVerificationService;
+  let sent: SmsMessage[];
+
+  // OTP nằm trong nội dung SMS cuối cùng
+  const lastCode = (): string => sent.at(-1)!.text.match(/\d{6}/)![0];
+
+  beforeEach(async () => {
+    users = new MemoryUserRepository();
+    sent = [];
+    service = new PhoneVerificationService(
+      users as any,
+      new FakeCache() as any,
+      new FakeRateLimiter() as any,
+      {
+        send: async (message: SmsMessage) => {
+          sent.push(message);
+        },
+      },
+      new FakeRedis() as any
+    );
+
+    await users.create({
+      user_name: "reader",
+      phone_number: "",
+      is_phone_verified: false,
+      is_deleted: false,
+    });
+    await service.attachPhone(1, "0912345678");
+  });
+
+  test("verifies the phone with the code that was sent", async () => {
+    await service.verifyOtp(1, lastCode());
+
+    expect(users.rows[0]).toMatchObject({
+      phone_number: "+84912345678",
+      is_phone_verified: true,
+    });
+  });
+
+  test("counts concurrent wrong codes atomically and drops the code", async () => {
+    const wrong = lastCode() === "000000" ? "111111" : "000000";
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 8 }, () => service.verifyOtp(1, wrong))
+    );
+    const messages = results.map(
+      (result) => (result as PromiseRejectedResult).reason.message
+    );
+
+    expect(
+      messages.filter((message) => message === "auth.verification.code_invalid")
+    ).toHaveLength(5);
+    await expect(service.verifyOtp(1, lastCode())).rejects.toMatchObject({
+      message: "auth.verification.code_expired",
+    });
+    expect(users.rows[0]?.is_phone_verified).toBe(false);
+  });
+
+  test("a new code starts a new attempt counter", async () => {
+    const wrong = lastCode() === "000000" ? "111111" : "000000";
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await expect(service.verifyOtp(1, wrong)).rejects.toMatchObject({
+        message: "auth.verification.code_invalid",
+      });
+    }
+
+    await service.resendOtp(1);
+    await service.verifyOtp(1, lastCode());
+
+    expect(users.rows[0]?.is_phone_verified).toBe(true);
+  });
+
+  test("keeps the current number until the new one is verified", async () => {
+    await users.update(1, {
+      phone_number: "+84911111111",
+      is_phone_verified: true,
+    });
+    await service.attachPhone(1, "0987654321");
+
+    expect(users.rows[0]).toMatchObject({
+      phone_number: "+84911111111",
+      is_phone_verified: true,
+    });
+
+    await service.resendOtp(1);
+    expect(sent.at(-1)?.to).toBe("+84987654321");
+
+    await service.verifyOtp(1, lastCode());
+    expect(users.rows[0]).toMatchObject({
+      phone_number: "+84987654321",
+      is_phone_verified: true,
+    });
+  });
+
+  test("rejects the code when another user verified the number first", async () => {
+    await users.create({
+      user_name: "other",
+      phone_number: "+84912345678",
+      is_phone_verified: true,
+      is_deleted: false,
+    });
+
+    await expect(service.verifyOtp(1, lastCode())).rejects.toMatchObject({
+      message: "auth.verification.phone_taken",
+    });
+    expect(users.rows[0]).toMatchObject({
+      phone_number: "",
+      is_phone_verified: false,
+    });
+  });
+});
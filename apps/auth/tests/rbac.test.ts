@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { PermissionModel } from "../src/database/models/permission.model";
+import { RolePermissionModel } from "../src/database/models/role-permission.model";
+import { RoleModel } from "../src/database/models/role.model";
+import { UserRoleModel } from "../src/database/models/user-role.model";
+import { RbacService } from "../src/modules/v1/rbac/rbac.service";
+import {
+  FakeCache,
+  FakeRedis,
+  MemoryRepository,
+  MemoryUserRepository,
+} from "./fakes";
+
+describe("RbacService system roles", () => {
+  let roles: MemoryRepository<RoleModel>;
+  let permissions: MemoryRepository<PermissionModel>;
+  let rolePermissions: MemoryRepository<RolePermissionModel>;
+  let userRoles: MemoryRepository<UserRoleModel>;
+  let users: MemoryUserRepository;
+  let service: RbacService;
+
+  const roleId = (name: string): string =>
+    String(roles.rows.find((role) => role.name === name)!.id);
+
+  beforeEach(async () => {
+    roles = new MemoryRepository<RoleModel>();
+    permissions = new MemoryRepository<PermissionModel>();
+    rolePermissions = new MemoryRepository<RolePermissionModel>();
+    userRoles = new MemoryRepository<UserRoleModel>();
+    users = new MemoryUserRepository();
+    service = new RbacService(
+      roles as any,
+      permissions as any,
+      rolePermissions as any,
+      userRoles as any,
+      users as any,
+      new MemoryRepository() as any,
+      { findActiveUserSessions: async () => [] } as any,
+      new FakeCache() as any,
+      new FakeRedis() as any
+    );
+
+    for (const email of ["admin@example.com", "reader@example.com"]) {
+      await users.create({
+        user_name: email.split("@")[0],
+        email,
+        is_deleted: false,
+      });
+    }
+  });
+
+  test("seeds the system roles and permissions once", async () => {
+    await service.seedSystemRoles();
+    await service.seedSystemRoles();
+
+    expect(roles.rows.map((role) => role.name)).toEqual([
+      "GUEST",
+      "USER",
+      "MODERATOR",
+      "ADMIN",
+      "SUPER_ADMIN",
+    ]);
+    expect(roles.rows.every((role) => role.is_system)).toBe(true);
+    expect(permissions.rows.map((permission) => permission.name)).toEqual([
+      "rbac:manage",
+      "audit:read",
+    ]);
+    expect(await service.resolveRoleAccess(["SUPER_ADMIN"])).toEqual({
+      roles: ["SUPER_ADMIN", "ADMIN", "MODERATOR", "USER"],
+      permissions: ["audit:read", "rbac:manage"],
+    });
+  });
+
+  test("assigns the default role to a new user after seeding", async () => {
+    await service.seedSystemRoles();
+    await service.assignDefaultRole(2);
+
+    expect(userRoles.rows).toMatchObject([
+      { user_id: 2, role_id: Number(roleId("USER")) },
+    ]);
+  });
+
+  test("bootstraps the first admin only while nobody is super admin", async () => {
+    await service.seedSystemRoles();
+
+    expect(await service.bootstrapAdmin("Admin@Example.com")).toBe(true);
+    expect(await service.bootstrapAdmin("reader@example.com")).toBe(false);
+
+    expect((await service.resolveUserAccess(1)).permissions).toContain(
+      "rbac:manage"
+    );
+    expect((await service.resolveUserAccess(2)).permissions).toEqual([]);
+  });
+
+  test("does not change permissions or delete a system role", async () => {
+    await service.seedSystemRoles();
+
+    await expect(
+      service.setRolePermissions(roleId("SUPER_ADMIN"), [], 1)
+    ).rejects.toMatchObject({ message: "auth.rbac.system_protected" });
+    await expect(service.deleteRole(roleId("ADMIN"), 1)).rejects.toMatchObject({
+      message: "auth.rbac.system_protected",
+    });
+    expect(
+      (await service.resolveRoleAccess(["SUPER_ADMIN"])).permissions
+    ).toEqual(["audit:read", "rbac:manage"]);
+  });
+
+  test("replaces the permissions of a custom role", async () => {
+    await service.seedSystemRoles();
+    const role = await service.createRole(
+      { name: "AUDITOR", parentId: roleId("USER") },
+      1
+    );
+
+    const updated = await service.setRolePermissions(
+      role.id,
+      ["audit:read"],
+      1
+    );
+
+    expect(updated.permissions).toEqual(["audit:read"]);
+    expect(
+      rolePermissions.rows.filter((row) => String(row.role_id) === role.id)
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,277 @@
+import { describe, expect, test } from "bun:test";
+import type { DeviceInfo } from "@repo/types";
+import { SessionModel } from "../src/database/models/session.model";
+import { RiskEngine } from "../src/modules/v1/auth/risk.engine";
+import {
+  headlessRule,
+  impossibleHardwareRule,
+  ipChurnRule,
+  platformMismatchRule,
+  requestVelocityRule,
+  RiskContext,
+  RiskRule,
+  userAgentMismatchRule,
+} from "../src/modules/v1/auth/risk.rules";
+
+const DESKTOP_UA =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0 Safari/537.36";
+const NOW = 1_700_000_000;
+
+// Device desktop bình thường, không kích hoạt rule nào
+const desktopDevice = (): DeviceInfo => ({
+  screen: {
+    width: 1920,
+    height: 1080,
+    availWidth: 1920,
+    availHeight: 1040,
+    innerWidth: 1600,
+    innerHeight: 900,
+    devicePixelRatio: 1,
+    orientation: "landscape-primary",
+    colorDepth: 24,
+    pixelDepth: 24,
+  },
+  device: {
+    type: "desktop",
+    isMobile: false,
+    isTablet: false,
+    isDesktop: true,
+    isTouchDevice: false,
+    isRetina: false,
+  },
+  os: {
+    name: "Windows",
+    version: "10",
+    platform: "Win32",
+    architecture: "x86",
+  },
+  browser: {
+    name: "Chrome",
+    version: "128",
+    userAgent: DESKTOP_UA,
+    language: "vi-VN",
+    languages: ["vi-VN", "en-US"],
+    cookieEnabled: true,
+    onLine: true,
+  },
+  hardware: { concurrency: 8, memory: 8, maxTouchPoints: 0, vibration: false },
+  ip: { public: "203.0.113.7" },
+  features: {
+    webGL: true,
+    webGL2: true,
+    canvas: true,
+    localStorage: true,
+    sessionStorage: true,
+    indexedDB: true,
+    webWorkers: true,
+    serviceWorkers: true,
+    notifications: true,
+    camera: false,
+    microphone: false,
+  },
+});
+
+const contextFor = (overrides: Partial<RiskContext> = {}): RiskContext => ({
+  deviceInfo: desktopDevice(),
+  userAgent: DESKTOP_UA,
+  ipAddress: "203.0.113.7",
+  now: NOW,
+  ...overrides,
+});
+
+// Device desktop với một số trường bị sửa
+const withDevice = (patch: (device: DeviceInfo) => void): RiskContext => {
+  const deviceInfo = desktopDevice();
+  patch(deviceInfo);
+  return contextFor({ deviceInfo });
+};
+
+describe("risk rules", () => {
+  test("a consistent desktop device triggers no rule", () => {
+    for (const rule of [
+      userAgentMismatchRule,
+      platformMismatchRule,
+      headlessRule,
+      impossibleHardwareRule,
+      ipChurnRule,
+      requestVelocityRule,
+    ]) {
+      expect(rule.evaluate(contextFor())).toBeNull();
+    }
+  });
+
+  test("userAgentMismatchRule flags a header that differs from the reported agent", () => {
+    expect(
+      userAgentMismatchRule.evaluate(contextFor({ userAgent: "curl/8.0" }))
+    ).toMatchObject({ score: 30 });
+    expect(
+      userAgentMismatchRule.evaluate(contextFor({ userAgent: "" }))
+    ).toBeNull();
+  });
+
+  test("platformMismatchRule flags OS and touch inconsistencies", () => {
+    expect(
+      platformMismatchRule.evaluate(
+        withDevice((device) => {
+          device.os.platform = "Linux x86_64";
+        })
+      )
+    ).toMatchObject({ score: 25 });
+
+    expect(
+      platformMismatchRule.evaluate(
+        withDevice((device) => {
+          device.browser.userAgent =
+            "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148";
+          device.os.platform = "Linux x86_64";
+        })
+      )
+    ).toMatchObject({
+      score: 45,
+      reasons: [
+        "macOS user agent on non-Apple platform",
+        "Mobile user agent without touch support",
+      ],
+    });
+  });
+
+  test("headlessRule adds up automation signals", () => {
+    const result = headlessRule.evaluate(
+      withDevice((device) => {
+        device.browser.userAgent = "Mozilla/5.0 HeadlessChrome/128.0";
+        device.browser.languages = [];
+        device.features.canvas = false;
+        device.features.webGL = false;
+        device.features.localStorage = false;
+      })
+    );
+
+    expect(result).toMatchObject({ score: 100 });
+    expect(result?.reasons).toHaveLength(4);
+  });
+
+  test("impossibleHardwareRule flags values no real device reports", () => {
+    expect(
+      impossibleHardwareRule.evaluate(
+        withDevice((device) => {
+          device.screen.width = 0;
+        })
+      )
+    ).toMatchObject({ score: 30 });
+    expect(
+      impossibleHardwareRule.evaluate(
+        withDevice((device) => {
+          device.screen.availHeight = 2000;
+          device.hardware.concurrency = 512;
+          device.hardware.memory = 64;
+          device.screen.devicePixelRatio = 0;
+        })
+      )
+    ).toMatchObject({ score: 70 });
+  });
+
+  test("ipChurnRule flags many IPs and a mismatched reported IP", () => {
+    expect(
+      ipChurnRule.evaluate(
+        contextFor({
+          knownIpAddresses: ["10.0.0.1", "10.0.0.2", "10.0.0.3", "10.0.0.4"],
+        })
+      )
+    ).toBeNull();
+    expect(
+      ipChurnRule.evaluate(
+        contextFor({
+          knownIpAddresses: [
+            "10.0.0.1",
+            "10.0.0.2",
+            "10.0.0.3",
+            "10.0.0.4",
+            "10.0.0.5",
+          ],
+        })
+      )
+    ).toMatchObject({ score: 20 });
+    expect(
+      ipChurnRule.evaluate(contextFor({ ipAddress: "198.51.100.1" }))
+    ).toMatchObject({ score: 15 });
+    expect(
+      ipChurnRule.evaluate(contextFor({ ipAddress: "unknown" }))
+    ).toBeNull();
+  });
+
+  test("requestVelocityRule scores requests per minute of the session", () => {
+    const session = (requestCount: number) =>
+      ({
+        created_at: NOW - 600,
+        request_count: requestCount,
+      }) as unknown as SessionModel;
+
+    expect(
+      requestVelocityRule.evaluate(contextFor({ session: session(100) }))
+    ).toBeNull();
+    expect(
+      requestVelocityRule.evaluate(contextFor({ session: session(150) }))
+    ).toMatchObject({ score: 15 });
+    expect(
+      requestVelocityRule.evaluate(contextFor({ session: session(400) }))
+    ).toMatchObject({ score: 40 });
+  });
+});
+
+describe("RiskEngine", () => {
+  const fixedRule = (id: string, score: number): RiskRule => ({
+    id,
+    evaluate: () => ({ score, reasons: [id] }),
+  });
+
+  test("sums findings, caps the score at 100 and maps it to a level", () => {
+    const engine = new RiskEngine(
+      [fixedRule("a", 30), fixedRule("b", 0), fixedRule("c", 25)],
+      { review: 50, block: 80 }
+    );
+    const assessment = engine.evaluate(contextFor());
+
+    expect(assessment).toMatchObject({
+      score: 55,
+      level: "review",
+      evaluatedAt: NOW,
+    });
+    expect(assessment.findings.map((finding) => finding.rule)).toEqual([
+      "a",
+      "c",
+    ]);
+    expect(engine.shouldBlock(assessment)).toBe(false);
+
+    const blocked = new RiskEngine([fixedRule("a", 70), fixedRule("b", 70)], {
+      review: 50,
+      block: 80,
+    }).evaluate(contextFor());
+    expect(blocked).toMatchObject({ score: 100, level: "block" });
+  });
+
+  test("blocks an automated device with the default rules", () => {
+    const engine = new RiskEngine(undefined, { review: 50, block: 80 });
+    const context = withDevice((device) => {
+      device.browser.userAgent = "Mozilla/5.0 HeadlessChrome/128.0";
+      device.browser.languages = [];
+    });
+
+    expect(engine.evaluate(contextFor()).level).toBe("low");
+    expect(engine.shouldBlock(engine.evaluate(context))).toBe(true);
+  });
+
+  test("fingerprint ignores volatile fields but changes with stable ones", () => {
+    const engine = new RiskEngine();
+    const base = engine.generateFingerprint(desktopDevice());
+
+    const resized = desktopDevice();
+    resized.screen.innerWidth = 800;
+    resized.browser.version = "129";
+    resized.ip = { public: "198.51.100.1" };
+    expect(engine.generateFingerprint(resized)).toBe(base);
+
+    const otherScreen = desktopDevice();
+    otherScreen.screen.width = 2560;
+    expect(engine.generateFingerprint(otherScreen)).not.toBe(base);
+  });
+});
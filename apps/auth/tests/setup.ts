@@ -0,0 +1,8 @@
+// Test setup cho auth service: env tối thiểu để import configs, database và redis.
+// Connection chỉ mở khi có query, test dùng fake repository/cache nên không cần PostgreSQL/Redis
+process.env.CONFIG_POSTGRESQL_USER_HOST ??= "localhost";
+process.env.CONFIG_POSTGRESQL_USER_PORT ??= "5432";
+process.env.CONFIG_POSTGRESQL_USER_DBNAME ??= "auth_test";
+process.env.CONFIG_POSTGRESQL_USER_USERNAME ??= "auth_test";
+process.env.CONFIG_POSTGRESQL_USER_PASSWORD ??= "auth_test";
+process.env.MFA_ENCRYPT_SECRET_KEY ??= "auth-test-mfa-secret";
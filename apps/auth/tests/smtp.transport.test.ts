@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { AddressInfo, createServer, Server } from "node:net";
+import { SmtpOptions, SmtpTransport } from "../src/mail/smtp.transport";
+
+/**
+ * SMTP server plain text tối giản, không quảng bá STARTTLS (như khi bị downgrade)
+ */
+const startPlainSmtpServer = async (commands: string[]): Promise<Server> => {
+  const server = createServer((socket) => {
+    let inData = false;
+    let buffer = "";
+
+    socket.setEncoding("utf8");
+    socket.write("220 test ESMTP\r\n");
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+
+      let index: number;
+      while ((index = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 queued\r\n");
+          }
+          continue;
+        }
+
+        commands.push(line);
+        const verb = line.split(" ")[0]!.toUpperCase();
+        if (verb === "EHLO") socket.write("250-test\r\n250 AUTH PLAIN\r\n");
+        else if (verb === "AUTH") socket.write("235 ok\r\n");
+        else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 go\r\n");
+        } else if (verb === "QUIT") socket.end("221 bye\r\n");
+        else socket.write("250 ok\r\n");
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return server;
+};
+
+describe("SmtpTransport", () => {
+  let server: Server | undefined;
+
+  afterEach(() => {
+    server?.close();
+    server = undefined;
+  });
+
+  const send = async (commands: string[], options: Partial<SmtpOptions>) => {
+    server = await startPlainSmtpServer(commands);
+    const transport = new SmtpTransport({
+      host: "127.0.0.1",
+      port: (server.address() as AddressInfo).port,
+      secure: false,
+      from: "Wibutime <no-reply@wibutime.com>",
+      timeout: 5000,
+      ...options,
+    });
+
+    await transport.send({
+      to: "user@example.com",
+      subject: "Hello",
+      text: "Hello",
+    });
+  };
+
+  test("refuses to authenticate when the server does not offer STARTTLS", async () => {
+    const commands: string[] = [];
+
+    await expect(
+      send(commands, { user: "mailer", password: "secret" })
+    ).rejects.toThrow("refusing to send credentials without TLS");
+    expect(commands.some((line) => line.startsWith("AUTH"))).toBe(false);
+  });
+
+  test("authenticates over plain text only when explicitly allowed", async () => {
+    const commands: string[] = [];
+
+    await send(commands, {
+      user: "mailer",
+      password: "secret",
+      allowInsecureAuth: true,
+    });
+    expect(commands.some((line) => line.startsWith("AUTH PLAIN"))).toBe(true);
+  });
+
+  test("sends without credentials on a plain connection", async () => {
+    const commands: string[] = [];
+
+    await send(commands, {});
+    expect(commands).toContain("MAIL FROM:<no-reply@wibutime.com>");
+  });
+});
@@ -0,0 +1,267 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { getCurrentUnixTimestamp } from "@repo/utils";
+import { MfaBackupCodeModel } from "../src/database/models/mfa-backup-code.model";
+import { MfaModel } from "../src/database/models/mfa.model";
+import {
+  base32Decode,
+  base32Encode,
+  generateTotp,
+  getTotpStep,
+  verifyTotp,
+} from "../src/modules/v1/auth/totp";
+import { TwoFactorService } from "../src/modules/v1/auth/two-factor.service";
+import {
+  FakeCache,
+  FakeRateLimiter,
+  FakeRedis,
+  MemoryRepository,
+  fakeAuditService,
+} from "./fakes";
+
+// Secret của test vector RFC 6238 (ASCII "12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("totp", () => {
+  test("matches RFC 6238 SHA-1 test vectors", () => {
+    const vectors: Array<[number, string]> = [
+      [59, "94287082"],
+      [1111111109, "07081804"],
+      [1111111111, "14050471"],
+      [1234567890, "89005924"],
+      [2000000000, "69279037"],
+      [20000000000, "65353130"],
+    ];
+
+    for (const [time, code] of vectors) {
+      expect(generateTotp(RFC_SECRET, time, { digits: 8 })).toBe(code);
+    }
+  });
+
+  test("round-trips base32 and ignores padding, dashes and case", () => {
+    const bytes = Buffer.from("wibutime-2fa");
+
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(base32Decode("gezd-gnbv==")).toEqual(base32Decode("GEZDGNBV"));
+  });
+
+  test("accepts one step of clock skew and returns the matched step", () => {
+    const time = 1_700_000_000;
+    const step = getTotpStep(time);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, time), time)).toBe(
+      step
+    );
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, time - 30), time)
+    ).toBe(step - 1);
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, time + 30), time)
+    ).toBe(step + 1);
+  });
+
+  test("rejects codes outside the window or with a wrong format", () => {
+    const time = 1_700_000_000;
+
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, time - 60), time)
+    ).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "12345", time)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef", time)).toBeNull();
+  });
+});
+
+describe("TwoFactorService", () => {
+  const userId = 42;
+  const sessionId = 7;
+
+  let mfaRepo: MemoryRepository<MfaModel>;
+  let backupCodeRepo: MemoryRepository<MfaBackupCodeModel>;
+  let cache: FakeCache;
+  let redis: FakeRedis;
+  let limiter: FakeRateLimiter;
+  let service: TwoFactorService;
+
+  const codeAt = (secret: string, offset: number = 0) =>
+    generateTotp(secret, getCurrentUnixTimestamp() + offset);
+
+  const challenge = async () => {
+    const { challengeToken } = await service.createChallenge(userId, sessionId);
+    return challengeToken;
+  };
+
+  // Bật 2FA, trả về secret và backup codes
+  const enableTwoFactor = async () => {
+    const { secret } = await service.setup(userId, "user@example.com");
+    const { backupCodes } = await service.enable(userId, codeAt(secret));
+
+    return { secret, backupCodes };
+  };
+
+  beforeEach(() => {
+    mfaRepo = new MemoryRepository<MfaModel>();
+    backupCodeRepo = new MemoryRepository<MfaBackupCodeModel>();
+    cache = new FakeCache();
+    redis = new FakeRedis();
+    limiter = new FakeRateLimiter();
+    service = new TwoFactorService(
+      mfaRepo as any,
+      backupCodeRepo as any,
+      cache as any,
+      fakeAuditService as any,
+      redis as any,
+      limiter as any
+    );
+  });
+
+  test("enables TOTP and stores only hashed backup codes", async () => {
+    const { backupCodes } = await enableTwoFactor();
+
+    expect(await service.isEnabled(userId)).toBe(true);
+    expect(backupCodes).toHaveLength(10);
+    expect(backupCodes[0]).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/);
+    expect(backupCodeRepo.rows.map((row) => row.code_hash)).not.toContain(
+      backupCodes[0]!.replace("-", "")
+    );
+  });
+
+  test("does not accept the same TOTP step twice", async () => {
+    const { secret } = await enableTwoFactor();
+    const code = codeAt(secret, 30);
+
+    expect(
+      await service.verifyChallenge(await challenge(), sessionId, code)
+    ).toBe(String(userId));
+    await expect(
+      service.verifyChallenge(await challenge(), sessionId, code)
+    ).rejects.toMatchObject({ message: "auth.twoFactor.code_invalid" });
+  });
+
+  test("accepts a backup code only once", async () => {
+    const { backupCodes } = await enableTwoFactor();
+    const code = backupCodes[3]!.toLowerCase();
+
+    expect(
+      await service.verifyChallenge(await challenge(), sessionId, code)
+    ).toBe(String(userId));
+    await expect(
+      service.verifyChallenge(await challenge(), sessionId, code)
+    ).rejects.toMatchObject({ message: "auth.twoFactor.code_invalid" });
+  });
+
+  test("only accepts the challenge on the session that created it", async () => {
+    const { secret } = await enableTwoFactor();
+
+    await expect(
+      service.verifyChallenge(
+        await challenge(),
+        sessionId + 1,
+        codeAt(secret, 30)
+      )
+    ).rejects.toMatchObject({ message: "auth.twoFactor.code_expired" });
+  });
+
+  test("drops the challenge after the maximum number of attempts", async () => {
+    const { secret } = await enableTwoFactor();
+    const token = await challenge();
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await expect(
+        service.verifyChallenge(token, sessionId, "000000")
+      ).rejects.toMatchObject({ message: "auth.twoFactor.code_invalid" });
+    }
+
+    await expect(
+      service.verifyChallenge(token, sessionId, codeAt(secret, 30))
+    ).rejects.toMatchObject({ message: "auth.login.too_many_attempts" });
+    await expect(
+      service.verifyChallenge(token, sessionId, codeAt(secret, 30))
+    ).rejects.toMatchObject({ message: "auth.twoFactor.code_expired" });
+  });
+
+  test("counts concurrent attempts on one challenge atomically", async () => {
+    await enableTwoFactor();
+    const token = await challenge();
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 8 }, () =>
+        service.verifyChallenge(token, sessionId, "000000")
+      )
+    );
+    const messages = results.map(
+      (result) => (result as PromiseRejectedResult).reason.message
+    );
+
+    expect(
+      messages.filter((message) => message === "auth.twoFactor.code_invalid")
+    ).toHaveLength(5);
+  });
+
+  test("caps attempts per user across new challenges", async () => {
+    const { secret } = await enableTwoFactor();
+
+    for (let attempt = 0; attempt < 10; attempt++) {
+      await expect(
+        service.verifyChallenge(await challenge(), sessionId, "000000")
+      ).rejects.toMatchObject({ message: "auth.twoFactor.code_invalid" });
+    }
+
+    await expect(
+      service.verifyChallenge(await challenge(), sessionId, codeAt(secret, 30))
+    ).rejects.toMatchObject({ message: "auth.login.too_many_attempts" });
+  });
+
+  test("resets the per-user counter after a successful challenge", async () => {
+    const { secret } = await enableTwoFactor();
+
+    for (let attempt = 0; attempt < 9; attempt++) {
+      await expect(
+        service.verifyChallenge(await challenge(), sessionId, "000000")
+      ).rejects.toMatchObject({ message: "auth.twoFactor.code_invalid" });
+    }
+    await service.verifyChallenge(
+      await challenge(),
+      sessionId,
+      codeAt(secret, 30)
+    );
+
+    await expect(
+      service.verifyChallenge(await challenge(), sessionId, "000000")
+    ).rejects.toMatchObject({ message: "auth.twoFactor.code_invalid" });
+  });
+
+  test("caps wrong codes when disabling 2FA with an access token", async () => {
+    const { secret } = await enableTwoFactor();
+
+    for (let attempt = 0; attempt < 10; attempt++) {
+      await expect(service.disable(userId, "000000")).rejects.toMatchObject({
+        message: "auth.twoFactor.code_invalid",
+      });
+    }
+
+    await expect(
+      service.disable(userId, codeAt(secret, 30))
+    ).rejects.toMatchObject({ message: "auth.login.too_many_attempts" });
+    expect(await service.isEnabled(userId)).toBe(true);
+  });
+
+  test("shares the per-user counter between enable, regenerate and login", async () => {
+    const { secret } = await service.setup(userId, "user@example.com");
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await expect(service.enable(userId, "000000")).rejects.toMatchObject({
+        message: "auth.twoFactor.code_invalid",
+      });
+    }
+    await service.enable(userId, codeAt(secret));
+
+    for (let attempt = 0; attempt < 10; attempt++) {
+      await expect(
+        service.regenerateBackupCodes(userId, "000000")
+      ).rejects.toMatchObject({ message: "auth.twoFactor.code_invalid" });
+    }
+
+    await expect(
+      service.verifyChallenge(await challenge(), sessionId, codeAt(secret, 30))
+    ).rejects.toMatchObject({ message: "auth.login.too_many_attempts" });
+  });
+});
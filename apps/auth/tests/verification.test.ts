@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { UserModel } from "../src/database/models/user.model";
+import { MailMessage } from "../src/mail/mail.transport";
+import { VerificationService } from "../src/modules/v1/auth/verification.service";
+import { FakeCache, MemoryUserRepository } from "./fakes";
+
+const PASSWORD = "correct horse battery staple";
+
+describe("VerificationService", () => {
+  let users: MemoryUserRepository;
+  let mails: MailMessage[];
+  let signedOut: Array<{ sessions: unknown[]; reason: string }>;
+  let service: VerificationService;
+  let user: UserModel & { id: number };
+
+  // Token nằm trong link của mail gửi gần nhất
+  const lastToken = (): string =>
+    new URL(mails.at(-1)!.text.match(/https?:\/\/\S+/)![0]).searchParams.get(
+      "token"
+    )!;
+
+  beforeEach(async () => {
+    users = new MemoryUserRepository();
+    mails = [];
+    signedOut = [];
+    service = new VerificationService(
+      users as any,
+      undefined,
+      {
+        findActiveUserSessions: async () => [{ id: 1 }, { id: 2 }],
+        signOut: async (sessions: unknown[], reason: string) => {
+          signedOut.push({ sessions, reason });
+          return sessions.length;
+        },
+      } as any,
+      new FakeCache() as any,
+      {
+        send: async (message: MailMessage) => {
+          mails.push(message);
+        },
+      },
+      {
+        resolveRoleAccess: async () => ({ roles: ["GUEST"], permissions: [] }),
+      } as any
+    );
+
+    user = await users.create({
+      user_name: "reader",
+      email: "reader@example.com",
+      password: await Bun.password.hash(PASSWORD),
+      metadata: {},
+      is_email_verified: false,
+      is_active: true,
+      is_deleted: false,
+    });
+  });
+
+  describe("email verification", () => {
+    test("verifies the email once per link", async () => {
+      await service.requestEmailVerification(user.id);
+      const token = lastToken();
+
+      await service.confirmEmailVerification(token);
+
+      expect(users.rows[0]!.is_email_verified).toBe(true);
+      await expect(
+        service.confirmEmailVerification(token)
+      ).rejects.toMatchObject({ messageKey: "auth.verification.code_invalid" });
+    });
+
+    test("invalidates the previous link when a new one is requested", async () => {
+      await service.requestEmailVerification(user.id);
+      const first = lastToken();
+      await service.requestEmailVerification(user.id);
+
+      await expect(
+        service.confirmEmailVerification(first)
+      ).rejects.toMatchObject({ messageKey: "auth.verification.code_invalid" });
+      await service.confirmEmailVerification(lastToken());
+      expect(users.rows[0]!.is_email_verified).toBe(true);
+    });
+
+    test("rejects a link sent to a previous email address", async () => {
+      await service.requestEmailVerification(user.id);
+      await users.update(user.id, { email: "new@example.com" });
+
+      await expect(
+        service.confirmEmailVerification(lastToken())
+      ).rejects.toMatchObject({ messageKey: "auth.verification.code_invalid" });
+    });
+  });
+
+  describe("password reset", () => {
+    test("does not reveal whether an email is registered", async () => {
+      await service.requestPasswordReset("unknown@example.com");
+
+      expect(mails).toHaveLength(0);
+    });
+
+    test("sets the new password, signs out every session and burns the link", async () => {
+      await service.requestPasswordReset(" Reader@Example.com");
+      const token = lastToken();
+
+      expect(await service.resetPassword(token, "new password 123")).toBe(2);
+
+      const [updated] = users.rows;
+      expect(
+        await Bun.password.verify("new password 123", updated!.password)
+      ).toBe(true);
+      expect(updated!.metadata).toEqual({ has_password: true });
+      expect(signedOut).toEqual([
+        { sessions: [{ id: 1 }, { id: 2 }], reason: "password_reset" },
+      ]);
+      await expect(
+        service.resetPassword(token, "another password 456")
+      ).rejects.toMatchObject({ messageKey: "auth.verification.code_invalid" });
+    });
+
+    test("rejects a link issued before the password changed", async () => {
+      await service.requestPasswordReset(user.email);
+      await users.update(user.id, {
+        password: await Bun.password.hash("changed elsewhere"),
+      });
+
+      await expect(
+        service.resetPassword(lastToken(), "new password 123")
+      ).rejects.toMatchObject({ messageKey: "auth.verification.code_invalid" });
+      expect(signedOut).toHaveLength(0);
+    });
+
+    test("keeps the link usable when the new password equals the old one", async () => {
+      await service.requestPasswordReset(user.email);
+      const token = lastToken();
+
+      await expect(
+        service.resetPassword(token, PASSWORD)
+      ).rejects.toMatchObject({ messageKey: "auth.password.must_differ" });
+      expect(await service.resetPassword(token, "new password 123")).toBe(2);
+    });
+  });
+
+  test("does not accept a token issued for another purpose", async () => {
+    await service.requestPasswordReset(user.email);
+
+    await expect(
+      service.confirmEmailVerification(lastToken())
+    ).rejects.toMatchObject({ messageKey: "auth.verification.code_invalid" });
+  });
+});
@@ -1,19 +1,272 @@
+import { SERVICE_ID } from "@repo/types";
+import { AuthApiConfig } from "@repo/utils";
+
+/**
+ * Metadata của một route (cùng dạng AuthApiConfig.ROUTES)
+ */
+export interface ApiRouteDefinition {
+  id: string;
+  path: string;
+  method: string;
+  security: string;
+  roles: readonly string[];
+  permissions: readonly string[];
+}
+
+/**
+ * Bảng route của một service để gateway kiểm tra security/roles/permissions.
+ * Path thực tế có dạng /api/{version}{prefix}{route.path}
+ */
+export interface ServiceRouteConfig {
+  prefix: string;
+  routes: Record<string, ApiRouteDefinition>;
+  // Path không có trong routes nhưng vẫn được proxy mà không cần token
+  publicPaths: string[];
+}
+
+export type LoadBalancingStrategy = "round_robin" | "least_connections";
+
+export interface ServiceInstanceConfig {
+  host: string;
+  port: string | number;
+}
+
+export interface ServiceConfig {
+  name: string;
+  instances: ServiceInstanceConfig[];
+  strategy: LoadBalancingStrategy;
+  // Path dùng cho active health check, response < 500 được coi là healthy
+  healthCheckPath: string;
+  // Thời gian chờ response headers của service (ms), không giới hạn thời gian stream body
+  timeoutMs: number;
+  // Số lần retry tối đa cho request idempotent không có body
+  maxRetries: number;
+  // Service không khai báo routes thì được proxy thẳng, không kiểm tra token
+  routes?: ServiceRouteConfig;
+}
+
+/**
+ * Đọc danh sách instance từ env dạng "host1:port1,host2:port2",
+ * không có thì dùng một instance host/port mặc định
+ */
+function parseInstances(
+  value: string | undefined,
+  fallback: ServiceInstanceConfig
+): ServiceInstanceConfig[] {
+  const instances = (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => {
+      const separator = item.lastIndexOf(":");
+      return {
+        host: item.slice(0, separator),
+        port: Number(item.slice(separator + 1)),
+      };
+    });
+
+  return instances.length > 0 ? instances : [fallback];
+}
+
 export const SERVICE_CONFIG = {
   SERVICE_NAME: "gateway",
   SERVICE_PORT: process.env.SERVICE_PORT ?? 3100,
   SERVICE_GRPC_PORT: process.env.SERVICE_GRPC_PORT ?? 31000,
+  // Số giây tối đa một kết nối không có dữ liệu (Bun giới hạn tối đa 255)
+  IDLE_TIMEOUT: Number(process.env.SERVICE_IDLE_TIMEOUT ?? 120),
 
   // Service mapping cho reverse proxy
   SERVICES: {
-    "3101": {
+    [SERVICE_ID.AUTH]: {
       name: "auth-service",
-      host: process.env.AUTH_SERVICE_HOST ?? "localhost",
-      port: process.env.AUTH_SERVICE_PORT ?? 3101,
+      instances: parseInstances(process.env.AUTH_SERVICE_INSTANCES, {
+        host: process.env.AUTH_SERVICE_HOST ?? "localhost",
+        port: process.env.AUTH_SERVICE_PORT ?? 3101,
+      }),
+      strategy: (process.env.AUTH_SERVICE_LB_STRATEGY ??
+        "round_robin") as LoadBalancingStrategy,
+      // Auth service chưa có endpoint /health riêng
+      healthCheckPath:
+        process.env.AUTH_SERVICE_HEALTH_PATH ?? "/.well-known/jwks.json",
+      timeoutMs: Number(process.env.AUTH_SERVICE_TIMEOUT_MS ?? 10000),
+      maxRetries: Number(process.env.AUTH_SERVICE_MAX_RETRIES ?? 2),
+      routes: {
+        prefix: AuthApiConfig.PREFIX,
+        routes: AuthApiConfig.ROUTES,
+        publicPaths: ["/.well-known/"],
+      },
     },
-    "3102": {
+    [SERVICE_ID.NOVEL]: {
       name: "novel-service",
-      host: process.env.NOVEL_SERVICE_HOST ?? "localhost",
-      port: process.env.NOVEL_SERVICE_PORT ?? 3102,
+      instances: parseInstances(process.env.NOVEL_SERVICE_INSTANCES, {
+        host: process.env.NOVEL_SERVICE_HOST ?? "localhost",
+        port: process.env.NOVEL_SERVICE_PORT ?? 3102,
+      }),
+      strategy: (process.env.NOVEL_SERVICE_LB_STRATEGY ??
+        "round_robin") as LoadBalancingStrategy,
+      healthCheckPath: process.env.NOVEL_SERVICE_HEALTH_PATH ?? "/health",
+      timeoutMs: Number(process.env.NOVEL_SERVICE_TIMEOUT_MS ?? 15000),
+      maxRetries: Number(process.env.NOVEL_SERVICE_MAX_RETRIES ?? 2),
+    },
+  } as Record<string, ServiceConfig>,
+};
+
+export const REGISTRY_CONFIG = {
+  HEALTH_CHECK_INTERVAL_MS: Number(
+    process.env.HEALTH_CHECK_INTERVAL_MS ?? 10000
+  ),
+  HEALTH_CHECK_TIMEOUT_MS: Number(process.env.HEALTH_CHECK_TIMEOUT_MS ?? 2000),
+  // Số lần health check thất bại liên tiếp để loại instance
+  UNHEALTHY_THRESHOLD: Number(
+    process.env.HEALTH_CHECK_UNHEALTHY_THRESHOLD ?? 3
+  ),
+  // Số lần health check thành công liên tiếp để nhận lại instance
+  HEALTHY_THRESHOLD: Number(process.env.HEALTH_CHECK_HEALTHY_THRESHOLD ?? 2),
+  // Số request proxy lỗi liên tiếp (lỗi kết nối, 502/503/504) để loại instance
+  PASSIVE_FAILURE_THRESHOLD: Number(process.env.PASSIVE_FAILURE_THRESHOLD ?? 5),
+  // Instance bị loại không được health check nhận lại trước thời gian này
+  EJECTION_DURATION_MS: Number(process.env.EJECTION_DURATION_MS ?? 30000),
+};
+
+export const RESILIENCE_CONFIG = {
+  // Backoff giữa các lần retry: ngẫu nhiên trong [0, min(MAX, BASE * 2^attempt)]
+  RETRY_BASE_DELAY_MS: Number(process.env.RETRY_BASE_DELAY_MS ?? 100),
+  RETRY_MAX_DELAY_MS: Number(process.env.RETRY_MAX_DELAY_MS ?? 2000),
+  // Số request lỗi liên tiếp để mở circuit breaker của service
+  BREAKER_FAILURE_THRESHOLD: Number(process.env.BREAKER_FAILURE_THRESHOLD ?? 5),
+  // Thời gian breaker mở trước khi chuyển sang half-open
+  BREAKER_OPEN_DURATION_MS: Number(
+    process.env.BREAKER_OPEN_DURATION_MS ?? 30000
+  ),
+  // Số request thử đồng thời khi half-open
+  BREAKER_HALF_OPEN_MAX_REQUESTS: Number(
+    process.env.BREAKER_HALF_OPEN_MAX_REQUESTS ?? 1
+  ),
+};
+
+export const AUTH_CONFIG = {
+  // "grpc" (mặc định): access token được kiểm tra thêm qua gRPC validateToken,
+  // token của session đã bị thu hồi (logout, xóa device, đổi mật khẩu...) bị từ chối ngay
+  // "jwks": chỉ verify chữ ký token tại gateway, token đã thu hồi vẫn được chấp nhận tới khi hết hạn
+  VALIDATION_MODE: (process.env.AUTH_VALIDATION_MODE ?? "grpc") as
+    | "jwks"
+    | "grpc",
+  JWKS_URL:
+    process.env.AUTH_JWKS_URL ??
+    `http://${process.env.AUTH_SERVICE_HOST ?? "localhost"}:${process.env.AUTH_SERVICE_PORT ?? 3101}/.well-known/jwks.json`,
+  // Thời gian cache JWKS (ms), key lạ sẽ được tải lại sau JWKS_COOLDOWN
+  JWKS_CACHE_MAX_AGE: Number(process.env.AUTH_JWKS_CACHE_MAX_AGE ?? 600000),
+  JWKS_COOLDOWN: Number(process.env.AUTH_JWKS_COOLDOWN ?? 30000),
+  // Phải trùng JWT_ISSUER của auth service
+  JWT_ISSUER: process.env.AUTH_JWT_ISSUER ?? "wibutime-auth",
+  GRPC_HOST: process.env.AUTH_GRPC_HOST ?? "localhost",
+  GRPC_PORT: Number(process.env.AUTH_GRPC_PORT ?? 31001),
+  GRPC_DEADLINE_MS: Number(process.env.AUTH_GRPC_DEADLINE_MS ?? 3000),
+};
+
+export const REDIS_CONFIG = {
+  CONFIG_REDIS_HOST: process.env.CONFIG_REDIS_HOST,
+  CONFIG_REDIS_PORT: process.env.CONFIG_REDIS_PORT,
+  CONFIG_REDIS_PASSWORD: process.env.CONFIG_REDIS_PASSWORD,
+  CONFIG_REDIS_DBNAME: process.env.CONFIG_REDIS_DBNAME,
+};
+
+// Đếm request theo user ID, device ID hoặc IP của client.
+// Không có identity (route public, token không mang userId/deviceId) thì dùng IP
+export type RateLimitKeyBy = "ip" | "device" | "user";
+
+// fixed: đếm theo cửa sổ cố định, sliding: cửa sổ trượt (chặn burst ở ranh giới cửa sổ)
+export type RateLimitAlgorithm = "fixed" | "sliding";
+
+export interface RateLimitPolicy {
+  limit: number;
+  windowMs: number;
+  keyBy: RateLimitKeyBy;
+  algorithm: RateLimitAlgorithm;
+}
+
+export const RATE_LIMIT_CONFIG = {
+  ENABLED: (process.env.RATE_LIMIT_ENABLED ?? "true") === "true",
+  KEY_PREFIX: process.env.RATE_LIMIT_KEY_PREFIX ?? "gateway:ratelimit:",
+  // Redis chậm/lỗi quá thời gian này thì bỏ qua rate limit (fail open)
+  TIMEOUT_MS: Number(process.env.RATE_LIMIT_TIMEOUT_MS ?? 500),
+  // Sau khi Redis lỗi, bỏ qua rate limit trong khoảng này thay vì chờ timeout ở mọi request
+  FAILURE_COOLDOWN_MS: Number(
+    process.env.RATE_LIMIT_FAILURE_COOLDOWN_MS ?? 5000
+  ),
+  // Policy cho project không khai báo trong PROJECT_POLICIES
+  DEFAULT_POLICY: {
+    limit: Number(process.env.RATE_LIMIT_DEFAULT_LIMIT ?? 300),
+    windowMs: Number(process.env.RATE_LIMIT_DEFAULT_WINDOW_MS ?? 60000),
+    keyBy: "user",
+    algorithm: "fixed",
+  } as RateLimitPolicy,
+  // Policy theo project ID, áp dụng cho mọi route của service
+  PROJECT_POLICIES: {
+    [SERVICE_ID.AUTH]: {
+      limit: Number(process.env.AUTH_RATE_LIMIT ?? 120),
+      windowMs: Number(process.env.AUTH_RATE_LIMIT_WINDOW_MS ?? 60000),
+      keyBy: "user",
+      algorithm: "fixed",
+    },
+    [SERVICE_ID.NOVEL]: {
+      limit: Number(process.env.NOVEL_RATE_LIMIT ?? 600),
+      windowMs: Number(process.env.NOVEL_RATE_LIMIT_WINDOW_MS ?? 60000),
+      keyBy: "user",
+      algorithm: "fixed",
+    },
+  } as Record<string, RateLimitPolicy>,
+  // Policy theo x-api-id (route.id), đếm riêng và được kiểm tra thêm sau policy của project.
+  // Device token tạo mới không tốn gì nên các route đăng nhập/đăng ký/quên mật khẩu đếm theo IP client,
+  // bước 2FA đã gắn với challenge của lần đăng nhập nên vẫn đếm theo device
+  API_POLICIES: {
+    "auth.login": {
+      limit: 5,
+      windowMs: 60000,
+      keyBy: "ip",
+      algorithm: "sliding",
+    },
+    "auth.login.2fa": {
+      limit: 5,
+      windowMs: 60000,
+      keyBy: "device",
+      algorithm: "sliding",
+    },
+    "auth.login.magic_link.request": {
+      limit: 3,
+      windowMs: 300000,
+      keyBy: "ip",
+      algorithm: "sliding",
+    },
+    "auth.register": {
+      limit: 5,
+      windowMs: 3600000,
+      keyBy: "ip",
+      algorithm: "fixed",
+    },
+    "auth.password.forgot": {
+      limit: 3,
+      windowMs: 900000,
+      keyBy: "ip",
+      algorithm: "sliding",
+    },
+    "auth.phone.otp": {
+      limit: 3,
+      windowMs: 300000,
+      keyBy: "user",
+      algorithm: "sliding",
+    },
+    "auth.device.register": {
+      limit: 10,
+      windowMs: 3600000,
+      keyBy: "ip",
+      algorithm: "fixed",
+    },
+    "auth.refresh": {
+      limit: 30,
+      windowMs: 60000,
+      keyBy: "device",
+      algorithm: "fixed",
     },
-  } as Record<string, { name: string; host: string; port: string | number }>,
+  } as Record<string, RateLimitPolicy>,
 };
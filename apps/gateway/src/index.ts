@@ -2,6 +2,7 @@ import { Elysia } from "elysia";
 import { SERVICE_CONFIG } from "./configs";
 import { ProxyMiddleware } from "./middleware/proxy.middleware";
 import { ProxyService } from "./services/proxy.service";
+import { serviceRegistry } from "./services/service-registry.service";
 
 // Khởi tạo services
 const proxyMiddleware = new ProxyMiddleware();
@@ -34,17 +35,26 @@ const app = new Elysia()
   }))
 
   // Proxy routes - Handle tất cả HTTP methods và paths
-  .all("/*", async (ctx) => {
-    // Skip proxy cho các route đặc biệt
-    const path = new URL(ctx.request.url).pathname;
-    if (path.startsWith("/health") || path.startsWith("/gateway/")) {
-      return new Response("Not Found", { status: 404 });
-    }
+  .all(
+    "/*",
+    async (ctx) => {
+      // Skip proxy cho các route đặc biệt
+      const path = new URL(ctx.request.url).pathname;
+      if (path.startsWith("/health") || path.startsWith("/gateway/")) {
+        return new Response("Not Found", { status: 404 });
+      }
 
-    return await proxyMiddleware.handleProxy(ctx);
-  })
+      return await proxyMiddleware.handleProxy(ctx);
+    },
+    // Không parse body để stream nguyên vẹn tới service
+    { parse: "none" }
+  )
 
-  .listen(SERVICE_CONFIG.SERVICE_PORT);
+  .listen({
+    port: SERVICE_CONFIG.SERVICE_PORT,
+    // Giữ kết nối của response streaming (SSE) lâu hơn mặc định 10s của Bun
+    idleTimeout: SERVICE_CONFIG.IDLE_TIMEOUT,
+  });
 
 console.log(
   `🦊 Elysia ${SERVICE_CONFIG.SERVICE_NAME} service is running at http://${app.server?.hostname}:${app.server?.port}`
@@ -58,6 +68,8 @@ console.log(
 console.log(`🔄 Available services:`);
 proxyService.getAvailableServices().forEach((service) => {
   console.log(
-    `   - ${service.name} (project-id: ${service.projectId}) -> ${service.endpoint}`
+    `   - ${service.name} (project-id: ${service.projectId}, ${service.strategy}) -> ${service.instances.map((instance) => instance.endpoint).join(", ")}`
   );
 });
+
+serviceRegistry.startHealthChecks();
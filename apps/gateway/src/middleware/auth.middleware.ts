@@ -0,0 +1,103 @@
+import { API_SECURITY } from "@repo/types";
+import { createErrorResponse, HTTP_STATUS } from "@repo/utils";
+import { AuthService, GatewayAuthError } from "../services/auth.service";
+import { RouteResolverService } from "../services/route-resolver.service";
+import { ProxyRequest } from "../services/proxy.service";
+
+export type AuthResult =
+  | { ok: true; identityHeaders: Record<string, string> }
+  | { ok: false; response: Response };
+
+// Lỗi trả về theo ApiResponse giống lỗi từ các service phía sau
+const errorResponse = (status: number, message: string) =>
+  new Response(JSON.stringify(createErrorResponse(message, status)), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+/**
+ * Middleware kiểm tra security/roles/permissions của route trước khi proxy
+ */
+export class AuthMiddleware {
+  constructor(
+    private readonly routeResolver = new RouteResolverService(),
+    private readonly authService = new AuthService()
+  ) {}
+
+  /**
+   * Resolve route theo project ID + method + path, xác thực token theo security
+   * và trả về identity headers để forward tới service
+   */
+  async authorize(
+    projectId: string,
+    request: ProxyRequest
+  ): Promise<AuthResult> {
+    const path = new URL(request.url, "http://gateway").pathname;
+    const resolution = this.routeResolver.resolve(
+      projectId,
+      request.method,
+      path
+    );
+
+    if (resolution.type === "public") {
+      return { ok: true, identityHeaders: {} };
+    }
+
+    if (resolution.type === "not_found") {
+      return {
+        ok: false,
+        response: errorResponse(
+          HTTP_STATUS.NOT_FOUND,
+          `${request.method} ${path} is not a known route of project '${projectId}'`
+        ),
+      };
+    }
+
+    const { route } = resolution;
+
+    // x-api-id do client gửi phải khớp route thực tế
+    const apiId = request.headers.get("x-api-id");
+    if (apiId && apiId !== route.id) {
+      return {
+        ok: false,
+        response: errorResponse(
+          HTTP_STATUS.BAD_REQUEST,
+          `x-api-id '${apiId}' does not match route '${route.id}'`
+        ),
+      };
+    }
+
+    if (route.security === API_SECURITY.NONE) {
+      return { ok: true, identityHeaders: { "x-api-id": route.id } };
+    }
+
+    try {
+      const token = request.headers
+        .get("authorization")
+        ?.replace("Bearer ", "");
+      const identity = await this.authService.authenticate(
+        token,
+        route.security,
+        request.clientIp
+      );
+      this.authService.authorize(identity, route.roles, route.permissions);
+
+      return {
+        ok: true,
+        identityHeaders: {
+          ...this.authService.toIdentityHeaders(identity),
+          "x-api-id": route.id,
+        },
+      };
+    } catch (error) {
+      if (error instanceof GatewayAuthError) {
+        return {
+          ok: false,
+          response: errorResponse(error.status, error.message),
+        };
+      }
+
+      throw error;
+    }
+  }
+}
@@ -1,52 +1,51 @@
+import { createErrorResponse, ERROR_CODES, HTTP_STATUS } from "@repo/utils";
 import { Context } from "elysia";
-import { ProxyRequest, ProxyService } from "../services/proxy.service";
+import {
+  ProxyError,
+  ProxyRequest,
+  ProxyService,
+} from "../services/proxy.service";
+import { RateLimitService } from "../services/rate-limit.service";
+import { AuthMiddleware } from "./auth.middleware";
 
 /**
  * Middleware để xử lý reverse proxy dựa trên x-project-id header
  */
 export class ProxyMiddleware {
   private proxyService: ProxyService;
+  private authMiddleware: AuthMiddleware;
+  private rateLimitService: RateLimitService;
 
   constructor() {
     this.proxyService = new ProxyService();
+    this.authMiddleware = new AuthMiddleware();
+    this.rateLimitService = new RateLimitService();
   }
 
   /**
-   * Extract project ID từ headers
+   * Client dùng tiếng Việt thì trả message lỗi mặc định bằng tiếng Việt
    */
-  private extractProjectId(headers: Record<string, string>): string | null {
-    // Tìm header x-project-id (case-insensitive)
-    const projectIdHeader = Object.keys(headers).find(
-      (key) => key.toLowerCase() === "x-project-id"
-    );
-
-    return projectIdHeader ? headers[projectIdHeader] : null;
+  private prefersVietnamese(headers: Headers): boolean {
+    return (headers.get("accept-language") ?? "")
+      .trim()
+      .toLowerCase()
+      .startsWith("vi");
   }
 
   /**
-   * Convert Elysia context sang ProxyRequest format
+   * Convert Elysia context sang ProxyRequest format.
+   * Body được giữ nguyên dạng stream (route đăng ký với parse: "none")
    */
-  private async buildProxyRequest(ctx: Context): Promise<ProxyRequest> {
-    const headers: Record<string, string> = {};
-
-    // Extract headers từ request
-    if (ctx.request.headers) {
-      ctx.request.headers.forEach((value, key) => {
-        headers[key] = value;
-      });
-    }
-
-    // Get request body nếu có
-    let body = undefined;
-    if (ctx.request.body && ctx.body) {
-      body = ctx.body;
-    }
+  private buildProxyRequest(ctx: Context): ProxyRequest {
+    const url = new URL(ctx.request.url);
 
     return {
       method: ctx.request.method,
-      url: new URL(ctx.request.url).pathname + new URL(ctx.request.url).search,
-      headers,
-      body,
+      url: url.pathname + url.search,
+      headers: ctx.request.headers,
+      body: ctx.request.body,
+      clientIp: ctx.server?.requestIP(ctx.request)?.address,
+      signal: ctx.request.signal,
     };
   }
 
@@ -55,8 +54,8 @@ export class ProxyMiddleware {
    */
   async handleProxy(ctx: Context) {
     try {
-      const request = await this.buildProxyRequest(ctx);
-      const projectId = this.extractProjectId(request.headers);
+      const request = this.buildProxyRequest(ctx);
+      const projectId = request.headers.get("x-project-id");
 
       // Kiểm tra project ID
       if (!projectId) {
@@ -88,27 +87,80 @@ export class ProxyMiddleware {
         );
       }
 
-      // Forward request
-      const proxyResponse = await this.proxyService.forwardRequest(
-        projectId,
-        request
-      );
+      // Kiểm tra token/roles/permissions theo route metadata
+      const auth = await this.authMiddleware.authorize(projectId, request);
+      if (!auth.ok) {
+        return auth.response;
+      }
 
-      // Return proxied response
-      return new Response(
-        typeof proxyResponse.body === "string"
-          ? proxyResponse.body
-          : JSON.stringify(proxyResponse.body),
+      // Rate limit theo project ID + x-api-id, đếm theo user/device đã xác thực hoặc IP
+      const rateLimit = await this.rateLimitService.check(
+        projectId,
+        auth.identityHeaders["x-api-id"],
         {
-          status: proxyResponse.status,
-          headers: {
-            ...proxyResponse.headers,
-            "X-Proxied-By": "gateway",
-            "X-Target-Service": projectId,
-          },
+          ip: request.clientIp,
+          userId: auth.identityHeaders["x-user-id"],
+          deviceId: auth.identityHeaders["x-device-id"],
         }
       );
+      if (rateLimit.limited) {
+        return new Response(
+          JSON.stringify(
+            createErrorResponse(
+              {
+                code: ERROR_CODES.RATE_LIMITED,
+                message: "",
+                details: { retry_after: rateLimit.retryAfter },
+              },
+              HTTP_STATUS.TOO_MANY_REQUESTS,
+              { vietnamese: this.prefersVietnamese(request.headers) }
+            )
+          ),
+          {
+            status: HTTP_STATUS.TOO_MANY_REQUESTS,
+            headers: {
+              "Content-Type": "application/json",
+              ...rateLimit.headers,
+            },
+          }
+        );
+      }
+
+      // Forward request
+      const proxyResponse = await this.proxyService.forwardRequest(projectId, {
+        ...request,
+        identityHeaders: auth.identityHeaders,
+      });
+
+      // Return proxied response (body vẫn là stream từ service)
+      proxyResponse.headers.set("X-Proxied-By", "gateway");
+      proxyResponse.headers.set("X-Target-Service", projectId);
+      for (const [name, value] of Object.entries(rateLimit.headers)) {
+        proxyResponse.headers.set(name, value);
+      }
+
+      return proxyResponse;
     } catch (error) {
+      // Lỗi gọi service (timeout, circuit open...) trả về theo ApiResponse
+      if (error instanceof ProxyError) {
+        const headers: Record<string, string> = {
+          "Content-Type": "application/json",
+        };
+        if (error.retryAfter) {
+          headers["Retry-After"] = String(error.retryAfter);
+        }
+
+        return new Response(
+          JSON.stringify(
+            createErrorResponse(
+              { code: error.code, message: error.message },
+              error.status
+            )
+          ),
+          { status: error.status, headers }
+        );
+      }
+
       console.error("❌ Proxy middleware error:", error);
 
       return new Response(
@@ -0,0 +1,25 @@
+import { RateLimiter, RedisClient } from "@repo/redis";
+import { RATE_LIMIT_CONFIG, REDIS_CONFIG } from "../configs";
+
+// Tạo Redis URL từ config
+const buildRedisUrl = (): string => {
+  const host = REDIS_CONFIG.CONFIG_REDIS_HOST || "localhost";
+  const port = REDIS_CONFIG.CONFIG_REDIS_PORT || "6379";
+  const db = REDIS_CONFIG.CONFIG_REDIS_DBNAME || "0";
+  const auth = REDIS_CONFIG.CONFIG_REDIS_PASSWORD
+    ? `:${encodeURIComponent(REDIS_CONFIG.CONFIG_REDIS_PASSWORD)}@`
+    : "";
+
+  return `redis://${auth}${host}:${port}/${db}`;
+};
+
+// Redis client dùng chung giữa các instance gateway
+export const redisClient = new RedisClient({
+  url: buildRedisUrl(),
+  maxConnections: 10,
+});
+
+// Bộ đếm rate limit phân tán, mọi instance gateway dùng chung counter
+export const rateLimiter = new RateLimiter(redisClient, {
+  prefix: RATE_LIMIT_CONFIG.KEY_PREFIX,
+});
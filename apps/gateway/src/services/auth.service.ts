@@ -0,0 +1,233 @@
+import { AuthServiceClientImpl, GrpcClientManager } from "@repo/grpc";
+import { API_SECURITY } from "@repo/types";
+import {
+  createRemoteJWKSet,
+  errors,
+  JWTPayload,
+  JWTVerifyGetKey,
+  jwtVerify,
+} from "jose";
+import { AUTH_CONFIG } from "../configs";
+
+export type GatewayTokenType = "access" | "refresh" | "device";
+
+/**
+ * Danh tính đã được xác thực, forward tới service qua identity headers
+ */
+export interface GatewayIdentity {
+  tokenType: GatewayTokenType;
+  userId: string;
+  deviceId: string;
+  sessionId: string;
+  roles: string[];
+  permissions: string[];
+}
+
+// Headers do gateway đặt, header cùng tên từ client luôn bị loại bỏ
+export const IDENTITY_HEADERS = [
+  "x-user-id",
+  "x-device-id",
+  "x-session-id",
+  "x-user-roles",
+  "x-user-permissions",
+  "x-token-type",
+];
+
+/**
+ * Lỗi xác thực tại gateway, status là HTTP status trả về client
+ */
+export class GatewayAuthError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// Loại token được chấp nhận theo security của route. Device token (chưa đăng nhập)
+// chỉ dùng được ở các route khai báo DEVICE_TOKEN_ALLOWED
+const ACCEPTED_TOKEN_TYPES: Record<string, GatewayTokenType[]> = {
+  [API_SECURITY.TOKEN_REQUIRED]: ["access"],
+  [API_SECURITY.DEVICE_TOKEN_ALLOWED]: ["access", "device"],
+  [API_SECURITY.REFRESH_TOKEN_REQUIRED]: ["refresh"],
+};
+
+/**
+ * Xác thực bearer token tại gateway: verify chữ ký bằng JWKS của auth service,
+ * với AUTH_VALIDATION_MODE = grpc thì access token được kiểm tra qua validateToken
+ */
+export class AuthService {
+  constructor(
+    private readonly config = AUTH_CONFIG,
+    private readonly jwks: JWTVerifyGetKey = createRemoteJWKSet(
+      new URL(config.JWKS_URL),
+      {
+        cacheMaxAge: config.JWKS_CACHE_MAX_AGE,
+        cooldownDuration: config.JWKS_COOLDOWN,
+      }
+    ),
+    // Tạo khi cần ở lần validateToken đầu tiên
+    private authClient: Pick<
+      AuthServiceClientImpl,
+      "validateToken"
+    > | null = null
+  ) {}
+
+  private getAuthClient(): Pick<AuthServiceClientImpl, "validateToken"> {
+    if (!this.authClient) {
+      const manager = new GrpcClientManager({
+        host: this.config.GRPC_HOST,
+        port: this.config.GRPC_PORT,
+      });
+      this.authClient = new AuthServiceClientImpl(
+        manager.getRpc(this.config.GRPC_DEADLINE_MS)
+      );
+    }
+
+    return this.authClient;
+  }
+
+  /**
+   * Verify chữ ký, issuer và hạn dùng của token
+   */
+  private async verifyToken(token: string): Promise<JWTPayload> {
+    try {
+      const { payload } = await jwtVerify(token, this.jwks, {
+        issuer: this.config.JWT_ISSUER,
+      });
+
+      return payload;
+    } catch (error) {
+      if (error instanceof errors.JWTExpired) {
+        throw new GatewayAuthError(401, "Token expired");
+      }
+      if (
+        error instanceof errors.JOSEError &&
+        !(error instanceof errors.JWKSTimeout)
+      ) {
+        throw new GatewayAuthError(401, "Invalid token");
+      }
+
+      console.error("❌ JWKS verification error:", error);
+      throw new GatewayAuthError(503, "Auth service unavailable");
+    }
+  }
+
+  /**
+   * Kiểm tra session của access token qua auth gRPC, trả về roles/permissions hiện tại
+   */
+  private async validateSession(
+    identity: GatewayIdentity,
+    token: string,
+    clientIp: string
+  ): Promise<GatewayIdentity> {
+    let response;
+    try {
+      response = await this.getAuthClient().validateToken({
+        token,
+        device_id: identity.deviceId,
+        session_id: identity.sessionId,
+        ip_address: clientIp,
+      });
+    } catch (error) {
+      console.error("❌ validateToken error:", error);
+      throw new GatewayAuthError(503, "Auth service unavailable");
+    }
+
+    if (response.error || !response.data) {
+      throw new GatewayAuthError(
+        response.status || 401,
+        response.message || "Invalid token"
+      );
+    }
+
+    return {
+      ...identity,
+      roles: response.data.roles,
+      permissions: response.data.permissions,
+    };
+  }
+
+  /**
+   * Xác thực token theo security của route, throw GatewayAuthError nếu không hợp lệ
+   */
+  async authenticate(
+    token: string | undefined,
+    security: string,
+    clientIp: string = ""
+  ): Promise<GatewayIdentity> {
+    const acceptedTypes = ACCEPTED_TOKEN_TYPES[security] ?? [];
+
+    if (!token) {
+      throw new GatewayAuthError(401, "Missing bearer token");
+    }
+
+    const payload = await this.verifyToken(token);
+    const tokenType = payload.type as GatewayTokenType;
+
+    if (!acceptedTypes.includes(tokenType)) {
+      throw new GatewayAuthError(401, "Invalid token type");
+    }
+
+    const identity: GatewayIdentity =
+      tokenType === "device"
+        ? {
+            tokenType,
+            userId: "",
+            deviceId: String(payload.deviceId ?? ""),
+            sessionId: "",
+            roles: [],
+            permissions: [],
+          }
+        : {
+            tokenType,
+            userId: String(payload.sub ?? ""),
+            deviceId: String(payload.device_id ?? ""),
+            sessionId: String(payload.session_id ?? ""),
+            roles: (payload.roles as string[]) ?? [],
+            permissions: (payload.permissions as string[]) ?? [],
+          };
+
+    if (tokenType === "access" && this.config.VALIDATION_MODE === "grpc") {
+      return await this.validateSession(identity, token, clientIp);
+    }
+
+    return identity;
+  }
+
+  /**
+   * Route yêu cầu roles thì cần có ít nhất một role, permissions thì cần đủ tất cả
+   */
+  authorize(
+    identity: GatewayIdentity,
+    roles: readonly string[],
+    permissions: readonly string[]
+  ): void {
+    if (
+      roles.length > 0 &&
+      !roles.some((role) => identity.roles.includes(role))
+    ) {
+      throw new GatewayAuthError(403, "Insufficient role");
+    }
+
+    if (
+      !permissions.every((permission) =>
+        identity.permissions.includes(permission)
+      )
+    ) {
+      throw new GatewayAuthError(403, "Insufficient permission");
+    }
+  }
+
+  toIdentityHeaders(identity: GatewayIdentity): Record<string, string> {
+    return {
+      "x-user-id": identity.userId,
+      "x-device-id": identity.deviceId,
+      "x-session-id": identity.sessionId,
+      "x-user-roles": identity.roles.join(","),
+      "x-user-permissions": identity.permissions.join(","),
+      "x-token-type": identity.tokenType,
+    };
+  }
+}
@@ -0,0 +1,139 @@
+import { RESILIENCE_CONFIG, SERVICE_CONFIG } from "../configs";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Circuit breaker của một service:
+ * - closed: cho request đi qua, mở khi lỗi liên tiếp đạt failureThreshold
+ * - open: từ chối ngay mọi request trong openDurationMs
+ * - half_open: cho tối đa halfOpenMaxRequests request thử, thành công thì đóng, lỗi thì mở lại
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private halfOpenInFlight = 0;
+
+  constructor(
+    readonly name: string,
+    private readonly failureThreshold = RESILIENCE_CONFIG.BREAKER_FAILURE_THRESHOLD,
+    private readonly openDurationMs = RESILIENCE_CONFIG.BREAKER_OPEN_DURATION_MS,
+    private readonly halfOpenMaxRequests = RESILIENCE_CONFIG.BREAKER_HALF_OPEN_MAX_REQUESTS
+  ) {}
+
+  getState(): CircuitState {
+    if (
+      this.state === "open" &&
+      Date.now() - this.openedAt >= this.openDurationMs
+    ) {
+      this.transition("half_open");
+    }
+
+    return this.state;
+  }
+
+  /**
+   * Số ms còn lại trước khi breaker cho request thử, 0 nếu không mở
+   */
+  getRetryAfterMs(): number {
+    return this.getState() === "open"
+      ? Math.max(0, this.openedAt + this.openDurationMs - Date.now())
+      : 0;
+  }
+
+  /**
+   * Xin phép gửi request, false nếu breaker đang mở hoặc đã đủ request thử khi half-open.
+   * Request được phép phải kết thúc bằng recordSuccess/recordFailure/release
+   */
+  tryAcquire(): boolean {
+    const state = this.getState();
+
+    if (state === "open") return false;
+    if (state === "half_open") {
+      if (this.halfOpenInFlight >= this.halfOpenMaxRequests) return false;
+      this.halfOpenInFlight++;
+    }
+
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.release();
+    this.consecutiveFailures = 0;
+
+    if (this.state === "half_open") {
+      this.transition("closed");
+    }
+  }
+
+  recordFailure(): void {
+    this.release();
+    this.consecutiveFailures++;
+
+    if (
+      this.state === "half_open" ||
+      (this.state === "closed" &&
+        this.consecutiveFailures >= this.failureThreshold)
+    ) {
+      this.transition("open");
+    }
+  }
+
+  /**
+   * Kết thúc request mà không tính là thành công hay lỗi (VD: client tự hủy)
+   */
+  release(): void {
+    if (this.state === "half_open" && this.halfOpenInFlight > 0) {
+      this.halfOpenInFlight--;
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    if (this.state === state) return;
+
+    this.state = state;
+    this.halfOpenInFlight = 0;
+
+    if (state === "open") {
+      this.openedAt = Date.now();
+      console.warn(`⚠️  Circuit breaker of ${this.name} opened`);
+    } else if (state === "closed") {
+      this.consecutiveFailures = 0;
+      console.log(`✅ Circuit breaker of ${this.name} closed`);
+    }
+  }
+
+  getStatus() {
+    const state = this.getState();
+
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt:
+        state === "closed" ? null : new Date(this.openedAt).toISOString(),
+      retryAfterMs: this.getRetryAfterMs(),
+    };
+  }
+}
+
+/**
+ * Mỗi project ID có một circuit breaker dùng chung cho mọi request
+ */
+export class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  get(projectId: string): CircuitBreaker {
+    let breaker = this.breakers.get(projectId);
+
+    if (!breaker) {
+      breaker = new CircuitBreaker(
+        SERVICE_CONFIG.SERVICES[projectId]?.name ?? projectId
+      );
+      this.breakers.set(projectId, breaker);
+    }
+
+    return breaker;
+  }
+}
+
+export const circuitBreakers = new CircuitBreakerRegistry();
@@ -1,38 +1,113 @@
-import { SERVICE_CONFIG } from "../configs";
+import { ERROR_CODES, HTTP_STATUS } from "@repo/utils";
+import { RESILIENCE_CONFIG, SERVICE_CONFIG } from "../configs";
+import { IDENTITY_HEADERS } from "./auth.service";
+import { circuitBreakers } from "./circuit-breaker.service";
+import { serviceRegistry, ServiceInstance } from "./service-registry.service";
 
 export interface ProxyRequest {
   method: string;
   url: string;
-  headers: Record<string, string>;
-  body?: any;
+  headers: Headers;
+  body: ReadableStream<Uint8Array> | null;
+  clientIp?: string;
+  signal?: AbortSignal;
+  // Identity headers đã được gateway xác thực (x-user-id, x-api-id...)
+  identityHeaders?: Record<string, string>;
 }
 
-export interface ProxyResponse {
-  status: number;
-  headers: Record<string, string>;
-  body: any;
+// Hop-by-hop headers (RFC 9110 7.6.1) chỉ có ý nghĩa trên từng kết nối, không được forward
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+];
+
+// Status code của instance được tính là lỗi khi proxy
+const FAILURE_STATUSES = [502, 503, 504];
+
+// Method idempotent, chỉ retry khi request không có body (body stream chỉ đọc được một lần)
+const RETRYABLE_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+/**
+ * Lỗi proxy kèm HTTP status và error code trả về client
+ * @param retryAfter - Số giây client nên chờ trước khi thử lại (header Retry-After)
+ */
+export class ProxyError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Bọc body của response để biết khi nào stream kết thúc (đọc hết, lỗi hoặc client hủy)
+ */
+function onStreamEnd(
+  body: ReadableStream<Uint8Array> | null,
+  callback: () => void
+): ReadableStream<Uint8Array> | null {
+  if (!body) {
+    callback();
+    return null;
+  }
+
+  const reader = body.getReader();
+  let ended = false;
+  const end = () => {
+    if (!ended) {
+      ended = true;
+      callback();
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          end();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        end();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      end();
+      await reader.cancel(reason);
+    },
+  });
 }
 
 /**
  * Service để xử lý reverse proxy requests
  */
 export class ProxyService {
-  /**
-   * Lấy service config dựa trên project ID
-   */
-  private getServiceConfig(projectId: string) {
-    const service = SERVICE_CONFIG.SERVICES[projectId];
-    if (!service) {
-      throw new Error(`Service not found for project ID: ${projectId}`);
-    }
-    return service;
-  }
+  constructor(
+    private readonly registry = serviceRegistry,
+    private readonly breakers = circuitBreakers
+  ) {}
 
   /**
-   * Tạo target URL cho service
+   * Tạo target URL cho instance của service
    */
-  private buildTargetUrl(projectId: string, originalUrl: string): string {
-    const service = this.getServiceConfig(projectId);
+  private buildTargetUrl(
+    instance: ServiceInstance,
+    originalUrl: string
+  ): string {
     const protocol = "http"; // Có thể config thêm HTTPS sau
 
     // Remove leading slash nếu có
@@ -40,61 +115,246 @@ export class ProxyService {
       ? originalUrl.slice(1)
       : originalUrl;
 
-    return `${protocol}://${service.host}:${service.port}/${path}`;
+    return `${protocol}://${instance.host}:${instance.port}/${path}`;
   }
 
   /**
-   * Forward request đến target service
+   * Copy headers, bỏ hop-by-hop headers và các header được liệt kê trong Connection
    */
-  async forwardRequest(
-    projectId: string,
-    request: ProxyRequest
-  ): Promise<ProxyResponse> {
-    try {
-      const targetUrl = this.buildTargetUrl(projectId, request.url);
+  private filterHeaders(headers: Headers): Headers {
+    const filtered = new Headers(headers);
+    const connectionHeaders = (headers.get("connection") ?? "")
+      .split(",")
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean);
+
+    for (const name of [...HOP_BY_HOP_HEADERS, ...connectionHeaders]) {
+      filtered.delete(name);
+    }
+
+    return filtered;
+  }
+
+  /**
+   * Headers gửi tới service: bỏ host (fetch tự đặt theo target), thay identity headers
+   * của client bằng identity đã xác thực và thêm X-Forwarded-*
+   */
+  private buildForwardHeaders(request: ProxyRequest): Headers {
+    const headers = this.filterHeaders(request.headers);
+    const originalHost = request.headers.get("host");
+    headers.delete("host");
 
-      // Loại bỏ các headers không cần thiết
-      const forwardHeaders = { ...request.headers };
-      delete forwardHeaders["host"];
-      delete forwardHeaders["content-length"];
+    for (const name of IDENTITY_HEADERS) {
+      headers.delete(name);
+    }
+    for (const [name, value] of Object.entries(request.identityHeaders ?? {})) {
+      headers.set(name, value);
+    }
 
-      console.log(
-        `🔄 Forwarding ${request.method} ${request.url} -> ${targetUrl}`
+    if (request.clientIp) {
+      const forwardedFor = request.headers.get("x-forwarded-for");
+      headers.set(
+        "x-forwarded-for",
+        forwardedFor ? `${forwardedFor}, ${request.clientIp}` : request.clientIp
       );
+    }
+    if (originalHost && !headers.has("x-forwarded-host")) {
+      headers.set("x-forwarded-host", originalHost);
+    }
+    if (!headers.has("x-forwarded-proto")) {
+      headers.set("x-forwarded-proto", "http");
+    }
 
-      const response = await fetch(targetUrl, {
-        method: request.method,
-        headers: forwardHeaders,
-        body: request.body ? JSON.stringify(request.body) : undefined,
-      });
+    return headers;
+  }
 
-      // Đọc response
-      const responseText = await response.text();
-      let responseBody;
+  /**
+   * Backoff có jitter trước lần retry thứ attempt (bắt đầu từ 1)
+   */
+  private getRetryDelay(attempt: number): number {
+    const cap = Math.min(
+      RESILIENCE_CONFIG.RETRY_MAX_DELAY_MS,
+      RESILIENCE_CONFIG.RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)
+    );
 
-      try {
-        responseBody = JSON.parse(responseText);
-      } catch {
-        responseBody = responseText;
-      }
+    return Math.random() * cap;
+  }
+
+  /**
+   * Gửi request tới một instance healthy của service.
+   * timeoutMs chỉ tính tới khi nhận được response headers, body vẫn được stream tiếp
+   */
+  private async sendToInstance(
+    projectId: string,
+    request: ProxyRequest,
+    timeoutMs: number
+  ): Promise<Response> {
+    const instance = this.registry.acquire(projectId);
+    if (!instance) {
+      throw new ProxyError(
+        HTTP_STATUS.SERVICE_UNAVAILABLE,
+        ERROR_CODES.SERVICE_UNAVAILABLE,
+        `No healthy instance available for project ID: ${projectId}`
+      );
+    }
 
-      // Tạo response headers
-      const responseHeaders: Record<string, string> = {};
-      response.headers.forEach((value, key) => {
-        responseHeaders[key] = value;
-      });
+    const targetUrl = this.buildTargetUrl(instance, request.url);
+    const hasBody = request.method !== "GET" && request.method !== "HEAD";
 
-      return {
-        status: response.status,
-        headers: responseHeaders,
-        body: responseBody,
-      };
+    console.log(
+      `🔄 Forwarding ${request.method} ${request.url} -> ${targetUrl}`
+    );
+
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(), timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(targetUrl, {
+        method: request.method,
+        headers: this.buildForwardHeaders(request),
+        body: hasBody ? request.body : undefined,
+        // Client ngắt kết nối thì hủy luôn request tới service (quan trọng với SSE)
+        signal: request.signal
+          ? AbortSignal.any([request.signal, timeout.signal])
+          : timeout.signal,
+        // Redirect do client tự xử lý, gateway không follow
+        redirect: "manual",
+        // Không dùng lại kết nối sau request có body stream: service trả lời sớm mà
+        // không đọc hết body thì phần body còn lại làm hỏng request kế tiếp trên kết nối đó
+        keepalive: !hasBody,
+        // Giữ nguyên body đã nén và Content-Encoding của service
+        decompress: false,
+      } as RequestInit);
     } catch (error) {
+      this.registry.release(instance);
+
+      if (timeout.signal.aborted) {
+        this.registry.recordFailure(instance, `Timeout after ${timeoutMs}ms`);
+        throw new ProxyError(
+          HTTP_STATUS.GATEWAY_TIMEOUT,
+          ERROR_CODES.GATEWAY_TIMEOUT,
+          `Service did not respond within ${timeoutMs}ms`
+        );
+      }
+
+      // Client tự hủy request không phải lỗi của instance
+      if (!request.signal?.aborted) {
+        this.registry.recordFailure(
+          instance,
+          error instanceof Error ? error.message : "Unknown error"
+        );
+      }
+
       console.error(`❌ Proxy error for project ${projectId}:`, error);
-      throw new Error(
+      throw new ProxyError(
+        HTTP_STATUS.BAD_GATEWAY,
+        ERROR_CODES.BAD_GATEWAY,
         `Failed to proxy request: ${error instanceof Error ? error.message : "Unknown error"}`
       );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (FAILURE_STATUSES.includes(response.status)) {
+      this.registry.recordFailure(instance, `HTTP ${response.status}`);
+    } else {
+      this.registry.recordSuccess(instance);
+    }
+
+    // Kết nối tới instance được tính là đang mở cho tới khi stream response kết thúc
+    return new Response(
+      onStreamEnd(response.body, () => this.registry.release(instance)),
+      {
+        status: response.status,
+        statusText: response.statusText,
+        headers: this.filterHeaders(response.headers),
+      }
+    );
+  }
+
+  /**
+   * Forward request qua circuit breaker của service. Body của request và response
+   * được stream nguyên vẹn (multipart, binary, chunked, SSE), không parse hay buffer ở gateway.
+   * Request idempotent không có body được retry (sang instance khác) khi lỗi kết nối,
+   * timeout hoặc service trả về 502/503/504
+   */
+  async forwardRequest(
+    projectId: string,
+    request: ProxyRequest
+  ): Promise<Response> {
+    const service = SERVICE_CONFIG.SERVICES[projectId]!;
+    const breaker = this.breakers.get(projectId);
+
+    if (!breaker.tryAcquire()) {
+      throw new ProxyError(
+        HTTP_STATUS.SERVICE_UNAVAILABLE,
+        ERROR_CODES.CIRCUIT_OPEN,
+        `Service ${service.name} is temporarily unavailable`,
+        Math.ceil(breaker.getRetryAfterMs() / 1000)
+      );
     }
+
+    const retryable =
+      RETRYABLE_METHODS.includes(request.method) && request.body === null;
+    const maxAttempts = retryable ? service.maxRetries + 1 : 1;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      if (attempt > 0) {
+        await Bun.sleep(this.getRetryDelay(attempt));
+        if (request.signal?.aborted) break;
+      }
+
+      try {
+        const response = await this.sendToInstance(
+          projectId,
+          request,
+          service.timeoutMs
+        );
+        const failed = FAILURE_STATUSES.includes(response.status);
+
+        if (failed && attempt + 1 < maxAttempts) {
+          await response.body?.cancel();
+          lastError = new ProxyError(
+            HTTP_STATUS.BAD_GATEWAY,
+            ERROR_CODES.BAD_GATEWAY,
+            `Service responded with HTTP ${response.status}`
+          );
+          continue;
+        }
+
+        if (failed) {
+          breaker.recordFailure();
+        } else {
+          breaker.recordSuccess();
+        }
+        return response;
+      } catch (error) {
+        lastError = error;
+
+        // Không còn instance hoặc client đã hủy thì không retry
+        if (
+          request.signal?.aborted ||
+          (error instanceof ProxyError &&
+            error.code === ERROR_CODES.SERVICE_UNAVAILABLE)
+        ) {
+          break;
+        }
+      }
+    }
+
+    if (
+      request.signal?.aborted ||
+      (lastError instanceof ProxyError &&
+        lastError.code === ERROR_CODES.SERVICE_UNAVAILABLE)
+    ) {
+      breaker.release();
+    } else {
+      breaker.recordFailure();
+    }
+
+    throw lastError;
   }
 
   /**
@@ -105,13 +365,34 @@ export class ProxyService {
   }
 
   /**
-   * Lấy danh sách available services
+   * Lấy danh sách available services kèm trạng thái từng instance
    */
   getAvailableServices() {
-    return Object.entries(SERVICE_CONFIG.SERVICES).map(([id, config]) => ({
-      projectId: id,
-      name: config.name,
-      endpoint: `${config.host}:${config.port}`,
-    }));
+    return Object.entries(SERVICE_CONFIG.SERVICES).map(([id, config]) => {
+      const instances = this.registry.getInstances(id);
+
+      return {
+        projectId: id,
+        name: config.name,
+        strategy: config.strategy,
+        timeoutMs: config.timeoutMs,
+        maxRetries: config.maxRetries,
+        circuitBreaker: this.breakers.get(id).getStatus(),
+        healthyInstances: instances.filter((instance) => instance.healthy)
+          .length,
+        instances: instances.map((instance) => ({
+          endpoint: instance.id,
+          healthy: instance.healthy,
+          activeConnections: instance.activeConnections,
+          ejectedUntil: instance.ejectedUntil
+            ? new Date(instance.ejectedUntil).toISOString()
+            : null,
+          lastCheckedAt: instance.lastCheckedAt
+            ? new Date(instance.lastCheckedAt).toISOString()
+            : null,
+          lastError: instance.lastError || null,
+        })),
+      };
+    });
   }
 }
@@ -0,0 +1,175 @@
+import type { RateLimitResult } from "@repo/redis";
+import { RATE_LIMIT_CONFIG, RateLimitPolicy } from "../configs";
+import { rateLimiter } from "../redis";
+
+/**
+ * Client được rate limit, lấy từ IP và identity headers đã xác thực
+ */
+export interface RateLimitClient {
+  ip?: string;
+  userId?: string;
+  deviceId?: string;
+}
+
+/**
+ * Kết quả kiểm tra rate limit kèm headers trả về client
+ */
+export interface RateLimitDecision {
+  limited: boolean;
+  // Số giây client nên chờ, chỉ có khi limited
+  retryAfter?: number;
+  headers: Record<string, string>;
+}
+
+interface PolicyCheck {
+  policy: RateLimitPolicy;
+  result: RateLimitResult;
+}
+
+/**
+ * Rate limit phân tán tại gateway: mỗi request được đếm theo policy của project ID
+ * và policy riêng của x-api-id (nếu có). Counter lưu trong Redis nên mọi instance gateway dùng chung.
+ * Redis lỗi hoặc chậm hơn RATE_LIMIT_CONFIG.TIMEOUT_MS thì cho request đi qua (fail open)
+ */
+export class RateLimitService {
+  // Tới thời điểm này (ms) thì mới gọi lại Redis sau lần lỗi gần nhất
+  private unavailableUntil = 0;
+
+  constructor(
+    private readonly limiter = rateLimiter,
+    private readonly config = RATE_LIMIT_CONFIG
+  ) {}
+
+  /**
+   * Subject để đếm request theo keyBy của policy, thiếu identity thì lùi về device rồi IP
+   */
+  private resolveSubject(
+    policy: RateLimitPolicy,
+    client: RateLimitClient
+  ): string {
+    if (policy.keyBy === "user" && client.userId) {
+      return `user:${client.userId}`;
+    }
+    if (policy.keyBy !== "ip" && client.deviceId) {
+      return `device:${client.deviceId}`;
+    }
+
+    return `ip:${client.ip || "unknown"}`;
+  }
+
+  private async checkPolicy(
+    key: string,
+    policy: RateLimitPolicy
+  ): Promise<RateLimitResult> {
+    const check =
+      policy.algorithm === "sliding"
+        ? this.limiter.checkSlidingWindowLimit(
+            key,
+            policy.limit,
+            policy.windowMs
+          )
+        : this.limiter.checkLimit(key, policy.limit, policy.windowMs);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new Error(
+              `Rate limiter timed out after ${this.config.TIMEOUT_MS}ms`
+            )
+          ),
+        this.config.TIMEOUT_MS
+      );
+    });
+
+    try {
+      return await Promise.race([check, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Headers theo draft IETF RateLimit header fields, Reset tính bằng số giây còn lại
+   */
+  private buildHeaders({
+    policy,
+    result,
+  }: PolicyCheck): Record<string, string> {
+    const resetSeconds = Math.max(
+      0,
+      Math.ceil((result.resetTime - Date.now()) / 1000)
+    );
+
+    return {
+      "RateLimit-Limit": String(result.total),
+      "RateLimit-Remaining": String(result.remaining),
+      "RateLimit-Reset": String(resetSeconds),
+      "RateLimit-Policy": `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`,
+    };
+  }
+
+  /**
+   * Kiểm tra các policy áp dụng cho request. Headers phản ánh policy chặt nhất
+   * (policy đã vượt giới hạn, hoặc policy còn ít lượt nhất)
+   */
+  async check(
+    projectId: string,
+    apiId: string | undefined,
+    client: RateLimitClient
+  ): Promise<RateLimitDecision> {
+    if (!this.config.ENABLED || Date.now() < this.unavailableUntil) {
+      return { limited: false, headers: {} };
+    }
+
+    const policies: Array<{ scope: string; policy: RateLimitPolicy }> = [
+      {
+        scope: "project",
+        policy:
+          this.config.PROJECT_POLICIES[projectId] ?? this.config.DEFAULT_POLICY,
+      },
+    ];
+    const apiPolicy = apiId ? this.config.API_POLICIES[apiId] : undefined;
+    if (apiId && apiPolicy) {
+      policies.push({ scope: `api:${apiId}`, policy: apiPolicy });
+    }
+
+    const checks: PolicyCheck[] = [];
+    try {
+      for (const { scope, policy } of policies) {
+        const key = `${projectId}:${scope}:${this.resolveSubject(policy, client)}`;
+        const result = await this.checkPolicy(key, policy);
+        checks.push({ policy, result });
+
+        // Đã vượt giới hạn thì không đếm tiếp các policy còn lại
+        if (result.limited) break;
+      }
+    } catch (error) {
+      this.unavailableUntil = Date.now() + this.config.FAILURE_COOLDOWN_MS;
+      console.error(
+        `❌ Rate limiter error, skipping rate limit for ${this.config.FAILURE_COOLDOWN_MS}ms:`,
+        error
+      );
+      return { limited: false, headers: {} };
+    }
+
+    const strictest = checks.reduce((current, candidate) =>
+      candidate.result.limited ||
+      (!current.result.limited &&
+        candidate.result.remaining < current.result.remaining)
+        ? candidate
+        : current
+    );
+    const headers = this.buildHeaders(strictest);
+
+    if (!strictest.result.limited) {
+      return { limited: false, headers };
+    }
+
+    const retryAfter = Math.max(1, Number(headers["RateLimit-Reset"]));
+    headers["Retry-After"] = String(retryAfter);
+
+    return { limited: true, retryAfter, headers };
+  }
+}
@@ -0,0 +1,81 @@
+import { ApiRouteDefinition, SERVICE_CONFIG } from "../configs";
+
+interface CompiledRoute {
+  route: ApiRouteDefinition;
+  pattern: RegExp;
+  paramCount: number;
+}
+
+export type RouteResolution =
+  | { type: "route"; route: ApiRouteDefinition }
+  | { type: "public" } // Path public hoặc service không khai báo routes
+  | { type: "not_found" };
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Tìm route metadata của request theo project ID + method + path
+ */
+export class RouteResolverService {
+  private compiled = new Map<string, CompiledRoute[]>();
+
+  /**
+   * Compile bảng route của service thành regex, route ít param đứng trước
+   * để path tĩnh (VD: /passkeys/register/options) được ưu tiên hơn path có param
+   */
+  private getCompiledRoutes(projectId: string): CompiledRoute[] {
+    const cached = this.compiled.get(projectId);
+    if (cached) return cached;
+
+    const config = SERVICE_CONFIG.SERVICES[projectId]?.routes;
+    const routes = Object.values(config?.routes ?? {})
+      .map((route) => {
+        const segments = route.path.split("/").filter(Boolean);
+        const path = segments
+          .map((segment) =>
+            segment.startsWith(":") ? "[^/]+" : escapeRegExp(segment)
+          )
+          .join("/");
+
+        return {
+          route,
+          pattern: new RegExp(
+            `^/api/v[^/]+${escapeRegExp(config!.prefix)}/${path}/?$`
+          ),
+          paramCount: segments.filter((segment) => segment.startsWith(":"))
+            .length,
+        };
+      })
+      .sort((a, b) => a.paramCount - b.paramCount);
+
+    this.compiled.set(projectId, routes);
+    return routes;
+  }
+
+  resolve(projectId: string, method: string, path: string): RouteResolution {
+    const config = SERVICE_CONFIG.SERVICES[projectId]?.routes;
+
+    if (!config) {
+      return { type: "public" };
+    }
+
+    const match = this.getCompiledRoutes(projectId).find(
+      ({ route, pattern }) => route.method === method && pattern.test(path)
+    );
+
+    if (match) {
+      return { type: "route", route: match.route };
+    }
+
+    // CORS preflight không mang token
+    if (
+      method === "OPTIONS" ||
+      config.publicPaths.some((publicPath) => path.startsWith(publicPath))
+    ) {
+      return { type: "public" };
+    }
+
+    return { type: "not_found" };
+  }
+}
@@ -0,0 +1,214 @@
+import { REGISTRY_CONFIG, SERVICE_CONFIG, ServiceConfig } from "../configs";
+
+export interface ServiceInstance {
+  id: string; // host:port
+  host: string;
+  port: string | number;
+  healthy: boolean;
+  activeConnections: number;
+  consecutiveFailures: number; // Lỗi liên tiếp khi proxy (passive)
+  consecutiveCheckFailures: number;
+  consecutiveCheckSuccesses: number;
+  ejectedUntil: number; // ms, 0 nếu không bị loại
+  lastCheckedAt: number; // ms
+  lastError: string;
+}
+
+/**
+ * Registry các instance của từng service: chọn instance theo round-robin/least-connections,
+ * loại instance lỗi (health check chủ động + lỗi khi proxy) và nhận lại khi đã hồi phục
+ */
+export class ServiceRegistry {
+  private instances = new Map<string, ServiceInstance[]>();
+  private cursors = new Map<string, number>();
+  private healthCheckTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly services: Record<
+      string,
+      ServiceConfig
+    > = SERVICE_CONFIG.SERVICES
+  ) {
+    for (const [projectId, service] of Object.entries(services)) {
+      this.instances.set(
+        projectId,
+        service.instances.map((instance) => ({
+          id: `${instance.host}:${instance.port}`,
+          host: instance.host,
+          port: instance.port,
+          healthy: true,
+          activeConnections: 0,
+          consecutiveFailures: 0,
+          consecutiveCheckFailures: 0,
+          consecutiveCheckSuccesses: 0,
+          ejectedUntil: 0,
+          lastCheckedAt: 0,
+          lastError: "",
+        }))
+      );
+    }
+  }
+
+  /**
+   * Chọn một instance healthy và tăng số kết nối đang mở, null nếu không còn instance nào.
+   * Phải gọi release() khi request kết thúc
+   */
+  acquire(projectId: string): ServiceInstance | null {
+    const healthy = (this.instances.get(projectId) ?? []).filter(
+      (instance) => instance.healthy
+    );
+
+    if (healthy.length === 0) {
+      return null;
+    }
+
+    let instance: ServiceInstance;
+    if (this.services[projectId]?.strategy === "least_connections") {
+      instance = healthy.reduce((least, candidate) =>
+        candidate.activeConnections < least.activeConnections
+          ? candidate
+          : least
+      );
+    } else {
+      const cursor = this.cursors.get(projectId) ?? 0;
+      instance = healthy[cursor % healthy.length]!;
+      this.cursors.set(projectId, cursor + 1);
+    }
+
+    instance.activeConnections++;
+    return instance;
+  }
+
+  /**
+   * Giảm số kết nối đang mở khi request tới instance kết thúc
+   */
+  release(instance: ServiceInstance): void {
+    instance.activeConnections = Math.max(0, instance.activeConnections - 1);
+  }
+
+  recordSuccess(instance: ServiceInstance): void {
+    instance.consecutiveFailures = 0;
+  }
+
+  /**
+   * Passive failure detection: loại instance khi proxy lỗi liên tiếp
+   * REGISTRY_CONFIG.PASSIVE_FAILURE_THRESHOLD lần
+   */
+  recordFailure(instance: ServiceInstance, reason: string): void {
+    instance.consecutiveFailures++;
+    instance.lastError = reason;
+
+    if (
+      instance.healthy &&
+      instance.consecutiveFailures >= REGISTRY_CONFIG.PASSIVE_FAILURE_THRESHOLD
+    ) {
+      this.eject(instance, reason);
+    }
+  }
+
+  private eject(instance: ServiceInstance, reason: string): void {
+    instance.healthy = false;
+    instance.ejectedUntil = Date.now() + REGISTRY_CONFIG.EJECTION_DURATION_MS;
+    instance.consecutiveCheckSuccesses = 0;
+    console.warn(`⚠️  Instance ${instance.id} ejected: ${reason}`);
+  }
+
+  private readmit(instance: ServiceInstance): void {
+    instance.healthy = true;
+    instance.ejectedUntil = 0;
+    instance.consecutiveFailures = 0;
+    instance.consecutiveCheckFailures = 0;
+    console.log(`✅ Instance ${instance.id} is healthy again`);
+  }
+
+  /**
+   * Health check một instance, response < 500 được coi là healthy
+   */
+  private async checkInstance(
+    instance: ServiceInstance,
+    healthCheckPath: string
+  ): Promise<void> {
+    let error = "";
+
+    try {
+      const response = await fetch(
+        `http://${instance.host}:${instance.port}${healthCheckPath}`,
+        { signal: AbortSignal.timeout(REGISTRY_CONFIG.HEALTH_CHECK_TIMEOUT_MS) }
+      );
+      await response.body?.cancel();
+
+      if (response.status >= 500) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (checkError) {
+      error =
+        checkError instanceof Error ? checkError.message : "Unknown error";
+    }
+
+    instance.lastCheckedAt = Date.now();
+
+    if (error) {
+      instance.lastError = error;
+      instance.consecutiveCheckSuccesses = 0;
+      instance.consecutiveCheckFailures++;
+
+      if (
+        instance.healthy &&
+        instance.consecutiveCheckFailures >= REGISTRY_CONFIG.UNHEALTHY_THRESHOLD
+      ) {
+        this.eject(instance, error);
+      }
+      return;
+    }
+
+    instance.consecutiveCheckFailures = 0;
+    instance.consecutiveCheckSuccesses++;
+
+    if (
+      !instance.healthy &&
+      Date.now() >= instance.ejectedUntil &&
+      instance.consecutiveCheckSuccesses >= REGISTRY_CONFIG.HEALTHY_THRESHOLD
+    ) {
+      this.readmit(instance);
+    }
+  }
+
+  async checkAll(): Promise<void> {
+    await Promise.all(
+      [...this.instances.entries()].flatMap(([projectId, instances]) =>
+        instances.map((instance) =>
+          this.checkInstance(
+            instance,
+            this.services[projectId]!.healthCheckPath
+          )
+        )
+      )
+    );
+  }
+
+  /**
+   * Chạy health check định kỳ theo REGISTRY_CONFIG.HEALTH_CHECK_INTERVAL_MS
+   */
+  startHealthChecks(): void {
+    if (this.healthCheckTimer) return;
+
+    void this.checkAll();
+    this.healthCheckTimer = setInterval(
+      () => void this.checkAll(),
+      REGISTRY_CONFIG.HEALTH_CHECK_INTERVAL_MS
+    );
+  }
+
+  stopHealthChecks(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+  }
+
+  getInstances(projectId: string): ServiceInstance[] {
+    return this.instances.get(projectId) ?? [];
+  }
+}
+
+export const serviceRegistry = new ServiceRegistry();
@@ -0,0 +1,332 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { SERVICE_ID } from "@repo/types";
+import {
+  createLocalJWKSet,
+  exportJWK,
+  generateKeyPair,
+  JWTPayload,
+  SignJWT,
+} from "jose";
+import { AUTH_CONFIG } from "../src/configs";
+import { AuthMiddleware } from "../src/middleware/auth.middleware";
+import { AuthService, GatewayAuthError } from "../src/services/auth.service";
+import { RouteResolverService } from "../src/services/route-resolver.service";
+import { PROJECT_ID } from "./helpers";
+
+type SigningKey = Awaited<ReturnType<typeof generateKeyPair>>["privateKey"];
+
+describe("gateway authentication", () => {
+  let privateKey: SigningKey;
+  let jwks: ReturnType<typeof createLocalJWKSet>;
+  let middleware: AuthMiddleware;
+
+  const sign = (
+    claims: JWTPayload,
+    options: { issuer?: string; expiresIn?: string | number } = {}
+  ) =>
+    new SignJWT(claims)
+      .setProtectedHeader({ alg: "ES256", kid: "test" })
+      .setIssuer(options.issuer ?? AUTH_CONFIG.JWT_ISSUER)
+      .setIssuedAt()
+      .setExpirationTime(options.expiresIn ?? "5m")
+      .sign(privateKey);
+
+  const accessToken = (permissions: string[] = []) =>
+    sign({
+      type: "access",
+      sub: "42",
+      device_id: "device-1",
+      session_id: "7",
+      roles: ["USER"],
+      permissions,
+    });
+  const deviceToken = () => sign({ type: "device", deviceId: "device-1" });
+  const refreshToken = () =>
+    sign({
+      type: "refresh",
+      sub: "42",
+      device_id: "device-1",
+      session_id: "7",
+    });
+
+  const authorize = (
+    method: string,
+    path: string,
+    token?: string,
+    headers: Record<string, string> = {}
+  ) =>
+    middleware.authorize(PROJECT_ID, {
+      method,
+      url: path,
+      headers: new Headers({
+        ...headers,
+        ...(token ? { authorization: `Bearer ${token}` } : {}),
+      }),
+      body: null,
+      clientIp: "203.0.113.7",
+    });
+
+  // Status và message lỗi trong ApiResponse trả về client
+  const rejection = async (result: Awaited<ReturnType<typeof authorize>>) => {
+    expect(result.ok).toBe(false);
+    if (result.ok) return null;
+
+    const body = (await result.response.json()) as {
+      status_code: number;
+      message: string;
+    };
+    expect(body.status_code).toBe(result.response.status);
+
+    return { status: result.response.status, message: body.message };
+  };
+
+  beforeAll(async () => {
+    const keys = await generateKeyPair("ES256");
+    privateKey = keys.privateKey;
+    jwks = createLocalJWKSet({
+      keys: [
+        { ...(await exportJWK(keys.publicKey)), kid: "test", alg: "ES256" },
+      ],
+    });
+    middleware = new AuthMiddleware(
+      new RouteResolverService(),
+      new AuthService({ ...AUTH_CONFIG, VALIDATION_MODE: "jwks" }, jwks)
+    );
+  });
+
+  describe("RouteResolverService", () => {
+    const resolver = new RouteResolverService();
+
+    test("matches routes by method, version and path parameters", () => {
+      expect(
+        resolver.resolve(PROJECT_ID, "POST", "/api/v1/auth/device/abc/delete")
+      ).toMatchObject({ type: "route", route: { id: "auth.device.delete" } });
+      expect(
+        resolver.resolve(PROJECT_ID, "POST", "/api/v2/auth/login/")
+      ).toMatchObject({ type: "route", route: { id: "auth.login" } });
+      expect(resolver.resolve(PROJECT_ID, "GET", "/api/v1/auth/login")).toEqual(
+        { type: "not_found" }
+      );
+    });
+
+    test("lets public paths, preflight and services without routes through", () => {
+      expect(
+        resolver.resolve(PROJECT_ID, "GET", "/.well-known/jwks.json")
+      ).toEqual({ type: "public" });
+      expect(
+        resolver.resolve(PROJECT_ID, "OPTIONS", "/api/v1/auth/login")
+      ).toEqual({ type: "public" });
+      expect(
+        resolver.resolve(SERVICE_ID.NOVEL, "GET", "/api/v1/novels")
+      ).toEqual({ type: "public" });
+    });
+  });
+
+  test("NONE routes need no token", async () => {
+    expect(await authorize("POST", "/api/v1/auth/device/token")).toEqual({
+      ok: true,
+      identityHeaders: { "x-api-id": "auth.device.register" },
+    });
+  });
+
+  test("unknown routes of a service with route metadata are rejected", async () => {
+    expect(
+      await rejection(await authorize("GET", "/api/v1/auth/internal"))
+    ).toMatchObject({ status: 404 });
+  });
+
+  test("TOKEN_REQUIRED routes accept only access tokens", async () => {
+    const path = "/api/v1/auth/device/list";
+
+    expect(await rejection(await authorize("GET", path))).toEqual({
+      status: 401,
+      message: "Missing bearer token",
+    });
+    expect(
+      await rejection(await authorize("GET", path, await deviceToken()))
+    ).toEqual({ status: 401, message: "Invalid token type" });
+    expect(
+      await rejection(await authorize("GET", path, await refreshToken()))
+    ).toEqual({ status: 401, message: "Invalid token type" });
+
+    expect(await authorize("GET", path, await accessToken())).toEqual({
+      ok: true,
+      identityHeaders: {
+        "x-user-id": "42",
+        "x-device-id": "device-1",
+        "x-session-id": "7",
+        "x-user-roles": "USER",
+        "x-user-permissions": "",
+        "x-token-type": "access",
+        "x-api-id": "auth.device.list",
+      },
+    });
+  });
+
+  test("device tokens are allowed only on device and login routes", async () => {
+    const token = await deviceToken();
+
+    for (const path of [
+      "/api/v1/auth/device/verify",
+      "/api/v1/auth/login",
+      "/api/v1/auth/register",
+    ]) {
+      const result = await authorize("POST", path, token);
+      expect(result).toMatchObject({
+        ok: true,
+        identityHeaders: {
+          "x-device-id": "device-1",
+          "x-token-type": "device",
+        },
+      });
+    }
+
+    expect(
+      await rejection(await authorize("POST", "/api/v1/auth/logout", token))
+    ).toMatchObject({ status: 401 });
+    expect(
+      await rejection(
+        await authorize("POST", "/api/v1/auth/login", await refreshToken())
+      )
+    ).toMatchObject({ status: 401 });
+  });
+
+  test("REFRESH_TOKEN_REQUIRED routes accept only refresh tokens", async () => {
+    const path = "/api/v1/auth/refresh";
+
+    expect(await authorize("POST", path, await refreshToken())).toMatchObject({
+      ok: true,
+      identityHeaders: {
+        "x-token-type": "refresh",
+        "x-api-id": "auth.refresh",
+      },
+    });
+    expect(
+      await rejection(await authorize("POST", path, await accessToken()))
+    ).toMatchObject({ status: 401 });
+  });
+
+  test("routes with permissions require every permission", async () => {
+    const path = "/api/v1/auth/admin/roles";
+
+    expect(
+      await rejection(await authorize("GET", path, await accessToken()))
+    ).toEqual({ status: 403, message: "Insufficient permission" });
+    expect(
+      await authorize("GET", path, await accessToken(["rbac:manage"]))
+    ).toMatchObject({ ok: true });
+  });
+
+  test("routes with roles require at least one of them", () => {
+    const service = new AuthService(AUTH_CONFIG, jwks);
+    const identity = {
+      tokenType: "access" as const,
+      userId: "42",
+      deviceId: "device-1",
+      sessionId: "7",
+      roles: ["MODERATOR"],
+      permissions: [],
+    };
+
+    expect(() =>
+      service.authorize(identity, ["ADMIN", "MODERATOR"], [])
+    ).not.toThrow();
+    expect(() => service.authorize(identity, ["ADMIN"], [])).toThrow(
+      GatewayAuthError
+    );
+    expect(() => service.authorize(identity, ["ADMIN"], [])).toThrow(
+      "Insufficient role"
+    );
+  });
+
+  test("rejects expired tokens, other issuers and a mismatched x-api-id", async () => {
+    const path = "/api/v1/auth/device/list";
+
+    expect(
+      await rejection(
+        await authorize(
+          "GET",
+          path,
+          await sign({ type: "access", sub: "42" }, { expiresIn: 0 })
+        )
+      )
+    ).toEqual({ status: 401, message: "Token expired" });
+    expect(
+      await rejection(
+        await authorize(
+          "GET",
+          path,
+          await sign({ type: "access", sub: "42" }, { issuer: "other" })
+        )
+      )
+    ).toEqual({ status: 401, message: "Invalid token" });
+    expect(
+      await rejection(
+        await authorize("GET", path, await accessToken(), {
+          "x-api-id": "auth.admin.role.list",
+        })
+      )
+    ).toMatchObject({ status: 400 });
+  });
+
+  describe("grpc validation mode", () => {
+    const grpcService = (
+      validateToken: (request: { session_id: string }) => Promise<unknown>
+    ) =>
+      new AuthService({ ...AUTH_CONFIG, VALIDATION_MODE: "grpc" }, jwks, {
+        validateToken,
+      } as any);
+
+    test("uses the roles and permissions returned by the auth service", async () => {
+      const service = grpcService(async () => ({
+        status: 200,
+        message: "",
+        data: { roles: ["USER", "ADMIN"], permissions: ["audit:read"] },
+      }));
+
+      expect(
+        await service.authenticate(await accessToken(), "TOKEN_REQUIRED")
+      ).toMatchObject({
+        roles: ["USER", "ADMIN"],
+        permissions: ["audit:read"],
+      });
+    });
+
+    test("rejects an access token of a revoked session", async () => {
+      const service = grpcService(async () => ({
+        status: 401,
+        message: "auth.token.revoked",
+        data: undefined,
+        error: { code: "UNAUTHORIZED", message: "auth.token.revoked" },
+      }));
+
+      await expect(
+        service.authenticate(await accessToken(), "TOKEN_REQUIRED")
+      ).rejects.toMatchObject({ status: 401, message: "auth.token.revoked" });
+    });
+
+    test("returns 503 when the auth service does not answer", async () => {
+      const service = grpcService(async () => {
+        throw new Error("UNAVAILABLE");
+      });
+
+      await expect(
+        service.authenticate(await accessToken(), "TOKEN_REQUIRED")
+      ).rejects.toMatchObject({
+        status: 503,
+        message: "Auth service unavailable",
+      });
+    });
+
+    test("does not call the auth service for device tokens", async () => {
+      let calls = 0;
+      const service = grpcService(async () => {
+        calls++;
+        return {};
+      });
+
+      await service.authenticate(await deviceToken(), "DEVICE_TOKEN_ALLOWED");
+      expect(calls).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { CircuitBreaker } from "../src/services/circuit-breaker.service";
+
+describe("CircuitBreaker", () => {
+  const start = new Date("2026-01-01T00:00:00Z").getTime();
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  const openBreaker = () => {
+    const breaker = new CircuitBreaker("auth", 3, 10_000, 1);
+
+    setSystemTime(start);
+    for (let i = 0; i < 3; i++) {
+      expect(breaker.tryAcquire()).toBe(true);
+      breaker.recordFailure();
+    }
+
+    return breaker;
+  };
+
+  test("stays closed until consecutive failures reach the threshold", () => {
+    const breaker = new CircuitBreaker("auth", 3, 10_000, 1);
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  test("opens and rejects requests during the open window", () => {
+    const breaker = openBreaker();
+
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.tryAcquire()).toBe(false);
+
+    setSystemTime(start + 4_000);
+    expect(breaker.getRetryAfterMs()).toBe(6_000);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  test("lets a limited number of trial requests through when half-open", () => {
+    const breaker = openBreaker();
+
+    setSystemTime(start + 10_000);
+    expect(breaker.getState()).toBe("half_open");
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    // Request thử bị hủy thì nhường chỗ cho request khác
+    breaker.release();
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  test("closes after a successful trial request", () => {
+    const breaker = openBreaker();
+
+    setSystemTime(start + 10_000);
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    expect(breaker.getStatus()).toMatchObject({
+      state: "closed",
+      consecutiveFailures: 0,
+      openedAt: null,
+      retryAfterMs: 0,
+    });
+  });
+
+  test("reopens for a full window after a failed trial request", () => {
+    const breaker = openBreaker();
+
+    setSystemTime(start + 10_000);
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.getRetryAfterMs()).toBe(10_000);
+  });
+});
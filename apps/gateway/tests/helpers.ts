@@ -0,0 +1,45 @@
+import { SERVICE_ID } from "@repo/types";
+import { SERVICE_CONFIG, ServiceConfig } from "../src/configs";
+import { CircuitBreakerRegistry } from "../src/services/circuit-breaker.service";
+import { ProxyService } from "../src/services/proxy.service";
+import { ServiceRegistry } from "../src/services/service-registry.service";
+
+export const PROJECT_ID = SERVICE_ID.AUTH;
+
+/**
+ * Upstream local trên cổng ngẫu nhiên, handler được thay trong từng test
+ */
+export const startUpstream = (
+  handler: (request: Request) => Response | Promise<Response>
+) => Bun.serve({ port: 0, fetch: handler });
+
+/**
+ * Config của auth service trỏ tới các upstream local
+ */
+export const serviceConfigFor = (
+  ports: number[],
+  overrides: Partial<ServiceConfig> = {}
+): Record<string, ServiceConfig> => ({
+  [PROJECT_ID]: {
+    ...SERVICE_CONFIG.SERVICES[PROJECT_ID]!,
+    instances: ports.map((port) => ({ host: "127.0.0.1", port })),
+    ...overrides,
+  },
+});
+
+/**
+ * ProxyService với registry và circuit breaker riêng của test
+ */
+export const createProxy = (
+  ports: number[],
+  overrides: Partial<ServiceConfig> = {}
+) => {
+  const registry = new ServiceRegistry(serviceConfigFor(ports, overrides));
+  const breakers = new CircuitBreakerRegistry();
+
+  return {
+    registry,
+    breakers,
+    proxy: new ProxyService(registry, breakers),
+  };
+};
@@ -0,0 +1,216 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createHash, randomBytes } from "node:crypto";
+import { ERROR_CODES } from "@repo/utils";
+import { ProxyError } from "../src/services/proxy.service";
+import { createProxy, PROJECT_ID, startUpstream } from "./helpers";
+
+const sha256 = (data: Uint8Array) =>
+  createHash("sha256").update(data).digest("hex");
+
+describe("ProxyService streaming", () => {
+  let upstream: ReturnType<typeof startUpstream> | undefined;
+
+  afterEach(() => {
+    upstream?.stop(true);
+    upstream = undefined;
+  });
+
+  test("strips hop-by-hop headers and replaces client identity headers", async () => {
+    upstream = startUpstream(
+      (request) =>
+        new Response(JSON.stringify(Object.fromEntries(request.headers)), {
+          headers: {
+            "content-type": "application/json",
+            "proxy-authenticate": "Basic",
+          },
+        })
+    );
+    const { proxy } = createProxy([upstream.port!]);
+
+    const response = await proxy.forwardRequest(PROJECT_ID, {
+      method: "GET",
+      url: "/api/v1/auth/me?lang=vi",
+      headers: new Headers({
+        connection: "keep-alive, x-hop-secret",
+        "keep-alive": "timeout=5",
+        "proxy-authorization": "Basic abc",
+        "x-hop-secret": "1",
+        "x-user-id": "999",
+        "x-forwarded-for": "198.51.100.1",
+        authorization: "Bearer token",
+      }),
+      body: null,
+      clientIp: "203.0.113.7",
+      identityHeaders: { "x-user-id": "42" },
+    });
+    const received = (await response.json()) as Record<string, string>;
+
+    expect(received["keep-alive"]).toBeUndefined();
+    expect(received["proxy-authorization"]).toBeUndefined();
+    expect(received["x-hop-secret"]).toBeUndefined();
+    expect(received).toMatchObject({
+      authorization: "Bearer token",
+      "x-user-id": "42",
+      "x-forwarded-for": "198.51.100.1, 203.0.113.7",
+    });
+    expect(response.headers.get("proxy-authenticate")).toBeNull();
+  });
+
+  test("streams a multipart body without parsing it", async () => {
+    upstream = startUpstream(async (request) => {
+      const form = await request.formData();
+      const file = form.get("avatar") as File;
+
+      return Response.json({
+        title: form.get("title"),
+        name: file.name,
+        hash: sha256(new Uint8Array(await file.arrayBuffer())),
+      });
+    });
+    const { proxy } = createProxy([upstream.port!]);
+    const image = randomBytes(64 * 1024);
+    const form = new FormData();
+    form.set("title", "Chương 1");
+    form.set("avatar", new File([image], "avatar.png", { type: "image/png" }));
+    const original = new Request("http://client/upload", {
+      method: "POST",
+      body: form,
+    });
+
+    const response = await proxy.forwardRequest(PROJECT_ID, {
+      method: "POST",
+      url: "/api/v1/auth/profile/avatar",
+      headers: original.headers,
+      body: original.body,
+    });
+
+    expect(await response.json()).toEqual({
+      title: "Chương 1",
+      name: "avatar.png",
+      hash: sha256(image),
+    });
+  });
+
+  test("streams a binary body both ways byte for byte", async () => {
+    upstream = startUpstream(
+      (request) =>
+        new Response(request.body, {
+          headers: { "content-type": "application/octet-stream" },
+        })
+    );
+    const { proxy, registry } = createProxy([upstream.port!]);
+    const payload = randomBytes(512 * 1024);
+    const chunks = [payload.subarray(0, 1000), payload.subarray(1000)];
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const chunk = chunks.shift();
+        if (chunk) controller.enqueue(chunk);
+        else controller.close();
+      },
+    });
+
+    const response = await proxy.forwardRequest(PROJECT_ID, {
+      method: "PUT",
+      url: "/api/v1/files/blob",
+      headers: new Headers({ "content-type": "application/octet-stream" }),
+      body,
+    });
+    const echoed = new Uint8Array(await response.arrayBuffer());
+
+    expect(response.headers.get("content-type")).toBe(
+      "application/octet-stream"
+    );
+    expect(sha256(echoed)).toBe(sha256(payload));
+    // Kết nối được trả lại registry khi stream response kết thúc
+    expect(registry.getInstances(PROJECT_ID)[0]?.activeConnections).toBe(0);
+  });
+});
+
+describe("ProxyService retries", () => {
+  const upstreams: Array<ReturnType<typeof startUpstream>> = [];
+  const hits: string[] = [];
+
+  const start = (name: string, status: number) => {
+    const upstream = startUpstream(async (request) => {
+      await request.arrayBuffer();
+      hits.push(`${name} ${request.method}`);
+      return new Response(name, { status });
+    });
+    upstreams.push(upstream);
+    return upstream.port!;
+  };
+
+  afterEach(() => {
+    upstreams.splice(0).forEach((upstream) => upstream.stop(true));
+    hits.length = 0;
+  });
+
+  test("retries an idempotent request on another instance after a 503", async () => {
+    const { proxy, breakers } = createProxy([start("a", 503), start("b", 200)]);
+
+    const response = await proxy.forwardRequest(PROJECT_ID, {
+      method: "GET",
+      url: "/api/v1/auth/me",
+      headers: new Headers(),
+      body: null,
+    });
+
+    expect(await response.text()).toBe("b");
+    expect(hits).toEqual(["a GET", "b GET"]);
+    expect(breakers.get(PROJECT_ID).getStatus().consecutiveFailures).toBe(0);
+  });
+
+  test("does not retry a non-idempotent request", async () => {
+    const { proxy } = createProxy([start("a", 503), start("b", 200)]);
+
+    const response = await proxy.forwardRequest(PROJECT_ID, {
+      method: "POST",
+      url: "/api/v1/auth/login",
+      headers: new Headers(),
+      body: null,
+    });
+
+    expect(response.status).toBe(503);
+    expect(hits).toEqual(["a POST"]);
+  });
+
+  test("does not retry an idempotent request with a body", async () => {
+    const { proxy } = createProxy([start("a", 503), start("b", 200)]);
+
+    const response = await proxy.forwardRequest(PROJECT_ID, {
+      method: "PUT",
+      url: "/api/v1/auth/profile",
+      headers: new Headers({ "content-type": "application/json" }),
+      body: new Response('{"name":"a"}').body,
+    });
+
+    expect(response.status).toBe(503);
+    expect(hits).toEqual(["a PUT"]);
+  });
+
+  test("rejects requests while the circuit breaker is open", async () => {
+    const { proxy, breakers } = createProxy([start("a", 200)]);
+    const breaker = breakers.get(PROJECT_ID);
+
+    while (breaker.getState() === "closed") {
+      breaker.recordFailure();
+    }
+
+    const error = await proxy
+      .forwardRequest(PROJECT_ID, {
+        method: "GET",
+        url: "/api/v1/auth/me",
+        headers: new Headers(),
+        body: null,
+      })
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(ProxyError);
+    expect(error).toMatchObject({
+      status: 503,
+      code: ERROR_CODES.CIRCUIT_OPEN,
+    });
+    expect((error as ProxyError).retryAfter).toBeGreaterThan(0);
+    expect(hits).toEqual([]);
+  });
+});
@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import type { RateLimitResult } from "@repo/redis";
+import { RATE_LIMIT_CONFIG, RateLimitPolicy } from "../src/configs";
+import { RateLimitService } from "../src/services/rate-limit.service";
+import { PROJECT_ID } from "./helpers";
+
+/**
+ * Limiter giả đếm request theo key trong bộ nhớ, fail/hang để giả lập Redis lỗi
+ */
+class FakeLimiter {
+  readonly keys: string[] = [];
+  private counts = new Map<string, number>();
+  fail = false;
+  hang = false;
+
+  private async count(
+    key: string,
+    limit: number,
+    windowMs: number
+  ): Promise<RateLimitResult> {
+    this.keys.push(key);
+    if (this.fail) throw new Error("ECONNREFUSED");
+    if (this.hang) return new Promise<RateLimitResult>(() => {});
+
+    const current = (this.counts.get(key) ?? 0) + 1;
+    this.counts.set(key, current);
+
+    return {
+      limited: current > limit,
+      remaining: Math.max(0, limit - current),
+      resetTime: Date.now() + windowMs,
+      total: limit,
+    };
+  }
+
+  checkLimit(key: string, limit: number, windowMs: number) {
+    return this.count(key, limit, windowMs);
+  }
+
+  checkSlidingWindowLimit(key: string, limit: number, windowMs: number) {
+    return this.count(key, limit, windowMs);
+  }
+}
+
+const policy = (
+  limit: number,
+  keyBy: RateLimitPolicy["keyBy"]
+): RateLimitPolicy => ({ limit, windowMs: 60000, keyBy, algorithm: "fixed" });
+
+describe("RateLimitService", () => {
+  const start = new Date("2026-01-01T00:00:00Z").getTime();
+  const client = { ip: "203.0.113.7", deviceId: "device-1", userId: "42" };
+  let limiter: FakeLimiter;
+
+  const createService = (overrides: Partial<typeof RATE_LIMIT_CONFIG> = {}) => {
+    limiter = new FakeLimiter();
+    return new RateLimitService(limiter as any, {
+      ...RATE_LIMIT_CONFIG,
+      ENABLED: true,
+      TIMEOUT_MS: 20,
+      FAILURE_COOLDOWN_MS: 5000,
+      PROJECT_POLICIES: { [PROJECT_ID]: policy(10, "user") },
+      API_POLICIES: {
+        "auth.login": policy(2, "ip"),
+        "auth.2fa": policy(5, "device"),
+      },
+      ...overrides,
+    });
+  };
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test("returns headers of the policy with the fewest remaining requests", async () => {
+    setSystemTime(start);
+    const service = createService();
+
+    const decision = await service.check(PROJECT_ID, "auth.login", client);
+
+    expect(decision).toEqual({
+      limited: false,
+      headers: {
+        "RateLimit-Limit": "2",
+        "RateLimit-Remaining": "1",
+        "RateLimit-Reset": "60",
+        "RateLimit-Policy": "2;w=60",
+      },
+    });
+  });
+
+  test("keys each policy by ip, device or user", async () => {
+    const service = createService();
+
+    await service.check(PROJECT_ID, "auth.login", client);
+    await service.check(PROJECT_ID, "auth.2fa", client);
+    await service.check(PROJECT_ID, undefined, { ip: "203.0.113.7" });
+
+    expect(limiter.keys).toEqual([
+      `${PROJECT_ID}:project:user:42`,
+      `${PROJECT_ID}:api:auth.login:ip:203.0.113.7`,
+      `${PROJECT_ID}:project:user:42`,
+      `${PROJECT_ID}:api:auth.2fa:device:device-1`,
+      `${PROJECT_ID}:project:ip:203.0.113.7`,
+    ]);
+  });
+
+  test("adds Retry-After once a policy is exceeded", async () => {
+    setSystemTime(start);
+    const service = createService();
+
+    await service.check(PROJECT_ID, "auth.login", client);
+    await service.check(PROJECT_ID, "auth.login", client);
+    setSystemTime(start + 15_000);
+    const decision = await service.check(PROJECT_ID, "auth.login", client);
+
+    expect(decision).toMatchObject({
+      limited: true,
+      retryAfter: 60,
+      headers: {
+        "RateLimit-Limit": "2",
+        "RateLimit-Remaining": "0",
+        "Retry-After": "60",
+      },
+    });
+  });
+
+  test("fails open when the limiter throws and skips it during the cooldown", async () => {
+    setSystemTime(start);
+    const service = createService();
+    limiter.fail = true;
+
+    expect(await service.check(PROJECT_ID, undefined, client)).toEqual({
+      limited: false,
+      headers: {},
+    });
+
+    limiter.fail = false;
+    setSystemTime(start + 4_999);
+    await service.check(PROJECT_ID, undefined, client);
+    expect(limiter.keys).toHaveLength(1);
+
+    setSystemTime(start + 5_000);
+    const decision = await service.check(PROJECT_ID, undefined, client);
+    expect(limiter.keys).toHaveLength(2);
+    expect(decision.headers["RateLimit-Remaining"]).toBe("9");
+  });
+
+  test("fails open when the limiter does not answer in time", async () => {
+    const service = createService();
+    limiter.hang = true;
+
+    expect(await service.check(PROJECT_ID, "auth.login", client)).toEqual({
+      limited: false,
+      headers: {},
+    });
+  });
+});
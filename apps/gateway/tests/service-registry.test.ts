@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { REGISTRY_CONFIG } from "../src/configs";
+import { ServiceRegistry } from "../src/services/service-registry.service";
+import { PROJECT_ID, serviceConfigFor, startUpstream } from "./helpers";
+
+describe("ServiceRegistry", () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  const acquireIds = (registry: ServiceRegistry, count: number) =>
+    Array.from({ length: count }, () => {
+      const instance = registry.acquire(PROJECT_ID)!;
+      registry.release(instance);
+      return instance.port;
+    });
+
+  test("round-robin cycles through healthy instances", () => {
+    const registry = new ServiceRegistry(serviceConfigFor([4001, 4002, 4003]));
+
+    expect(acquireIds(registry, 4)).toEqual([4001, 4002, 4003, 4001]);
+  });
+
+  test("least-connections picks the instance with the fewest open requests", () => {
+    const registry = new ServiceRegistry(
+      serviceConfigFor([4001, 4002], { strategy: "least_connections" })
+    );
+
+    const first = registry.acquire(PROJECT_ID)!;
+    const second = registry.acquire(PROJECT_ID)!;
+    const third = registry.acquire(PROJECT_ID)!;
+    expect([first.port, second.port]).toEqual([4001, 4002]);
+    expect(third.port).toBe(4001);
+
+    registry.release(first);
+    registry.release(third);
+    expect(registry.acquire(PROJECT_ID)?.port).toBe(4001);
+  });
+
+  test("ejects an instance after consecutive proxy failures", () => {
+    const registry = new ServiceRegistry(serviceConfigFor([4001, 4002]));
+    const [failing] = registry.getInstances(PROJECT_ID);
+
+    for (let i = 1; i < REGISTRY_CONFIG.PASSIVE_FAILURE_THRESHOLD; i++) {
+      registry.recordFailure(failing!, "HTTP 502");
+    }
+    registry.recordSuccess(failing!);
+    for (let i = 1; i < REGISTRY_CONFIG.PASSIVE_FAILURE_THRESHOLD; i++) {
+      registry.recordFailure(failing!, "HTTP 502");
+    }
+    expect(failing?.healthy).toBe(true);
+
+    registry.recordFailure(failing!, "HTTP 502");
+    expect(failing).toMatchObject({ healthy: false, lastError: "HTTP 502" });
+    expect(acquireIds(registry, 3)).toEqual([4002, 4002, 4002]);
+  });
+
+  test("returns no instance when every instance is ejected", () => {
+    const registry = new ServiceRegistry(serviceConfigFor([4001]));
+    const [instance] = registry.getInstances(PROJECT_ID);
+
+    for (let i = 0; i < REGISTRY_CONFIG.PASSIVE_FAILURE_THRESHOLD; i++) {
+      registry.recordFailure(instance!, "ECONNREFUSED");
+    }
+
+    expect(registry.acquire(PROJECT_ID)).toBeNull();
+  });
+
+  test("health checks eject a failing instance and re-admit it after the ejection window", async () => {
+    let status = 503;
+    const upstream = startUpstream(() => new Response(null, { status }));
+    const registry = new ServiceRegistry(serviceConfigFor([upstream.port!]));
+    const [instance] = registry.getInstances(PROJECT_ID);
+    const start = Date.now();
+
+    try {
+      setSystemTime(start);
+      for (let i = 0; i < REGISTRY_CONFIG.UNHEALTHY_THRESHOLD; i++) {
+        await registry.checkAll();
+      }
+      expect(instance).toMatchObject({ healthy: false, lastError: "HTTP 503" });
+
+      // Đã hồi phục nhưng chưa hết thời gian bị loại
+      status = 200;
+      for (let i = 0; i < REGISTRY_CONFIG.HEALTHY_THRESHOLD; i++) {
+        await registry.checkAll();
+      }
+      expect(instance?.healthy).toBe(false);
+
+      setSystemTime(start + REGISTRY_CONFIG.EJECTION_DURATION_MS);
+      await registry.checkAll();
+      expect(instance?.healthy).toBe(true);
+      expect(registry.acquire(PROJECT_ID)?.port).toBe(upstream.port!);
+    } finally {
+      upstream.stop(true);
+    }
+  });
+});
@@ -0,0 +1,4 @@
+// Test setup cho gateway: retry gần như không chờ để test retry chạy nhanh.
+// Service phía sau là Bun.serve local, Redis/auth service được thay bằng fake trong từng test
+process.env.RETRY_BASE_DELAY_MS ??= "1";
+process.env.RETRY_MAX_DELAY_MS ??= "5";
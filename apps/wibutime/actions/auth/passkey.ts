@@ -0,0 +1,95 @@
+"use server";
+
+import type {
+  AuthenticationCredentialJSON,
+  AuthenticationOptionsJSON,
+  RegistrationCredentialJSON,
+  RegistrationOptionsJSON,
+} from "@/lib/webauthn";
+import { SERVICE_ID } from "@repo/types";
+import { ApiResponse, AuthApiConfig } from "@repo/utils";
+
+export interface PasskeyData {
+  id: string;
+  name: string;
+  transports: string[];
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface PasskeyLoginData {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: string;
+  accessTokenExpiresAt: string;
+  refreshTokenExpiresAt: string;
+}
+
+export interface TwoFactorChallengeData {
+  twoFactorRequired: true;
+  challengeToken: string;
+  challengeExpiresAt: string;
+}
+
+const callAuthApi = async <T>(
+  api: { url: string; apiId: string },
+  token: string,
+  body?: unknown
+): Promise<ApiResponse<T>> => {
+  const response = await fetch(`${process.env.PUBLIC_API_URL}${api.url}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+      "x-project-id": SERVICE_ID.AUTH,
+      "x-api-id": api.apiId,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  return (await response.json()) as ApiResponse<T>;
+};
+
+/**
+ * Lấy options đăng ký passkey cho user đang đăng nhập
+ */
+export const getPasskeyRegistrationOptions = async (accessToken: string) => {
+  return await callAuthApi<RegistrationOptionsJSON>(
+    AuthApiConfig.getPasskeyRegisterOptionsUrl(),
+    accessToken
+  );
+};
+
+export const verifyPasskeyRegistration = async (
+  accessToken: string,
+  credential: RegistrationCredentialJSON,
+  name?: string
+) => {
+  return await callAuthApi<PasskeyData>(
+    AuthApiConfig.getPasskeyRegisterVerifyUrl(),
+    accessToken,
+    { name, credential }
+  );
+};
+
+/**
+ * Lấy options đăng nhập bằng passkey, challenge gắn với device token hiện tại
+ */
+export const getPasskeyLoginOptions = async (deviceToken: string) => {
+  return await callAuthApi<AuthenticationOptionsJSON>(
+    AuthApiConfig.getPasskeyLoginOptionsUrl(),
+    deviceToken
+  );
+};
+
+export const verifyPasskeyLogin = async (
+  deviceToken: string,
+  credential: AuthenticationCredentialJSON
+) => {
+  return await callAuthApi<PasskeyLoginData | TwoFactorChallengeData>(
+    AuthApiConfig.getPasskeyLoginVerifyUrl(),
+    deviceToken,
+    { credential }
+  );
+};
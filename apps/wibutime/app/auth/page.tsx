@@ -1,6 +1,7 @@
 "use client";
 import { registerDevice } from "@/actions/auth/device-register";
 import { useDeviceFingerprint } from "@/hooks/useDeviceInfo";
+import { usePasskey } from "@/hooks/usePasskey";
 import { useEffect, useState } from "react";
 
 const AuthPage = () => {
@@ -10,6 +11,8 @@ const AuthPage = () => {
     deviceInfo,
   } = useDeviceFingerprint();
 
+  const passkey = usePasskey();
+
   const [isRegistering, setIsRegistering] = useState(false);
   const [registrationStatus, setRegistrationStatus] = useState<
     "idle" | "loading" | "success" | "error"
@@ -36,6 +39,25 @@ const AuthPage = () => {
     }
   };
 
+  const handlePasskeyLogin = async () => {
+    const deviceToken = localStorage.getItem("token");
+    if (!deviceToken) return;
+
+    const result = await passkey.loginWithPasskey(deviceToken);
+
+    if (result && "accessToken" in result) {
+      localStorage.setItem("accessToken", result.accessToken);
+      localStorage.setItem("refreshToken", result.refreshToken);
+    }
+  };
+
+  const handlePasskeyRegister = async () => {
+    const accessToken = localStorage.getItem("accessToken");
+    if (!accessToken) return;
+
+    await passkey.registerPasskey(accessToken);
+  };
+
   // Auto-register when deviceInfo is ready
   useEffect(() => {
     if (deviceInfo.browser.userAgent && registrationStatus === "idle") {
@@ -105,6 +127,30 @@ const AuthPage = () => {
         >
           {isRegistering ? "Registering..." : "Register Device"}
         </button>
+
+        {passkey.isSupported && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <button
+                onClick={handlePasskeyLogin}
+                disabled={passkey.status === "loading"}
+                className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                Login with Passkey
+              </button>
+              <button
+                onClick={handlePasskeyRegister}
+                disabled={passkey.status === "loading"}
+                className="px-4 py-2 border border-blue-500 text-blue-500 rounded hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-300 disabled:cursor-not-allowed"
+              >
+                Add Passkey
+              </button>
+            </div>
+            {passkey.error && (
+              <div className="text-sm text-red-600">{passkey.error}</div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,112 +1,10 @@
 "use client";
 
+import type { DeviceInfo } from "@repo/types";
 import { encryptDeviceData, generateSecretKey } from "@repo/utils";
 import { useEffect, useState } from "react";
 
-export interface DeviceInfo {
-  // Screen Information
-  screen: {
-    width: number;
-    height: number;
-    availWidth: number;
-    availHeight: number;
-    innerWidth: number;
-    innerHeight: number;
-    devicePixelRatio: number;
-    orientation: string;
-    colorDepth: number;
-    pixelDepth: number;
-  };
-
-  // Device Type
-  device: {
-    type: "mobile" | "tablet" | "desktop";
-    isMobile: boolean;
-    isTablet: boolean;
-    isDesktop: boolean;
-    isTouchDevice: boolean;
-    isRetina: boolean;
-  };
-
-  // Operating System
-  os: {
-    name: string;
-    version: string;
-    platform: string;
-    architecture: string;
-  };
-
-  // Browser Information
-  browser: {
-    name: string;
-    version: string;
-    userAgent: string;
-    language: string;
-    languages: readonly string[];
-    cookieEnabled: boolean;
-    onLine: boolean;
-  };
-
-  // Hardware Capabilities
-  hardware: {
-    concurrency: number;
-    memory?: number;
-    maxTouchPoints: number;
-    vibration: boolean;
-  };
-
-  // Network Information
-  network?: {
-    effectiveType: string;
-    downlink: number;
-    rtt: number;
-    saveData: boolean;
-  };
-
-  // IP Information
-  ip?: {
-    public: string;
-    country?: string;
-    region?: string;
-    city?: string;
-    timezone?: string;
-    isp?: string;
-    org?: string;
-    as?: string;
-    query?: string;
-  };
-
-  // Battery Information
-  battery?: {
-    charging: boolean;
-    chargingTime: number;
-    dischargingTime: number;
-    level: number;
-  };
-
-  // Geolocation
-  geolocation?: {
-    supported: boolean;
-    latitude?: number;
-    longitude?: number;
-    accuracy?: number;
-  };
-
-  // Additional Features
-  features: {
-    webGL: boolean;
-    webGL2: boolean;
-    canvas: boolean;
-    localStorage: boolean;
-    sessionStorage: boolean;
-    indexedDB: boolean;
-    webWorkers: boolean;
-    serviceWorkers: boolean;
-    notifications: boolean;
-    camera: boolean;
-    microphone: boolean;
-  };
-}
+export type { DeviceInfo };
 
 // Helper functions
 const getDeviceType = (width: number): "mobile" | "tablet" | "desktop" => {
@@ -0,0 +1,108 @@
+"use client";
+
+import {
+  getPasskeyLoginOptions,
+  getPasskeyRegistrationOptions,
+  verifyPasskeyLogin,
+  verifyPasskeyRegistration,
+} from "@/actions/auth/passkey";
+import {
+  isPasskeySupported,
+  toAuthenticationJSON,
+  toCreationOptions,
+  toRegistrationJSON,
+  toRequestOptions,
+} from "@/lib/webauthn";
+import { API_RESPONSE_STATUS, ApiResponse } from "@repo/utils";
+import { useCallback, useEffect, useState } from "react";
+
+type PasskeyStatus = "idle" | "loading" | "success" | "error";
+
+const unwrap = <T>(response: ApiResponse<T>): T => {
+  if (response.status !== API_RESPONSE_STATUS.SUCCESS || !response.data) {
+    throw new Error(response.message || "Passkey request failed");
+  }
+
+  return response.data;
+};
+
+/**
+ * Đăng ký passkey cho user đang đăng nhập và đăng nhập bằng passkey
+ */
+export const usePasskey = () => {
+  const [isSupported, setIsSupported] = useState(false);
+  const [status, setStatus] = useState<PasskeyStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsSupported(isPasskeySupported());
+  }, []);
+
+  const run = useCallback(async <T>(task: () => Promise<T>) => {
+    try {
+      setStatus("loading");
+      setError(null);
+
+      const result = await task();
+
+      setStatus("success");
+      return result;
+    } catch (err) {
+      // User hủy hộp thoại passkey cũng trả về lỗi (NotAllowedError)
+      setStatus("error");
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    }
+  }, []);
+
+  const registerPasskey = useCallback(
+    (accessToken: string, name?: string) =>
+      run(async () => {
+        const options = unwrap(
+          await getPasskeyRegistrationOptions(accessToken)
+        );
+        const credential = (await navigator.credentials.create({
+          publicKey: toCreationOptions(options),
+        })) as PublicKeyCredential | null;
+
+        if (!credential) throw new Error("Passkey registration was cancelled");
+
+        return unwrap(
+          await verifyPasskeyRegistration(
+            accessToken,
+            toRegistrationJSON(credential),
+            name
+          )
+        );
+      }),
+    [run]
+  );
+
+  const loginWithPasskey = useCallback(
+    (deviceToken: string) =>
+      run(async () => {
+        const options = unwrap(await getPasskeyLoginOptions(deviceToken));
+        const credential = (await navigator.credentials.get({
+          publicKey: toRequestOptions(options),
+        })) as PublicKeyCredential | null;
+
+        if (!credential) throw new Error("Passkey login was cancelled");
+
+        return unwrap(
+          await verifyPasskeyLogin(
+            deviceToken,
+            toAuthenticationJSON(credential)
+          )
+        );
+      }),
+    [run]
+  );
+
+  return {
+    isSupported,
+    status,
+    error,
+    registerPasskey,
+    loginWithPasskey,
+  };
+};
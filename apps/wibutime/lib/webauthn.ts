@@ -0,0 +1,166 @@
+/**
+ * Chuyển đổi options / credential WebAuthn giữa JSON (base64url) của auth service
+ * và ArrayBuffer mà navigator.credentials cần
+ */
+
+export interface CredentialDescriptorJSON {
+  type: "public-key";
+  id: string;
+  transports: string[];
+}
+
+export interface RegistrationOptionsJSON {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: "public-key"; alg: number }[];
+  timeout: number;
+  attestation: "none";
+  authenticatorSelection: {
+    residentKey: string;
+    userVerification: string;
+  };
+  excludeCredentials: CredentialDescriptorJSON[];
+}
+
+export interface AuthenticationOptionsJSON {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: string;
+  allowCredentials: CredentialDescriptorJSON[];
+}
+
+export interface RegistrationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: "public-key";
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: "public-key";
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle: string | null;
+  };
+}
+
+export const isPasskeySupported = (): boolean =>
+  typeof window !== "undefined" &&
+  typeof window.PublicKeyCredential === "function" &&
+  !!navigator.credentials;
+
+export const base64UrlToBuffer = (value: string): ArrayBuffer => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64.padEnd(
+    base64.length + ((4 - (base64.length % 4)) % 4),
+    "="
+  );
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes.buffer;
+};
+
+export const bufferToBase64Url = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const toDescriptor = (
+  descriptor: CredentialDescriptorJSON
+): PublicKeyCredentialDescriptor => ({
+  type: descriptor.type,
+  id: base64UrlToBuffer(descriptor.id),
+  transports: descriptor.transports as AuthenticatorTransport[],
+});
+
+export const toCreationOptions = (
+  options: RegistrationOptionsJSON
+): PublicKeyCredentialCreationOptions => ({
+  challenge: base64UrlToBuffer(options.challenge),
+  rp: options.rp,
+  user: {
+    ...options.user,
+    id: base64UrlToBuffer(options.user.id),
+  },
+  pubKeyCredParams: options.pubKeyCredParams,
+  timeout: options.timeout,
+  attestation: options.attestation,
+  authenticatorSelection: {
+    residentKey: options.authenticatorSelection
+      .residentKey as ResidentKeyRequirement,
+    userVerification: options.authenticatorSelection
+      .userVerification as UserVerificationRequirement,
+  },
+  excludeCredentials: options.excludeCredentials.map(toDescriptor),
+});
+
+export const toRequestOptions = (
+  options: AuthenticationOptionsJSON
+): PublicKeyCredentialRequestOptions => ({
+  challenge: base64UrlToBuffer(options.challenge),
+  rpId: options.rpId,
+  timeout: options.timeout,
+  userVerification: options.userVerification as UserVerificationRequirement,
+  allowCredentials: options.allowCredentials.map(toDescriptor),
+});
+
+export const toRegistrationJSON = (
+  credential: PublicKeyCredential
+): RegistrationCredentialJSON => {
+  const response = credential.response as AuthenticatorAttestationResponse;
+
+  return {
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: "public-key",
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      attestationObject: bufferToBase64Url(response.attestationObject),
+      transports: response.getTransports?.() ?? [],
+    },
+  };
+};
+
+export const toAuthenticationJSON = (
+  credential: PublicKeyCredential
+): AuthenticationCredentialJSON => {
+  const response = credential.response as AuthenticatorAssertionResponse;
+
+  return {
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: "public-key",
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      authenticatorData: bufferToBase64Url(response.authenticatorData),
+      signature: bufferToBase64Url(response.signature),
+      userHandle: response.userHandle
+        ? bufferToBase64Url(response.userHandle)
+        : null,
+    },
+  };
+};
@@ -1,4 +1,5 @@
 import { createErrorResponse, HTTP_STATUS } from "@repo/utils";
+import { AppError } from "./app-error";
 
 type code =
   | number
@@ -10,10 +11,13 @@ type code =
   | "INVALID_COOKIE_SIGNATURE"
   | "INVALID_FILE_TYPE";
 
+type translate = (key: string, params?: Record<string, any>) => string;
+
 export const allErrorHandler = (
   code: code,
   error: any,
-  log: any | undefined
+  log: any | undefined,
+  t?: translate
 ) => {
   if (log) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -22,6 +26,16 @@ export const allErrorHandler = (
 
   console.log(code, error);
 
+  if (error instanceof AppError) {
+    return createErrorResponse(
+      {
+        code: error.errorCode,
+        message: t ? t(error.messageKey, error.params) : error.messageKey,
+      },
+      error.statusCode
+    );
+  }
+
   switch (code) {
     case "VALIDATION":
       if (error.all[0]) {
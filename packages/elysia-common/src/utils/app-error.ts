@@ -0,0 +1,17 @@
+import { ERROR_CODES, HTTP_STATUS } from "@repo/utils";
+
+/**
+ * Lỗi nghiệp vụ mang theo i18n key thay vì message cố định.
+ * allErrorHandler sẽ dịch key theo ngôn ngữ của request nếu có hàm translate.
+ */
+export class AppError extends Error {
+  constructor(
+    public readonly messageKey: string,
+    public readonly statusCode: number = HTTP_STATUS.BAD_REQUEST,
+    public readonly errorCode: string = ERROR_CODES.BAD_REQUEST,
+    public readonly params?: Record<string, any>
+  ) {
+    super(messageKey);
+    this.name = "AppError";
+  }
+}
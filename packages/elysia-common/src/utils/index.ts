@@ -1 +1,2 @@
 export * from "./all-error-handler";
+export * from "./app-error";
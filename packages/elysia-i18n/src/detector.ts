@@ -0,0 +1,54 @@
+import { supportedLocales } from "./locales";
+
+/**
+ * Xác định ngôn ngữ của request, trả về undefined nếu không tìm thấy
+ */
+export type LanguageDetector = (request: Request) => string | undefined;
+
+export interface LanguageDetectorOptions {
+  searchParamName?: string;
+  cookieName?: string;
+  headerName?: string;
+}
+
+/**
+ * Detect ngôn ngữ theo thứ tự: query param, cookie, header Accept-Language.
+ * Chỉ trả về locale có trong supportedLocales
+ */
+export const newLanguageDetector = ({
+  searchParamName = "lang",
+  cookieName = "lang",
+  headerName = "accept-language",
+}: LanguageDetectorOptions = {}): LanguageDetector => {
+  const supported = supportedLocales as readonly string[];
+  const match = (value: string | null | undefined) => {
+    const language = value?.trim().toLowerCase().split(/[-_]/)[0];
+    return language && supported.includes(language) ? language : undefined;
+  };
+
+  return (request) => {
+    const fromQuery = match(
+      new URL(request.url).searchParams.get(searchParamName)
+    );
+    if (fromQuery) return fromQuery;
+
+    const cookie = (request.headers.get("cookie") ?? "")
+      .split(";")
+      .map((part) => part.trim().split("="))
+      .find(([name]) => name === cookieName);
+    const fromCookie = match(cookie?.[1]);
+    if (fromCookie) return fromCookie;
+
+    // Accept-Language: "vi-VN,vi;q=0.9,en;q=0.8" -> lấy ngôn ngữ hỗ trợ có q cao nhất
+    return (request.headers.get(headerName) ?? "")
+      .split(",")
+      .map((part) => {
+        const [tag, ...params] = part.split(";");
+        const q = params.find((param) => param.trim().startsWith("q="));
+        return { tag, q: q ? Number(q.trim().slice(2)) : 1 };
+      })
+      .sort((a, b) => b.q - a.q)
+      .map(({ tag }) => match(tag))
+      .find(Boolean);
+  };
+};
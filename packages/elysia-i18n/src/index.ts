@@ -1,8 +1,8 @@
 // Export middleware
 export * from "./middleware";
 
+// Export language detector
+export * from "./detector";
+
 // Export locales
 export * from "./locales";
-
-// Re-export types from elysia-i18next for convenience
-export type { LanguageDetector } from "elysia-i18next";
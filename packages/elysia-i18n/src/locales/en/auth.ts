@@ -18,6 +18,8 @@ export const auth = {
     user_not_active: "User not active",
     user_not_authorized: "User not authorized",
     user_not_authenticated: "User not authenticated",
+    unlock_link_expired: "Account unlock link has expired",
+    magic_link_expired: "Magic link has expired, please request a new one",
   },
 
   logout: {
@@ -58,6 +60,17 @@ export const auth = {
     refresh_failed: "Token refresh failed",
     auth_failed: "Authentication failed",
     auth_success: "Authentication successful",
+    device_mismatch: "Token was not issued for this device",
+    ip_mismatch: "Token cannot be used from this IP address",
+  },
+
+  // Device management
+  device: {
+    not_found: "Device not found",
+    invalid_payload: "Invalid device information",
+    payload_expired: "Device information has expired, please try again",
+    payload_replayed: "Device information has already been used",
+    deleted: "Device removed",
   },
 
   // Two-factor authentication
@@ -68,6 +81,9 @@ export const auth = {
     code_invalid: "Invalid verification code",
     code_expired: "Verification code has expired",
     backup_codes_generated: "Backup codes generated",
+    already_enabled: "Two-factor authentication is already enabled",
+    not_enabled: "Two-factor authentication is not enabled",
+    not_setup: "Two-factor authentication has not been set up",
   },
 
   // Account verification
@@ -78,5 +94,75 @@ export const auth = {
     phone_sent: "Verification SMS sent",
     phone_verified: "Phone number verified successfully",
     code_invalid: "Invalid verification code",
+    email_already_verified: "Email is already verified",
+    link_expired: "Email verification link has expired",
+    phone_already_verified: "Phone number is already verified",
+    phone_taken: "Phone number is already used by another account",
+    phone_required: "No phone number has been added",
+    code_expired: "Verification code has expired",
+    too_many_requests: "Too many requests. Try again later",
+  },
+
+  // Role-based access control
+  rbac: {
+    role_not_found: "Role not found",
+    permission_not_found: "Permission not found",
+    role_exists: "Role already exists",
+    permission_exists: "Permission already exists",
+    system_protected: "System roles and permissions cannot be deleted",
+    invalid_parent: "A role cannot inherit from itself or its descendants",
+    permission_denied: "You do not have permission to perform this action",
+  },
+
+  // Social login (OAuth2/OIDC)
+  oauth: {
+    provider_not_found: "Login provider is not supported",
+    state_invalid: "Login session is invalid or has expired, please try again",
+    exchange_failed: "Could not verify your account with the login provider",
+    email_required: "{{provider}} did not share an email address",
+    email_unverified:
+      "Your {{provider}} email address is not verified. Verify it with {{provider}} and try again",
+    email_conflict:
+      "An account with this email already exists. Log in and link {{provider}} from your account settings",
+    identity_taken: "This {{provider}} account is linked to another account",
+    provider_already_linked: "{{provider}} is already linked to your account",
+    identity_not_found: "Provider is not linked to your account",
+    last_login_method: "Set a password before unlinking your only login method",
+  },
+
+  // Passkey (WebAuthn)
+  passkey: {
+    challenge_invalid:
+      "Passkey request is invalid or has expired, please try again",
+    verification_failed: "Could not verify your passkey",
+    unsupported_attestation:
+      "This authenticator's attestation format is not supported",
+    credential_exists: "This passkey is already registered",
+    limit_reached: "You can register at most {{max}} passkeys",
+    sign_count_invalid: "This passkey may have been cloned and cannot be used",
+    not_found: "Passkey not found",
+    last_login_method: "Set a password before removing your only login method",
+  },
+
+  // Profile
+  profile: {
+    not_found: "User not found",
+    url_invalid: "Invalid image URL, only http(s) links are allowed",
+    bio_invalid_block: "Bio has an invalid format",
+    bio_invalid_url: "Bio contains an invalid link",
+    bio_too_many_blocks: "Bio can have at most {{max}} blocks",
+    bio_too_long: "Bio cannot exceed {{max}} characters",
+    user_name_unchanged: "The new username is the same as the current one",
+    user_name_cooldown: "You can change your username again after {{date}}",
+    user_name_reserved: "This username is reserved, please choose another one",
+  },
+
+  // Account deletion and data export
+  account: {
+    password_invalid: "Incorrect password",
+    deletion_pending: "Account deletion has already been requested",
+    deletion_not_found: "There is no pending account deletion request",
+    export_too_many_requests:
+      "You have exported your data too many times, please try again later",
   },
 } as const;
@@ -1,5 +1,5 @@
-import * as en from "./en";
-import * as vi from "./vi";
+import { en } from "./en";
+import { vi } from "./vi";
 
 /**
  * All available translations
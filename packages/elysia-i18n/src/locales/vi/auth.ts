@@ -18,6 +18,9 @@ export const auth = {
     user_not_active: "Tài khoản chưa được kích hoạt",
     user_not_authorized: "Tài khoản không có quyền truy cập",
     user_not_authenticated: "Tài khoản chưa được xác thực",
+    unlock_link_expired: "Liên kết mở khóa tài khoản đã hết hạn",
+    magic_link_expired:
+      "Liên kết đăng nhập đã hết hạn, vui lòng yêu cầu liên kết mới",
   },
 
   logout: {
@@ -58,6 +61,17 @@ export const auth = {
     refresh_failed: "Làm mới token thất bại",
     auth_failed: "Xác thực thất bại",
     auth_success: "Xác thực thành công",
+    device_mismatch: "Token không được cấp cho thiết bị này",
+    ip_mismatch: "Không thể dùng token từ địa chỉ IP này",
+  },
+
+  // Quản lý thiết bị
+  device: {
+    not_found: "Không tìm thấy thiết bị",
+    invalid_payload: "Thông tin thiết bị không hợp lệ",
+    payload_expired: "Thông tin thiết bị đã hết hạn, vui lòng thử lại",
+    payload_replayed: "Thông tin thiết bị đã được sử dụng",
+    deleted: "Đã xóa thiết bị",
   },
 
   // Xác thực 2 bước
@@ -68,6 +82,9 @@ export const auth = {
     code_invalid: "Mã xác minh không hợp lệ",
     code_expired: "Mã xác minh đã hết hạn",
     backup_codes_generated: "Đã tạo mã dự phòng",
+    already_enabled: "Xác thực 2 bước đã được bật",
+    not_enabled: "Xác thực 2 bước chưa được bật",
+    not_setup: "Chưa khởi tạo xác thực 2 bước",
   },
 
   // Xác minh tài khoản
@@ -78,5 +95,81 @@ export const auth = {
     phone_sent: "Đã gửi SMS xác minh",
     phone_verified: "Xác minh số điện thoại thành công",
     code_invalid: "Mã xác minh không hợp lệ",
+    email_already_verified: "Email đã được xác minh",
+    link_expired: "Liên kết xác minh email đã hết hạn",
+    phone_already_verified: "Số điện thoại đã được xác minh",
+    phone_taken: "Số điện thoại đã được sử dụng bởi tài khoản khác",
+    phone_required: "Chưa có số điện thoại",
+    code_expired: "Mã xác minh đã hết hạn",
+    too_many_requests: "Gửi quá nhiều yêu cầu. Vui lòng thử lại sau",
+  },
+
+  // Phân quyền theo role
+  rbac: {
+    role_not_found: "Không tìm thấy role",
+    permission_not_found: "Không tìm thấy quyền",
+    role_exists: "Role đã tồn tại",
+    permission_exists: "Quyền đã tồn tại",
+    system_protected: "Không thể xóa role hoặc quyền hệ thống",
+    invalid_parent: "Role không thể kế thừa chính nó hoặc role con của nó",
+    permission_denied: "Bạn không có quyền thực hiện thao tác này",
+  },
+
+  // Đăng nhập bằng mạng xã hội (OAuth2/OIDC)
+  oauth: {
+    provider_not_found: "Phương thức đăng nhập không được hỗ trợ",
+    state_invalid:
+      "Phiên đăng nhập không hợp lệ hoặc đã hết hạn, vui lòng thử lại",
+    exchange_failed: "Không thể xác minh tài khoản với nhà cung cấp đăng nhập",
+    email_required: "{{provider}} không cung cấp địa chỉ email",
+    email_unverified:
+      "Email của tài khoản {{provider}} chưa được xác minh. Hãy xác minh email với {{provider}} rồi thử lại",
+    email_conflict:
+      "Email đã được dùng cho một tài khoản khác. Hãy đăng nhập và liên kết {{provider}} trong phần cài đặt tài khoản",
+    identity_taken:
+      "Tài khoản {{provider}} này đã được liên kết với tài khoản khác",
+    provider_already_linked: "Tài khoản đã liên kết với {{provider}}",
+    identity_not_found: "Tài khoản chưa liên kết với nhà cung cấp này",
+    last_login_method:
+      "Hãy đặt mật khẩu trước khi hủy liên kết phương thức đăng nhập duy nhất",
+  },
+
+  // Passkey (WebAuthn)
+  passkey: {
+    challenge_invalid:
+      "Yêu cầu passkey không hợp lệ hoặc đã hết hạn, vui lòng thử lại",
+    verification_failed: "Không thể xác minh passkey",
+    unsupported_attestation:
+      "Định dạng attestation của thiết bị xác thực không được hỗ trợ",
+    credential_exists: "Passkey này đã được đăng ký",
+    limit_reached: "Bạn chỉ có thể đăng ký tối đa {{max}} passkey",
+    sign_count_invalid:
+      "Passkey này có thể đã bị sao chép nên không thể sử dụng",
+    not_found: "Không tìm thấy passkey",
+    last_login_method:
+      "Hãy đặt mật khẩu trước khi xóa phương thức đăng nhập duy nhất",
+  },
+
+  // Profile
+  profile: {
+    not_found: "Không tìm thấy người dùng",
+    url_invalid: "URL ảnh không hợp lệ, chỉ chấp nhận liên kết http(s)",
+    bio_invalid_block: "Nội dung giới thiệu có định dạng không hợp lệ",
+    bio_invalid_url: "Liên kết trong phần giới thiệu không hợp lệ",
+    bio_too_many_blocks: "Phần giới thiệu chỉ được có tối đa {{max}} đoạn",
+    bio_too_long: "Phần giới thiệu không được vượt quá {{max}} ký tự",
+    user_name_unchanged: "Tên người dùng mới trùng với tên hiện tại",
+    user_name_cooldown: "Bạn chỉ có thể đổi tên người dùng lại sau {{date}}",
+    user_name_reserved:
+      "Tên người dùng này đang được giữ, vui lòng chọn tên khác",
+  },
+
+  // Xóa tài khoản và xuất dữ liệu
+  account: {
+    password_invalid: "Mật khẩu không chính xác",
+    deletion_pending: "Tài khoản đã có yêu cầu xóa đang chờ xử lý",
+    deletion_not_found: "Không có yêu cầu xóa tài khoản nào đang chờ",
+    export_too_many_requests:
+      "Bạn đã tải dữ liệu quá nhiều lần, vui lòng thử lại sau",
   },
 } as const;
@@ -1,5 +1,6 @@
 import { Elysia } from "elysia";
-import { i18next, newLanguageDetector } from "elysia-i18next";
+import i18next, { type InitOptions, type TFunction } from "i18next";
+import { newLanguageDetector } from "./detector";
 import {
   defaultLocale,
   fallbackLocale,
@@ -20,14 +21,8 @@ const i18nConfig = {
       escapeValue: false, // React already does escaping
     },
     debug: process.env.NODE_ENV === "development",
-  },
-  detectLanguage: newLanguageDetector({
-    searchParamName: "lang",
-    storeParamName: "language",
-    headerName: "accept-language",
-    cookieName: "lang",
-    pathParamName: "lang",
-  }),
+  } as InitOptions,
+  detectLanguage: newLanguageDetector(),
 };
 
 /**
@@ -45,8 +40,19 @@ export const createI18nMiddleware = (config?: Partial<typeof i18nConfig>) => {
     },
   };
 
+  // Resources nằm sẵn trong bundle nên init đồng bộ, mỗi middleware một instance riêng
+  const instance = i18next.createInstance();
+  void instance.init({ ...finalConfig.initOptions, initAsync: false });
+
   return new Elysia({ name: "i18n" })
-    .use(i18next(finalConfig))
+    .derive({ as: "global" }, ({ request }) => {
+      const language =
+        finalConfig.detectLanguage(request) ??
+        String(finalConfig.initOptions.lng ?? defaultLocale);
+      const t: TFunction = instance.getFixedT(language);
+
+      return { language, t };
+    })
     .derive({ as: "global" }, ({ t }) => ({
       // Helper functions for common response messages
       i18n: {
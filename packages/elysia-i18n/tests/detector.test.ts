@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import { Elysia } from "elysia";
+import { createI18nMiddleware, newLanguageDetector } from "../src";
+
+const request = (query = "", headers: Record<string, string> = {}) =>
+  new Request(`http://localhost/${query}`, { headers });
+
+describe("newLanguageDetector", () => {
+  const detect = newLanguageDetector();
+
+  test("query param thắng cookie và Accept-Language", () => {
+    expect(
+      detect(
+        request("?lang=vi", { cookie: "lang=en", "accept-language": "en" })
+      )
+    ).toBe("vi");
+  });
+
+  test("cookie thắng Accept-Language khi không có query", () => {
+    expect(
+      detect(
+        request("", { cookie: "theme=dark; lang=vi", "accept-language": "en" })
+      )
+    ).toBe("vi");
+  });
+
+  test("bỏ qua query và cookie không hỗ trợ, rơi xuống nguồn tiếp theo", () => {
+    expect(
+      detect(
+        request("?lang=fr", { cookie: "lang=de", "accept-language": "vi" })
+      )
+    ).toBe("vi");
+  });
+
+  test("Accept-Language chọn ngôn ngữ hỗ trợ có q cao nhất, không theo thứ tự", () => {
+    expect(
+      detect(request("", { "accept-language": "en;q=0.5,vi-VN;q=0.9" }))
+    ).toBe("vi");
+    expect(
+      detect(request("", { "accept-language": "vi;q=0.4, EN-us;q=0.8" }))
+    ).toBe("en");
+  });
+
+  test("Accept-Language không có q được tính là q=1", () => {
+    expect(detect(request("", { "accept-language": "en;q=0.9,vi" }))).toBe(
+      "vi"
+    );
+  });
+
+  test("Accept-Language bỏ qua tag không hỗ trợ dù q cao hơn", () => {
+    expect(
+      detect(request("", { "accept-language": "fr-FR,fr;q=0.9,vi;q=0.1" }))
+    ).toBe("vi");
+  });
+
+  test("trả về undefined khi không nguồn nào khớp", () => {
+    expect(detect(request())).toBeUndefined();
+    expect(
+      detect(request("?lang=fr", { "accept-language": "fr,de;q=0.5" }))
+    ).toBeUndefined();
+  });
+
+  test("dùng tên query, cookie và header tùy chỉnh", () => {
+    const custom = newLanguageDetector({
+      searchParamName: "locale",
+      cookieName: "locale",
+      headerName: "x-language",
+    });
+
+    expect(custom(request("?lang=vi&locale=en"))).toBe("en");
+    expect(custom(request("", { cookie: "lang=en; locale=vi" }))).toBe("vi");
+    expect(
+      custom(request("", { "accept-language": "vi", "x-language": "en" }))
+    ).toBe("en");
+  });
+});
+
+describe("createI18nMiddleware", () => {
+  const app = new Elysia()
+    .use(createI18nMiddleware())
+    .get("/", ({ language, i18n }) => ({
+      language,
+      message: i18n.error.notFound(),
+    }));
+
+  test("dịch theo ngôn ngữ detect được từ request", async () => {
+    const response = await app.handle(request("?lang=vi"));
+
+    expect(await response.json()).toEqual({
+      language: "vi",
+      message: "Không tìm thấy dữ liệu",
+    });
+  });
+
+  test("dùng ngôn ngữ mặc định khi không detect được", async () => {
+    const response = await app.handle(request("", { "accept-language": "fr" }));
+
+    expect(await response.json()).toEqual({
+      language: "en",
+      message: "Resource not found",
+    });
+  });
+});
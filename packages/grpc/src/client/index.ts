@@ -7,6 +7,18 @@ export interface GrpcClientConfig {
   options?: grpc.ChannelOptions;
 }
 
+/**
+ * Rpc transport dùng cho client generated bởi ts-proto
+ */
+export interface GrpcRpc {
+  request(
+    service: string,
+    method: string,
+    data: Uint8Array,
+    metadata?: grpc.Metadata
+  ): Promise<Uint8Array>;
+}
+
 export class GrpcClientManager {
   private clients: Map<string, grpc.Client> = new Map();
   private config: GrpcClientConfig;
@@ -45,6 +57,36 @@ export class GrpcClientManager {
     return client;
   }
 
+  /**
+   * Tạo Rpc transport cho client generated (VD: new AuthServiceClientImpl(rpc))
+   * @param deadlineMs - Timeout cho mỗi request, không set nếu = 0
+   */
+  getRpc(deadlineMs: number = 0): GrpcRpc {
+    const client = this.getClient("rpc", grpc.Client);
+
+    return {
+      request: (service, method, data, metadata) =>
+        new Promise((resolve, reject) => {
+          client.makeUnaryRequest(
+            `/${service}/${method}`,
+            (value: Uint8Array) => Buffer.from(value),
+            (value: Buffer) => value,
+            data,
+            metadata ?? new grpc.Metadata(),
+            deadlineMs > 0 ? { deadline: Date.now() + deadlineMs } : {},
+            (error, response) => {
+              if (error || !response) {
+                reject(error ?? new Error(`Empty response from ${method}`));
+                return;
+              }
+
+              resolve(response);
+            }
+          );
+        }),
+    };
+  }
+
   /**
    * Đóng tất cả clients
    */
@@ -29,7 +29,7 @@ export interface ValidateTokenResponse {
 }
 
 export interface ValidateTokenResponse_TokenData {
-  id: number;
+  id: string;
   roles: string[];
   permissions: string[];
   verified_email: boolean;
@@ -338,7 +338,7 @@ export const ValidateTokenResponse: MessageFns<ValidateTokenResponse> = {
 
 function createBaseValidateTokenResponse_TokenData(): ValidateTokenResponse_TokenData {
   return {
-    id: 0,
+    id: "",
     roles: [],
     permissions: [],
     verified_email: false,
@@ -350,8 +350,8 @@ function createBaseValidateTokenResponse_TokenData(): ValidateTokenResponse_Toke
 
 export const ValidateTokenResponse_TokenData: MessageFns<ValidateTokenResponse_TokenData> = {
   encode(message: ValidateTokenResponse_TokenData, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
-    if (message.id !== 0) {
-      writer.uint32(8).int32(message.id);
+    if (message.id !== "") {
+      writer.uint32(10).string(message.id);
     }
     for (const v of message.roles) {
       writer.uint32(18).string(v!);
@@ -382,11 +382,11 @@ export const ValidateTokenResponse_TokenData: MessageFns<ValidateTokenResponse_T
       const tag = reader.uint32();
       switch (tag >>> 3) {
         case 1: {
-          if (tag !== 8) {
+          if (tag !== 10) {
             break;
           }
 
-          message.id = reader.int32();
+          message.id = reader.string();
           continue;
         }
         case 2: {
@@ -448,7 +448,7 @@ export const ValidateTokenResponse_TokenData: MessageFns<ValidateTokenResponse_T
 
   fromJSON(object: any): ValidateTokenResponse_TokenData {
     return {
-      id: isSet(object.id) ? globalThis.Number(object.id) : 0,
+      id: isSet(object.id) ? globalThis.String(object.id) : "",
       roles: globalThis.Array.isArray(object?.roles) ? object.roles.map((e: any) => globalThis.String(e)) : [],
       permissions: globalThis.Array.isArray(object?.permissions)
         ? object.permissions.map((e: any) => globalThis.String(e))
@@ -462,8 +462,8 @@ export const ValidateTokenResponse_TokenData: MessageFns<ValidateTokenResponse_T
 
   toJSON(message: ValidateTokenResponse_TokenData): unknown {
     const obj: any = {};
-    if (message.id !== 0) {
-      obj.id = Math.round(message.id);
+    if (message.id !== "") {
+      obj.id = message.id;
     }
     if (message.roles?.length) {
       obj.roles = message.roles;
@@ -493,7 +493,7 @@ export const ValidateTokenResponse_TokenData: MessageFns<ValidateTokenResponse_T
     object: I,
   ): ValidateTokenResponse_TokenData {
     const message = createBaseValidateTokenResponse_TokenData();
-    message.id = object.id ?? 0;
+    message.id = object.id ?? "";
     message.roles = object.roles?.map((e) => e) || [];
     message.permissions = object.permissions?.map((e) => e) || [];
     message.verified_email = object.verified_email ?? false;
@@ -1,8 +1,13 @@
 import * as grpc from "@grpc/grpc-js";
-import { AuthServiceServiceName } from "../generated/auth.js";
+import {
+  AuthServiceServiceName,
+  ValidateTokenRequest,
+  ValidateTokenResponse,
+} from "../generated/auth.js";
 
 /**
- * Tạo service definition từ proto generated service
+ * Tạo service definition từ proto generated service.
+ * Message được encode protobuf để tương thích với client generated (AuthServiceClientImpl)
  */
 export function createAuthServiceDefinition(): grpc.ServiceDefinition {
   return {
@@ -10,10 +15,13 @@ export function createAuthServiceDefinition(): grpc.ServiceDefinition {
       path: `/${AuthServiceServiceName}/validateToken`,
       requestStream: false,
       responseStream: false,
-      requestSerialize: (value: any) => Buffer.from(JSON.stringify(value)),
-      requestDeserialize: (value: Buffer) => JSON.parse(value.toString()),
-      responseSerialize: (value: any) => Buffer.from(JSON.stringify(value)),
-      responseDeserialize: (value: Buffer) => JSON.parse(value.toString()),
+      requestSerialize: (value: ValidateTokenRequest) =>
+        Buffer.from(ValidateTokenRequest.encode(value).finish()),
+      requestDeserialize: (value: Buffer) => ValidateTokenRequest.decode(value),
+      responseSerialize: (value: ValidateTokenResponse) =>
+        Buffer.from(ValidateTokenResponse.encode(value).finish()),
+      responseDeserialize: (value: Buffer) =>
+        ValidateTokenResponse.decode(value),
     },
   };
 }
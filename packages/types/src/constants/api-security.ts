@@ -1,4 +1,8 @@
 export const API_SECURITY = {
   NONE: "NONE",
+  // Chỉ access token
   TOKEN_REQUIRED: "TOKEN_REQUIRED",
+  // Access token hoặc device token (device, đăng nhập, khôi phục tài khoản)
+  DEVICE_TOKEN_ALLOWED: "DEVICE_TOKEN_ALLOWED",
+  REFRESH_TOKEN_REQUIRED: "REFRESH_TOKEN_REQUIRED",
 };
@@ -1 +1,2 @@
 export * from "./editor";
+export * from "./device";
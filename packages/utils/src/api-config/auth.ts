@@ -28,7 +28,7 @@ export namespace AuthApiConfig {
       id: "auth.device.verify",
       path: "/device/verify",
       method: "POST",
-      security: API_SECURITY.TOKEN_REQUIRED,
+      security: API_SECURITY.DEVICE_TOKEN_ALLOWED,
       roles: [],
       permissions: [],
     },
@@ -36,7 +36,7 @@ export namespace AuthApiConfig {
       id: "auth.device.link",
       path: "/device/link",
       method: "POST",
-      security: API_SECURITY.TOKEN_REQUIRED,
+      security: API_SECURITY.DEVICE_TOKEN_ALLOWED,
       roles: [],
       permissions: [],
     },
@@ -61,7 +61,7 @@ export namespace AuthApiConfig {
       id: "auth.register",
       path: "/register",
       method: "POST",
-      security: API_SECURITY.TOKEN_REQUIRED,
+      security: API_SECURITY.DEVICE_TOKEN_ALLOWED,
       roles: [],
       permissions: [],
     },
@@ -69,7 +69,47 @@ export namespace AuthApiConfig {
       id: "auth.login",
       path: "/login",
       method: "POST",
-      security: API_SECURITY.TOKEN_REQUIRED,
+      security: API_SECURITY.DEVICE_TOKEN_ALLOWED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /login/2fa": {
+      id: "auth.login.2fa",
+      path: "/login/2fa",
+      method: "POST",
+      security: API_SECURITY.DEVICE_TOKEN_ALLOWED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /login/magic-link/request": {
+      id: "auth.login.magic_link.request",
+      path: "/login/magic-link/request",
+      method: "POST",
+      security: API_SECURITY.DEVICE_TOKEN_ALLOWED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /login/magic-link/verify": {
+      id: "auth.login.magic_link.verify",
+      path: "/login/magic-link/verify",
+      method: "POST",
+      security: API_SECURITY.DEVICE_TOKEN_ALLOWED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /login/passkey/options": {
+      id: "auth.login.passkey.options",
+      path: "/login/passkey/options",
+      method: "POST",
+      security: API_SECURITY.DEVICE_TOKEN_ALLOWED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /login/passkey/verify": {
+      id: "auth.login.passkey.verify",
+      path: "/login/passkey/verify",
+      method: "POST",
+      security: API_SECURITY.DEVICE_TOKEN_ALLOWED,
       roles: [],
       permissions: [],
     },
@@ -81,11 +121,385 @@ export namespace AuthApiConfig {
       roles: [],
       permissions: [],
     },
+    "POST /logout/all": {
+      id: "auth.logout.all",
+      path: "/logout/all",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /logout/others": {
+      id: "auth.logout.others",
+      path: "/logout/others",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    // Two-factor routes
+    "POST /2fa/setup": {
+      id: "auth.2fa.setup",
+      path: "/2fa/setup",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /2fa/enable": {
+      id: "auth.2fa.enable",
+      path: "/2fa/enable",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /2fa/disable": {
+      id: "auth.2fa.disable",
+      path: "/2fa/disable",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /2fa/backup-codes": {
+      id: "auth.2fa.backup_codes",
+      path: "/2fa/backup-codes",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    // Email verification / password reset routes
+    "POST /email/verify/request": {
+      id: "auth.email.verify.request",
+      path: "/email/verify/request",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /email/verify/confirm": {
+      id: "auth.email.verify.confirm",
+      path: "/email/verify/confirm",
+      method: "POST",
+      security: API_SECURITY.DEVICE_TOKEN_ALLOWED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /password/forgot": {
+      id: "auth.password.forgot",
+      path: "/password/forgot",
+      method: "POST",
+      security: API_SECURITY.DEVICE_TOKEN_ALLOWED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /password/reset": {
+      id: "auth.password.reset",
+      path: "/password/reset",
+      method: "POST",
+      security: API_SECURITY.DEVICE_TOKEN_ALLOWED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /account/unlock": {
+      id: "auth.account.unlock",
+      path: "/account/unlock",
+      method: "POST",
+      security: API_SECURITY.DEVICE_TOKEN_ALLOWED,
+      roles: [],
+      permissions: [],
+    },
+    // Phone verification routes
+    "POST /phone": {
+      id: "auth.phone",
+      path: "/phone",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /phone/otp": {
+      id: "auth.phone.otp",
+      path: "/phone/otp",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /phone/verify": {
+      id: "auth.phone.verify",
+      path: "/phone/verify",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    // OAuth / OIDC routes
+    "GET /oauth/providers": {
+      id: "auth.oauth.providers",
+      path: "/oauth/providers",
+      method: "GET",
+      security: API_SECURITY.NONE,
+      roles: [],
+      permissions: [],
+    },
+    "POST /oauth/:provider/authorize": {
+      id: "auth.oauth.authorize",
+      path: "/oauth/:provider/authorize",
+      method: "POST",
+      security: API_SECURITY.DEVICE_TOKEN_ALLOWED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /oauth/:provider/callback": {
+      id: "auth.oauth.callback",
+      path: "/oauth/:provider/callback",
+      method: "POST",
+      security: API_SECURITY.DEVICE_TOKEN_ALLOWED,
+      roles: [],
+      permissions: [],
+    },
+    "GET /oauth/identities": {
+      id: "auth.oauth.identities",
+      path: "/oauth/identities",
+      method: "GET",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /oauth/:provider/link": {
+      id: "auth.oauth.link",
+      path: "/oauth/:provider/link",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /oauth/:provider/link/callback": {
+      id: "auth.oauth.link.callback",
+      path: "/oauth/:provider/link/callback",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /oauth/:provider/unlink": {
+      id: "auth.oauth.unlink",
+      path: "/oauth/:provider/unlink",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    // Passkey routes
+    "POST /passkeys/register/options": {
+      id: "auth.passkey.register.options",
+      path: "/passkeys/register/options",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /passkeys/register/verify": {
+      id: "auth.passkey.register.verify",
+      path: "/passkeys/register/verify",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "GET /passkeys": {
+      id: "auth.passkey.list",
+      path: "/passkeys",
+      method: "GET",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /passkeys/:id/delete": {
+      id: "auth.passkey.delete",
+      path: "/passkeys/:id/delete",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
     "POST /refresh": {
       id: "auth.refresh",
       path: "/refresh",
       method: "POST",
-      security: "REFRESH_TOKEN_REQUIRED",
+      security: API_SECURITY.REFRESH_TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    // RBAC admin routes
+    "GET /admin/roles": {
+      id: "auth.admin.role.list",
+      path: "/admin/roles",
+      method: "GET",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: ["rbac:manage"],
+    },
+    "POST /admin/roles": {
+      id: "auth.admin.role.create",
+      path: "/admin/roles",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: ["rbac:manage"],
+    },
+    "POST /admin/roles/:id/update": {
+      id: "auth.admin.role.update",
+      path: "/admin/roles/:id/update",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: ["rbac:manage"],
+    },
+    "POST /admin/roles/:id/delete": {
+      id: "auth.admin.role.delete",
+      path: "/admin/roles/:id/delete",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: ["rbac:manage"],
+    },
+    "POST /admin/roles/:id/permissions": {
+      id: "auth.admin.role.permissions",
+      path: "/admin/roles/:id/permissions",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: ["rbac:manage"],
+    },
+    "GET /admin/permissions": {
+      id: "auth.admin.permission.list",
+      path: "/admin/permissions",
+      method: "GET",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: ["rbac:manage"],
+    },
+    "POST /admin/permissions": {
+      id: "auth.admin.permission.create",
+      path: "/admin/permissions",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: ["rbac:manage"],
+    },
+    "POST /admin/permissions/:id/delete": {
+      id: "auth.admin.permission.delete",
+      path: "/admin/permissions/:id/delete",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: ["rbac:manage"],
+    },
+    "GET /admin/users/:id/roles": {
+      id: "auth.admin.user.roles",
+      path: "/admin/users/:id/roles",
+      method: "GET",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: ["rbac:manage"],
+    },
+    "POST /admin/users/:id/roles": {
+      id: "auth.admin.user.roles.update",
+      path: "/admin/users/:id/roles",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: ["rbac:manage"],
+    },
+    "GET /admin/audit-events": {
+      id: "auth.admin.audit.list",
+      path: "/admin/audit-events",
+      method: "GET",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: ["audit:read"],
+    },
+    "GET /admin/audit-events/verify": {
+      id: "auth.admin.audit.verify",
+      path: "/admin/audit-events/verify",
+      method: "GET",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: ["audit:read"],
+    },
+    "GET /security/activity": {
+      id: "auth.security.activity",
+      path: "/security/activity",
+      method: "GET",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "GET /profile": {
+      id: "auth.profile.get",
+      path: "/profile",
+      method: "GET",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /profile/update": {
+      id: "auth.profile.update",
+      path: "/profile/update",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /profile/user-name": {
+      id: "auth.profile.user_name",
+      path: "/profile/user-name",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "GET /users/:user_name": {
+      id: "auth.profile.public",
+      path: "/users/:user_name",
+      method: "GET",
+      security: API_SECURITY.NONE,
+      roles: [],
+      permissions: [],
+    },
+    "GET /account/deletion": {
+      id: "auth.account.deletion.status",
+      path: "/account/deletion",
+      method: "GET",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /account/deletion": {
+      id: "auth.account.deletion.request",
+      path: "/account/deletion",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "POST /account/deletion/cancel": {
+      id: "auth.account.deletion.cancel",
+      path: "/account/deletion/cancel",
+      method: "POST",
+      security: API_SECURITY.TOKEN_REQUIRED,
+      roles: [],
+      permissions: [],
+    },
+    "GET /account/export": {
+      id: "auth.account.export",
+      path: "/account/export",
+      method: "GET",
+      security: API_SECURITY.TOKEN_REQUIRED,
       roles: [],
       permissions: [],
     },
@@ -149,6 +563,41 @@ export namespace AuthApiConfig {
     };
   }
 
+  export function getLoginTwoFactorUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/login/2fa`,
+      apiId: "auth.login.2fa",
+    };
+  }
+
+  export function getMagicLinkRequestUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/login/magic-link/request`,
+      apiId: "auth.login.magic_link.request",
+    };
+  }
+
+  export function getMagicLinkVerifyUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/login/magic-link/verify`,
+      apiId: "auth.login.magic_link.verify",
+    };
+  }
+
+  export function getPasskeyLoginOptionsUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/login/passkey/options`,
+      apiId: "auth.login.passkey.options",
+    };
+  }
+
+  export function getPasskeyLoginVerifyUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/login/passkey/verify`,
+      apiId: "auth.login.passkey.verify",
+    };
+  }
+
   export function getLogoutUrl(version?: string) {
     return {
       url: `${getApiPrefix(version)}/logout`,
@@ -156,6 +605,181 @@ export namespace AuthApiConfig {
     };
   }
 
+  export function getLogoutAllUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/logout/all`,
+      apiId: "auth.logout.all",
+    };
+  }
+
+  export function getLogoutOthersUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/logout/others`,
+      apiId: "auth.logout.others",
+    };
+  }
+
+  export function getTwoFactorSetupUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/2fa/setup`,
+      apiId: "auth.2fa.setup",
+    };
+  }
+
+  export function getTwoFactorEnableUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/2fa/enable`,
+      apiId: "auth.2fa.enable",
+    };
+  }
+
+  export function getTwoFactorDisableUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/2fa/disable`,
+      apiId: "auth.2fa.disable",
+    };
+  }
+
+  export function getTwoFactorBackupCodesUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/2fa/backup-codes`,
+      apiId: "auth.2fa.backup_codes",
+    };
+  }
+
+  export function getEmailVerificationRequestUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/email/verify/request`,
+      apiId: "auth.email.verify.request",
+    };
+  }
+
+  export function getEmailVerificationConfirmUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/email/verify/confirm`,
+      apiId: "auth.email.verify.confirm",
+    };
+  }
+
+  export function getForgotPasswordUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/password/forgot`,
+      apiId: "auth.password.forgot",
+    };
+  }
+
+  export function getResetPasswordUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/password/reset`,
+      apiId: "auth.password.reset",
+    };
+  }
+
+  export function getAccountUnlockUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/account/unlock`,
+      apiId: "auth.account.unlock",
+    };
+  }
+
+  export function getPhoneUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/phone`,
+      apiId: "auth.phone",
+    };
+  }
+
+  export function getPhoneOtpUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/phone/otp`,
+      apiId: "auth.phone.otp",
+    };
+  }
+
+  export function getPhoneVerifyUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/phone/verify`,
+      apiId: "auth.phone.verify",
+    };
+  }
+
+  export function getOAuthProvidersUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/oauth/providers`,
+      apiId: "auth.oauth.providers",
+    };
+  }
+
+  export function getOAuthAuthorizeUrl(provider: string, version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/oauth/${provider}/authorize`,
+      apiId: "auth.oauth.authorize",
+    };
+  }
+
+  export function getOAuthCallbackUrl(provider: string, version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/oauth/${provider}/callback`,
+      apiId: "auth.oauth.callback",
+    };
+  }
+
+  export function getOAuthIdentitiesUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/oauth/identities`,
+      apiId: "auth.oauth.identities",
+    };
+  }
+
+  export function getOAuthLinkUrl(provider: string, version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/oauth/${provider}/link`,
+      apiId: "auth.oauth.link",
+    };
+  }
+
+  export function getOAuthLinkCallbackUrl(provider: string, version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/oauth/${provider}/link/callback`,
+      apiId: "auth.oauth.link.callback",
+    };
+  }
+
+  export function getOAuthUnlinkUrl(provider: string, version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/oauth/${provider}/unlink`,
+      apiId: "auth.oauth.unlink",
+    };
+  }
+
+  export function getPasskeyRegisterOptionsUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/passkeys/register/options`,
+      apiId: "auth.passkey.register.options",
+    };
+  }
+
+  export function getPasskeyRegisterVerifyUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/passkeys/register/verify`,
+      apiId: "auth.passkey.register.verify",
+    };
+  }
+
+  export function getPasskeyListUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/passkeys`,
+      apiId: "auth.passkey.list",
+    };
+  }
+
+  export function getDeletePasskeyUrl(id: number | string, version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/passkeys/${id}/delete`,
+      apiId: "auth.passkey.delete",
+    };
+  }
+
   export function getRefreshUrl(version?: string) {
     return {
       url: `${getApiPrefix(version)}/refresh`,
@@ -170,6 +794,153 @@ export namespace AuthApiConfig {
     };
   }
 
+  export function getRoleListUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/admin/roles`,
+      apiId: "auth.admin.role.list",
+    };
+  }
+
+  export function getCreateRoleUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/admin/roles`,
+      apiId: "auth.admin.role.create",
+    };
+  }
+
+  export function getUpdateRoleUrl(id: number | string, version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/admin/roles/${id}/update`,
+      apiId: "auth.admin.role.update",
+    };
+  }
+
+  export function getDeleteRoleUrl(id: number | string, version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/admin/roles/${id}/delete`,
+      apiId: "auth.admin.role.delete",
+    };
+  }
+
+  export function getRolePermissionsUrl(id: number | string, version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/admin/roles/${id}/permissions`,
+      apiId: "auth.admin.role.permissions",
+    };
+  }
+
+  export function getPermissionListUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/admin/permissions`,
+      apiId: "auth.admin.permission.list",
+    };
+  }
+
+  export function getCreatePermissionUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/admin/permissions`,
+      apiId: "auth.admin.permission.create",
+    };
+  }
+
+  export function getDeletePermissionUrl(id: number | string, version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/admin/permissions/${id}/delete`,
+      apiId: "auth.admin.permission.delete",
+    };
+  }
+
+  export function getUserRolesUrl(id: number | string, version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/admin/users/${id}/roles`,
+      apiId: "auth.admin.user.roles",
+    };
+  }
+
+  export function getUpdateUserRolesUrl(id: number | string, version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/admin/users/${id}/roles`,
+      apiId: "auth.admin.user.roles.update",
+    };
+  }
+
+  export function getAuditEventListUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/admin/audit-events`,
+      apiId: "auth.admin.audit.list",
+    };
+  }
+
+  export function getAuditChainVerifyUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/admin/audit-events/verify`,
+      apiId: "auth.admin.audit.verify",
+    };
+  }
+
+  export function getSecurityActivityUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/security/activity`,
+      apiId: "auth.security.activity",
+    };
+  }
+
+  export function getProfileUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/profile`,
+      apiId: "auth.profile.get",
+    };
+  }
+
+  export function getUpdateProfileUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/profile/update`,
+      apiId: "auth.profile.update",
+    };
+  }
+
+  export function getChangeUserNameUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/profile/user-name`,
+      apiId: "auth.profile.user_name",
+    };
+  }
+
+  export function getPublicProfileUrl(userName: string, version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/users/${encodeURIComponent(userName)}`,
+      apiId: "auth.profile.public",
+    };
+  }
+
+  export function getAccountDeletionStatusUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/account/deletion`,
+      apiId: "auth.account.deletion.status",
+    };
+  }
+
+  export function getRequestAccountDeletionUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/account/deletion`,
+      apiId: "auth.account.deletion.request",
+    };
+  }
+
+  export function getCancelAccountDeletionUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/account/deletion/cancel`,
+      apiId: "auth.account.deletion.cancel",
+    };
+  }
+
+  export function getAccountExportUrl(version?: string) {
+    return {
+      url: `${getApiPrefix(version)}/account/export`,
+      apiId: "auth.account.export",
+    };
+  }
+
   // API IDs mapping để Gateway lookup nhanh
   export const API_IDS = Object.fromEntries(
     Object.entries(ROUTES).map(([_, config]) => [config.id, config])
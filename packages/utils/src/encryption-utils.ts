@@ -80,6 +80,27 @@ export function xorDecipher(encryptedData: string, key: string): string {
   }
 }
 
+// Các cặp ký tự được hoán đổi khi obfuscate. Phải là hoán đổi hai chiều vì base64
+// vốn đã chứa các ký tự đích (5-9, X), thay thế một chiều sẽ không giải mã lại được
+const OBFUSCATION_SWAPS: Record<string, string> = {
+  A: "9",
+  "9": "A",
+  B: "8",
+  "8": "B",
+  C: "7",
+  "7": "C",
+  D: "6",
+  "6": "D",
+  E: "5",
+  "5": "E",
+  "=": "X",
+  X: "=",
+};
+
+function swapObfuscationChars(data: string): string {
+  return data.replace(/[A-E5-9=X]/g, (char) => OBFUSCATION_SWAPS[char] ?? char);
+}
+
 /**
  * Base64 với obfuscation - đơn giản nhưng có thêm layer bảo mật, với Unicode support
  * @param data - Dữ liệu cần mã hóa
@@ -93,13 +114,7 @@ export function base64Obfuscate(data: string, salt: string): string {
   const encoded = btoa(utf8Data);
 
   // Simple character substitution
-  return encoded
-    .replace(/A/g, "9")
-    .replace(/B/g, "8")
-    .replace(/C/g, "7")
-    .replace(/D/g, "6")
-    .replace(/E/g, "5")
-    .replace(/=/g, "X");
+  return swapObfuscationChars(encoded);
 }
 
 /**
@@ -112,13 +127,7 @@ export function base64Deobfuscate(
   obfuscatedData: string,
   salt: string
 ): string {
-  const decoded = obfuscatedData
-    .replace(/9/g, "A")
-    .replace(/8/g, "B")
-    .replace(/7/g, "C")
-    .replace(/6/g, "D")
-    .replace(/5/g, "E")
-    .replace(/X/g, "=");
+  const decoded = swapObfuscationChars(obfuscatedData);
 
   const utf8Data = atob(decoded);
   const saltedData = decodeURIComponent(utf8Data);
@@ -225,7 +234,7 @@ export async function encryptDeviceData(
         data: jsonData,
         timestamp: getCurrentUnixTimestamp(),
         expires: config.expirationMinutes
-          ? getCurrentUnixTimestamp() + config.expirationMinutes * 60 * 1000
+          ? getCurrentUnixTimestamp() + config.expirationMinutes * 60
           : null,
       }
     : jsonData;
@@ -246,8 +255,10 @@ export async function encryptDeviceData(
 /**
  * High-level decryption function
  * @param encryptionResult - Result from encryptDeviceData
- * @param config - Encryption configuration
+ * @param config - Encryption configuration (useTimestamp bắt buộc payload có timestamp,
+ * expirationMinutes giới hạn tuổi tối đa của payload)
  * @returns Promise<any>
+ * @throws Error nếu payload đã hết hạn hoặc thiếu timestamp khi useTimestamp = true
  */
 export async function decryptDeviceData(
   encryptionResult: EncryptionResult,
@@ -267,27 +278,41 @@ export async function decryptDeviceData(
   }
 
   // Check if data has timestamp structure
+  let parsed: any;
   try {
-    const parsed = JSON.parse(decryptedData);
-
-    if (parsed.timestamp && parsed.data) {
-      // Check expiration
-      if (parsed.expires && Date.now() > parsed.expires) {
-        throw new Error("Encrypted data has expired");
-      }
+    parsed = JSON.parse(decryptedData);
+  } catch {
+    // Not JSON, return as string
+    parsed = decryptedData;
+  }
 
-      // Return the actual data
-      try {
-        return JSON.parse(parsed.data);
-      } catch {
-        return parsed.data;
-      }
+  if (!parsed?.timestamp || !parsed?.data) {
+    if (config.useTimestamp) {
+      throw new Error("Encrypted data is missing timestamp");
     }
 
     return parsed;
+  }
+
+  // Check expiration (unix seconds)
+  const now = getCurrentUnixTimestamp();
+  if (parsed.expires && now > parsed.expires) {
+    throw new Error("Encrypted data has expired");
+  }
+
+  // Bên giải mã có thể tự giới hạn tuổi của payload, không phụ thuộc expires phía client
+  if (
+    config.expirationMinutes &&
+    now > parsed.timestamp + config.expirationMinutes * 60
+  ) {
+    throw new Error("Encrypted data has expired");
+  }
+
+  // Return the actual data
+  try {
+    return JSON.parse(parsed.data);
   } catch {
-    // Not JSON, return as string
-    return decryptedData;
+    return parsed.data;
   }
 }
 
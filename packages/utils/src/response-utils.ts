@@ -129,6 +129,10 @@ const DEFAULT_MESSAGES = {
     UNAUTHORIZED: "Unauthorized access",
     FORBIDDEN: "Access forbidden",
     BAD_REQUEST: "Bad request",
+    TOO_MANY_REQUESTS: "Too many requests",
+    BAD_GATEWAY: "Bad gateway",
+    SERVICE_UNAVAILABLE: "Service unavailable",
+    GATEWAY_TIMEOUT: "Gateway timeout",
   },
   VI: {
     SUCCESS: "Yêu cầu thành công",
@@ -141,6 +145,10 @@ const DEFAULT_MESSAGES = {
     UNAUTHORIZED: "Chưa xác thực",
     FORBIDDEN: "Không có quyền truy cập",
     BAD_REQUEST: "Yêu cầu không hợp lệ",
+    TOO_MANY_REQUESTS: "Quá nhiều yêu cầu",
+    BAD_GATEWAY: "Không kết nối được dịch vụ",
+    SERVICE_UNAVAILABLE: "Dịch vụ tạm thời không khả dụng",
+    GATEWAY_TIMEOUT: "Dịch vụ phản hồi quá thời gian",
   },
 } as const;
 
@@ -156,7 +164,11 @@ export const HTTP_STATUS = {
   FORBIDDEN: 403,
   NOT_FOUND: 404,
   UNPROCESSABLE_ENTITY: 422,
+  TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
+  BAD_GATEWAY: 502,
+  SERVICE_UNAVAILABLE: 503,
+  GATEWAY_TIMEOUT: 504,
 } as const;
 
 /**
@@ -171,6 +183,11 @@ export const ERROR_CODES = {
   BAD_REQUEST: "BAD_REQUEST",
   DUPLICATE_RESOURCE: "DUPLICATE_RESOURCE",
   RESOURCE_CONFLICT: "RESOURCE_CONFLICT",
+  RATE_LIMITED: "RATE_LIMITED",
+  BAD_GATEWAY: "BAD_GATEWAY",
+  SERVICE_UNAVAILABLE: "SERVICE_UNAVAILABLE",
+  GATEWAY_TIMEOUT: "GATEWAY_TIMEOUT",
+  CIRCUIT_OPEN: "CIRCUIT_OPEN",
 } as const;
 
 // =============================================================================
@@ -508,6 +525,14 @@ function getErrorCodeByStatus(statusCode: number): string {
       return ERROR_CODES.NOT_FOUND;
     case HTTP_STATUS.UNPROCESSABLE_ENTITY:
       return ERROR_CODES.VALIDATION_ERROR;
+    case HTTP_STATUS.TOO_MANY_REQUESTS:
+      return ERROR_CODES.RATE_LIMITED;
+    case HTTP_STATUS.BAD_GATEWAY:
+      return ERROR_CODES.BAD_GATEWAY;
+    case HTTP_STATUS.SERVICE_UNAVAILABLE:
+      return ERROR_CODES.SERVICE_UNAVAILABLE;
+    case HTTP_STATUS.GATEWAY_TIMEOUT:
+      return ERROR_CODES.GATEWAY_TIMEOUT;
     default:
       return ERROR_CODES.INTERNAL_ERROR;
   }
@@ -533,6 +558,14 @@ function getDefaultErrorMessage(
       return messages.NOT_FOUND;
     case HTTP_STATUS.UNPROCESSABLE_ENTITY:
       return messages.VALIDATION_ERROR;
+    case HTTP_STATUS.TOO_MANY_REQUESTS:
+      return messages.TOO_MANY_REQUESTS;
+    case HTTP_STATUS.BAD_GATEWAY:
+      return messages.BAD_GATEWAY;
+    case HTTP_STATUS.SERVICE_UNAVAILABLE:
+      return messages.SERVICE_UNAVAILABLE;
+    case HTTP_STATUS.GATEWAY_TIMEOUT:
+      return messages.GATEWAY_TIMEOUT;
     default:
       return messages.INTERNAL_ERROR;
   }
@@ -489,6 +489,25 @@ export function isValidVietnamesePhone(phone: string): boolean {
   return VIETNAMESE_PHONE_PATTERNS.some((pattern) => pattern.test(cleanPhone));
 }
 
+/**
+ * Normalize Vietnamese phone number to E.164 format
+ * @param phone - Phone number in any supported Vietnamese format
+ * @returns Phone number as +84xxxxxxxxx, or null if invalid
+ *
+ * @example
+ * ```typescript
+ * normalizeVietnamesePhone("091 234 5678"); // "+84912345678"
+ * normalizeVietnamesePhone("84912345678"); // "+84912345678"
+ * normalizeVietnamesePhone("123"); // null
+ * ```
+ */
+export function normalizeVietnamesePhone(phone: string): string | null {
+  if (!isValidVietnamesePhone(phone)) return null;
+
+  const cleanPhone = phone.replace(REGEX_PATTERNS.PHONE_CLEANUP, "");
+  return `+84${cleanPhone.slice(-9)}`;
+}
+
 /**
  * Validate Vietnamese ID number (CCCD/CMND)
  * @param idNumber - ID number to validate